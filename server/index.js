@@ -1 +1,359 @@
-{"code":"rate-limited","message":"You have hit the rate limit. Please upgrade to keep chatting.","providerLimitHit":false,"isRetryable":true}
\ No newline at end of file
+require('dotenv').config();
+
+const crypto = require('crypto');
+const express = require('express');
+const cors = require('cors');
+const helmet = require('helmet');
+const { rateLimit } = require('express-rate-limit');
+
+const { Database } = require('./utils/database');
+const { BinanceClient, BinanceApiError } = require('./utils/binanceClient');
+const { MarketDataHub, DEFAULT_STREAM_URL } = require('./utils/marketDataHub');
+const { EventBroadcaster, bridgeMarketData } = require('./utils/eventBroadcaster');
+const { attachPushServer } = require('./utils/pushServer');
+const { sendSuccess, sendError, asyncHandler, HttpError } = require('./utils/response');
+const { requestId, requireFrontendToken } = require('./middleware/security');
+const { TokenService, requireAuth, requirePermission } = require('./middleware/auth');
+const { auditAccess } = require('./utils/auditLog');
+const { ensureBootstrapUser } = require('./utils/users');
+const { KeyVault } = require('./utils/keyVault');
+const { SEVERITIES, createNotificationService } = require('./utils/notifications');
+const { TelegramTransport } = require('./utils/notificationTransports');
+const { TelegramCommandBot } = require('./utils/telegramBot');
+const { CommandBridge } = require('./utils/commandBridge');
+const { createMarketRouter } = require('./routes/market');
+const { createTradingRouter } = require('./routes/trading');
+const { createSettingsRouter } = require('./routes/settings');
+const { createLogsRouter } = require('./routes/logs');
+const { createAnalysisRouter } = require('./routes/analysis');
+const { createAuthRouter } = require('./routes/auth');
+const { createPaperTradingRouter } = require('./routes/paperTrading');
+const { createBotRouter } = require('./routes/bot');
+
+/**
+ * مستوى خطورة من متغير بيئة مع قيمة افتراضية عند الخطأ
+ */
+function parseSeverity(value, fallback) {
+  const severity = String(value || '').toLowerCase();
+  return SEVERITIES.includes(severity) ? severity : fallback;
+}
+
+/**
+ * قراءة إعدادات الخادم من متغيرات البيئة
+ */
+function loadConfig(env = process.env) {
+  return {
+    port: parseInt(env.BACKEND_PORT || '3001', 10),
+    nodeEnv: env.NODE_ENV || 'development',
+    dryRun: env.DRY_RUN !== 'false',
+    frontendToken: env.FRONTEND_TOKEN || 'ellen-bot-secure-token',
+    corsOrigin: env.CORS_ORIGIN || 'http://localhost:5173',
+    databasePath: env.DATABASE_PATH || './logs/ellen-bot.db',
+    binanceBaseUrl: env.BINANCE_BASE_URL || 'https://testnet.binance.vision/api',
+    binanceApiKey: env.BINANCE_API_KEY || null,
+    binanceSecretKey: env.BINANCE_SECRET_KEY || null,
+    binanceRecvWindow: parseInt(env.BINANCE_RECV_WINDOW || '5000', 10),
+    binanceStreamUrl: env.BINANCE_STREAM_URL || DEFAULT_STREAM_URL,
+    marketStreamSymbols: (env.MARKET_STREAM_SYMBOLS ?? 'BTCUSDT,ETHUSDT,BNBUSDT,ADAUSDT,SOLUSDT')
+      .split(',')
+      .map(symbol => symbol.trim().toUpperCase())
+      .filter(Boolean),
+    adminUsername: env.ADMIN_USERNAME || null,
+    adminPassword: env.ADMIN_PASSWORD || null,
+    jwtSecret: env.JWT_SECRET || null,
+    jwtExpiresIn: parseInt(env.JWT_EXPIRES_IN || '900', 10),
+    jwtRefreshExpiresIn: parseInt(env.JWT_REFRESH_EXPIRES_IN || '604800', 10),
+    auditLogs: env.ENABLE_AUDIT_LOGS !== 'false',
+    encryptionKey: env.ENCRYPTION_KEY || null,
+    keyRotationGraceHours: parseFloat(env.KEY_ROTATION_GRACE_HOURS || '24'),
+    telegramBotToken: env.TELEGRAM_BOT_TOKEN || null,
+    telegramChatId: env.TELEGRAM_CHAT_ID || null,
+    // المحادثات المسموح لها بأوامر التحكم (الافتراضي محادثة التنبيهات)
+    telegramAllowedChatIds: (env.TELEGRAM_ALLOWED_CHAT_IDS || env.TELEGRAM_CHAT_ID || '')
+      .split(',')
+      .map(chatId => chatId.trim())
+      .filter(Boolean),
+    emailSmtpHost: env.EMAIL_SMTP_HOST || null,
+    emailSmtpPort: parseInt(env.EMAIL_SMTP_PORT || '587', 10),
+    emailUser: env.EMAIL_USER || null,
+    emailPass: env.EMAIL_PASS || null,
+    emailFrom: env.EMAIL_FROM || env.EMAIL_USER || null,
+    emailTo: env.EMAIL_TO || env.EMAIL_USER || null,
+    notifyTelegramMinSeverity: parseSeverity(env.NOTIFY_TELEGRAM_MIN_SEVERITY, 'info'),
+    notifyEmailMinSeverity: parseSeverity(env.NOTIFY_EMAIL_MIN_SEVERITY, 'warning'),
+    notifyThrottleSeconds: parseInt(env.NOTIFY_THROTTLE_SECONDS || '60', 10),
+    // فارغ يعطل الملخص اليومي
+    notifyDailySummaryHour: (env.NOTIFY_DAILY_SUMMARY_HOUR ?? '0') === '' ? null : parseInt(env.NOTIFY_DAILY_SUMMARY_HOUR || '0', 10),
+    rateLimitRequests: parseInt(env.RATE_LIMIT_REQUESTS || '100', 10),
+    rateLimitWindow: parseInt(env.RATE_LIMIT_WINDOW || '60000', 10)
+  };
+}
+
+/**
+ * خزنة مفاتيح Binance (null بدون ENCRYPTION_KEY: المفاتيح تبقى في الذاكرة فقط)
+ */
+function createKeyVault(config, db) {
+  if (!config.encryptionKey) return null;
+  return new KeyVault({
+    db,
+    encryptionKey: config.encryptionKey,
+    gracePeriod: config.keyRotationGraceHours * 60 * 60 * 1000
+  });
+}
+
+/**
+ * خدمة رموز الجلسات (يتشاركها التطبيق وقناة الدفع)
+ */
+function createTokenService(config, db) {
+  return new TokenService({
+    db,
+    secret: config.jwtSecret || crypto.randomBytes(32).toString('hex'), // الجلسات تنتهي بإعادة التشغيل
+    accessTokenTtl: config.jwtExpiresIn,
+    refreshTokenTtl: config.jwtRefreshExpiresIn
+  });
+}
+
+/**
+ * إنشاء تطبيق Express مع جميع المسارات
+ */
+function createApp({
+  config,
+  db,
+  binance,
+  marketData = null,
+  events = new EventBroadcaster(),
+  vault = createKeyVault(config, db),
+  commands = new CommandBridge({ events }),
+  tokens = createTokenService(config, db)
+}) {
+  const app = express();
+  const startedAt = Date.now();
+
+  // كل وصول لمسار محمي يكتب في audit_logs (بما فيه المرفوض)
+  const audit = auditAccess(db, { enabled: config.auditLogs });
+  const auth = [audit, requireAuth(tokens)];
+  const authorize = permission => [...auth, requirePermission(permission, { isTestnet: () => binance.isTestnet() })];
+  const context = { config, db, binance, vault, marketData, events, commands, tokens, audit, auth, authorize };
+
+  app.disable('x-powered-by');
+  app.use(helmet());
+  app.use(cors({
+    origin: config.corsOrigin === '*' ? true : config.corsOrigin.split(',').map(origin => origin.trim()),
+    allowedHeaders: ['Content-Type', 'Accept', 'Authorization', 'X-Frontend-Token', 'X-Request-ID']
+  }));
+  app.use(express.json({ limit: '5mb' })); // لقطات المحاكاة قد تحمل سجل أوامر طويل
+  app.use(requestId());
+
+  const api = express.Router();
+
+  api.use(rateLimit({
+    windowMs: config.rateLimitWindow,
+    limit: config.rateLimitRequests,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    handler: (req, res) => sendError(req, res, 429, 'Too many requests, please slow down')
+  }));
+
+  // مسارات عامة (بدون رمز الواجهة)
+  api.get('/health', (req, res) => {
+    sendSuccess(req, res, {
+      status: 'ok',
+      dryRun: config.dryRun,
+      testnet: binance.isTestnet(),
+      marketStream: marketData ? marketData.connected : false,
+      uptime: Math.round((Date.now() - startedAt) / 1000)
+    });
+  });
+
+  api.get('/binance/test', asyncHandler(async (req, res) => {
+    const started = Date.now();
+    const serverTime = await binance.publicRequest('/v3/time');
+    sendSuccess(req, res, {
+      reachable: true,
+      testnet: binance.isTestnet(),
+      latency: Date.now() - started,
+      serverTime: serverTime.serverTime
+    });
+  }));
+
+  // جميع المسارات التالية تتطلب X-Frontend-Token
+  api.use(requireFrontendToken(config.frontendToken));
+
+  api.get('/stats', asyncHandler(async (req, res) => {
+    const [trades, decisions, risk] = await Promise.all([
+      db.get('SELECT COUNT(*) AS count FROM trade_logs'),
+      db.get('SELECT COUNT(*) AS count FROM decision_logs'),
+      db.get('SELECT COUNT(*) AS count FROM risk_logs')
+    ]);
+
+    sendSuccess(req, res, {
+      uptime: Math.round((Date.now() - startedAt) / 1000),
+      memory: process.memoryUsage().rss,
+      dryRun: config.dryRun,
+      binanceConfigured: binance.hasCredentials(),
+      rateLimiter: binance.rateLimiter.getStats(),
+      logs: {
+        trades: trades.count,
+        decisions: decisions.count,
+        risk: risk.count
+      }
+    });
+  }));
+
+  api.use(createAuthRouter(context));
+  api.use(createMarketRouter(context));
+  api.use(createTradingRouter(context));
+  api.use(createSettingsRouter(context));
+  api.use(createLogsRouter(context));
+  api.use(createAnalysisRouter(context));
+  api.use(createPaperTradingRouter(context));
+  api.use(createBotRouter(context));
+
+  app.use('/api', api);
+
+  // مسار غير موجود
+  app.use((req, res) => {
+    sendError(req, res, 404, `Route not found: ${req.method} ${req.path}`);
+  });
+
+  // معالج الأخطاء العام
+  app.use((err, req, res, next) => {
+    if (err instanceof HttpError) {
+      sendError(req, res, err.status, err.message, err.code !== undefined ? { code: err.code } : {});
+      return;
+    }
+
+    if (err instanceof BinanceApiError) {
+      const status = err.status >= 400 && err.status < 500 && err.status !== 429 ? 400 : 502;
+      console.warn(`[BINANCE] ${req.method} ${req.path} failed: ${err.code} ${err.message}`);
+      // upstream يخبر الواجهة أن الخادم يعمل وأن العطل في Binance (حتى لا يفتح قاطع backend)
+      sendError(req, res, status, err.message, { code: err.code, ...(status === 502 ? { upstream: 'binance-rest' } : {}) });
+      return;
+    }
+
+    if (err.type === 'entity.parse.failed') {
+      sendError(req, res, 400, 'Invalid JSON body');
+      return;
+    }
+
+    console.error(`[BACKEND] Unhandled error on ${req.method} ${req.path}:`, err);
+    sendError(req, res, 500, 'Internal server error');
+  });
+
+  return app;
+}
+
+/**
+ * تشغيل الخادم
+ */
+async function startServer(config = loadConfig()) {
+  if (config.nodeEnv === 'production' && (!config.jwtSecret || config.jwtSecret.length < 32)) {
+    throw new Error('JWT_SECRET must be at least 32 characters in production');
+  }
+  if (!config.jwtSecret) {
+    console.warn('[AUTH] JWT_SECRET is not set, using a random secret (sessions end on restart)');
+  }
+
+  const db = await new Database(config.databasePath).open();
+  await ensureBootstrapUser(db, config);
+  const binance = new BinanceClient({
+    baseUrl: config.binanceBaseUrl,
+    apiKey: config.binanceApiKey,
+    secretKey: config.binanceSecretKey,
+    recvWindow: config.binanceRecvWindow
+  });
+
+  // المجموعة النشطة المحفوظة في الخزنة لها أولوية على BINANCE_API_KEY
+  const vault = createKeyVault(config, db);
+  if (vault) {
+    await vault.purgeExpired();
+    const credentials = await vault.getCredentials(binance.isTestnet() ? 'testnet' : 'live');
+    if (credentials) {
+      binance.setCredentials(credentials.apiKey, credentials.secretKey);
+      console.log(`[SETTINGS] Loaded ${credentials.keySet.name} key set ${credentials.keySet.apiKeyHint} from the vault`);
+    }
+  } else {
+    console.warn('[SECURITY] ENCRYPTION_KEY is not set, Binance API keys set at runtime are kept in memory only');
+  }
+
+  const events = new EventBroadcaster();
+
+  // دفاتر الأوامر المحلية للأزواج المتابعة (MARKET_STREAM_SYMBOLS فارغ يعطل التدفق)
+  let marketData = null;
+  if (config.marketStreamSymbols.length > 0) {
+    marketData = new MarketDataHub({
+      streamUrl: config.binanceStreamUrl,
+      fetchSnapshot: (symbol, limit) => binance.publicRequest('/v3/depth', { symbol, limit })
+    });
+    config.marketStreamSymbols.forEach(symbol => marketData.watch(symbol));
+    bridgeMarketData(marketData, events);
+  }
+
+  const commands = new CommandBridge({ events });
+  const tokens = createTokenService(config, db);
+  const app = createApp({ config, db, binance, marketData, events, vault, commands, tokens });
+
+  // تنبيهات Telegram والبريد (معطلة إذا لم تضبط أي قناة)
+  const notifications = createNotificationService(config, { events, db });
+  if (notifications) notifications.start();
+
+  // أوامر التحكم عن بعد عبر Telegram (تتطلب محادثة مسموح بها على الأقل)
+  let telegramBot = null;
+  if (config.telegramBotToken && config.telegramAllowedChatIds.length > 0) {
+    telegramBot = new TelegramCommandBot({
+      transport: new TelegramTransport({ botToken: config.telegramBotToken }),
+      commands,
+      allowedChatIds: config.telegramAllowedChatIds,
+      db
+    });
+    telegramBot.start();
+  }
+
+  const server = await new Promise((resolve, reject) => {
+    const instance = app.listen(config.port, () => resolve(instance));
+    instance.on('error', reject);
+  });
+
+  const push = attachPushServer(server, {
+    events,
+    marketData,
+    binance,
+    tokens,
+    frontendToken: config.frontendToken,
+    isTestnet: () => binance.isTestnet()
+  });
+
+  console.log(`[BACKEND] Ellen Bot backend listening on port ${server.address().port}`);
+  console.log(`[BACKEND] Mode: ${config.dryRun ? 'DRY_RUN' : 'LIVE'} | Binance: ${config.binanceBaseUrl}`);
+
+  const shutdown = async () => {
+    console.log('[BACKEND] Shutting down...');
+    await push.close();
+    if (notifications) notifications.stop();
+    if (telegramBot) telegramBot.stop();
+    server.close();
+    if (marketData) marketData.close();
+    await db.close();
+  };
+
+  return { app, server, db, binance, vault, marketData, events, push, notifications, telegramBot, shutdown };
+}
+
+if (require.main === module) {
+  startServer()
+    .then(({ shutdown }) => {
+      const stop = () => shutdown().finally(() => process.exit(0));
+      process.on('SIGINT', stop);
+      process.on('SIGTERM', stop);
+    })
+    .catch((error) => {
+      console.error('[BACKEND] Failed to start server:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = {
+  loadConfig,
+  createApp,
+  startServer
+};
@@ -0,0 +1,166 @@
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+const { sendError } = require('../utils/response');
+const { JwtError, signJwt, verifyJwt } = require('../utils/jwt');
+const { hasPermission, findUserById } = require('../utils/users');
+
+const ACCESS_TOKEN_TTL = 15 * 60; // ثوان
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // ثوان
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * إصدار رموز الوصول (JWT قصير العمر) ورموز التجديد (عشوائية، تحفظ بصمتها في SQLite)
+ * رمز الوصول يحمل معرف رمز التجديد (sid)، والحدث revoked يبلغ عن الجلسات الملغاة
+ */
+class TokenService extends EventEmitter {
+  constructor({ db, secret, accessTokenTtl = ACCESS_TOKEN_TTL, refreshTokenTtl = REFRESH_TOKEN_TTL }) {
+    super();
+    if (!secret) {
+      throw new Error('TokenService requires a JWT secret');
+    }
+    this.db = db;
+    this.secret = secret;
+    this.accessTokenTtl = accessTokenTtl;
+    this.refreshTokenTtl = refreshTokenTtl;
+  }
+
+  /**
+   * إصدار زوج رموز جديد للمستخدم
+   */
+  async issue(user) {
+    const now = Date.now();
+    const sessionId = crypto.randomUUID();
+    const token = signJwt(
+      { sub: user.id, username: user.username, role: user.role, sid: sessionId },
+      this.secret,
+      { expiresIn: this.accessTokenTtl }
+    );
+
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    const refreshExpiresAt = new Date(now + this.refreshTokenTtl * 1000).toISOString();
+    await this.db.run(
+      `INSERT INTO refresh_tokens (id, user_id, token_hash, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [sessionId, user.id, hashToken(refreshToken), refreshExpiresAt, new Date(now).toISOString()]
+    );
+
+    return {
+      token,
+      expiresAt: new Date(now + this.accessTokenTtl * 1000).toISOString(),
+      refreshToken,
+      refreshExpiresAt,
+      user: { id: user.id, username: user.username, role: user.role }
+    };
+  }
+
+  /**
+   * التحقق من رمز الوصول وإرجاع المستخدم
+   */
+  verifyAccessToken(token) {
+    return this.verifySession(token).user;
+  }
+
+  /**
+   * التحقق من رمز الوصول مع معرف الجلسة ووقت انتهائه (للاتصالات الطويلة مثل قناة الدفع)
+   */
+  verifySession(token) {
+    const payload = verifyJwt(token, this.secret);
+    return {
+      user: { id: payload.sub, username: payload.username, role: payload.role },
+      sessionId: payload.sid || null,
+      expiresAt: payload.exp * 1000
+    };
+  }
+
+  /**
+   * تدوير رمز التجديد: إلغاء القديم وإصدار زوج جديد (null إن كان غير صالح)
+   */
+  async rotate(refreshToken) {
+    const row = await this.db.get('SELECT * FROM refresh_tokens WHERE token_hash = ?', [hashToken(String(refreshToken))]);
+    if (!row || row.revoked_at || row.expires_at <= new Date().toISOString()) {
+      return null;
+    }
+
+    const user = await findUserById(this.db, row.user_id);
+    if (!user || user.disabled) {
+      return null;
+    }
+
+    await this.db.run('UPDATE refresh_tokens SET revoked_at = ? WHERE id = ?', [new Date().toISOString(), row.id]);
+    return this.issue(user);
+  }
+
+  /**
+   * إلغاء رمز تجديد (تسجيل الخروج)
+   */
+  async revoke(refreshToken) {
+    const row = await this.db.get(
+      'SELECT id FROM refresh_tokens WHERE token_hash = ? AND revoked_at IS NULL',
+      [hashToken(String(refreshToken))]
+    );
+    if (!row) return false;
+
+    await this.db.run('UPDATE refresh_tokens SET revoked_at = ? WHERE id = ?', [new Date().toISOString(), row.id]);
+    this.emit('revoked', row.id);
+    return true;
+  }
+}
+
+/**
+ * استخراج Bearer token من الطلب
+ */
+function extractBearerToken(req) {
+  const header = req.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * التحقق من رمز وصول JWT صالح
+ */
+function requireAuth(tokens) {
+  return (req, res, next) => {
+    const token = extractBearerToken(req);
+    if (!token) {
+      sendError(req, res, 401, 'Authentication required');
+      return;
+    }
+
+    try {
+      req.user = tokens.verifyAccessToken(token);
+    } catch (error) {
+      if (!(error instanceof JwtError)) throw error;
+      // الواجهة تجدد الجلسة عند TOKEN_EXPIRED
+      sendError(req, res, 401, error.message, error.reason === 'expired' ? { code: 'TOKEN_EXPIRED' } : {});
+      return;
+    }
+
+    req.authToken = token;
+    next();
+  };
+}
+
+/**
+ * التحقق من صلاحية الدور (بعد requireAuth)
+ */
+function requirePermission(permission, { isTestnet = () => false } = {}) {
+  return (req, res, next) => {
+    req.requiredPermission = permission;
+
+    if (!req.user || !hasPermission(req.user.role, permission, { testnet: isTestnet() })) {
+      console.warn(`[SECURITY] ${req.user ? req.user.username : 'anonymous'} denied ${permission}: ${req.method} ${req.originalUrl}`);
+      sendError(req, res, 403, `Permission denied: ${permission}`);
+      return;
+    }
+
+    next();
+  };
+}
+
+module.exports = {
+  TokenService,
+  extractBearerToken,
+  requireAuth,
+  requirePermission
+};
@@ -0,0 +1,48 @@
+const crypto = require('crypto');
+const { sendError } = require('../utils/response');
+
+/**
+ * مقارنة نصين بزمن ثابت لتجنب هجمات التوقيت
+ */
+function safeEqual(a, b) {
+  const hashA = crypto.createHash('sha256').update(String(a)).digest();
+  const hashB = crypto.createHash('sha256').update(String(b)).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * إرفاق معرف الطلب (من X-Request-ID أو مولد محلياً)
+ */
+function requestId() {
+  return (req, res, next) => {
+    const incoming = req.get('X-Request-ID');
+    req.requestId = incoming && incoming.length <= 100
+      ? incoming
+      : `req_${Date.now()}_${crypto.randomBytes(5).toString('hex')}`;
+    res.set('X-Request-ID', req.requestId);
+    next();
+  };
+}
+
+/**
+ * التحقق من رمز الواجهة X-Frontend-Token
+ */
+function requireFrontendToken(expectedToken) {
+  return (req, res, next) => {
+    const token = req.get('X-Frontend-Token');
+
+    if (!token || !safeEqual(token, expectedToken)) {
+      console.warn(`[SECURITY] Rejected request without valid frontend token: ${req.method} ${req.originalUrl}`);
+      sendError(req, res, 401, 'Invalid or missing X-Frontend-Token');
+      return;
+    }
+
+    next();
+  };
+}
+
+module.exports = {
+  safeEqual,
+  requestId,
+  requireFrontendToken
+};
@@ -0,0 +1,18 @@
+/*
+  # Paper Trading State
+
+  1. New Tables
+    - `paper_trading_state` - آخر لقطة لحساب المحاكاة وأوامره
+
+  2. Features
+    - حفظ اللقطة كـ JSON مع رقم إصدار المخطط
+    - استعادة حساب المحاكاة بعد إعادة تحميل الواجهة
+*/
+
+-- جدول لقطات حساب المحاكاة
+CREATE TABLE IF NOT EXISTS paper_trading_state (
+  id TEXT PRIMARY KEY,
+  schema_version INTEGER NOT NULL,
+  state TEXT NOT NULL, -- JSON string
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,53 @@
+/*
+  # Users, Refresh Tokens and Audit Log
+
+  1. New Tables
+    - `users` - حسابات المستخدمين مع الدور (lead, backend, frontend, tester)
+    - `refresh_tokens` - رموز التجديد (تحفظ بصمة SHA-256 فقط)
+    - `audit_logs` - سجل كل وصول إلى المسارات المحمية وعمليات المصادقة
+
+  2. Security
+    - كلمات المرور مجزأة بـ scrypt مع salt لكل مستخدم
+    - رموز التجديد لا تحفظ كنص صريح وتلغى عند التدوير
+*/
+
+-- جدول المستخدمين
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  username TEXT UNIQUE NOT NULL,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('lead', 'backend', 'frontend', 'tester')),
+  disabled BOOLEAN DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- جدول رموز التجديد
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at TEXT NOT NULL,
+  revoked_at TEXT,
+  created_at TEXT NOT NULL
+);
+
+-- جدول سجل المراجعة
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id TEXT PRIMARY KEY,
+  timestamp TEXT NOT NULL,
+  user_id TEXT,
+  username TEXT,
+  role TEXT,
+  action TEXT NOT NULL,
+  permission TEXT,
+  status INTEGER,
+  success BOOLEAN NOT NULL,
+  ip_address TEXT,
+  request_id TEXT,
+  details TEXT -- JSON string
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_username ON audit_logs(username);
@@ -0,0 +1,33 @@
+/*
+  # Binance API Key Vault
+
+  1. New Tables
+    - `api_key_sets` - مجموعات مفاتيح Binance المسماة (testnet / live) مشفرة بـ AES-256-GCM
+
+  2. Security
+    - المفتاح والسر لا يحفظان إلا مشفرين بـ ENCRYPTION_KEY
+    - المجموعة القديمة تبقى retiring خلال فترة السماح ثم تمسح نصوصها المشفرة
+
+  3. Features
+    - مجموعة active واحدة لكل اسم
+    - حفظ صلاحيات الحساب من آخر تحقق عبر /api/v3/account
+*/
+
+-- جدول مجموعات المفاتيح
+CREATE TABLE IF NOT EXISTS api_key_sets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL CHECK (name IN ('testnet', 'live')),
+  status TEXT NOT NULL CHECK (status IN ('active', 'retiring', 'revoked')),
+  api_key_encrypted TEXT,
+  secret_key_encrypted TEXT,
+  api_key_hint TEXT NOT NULL, -- أول وآخر 4 أحرف فقط
+  permissions TEXT, -- JSON array
+  can_trade BOOLEAN DEFAULT 0,
+  validated_at TEXT NOT NULL,
+  retire_after TEXT,
+  revoked_at TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_sets_name_status ON api_key_sets(name, status);
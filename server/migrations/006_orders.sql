@@ -0,0 +1,36 @@
+/*
+  # Order Lifecycle
+
+  1. New Tables
+    - `orders` - دورة حياة الأوامر (محاكاة وحقيقية) بمفتاح clientOrderId
+
+  2. Features
+    - clientOrderId يرسل كـ newClientOrderId لـ Binance ويمنع الإرسال المكرر عند إعادة المحاولة
+    - الحالات: NEW → PARTIALLY_FILLED → FILLED / CANCELED / REJECTED / EXPIRED
+*/
+
+-- جدول الأوامر
+CREATE TABLE IF NOT EXISTS orders (
+  client_order_id TEXT PRIMARY KEY,
+  order_id TEXT,
+  mode TEXT NOT NULL CHECK (mode IN ('PAPER', 'LIVE')),
+  symbol TEXT NOT NULL,
+  side TEXT NOT NULL,
+  type TEXT NOT NULL,
+  quantity REAL NOT NULL,
+  price REAL,
+  time_in_force TEXT,
+  status TEXT NOT NULL CHECK (status IN ('NEW', 'PARTIALLY_FILLED', 'FILLED', 'CANCELED', 'REJECTED', 'EXPIRED')),
+  executed_qty REAL DEFAULT 0,
+  avg_price REAL,
+  fees REAL DEFAULT 0,
+  strategy TEXT,
+  reason TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+CREATE INDEX IF NOT EXISTS idx_orders_symbol ON orders(symbol);
+CREATE INDEX IF NOT EXISTS idx_orders_order_id ON orders(order_id);
@@ -0,0 +1,12 @@
+/*
+  # Order Submission Lock
+
+  1. Changes
+    - `orders.submitting_at` - وقت بدء إرسال الأمر إلى Binance (NULL بعد تسجيل أي نتيجة)
+
+  2. Features
+    - إعادة المحاولة أثناء الإرسال ترفض بدلاً من الاستعلام عن أمر لم يصل إلى Binance بعد
+    - الحجز الأقدم من مهلة الإرسال يعتبر متروكاً (توقف الخادم أثناء الإرسال) فيطابق عبر origClientOrderId
+*/
+
+ALTER TABLE orders ADD COLUMN submitting_at TEXT;
@@ -0,0 +1,63 @@
+const crypto = require('crypto');
+const express = require('express');
+const { sendSuccess, asyncHandler, HttpError } = require('../utils/response');
+const { parseSymbol } = require('./market');
+const { insertDecisionLog } = require('./logs');
+
+/**
+ * مسارات التحليل وإشارات التداول
+ */
+function createAnalysisRouter({ db, events }) {
+  const router = express.Router();
+
+  // استقبال إشارة تداول وحفظها في سجل القرارات
+  router.post('/analysis/signal', asyncHandler(async (req, res) => {
+    const body = req.body || {};
+    const symbol = parseSymbol(body.symbol);
+    const action = String(body.action || '').toUpperCase();
+    const price = Number(body.price);
+    const confidence = Number(body.confidence);
+
+    if (!['BUY', 'SELL', 'HOLD'].includes(action)) {
+      throw new HttpError(400, 'action must be BUY, SELL or HOLD');
+    }
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new HttpError(400, 'price must be a positive number');
+    }
+    if (!Number.isFinite(confidence) || confidence < 0) {
+      throw new HttpError(400, 'confidence must be a non-negative number');
+    }
+
+    const signal = {
+      id: crypto.randomUUID(),
+      symbol,
+      action,
+      price,
+      confidence,
+      reason: String(body.reason || ''),
+      timestamp: new Date().toISOString(),
+      strategy: body.strategy || 'manual',
+      metadata: body.metadata || {}
+    };
+
+    await insertDecisionLog(db, {
+      id: signal.id,
+      symbol: signal.symbol,
+      strategy: signal.strategy,
+      decision: signal.action,
+      confidence: signal.confidence,
+      reasons: signal.reason ? [signal.reason] : [],
+      timestamp: signal.timestamp,
+      metadata: { ...signal.metadata, price: signal.price }
+    });
+
+    events.publish('signal', signal);
+    sendSuccess(req, res, signal, 201);
+  }));
+
+  return router;
+}
+
+module.exports = {
+  createAnalysisRouter
+};
@@ -0,0 +1,83 @@
+const express = require('express');
+const { sendSuccess, asyncHandler, HttpError } = require('../utils/response');
+const { ROLE_PERMISSIONS, verifyPassword, createUser, findUserByUsername, listUsers } = require('../utils/users');
+const { queryAuditLog } = require('../utils/auditLog');
+
+/**
+ * مسارات المصادقة وإدارة المستخدمين وسجل المراجعة
+ */
+function createAuthRouter({ db, tokens, audit, auth, authorize }) {
+  const router = express.Router();
+
+  // تسجيل الدخول والحصول على رمز وصول ورمز تجديد
+  router.post('/auth/login', audit, asyncHandler(async (req, res) => {
+    const { username, password } = req.body || {};
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      throw new HttpError(400, 'username and password are required');
+    }
+
+    req.auditDetails = { username };
+    const user = await findUserByUsername(db, username);
+    const validPassword = user ? await verifyPassword(password, user.password_hash) : false;
+    if (!user || !validPassword || user.disabled) {
+      console.warn(`[AUTH] Failed login attempt for "${username}"`);
+      throw new HttpError(401, 'Invalid credentials');
+    }
+
+    const session = await tokens.issue(user);
+    req.user = session.user;
+    console.log(`[AUTH] User "${username}" (${user.role}) logged in`);
+    sendSuccess(req, res, session);
+  }));
+
+  // تجديد الجلسة بتدوير رمز التجديد
+  router.post('/auth/refresh', audit, asyncHandler(async (req, res) => {
+    const { refreshToken } = req.body || {};
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      throw new HttpError(400, 'refreshToken is required');
+    }
+
+    const session = await tokens.rotate(refreshToken);
+    if (!session) {
+      throw new HttpError(401, 'Invalid or expired refresh token');
+    }
+
+    req.user = session.user;
+    sendSuccess(req, res, session);
+  }));
+
+  // تسجيل الخروج وإلغاء رمز التجديد
+  router.post('/auth/logout', auth, asyncHandler(async (req, res) => {
+    const { refreshToken } = req.body || {};
+    const revoked = typeof refreshToken === 'string' ? await tokens.revoke(refreshToken) : false;
+    sendSuccess(req, res, { loggedOut: true, revoked });
+  }));
+
+  // المستخدم الحالي وصلاحياته
+  router.get('/auth/me', auth, (req, res) => {
+    sendSuccess(req, res, { ...req.user, permissions: ROLE_PERMISSIONS[req.user.role] || [] });
+  });
+
+  router.get('/auth/users', authorize('users:manage'), asyncHandler(async (req, res) => {
+    sendSuccess(req, res, await listUsers(db));
+  }));
+
+  router.post('/auth/users', authorize('users:manage'), asyncHandler(async (req, res) => {
+    const { username, password, role } = req.body || {};
+    req.auditDetails = { username, role };
+    const user = await createUser(db, { username, password, role });
+    console.log(`[AUTH] ${req.user.username} created user "${user.username}" (${user.role})`);
+    sendSuccess(req, res, user, 201);
+  }));
+
+  router.get('/audit', authorize('audit:read'), asyncHandler(async (req, res) => {
+    sendSuccess(req, res, await queryAuditLog(db, req.query));
+  }));
+
+  return router;
+}
+
+module.exports = {
+  createAuthRouter
+};
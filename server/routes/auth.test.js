@@ -0,0 +1,132 @@
+const { createApp, loadConfig } = require('../index');
+const { Database } = require('../utils/database');
+const { BinanceClient } = require('../utils/binanceClient');
+const { createUser } = require('../utils/users');
+
+describe('Auth routes', () => {
+  let db;
+  let server;
+  let baseUrl;
+
+  const request = async (method, path, { body, token } = {}) => {
+    const response = await fetch(`${baseUrl}/api${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Frontend-Token': 'test-token',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const login = async (username, password = 'password-123') => {
+    const { status, body } = await request('POST', '/auth/login', { body: { username, password } });
+    expect(status).toBe(200);
+    return body.data;
+  };
+
+  const start = async (env = {}) => {
+    const config = loadConfig({ FRONTEND_TOKEN: 'test-token', JWT_SECRET: 'x'.repeat(32), ...env });
+    // المسار يحتوي على testnet حتى تنطبق صلاحيات المختبر المشروطة
+    const binance = new BinanceClient({ baseUrl: 'http://127.0.0.1:1/testnet' });
+    const app = createApp({ config, db, binance });
+    server = await new Promise(resolve => {
+      const instance = app.listen(0, () => resolve(instance));
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    db = await new Database(':memory:').open();
+    for (const role of ['lead', 'backend', 'frontend', 'tester']) {
+      await createUser(db, { username: role, password: 'password-123', role });
+    }
+  });
+
+  afterEach(async () => {
+    if (server) await new Promise(resolve => server.close(resolve));
+    server = null;
+    await db.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should issue, refresh and revoke sessions', async () => {
+    await start();
+
+    expect((await request('POST', '/auth/login', { body: { username: 'lead', password: 'wrong-password' } })).status).toBe(401);
+
+    const session = await login('lead');
+    expect(session.user).toMatchObject({ username: 'lead', role: 'lead' });
+
+    const me = await request('GET', '/auth/me', { token: session.token });
+    expect(me.body.data.permissions).toContain('keys:manage');
+    expect((await request('GET', '/auth/me', { token: `${session.token}x` })).status).toBe(401);
+
+    // التدوير يلغي رمز التجديد القديم
+    const refreshed = await request('POST', '/auth/refresh', { body: { refreshToken: session.refreshToken } });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.data.refreshToken).not.toBe(session.refreshToken);
+    expect((await request('POST', '/auth/refresh', { body: { refreshToken: session.refreshToken } })).status).toBe(401);
+
+    const logout = await request('POST', '/auth/logout', {
+      token: refreshed.body.data.token,
+      body: { refreshToken: refreshed.body.data.refreshToken }
+    });
+    expect(logout.body.data.revoked).toBe(true);
+    expect((await request('POST', '/auth/refresh', { body: { refreshToken: refreshed.body.data.refreshToken } })).status).toBe(401);
+  });
+
+  test('should report expired access tokens with TOKEN_EXPIRED', async () => {
+    await start({ JWT_EXPIRES_IN: '0' });
+    const session = await login('frontend');
+
+    const response = await request('GET', '/settings/trading', { token: session.token });
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('TOKEN_EXPIRED');
+  });
+
+  test('should enforce role permissions on settings and key management', async () => {
+    await start();
+    const frontend = await login('frontend');
+    const backend = await login('backend');
+    const tester = await login('tester');
+
+    expect((await request('GET', '/settings/trading')).status).toBe(401);
+    expect((await request('GET', '/settings/trading', { token: frontend.token })).status).toBe(200);
+    expect((await request('PUT', '/settings/trading', { token: frontend.token, body: { maxDailyLoss: 50 } })).status).toBe(403);
+    expect((await request('PUT', '/settings/trading', { token: backend.token, body: { maxDailyLoss: 50 } })).status).toBe(200);
+
+    expect((await request('DELETE', '/settings/binance-api-keys', { token: backend.token })).status).toBe(403);
+    expect((await request('GET', '/binance/connection-status', { token: frontend.token })).status).toBe(403);
+    expect((await request('DELETE', '/settings/binance-api-keys', { token: tester.token })).status).toBe(200);
+
+    // المختبر يدير مجموعة testnet فقط حتى لو كان العميل الحالي على Testnet
+    const liveKeys = { apiKey: 'live-key', secretKey: 'live-secret', name: 'live' };
+    expect((await request('POST', '/settings/binance-api-keys', { token: tester.token, body: liveKeys })).status).toBe(403);
+    expect((await request('DELETE', '/settings/binance-api-keys?name=live', { token: tester.token })).status).toBe(403);
+  });
+
+  test('should write every protected access to the audit log', async () => {
+    await start();
+    await request('POST', '/auth/login', { body: { username: 'backend', password: 'wrong-password' } });
+    const frontend = await login('frontend');
+    await request('PUT', '/settings/trading', { token: frontend.token, body: { maxDailyLoss: 50 } });
+
+    const lead = await login('lead');
+    expect((await request('GET', '/audit', { token: frontend.token })).status).toBe(403);
+
+    // الكتابة تتم بعد انتهاء الاستجابة
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const { body } = await request('GET', '/audit', { token: lead.token });
+
+    expect(body.data).toEqual(expect.arrayContaining([
+      expect.objectContaining({ action: 'POST /api/auth/login', status: 401, success: false, details: { username: 'backend' } }),
+      expect.objectContaining({ action: 'PUT /api/settings/trading', username: 'frontend', role: 'frontend', permission: 'settings:write', status: 403 }),
+      expect.objectContaining({ action: 'GET /api/audit', username: 'frontend', success: false })
+    ]));
+  });
+});
@@ -0,0 +1,28 @@
+const express = require('express');
+const { sendSuccess, asyncHandler } = require('../utils/response');
+
+/**
+ * مسارات تنفيذ أوامر التحكم عن بعد من واجهة التداول
+ */
+function createBotRouter({ commands, authorize }) {
+  const router = express.Router();
+
+  // الواجهة تحجز الأمر قبل تنفيذه (أول واجهة فقط تحصل عليه)
+  router.post('/bot/commands/:id/claim', authorize('trading:write'), asyncHandler(async (req, res) => {
+    const command = commands.claim(req.params.id);
+    req.auditDetails = { command };
+    sendSuccess(req, res, { claimed: true, command });
+  }));
+
+  router.post('/bot/commands/:id/result', authorize('trading:write'), asyncHandler(async (req, res) => {
+    const body = req.body || {};
+    commands.complete(req.params.id, { ok: body.ok, message: body.message });
+    sendSuccess(req, res, { completed: true });
+  }));
+
+  return router;
+}
+
+module.exports = {
+  createBotRouter
+};
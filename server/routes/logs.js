@@ -0,0 +1,342 @@
+const crypto = require('crypto');
+const express = require('express');
+const { parseJson } = require('../utils/database');
+const { sendSuccess, asyncHandler, HttpError } = require('../utils/response');
+const { parseLimit } = require('./market');
+
+/**
+ * أعمدة الفلترة المسموح بها لكل نوع سجل
+ */
+const LOG_TABLES = {
+  trades: { table: 'trade_logs', filters: ['symbol', 'strategy'] },
+  decisions: { table: 'decision_logs', filters: ['symbol', 'strategy'] },
+  risk: { table: 'risk_logs', filters: [] },
+  system: { table: 'system_logs', filters: ['level', 'source'] }
+};
+
+const SYSTEM_LOG_LEVELS = ['DEBUG', 'INFO', 'WARN', 'ERROR'];
+
+/**
+ * تحويل قيمة اختيارية إلى رقم أو null
+ */
+function toNumber(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * تحويل صف trade_logs إلى TradeLogEntry
+ */
+function mapTradeRow(row) {
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    action: row.action,
+    price: row.price,
+    size: row.size,
+    reason: row.reason,
+    confidence: row.confidence,
+    timestamp: row.timestamp,
+    strategy: row.strategy,
+    isDryRun: Boolean(row.is_dry_run),
+    orderId: row.order_id,
+    executedPrice: row.executed_price,
+    executedSize: row.executed_size,
+    fees: row.fees,
+    status: row.status,
+    metadata: parseJson(row.metadata, {})
+  };
+}
+
+/**
+ * تحويل صف decision_logs إلى DecisionLogEntry
+ */
+function mapDecisionRow(row) {
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    strategy: row.strategy,
+    marketCondition: row.market_condition,
+    indicators: parseJson(row.indicators, {}),
+    decision: row.decision,
+    confidence: row.confidence,
+    reasons: parseJson(row.reasons, []),
+    timestamp: row.timestamp,
+    processingTime: row.processing_time,
+    metadata: parseJson(row.metadata, {})
+  };
+}
+
+/**
+ * تحويل صف risk_logs إلى RiskLogEntry
+ */
+function mapRiskRow(row) {
+  return {
+    id: row.id,
+    action: row.action,
+    currentDrawdown: row.current_drawdown,
+    dailyLoss: row.daily_loss,
+    positionSize: row.position_size,
+    riskLevel: row.risk_level,
+    approved: Boolean(row.approved),
+    reason: row.reason,
+    timestamp: row.timestamp,
+    metadata: parseJson(row.metadata, {})
+  };
+}
+
+/**
+ * تحويل صف system_logs
+ */
+function mapSystemRow(row) {
+  return {
+    id: row.id,
+    level: row.level,
+    type: row.type,
+    message: row.message,
+    source: row.source,
+    timestamp: row.timestamp,
+    metadata: parseJson(row.metadata, {})
+  };
+}
+
+const ROW_MAPPERS = {
+  trades: mapTradeRow,
+  decisions: mapDecisionRow,
+  risk: mapRiskRow,
+  system: mapSystemRow
+};
+
+/**
+ * حفظ سجل صفقة
+ */
+async function insertTradeLog(db, entry) {
+  if (!entry || !entry.action) {
+    throw new HttpError(400, 'Trade log requires action');
+  }
+
+  const id = entry.id || crypto.randomUUID();
+  await db.run(
+    `INSERT OR REPLACE INTO trade_logs
+      (id, symbol, action, price, size, reason, confidence, timestamp, strategy, is_dry_run,
+       order_id, executed_price, executed_size, fees, status, metadata)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      entry.symbol || 'UNKNOWN',
+      entry.action,
+      toNumber(entry.price),
+      toNumber(entry.size ?? entry.quantity),
+      entry.reason || null,
+      toNumber(entry.confidence),
+      entry.timestamp || new Date().toISOString(),
+      entry.strategy || null,
+      entry.isDryRun === false ? 0 : 1,
+      entry.orderId != null ? String(entry.orderId) : null,
+      toNumber(entry.executedPrice),
+      toNumber(entry.executedSize),
+      toNumber(entry.fees),
+      entry.status || 'PENDING',
+      entry.metadata ? JSON.stringify(entry.metadata) : null
+    ]
+  );
+  return id;
+}
+
+/**
+ * حفظ سجل قرار
+ */
+async function insertDecisionLog(db, entry) {
+  if (!entry || !entry.symbol || !entry.strategy || !entry.decision) {
+    throw new HttpError(400, 'Decision log requires symbol, strategy and decision');
+  }
+
+  const id = entry.id || crypto.randomUUID();
+  await db.run(
+    `INSERT OR REPLACE INTO decision_logs
+      (id, symbol, strategy, market_condition, indicators, decision, confidence, reasons,
+       timestamp, processing_time, metadata)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      entry.symbol,
+      entry.strategy,
+      entry.marketCondition || null,
+      JSON.stringify(entry.indicators || {}),
+      entry.decision,
+      toNumber(entry.confidence),
+      JSON.stringify(entry.reasons || []),
+      entry.timestamp || new Date().toISOString(),
+      toNumber(entry.processingTime),
+      entry.metadata ? JSON.stringify(entry.metadata) : null
+    ]
+  );
+  return id;
+}
+
+/**
+ * حفظ سجل فحص مخاطر
+ */
+async function insertRiskLog(db, entry) {
+  if (!entry || !entry.action) {
+    throw new HttpError(400, 'Risk log requires action');
+  }
+
+  const id = entry.id || crypto.randomUUID();
+  await db.run(
+    `INSERT OR REPLACE INTO risk_logs
+      (id, action, current_drawdown, daily_loss, position_size, risk_level, approved, reason,
+       timestamp, metadata)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      entry.action,
+      toNumber(entry.currentDrawdown),
+      toNumber(entry.dailyLoss),
+      toNumber(entry.positionSize),
+      entry.riskLevel || null,
+      entry.approved ? 1 : 0,
+      entry.reason || null,
+      entry.timestamp || new Date().toISOString(),
+      entry.metadata ? JSON.stringify(entry.metadata) : null
+    ]
+  );
+  return id;
+}
+
+/**
+ * حفظ سجل نظام (مثل تغير حالة قاطع الدائرة في الواجهة)
+ */
+async function insertSystemLog(db, entry) {
+  if (!entry || !entry.type || !entry.message) {
+    throw new HttpError(400, 'System log requires type and message');
+  }
+
+  const level = String(entry.level || 'INFO').toUpperCase();
+  if (!SYSTEM_LOG_LEVELS.includes(level)) {
+    throw new HttpError(400, `level must be one of ${SYSTEM_LOG_LEVELS.join(', ')}`);
+  }
+
+  const id = entry.id || crypto.randomUUID();
+  await db.run(
+    `INSERT OR REPLACE INTO system_logs (id, level, type, message, source, timestamp, metadata)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      level,
+      String(entry.type),
+      String(entry.message),
+      entry.source || 'FRONTEND',
+      entry.timestamp || new Date().toISOString(),
+      entry.metadata ? JSON.stringify(entry.metadata) : null
+    ]
+  );
+  return id;
+}
+
+/**
+ * قراءة السجلات مع الفلاتر
+ */
+async function queryLogs(db, type, query = {}) {
+  const definition = LOG_TABLES[type];
+  if (!definition) {
+    throw new HttpError(404, `Unknown log type: ${type}`);
+  }
+
+  const conditions = [];
+  const params = [];
+
+  for (const column of definition.filters) {
+    if (query[column]) {
+      conditions.push(`${column} = ?`);
+      params.push(String(query[column]));
+    }
+  }
+  if (query.startDate) {
+    conditions.push('timestamp >= ?');
+    params.push(String(query.startDate));
+  }
+  if (query.endDate) {
+    conditions.push('timestamp <= ?');
+    params.push(String(query.endDate));
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const limit = parseLimit(query.limit, 100, 1000);
+
+  const rows = await db.all(
+    `SELECT * FROM ${definition.table} ${where} ORDER BY timestamp DESC LIMIT ?`,
+    [...params, limit]
+  );
+
+  return rows.map(ROW_MAPPERS[type]);
+}
+
+/**
+ * مسارات السجلات الآمنة (أي مستخدم مسجل يكتب السجلات، والقراءة بصلاحية trading:read)
+ */
+function createLogsRouter({ db, events, auth, authorize }) {
+  const router = express.Router();
+
+  // السجل المحفوظ يدفع للواجهة بنفس نوع مسار القراءة /logs/:type
+  const publishLog = (logType, id, entry) => {
+    events.publish('log', { logType, symbol: entry.symbol, entry: { ...entry, id } });
+  };
+
+  router.post('/logs/trade', auth, asyncHandler(async (req, res) => {
+    const id = await insertTradeLog(db, req.body);
+    publishLog('trades', id, req.body);
+    sendSuccess(req, res, { id }, 201);
+  }));
+
+  router.post('/logs/decision', auth, asyncHandler(async (req, res) => {
+    const id = await insertDecisionLog(db, req.body);
+    publishLog('decisions', id, req.body);
+    sendSuccess(req, res, { id }, 201);
+  }));
+
+  router.post('/logs/risk', auth, asyncHandler(async (req, res) => {
+    const id = await insertRiskLog(db, req.body);
+    publishLog('risk', id, req.body);
+
+    // رفض فحص المخاطر ينبه الواجهة مباشرة
+    if (!req.body.approved) {
+      events.publish('riskAlert', {
+        id,
+        action: req.body.action,
+        reason: req.body.reason || null,
+        riskLevel: req.body.riskLevel || null,
+        dailyLoss: toNumber(req.body.dailyLoss),
+        currentDrawdown: toNumber(req.body.currentDrawdown),
+        positionSize: toNumber(req.body.positionSize),
+        timestamp: req.body.timestamp || new Date().toISOString()
+      });
+    }
+
+    sendSuccess(req, res, { id }, 201);
+  }));
+
+  router.post('/logs/system', auth, asyncHandler(async (req, res) => {
+    const id = await insertSystemLog(db, req.body);
+    publishLog('system', id, req.body);
+    sendSuccess(req, res, { id }, 201);
+  }));
+
+  router.get('/logs/:type', authorize('trading:read'), asyncHandler(async (req, res) => {
+    const logs = await queryLogs(db, req.params.type, req.query);
+    sendSuccess(req, res, logs);
+  }));
+
+  return router;
+}
+
+module.exports = {
+  createLogsRouter,
+  insertTradeLog,
+  insertDecisionLog,
+  insertRiskLog,
+  insertSystemLog,
+  queryLogs,
+  mapTradeRow
+};
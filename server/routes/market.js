@@ -0,0 +1,127 @@
+const express = require('express');
+const { sendSuccess, asyncHandler, HttpError } = require('../utils/response');
+
+const SYMBOL_PATTERN = /^[A-Z0-9]{5,20}$/;
+const VALID_INTERVALS = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '8h', '12h', '1d', '3d', '1w', '1M'];
+
+/**
+ * التحقق من رمز الزوج وتوحيده
+ */
+function parseSymbol(value, required = true) {
+  if (!value) {
+    if (required) throw new HttpError(400, 'symbol is required');
+    return undefined;
+  }
+
+  const symbol = String(value).toUpperCase();
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    throw new HttpError(400, `Invalid symbol: ${value}`);
+  }
+  return symbol;
+}
+
+/**
+ * تحويل limit إلى رقم ضمن الحدود
+ */
+function parseLimit(value, fallback, max) {
+  const limit = parseInt(value, 10);
+  if (!Number.isFinite(limit) || limit <= 0) return fallback;
+  return Math.min(limit, max);
+}
+
+/**
+ * مسارات بيانات السوق العامة (لا تحتاج مفاتيح API)
+ */
+function createMarketRouter({ binance, marketData }) {
+  const router = express.Router();
+
+  // بيانات الشموع بصيغة CandleData
+  router.get('/klines', asyncHandler(async (req, res) => {
+    const symbol = parseSymbol(req.query.symbol);
+    const interval = req.query.interval || '1h';
+    if (!VALID_INTERVALS.includes(interval)) {
+      throw new HttpError(400, `Invalid interval: ${interval}`);
+    }
+    const limit = parseLimit(req.query.limit, 100, 1000);
+    const params = { symbol, interval, limit };
+    if (req.query.endTime !== undefined) {
+      const endTime = parseInt(req.query.endTime, 10);
+      if (!Number.isFinite(endTime) || endTime <= 0) {
+        throw new HttpError(400, `Invalid endTime: ${req.query.endTime}`);
+      }
+      params.endTime = endTime;
+    }
+
+    const rows = await binance.publicRequest('/v3/klines', params);
+
+    // closed=true يستبعد الشمعة التي لم تغلق بعد (row[6] = وقت الإغلاق) لتجنب النظر للمستقبل
+    const cutoff = params.endTime !== undefined ? Math.min(params.endTime, Date.now()) : Date.now();
+    const closedRows = req.query.closed === 'true' ? rows.filter(row => row[6] < cutoff) : rows;
+
+    const candles = closedRows.map(row => ({
+      timestamp: row[0],
+      open: parseFloat(row[1]),
+      high: parseFloat(row[2]),
+      low: parseFloat(row[3]),
+      close: parseFloat(row[4]),
+      volume: parseFloat(row[5])
+    }));
+
+    sendSuccess(req, res, candles);
+  }));
+
+  // عمق السوق
+  router.get('/depth', asyncHandler(async (req, res) => {
+    const symbol = parseSymbol(req.query.symbol);
+    const limit = parseLimit(req.query.limit, 100, 5000);
+
+    // الدفتر المحلي من تدفق @depth عند توفره ومزامنته
+    const local = marketData ? marketData.getOrderBook(symbol, limit) : null;
+    if (local) {
+      sendSuccess(req, res, local);
+      return;
+    }
+
+    const depth = await binance.publicRequest('/v3/depth', { symbol, limit });
+    const mapLevels = levels => levels.map(([price, quantity]) => ({
+      price: parseFloat(price),
+      quantity: parseFloat(quantity)
+    }));
+
+    sendSuccess(req, res, {
+      bids: mapLevels(depth.bids),
+      asks: mapLevels(depth.asks),
+      lastUpdateId: depth.lastUpdateId,
+      timestamp: Date.now()
+    });
+  }));
+
+  // الأسعار الحالية (زوج واحد أو جميع الأزواج)
+  router.get('/ticker/price', asyncHandler(async (req, res) => {
+    const symbol = parseSymbol(req.query.symbol, false);
+
+    const streamed = symbol && marketData ? marketData.getLastPrice(symbol) : null;
+    if (streamed !== null) {
+      sendSuccess(req, res, { symbol, price: String(streamed) });
+      return;
+    }
+
+    const prices = await binance.publicRequest('/v3/ticker/price', { symbol });
+    sendSuccess(req, res, prices);
+  }));
+
+  // إحصائيات 24 ساعة لزوج
+  router.get('/market/ticker/:symbol', asyncHandler(async (req, res) => {
+    const symbol = parseSymbol(req.params.symbol);
+    const ticker = await binance.publicRequest('/v3/ticker/24hr', { symbol });
+    sendSuccess(req, res, ticker);
+  }));
+
+  return router;
+}
+
+module.exports = {
+  createMarketRouter,
+  parseSymbol,
+  parseLimit
+};
@@ -0,0 +1,60 @@
+const express = require('express');
+const { parseJson } = require('../utils/database');
+const { sendSuccess, asyncHandler, HttpError } = require('../utils/response');
+
+const STATE_ID = 'default';
+
+/**
+ * قراءة آخر لقطة محفوظة لحساب المحاكاة
+ */
+async function loadPaperState(db, id = STATE_ID) {
+  const row = await db.get('SELECT state FROM paper_trading_state WHERE id = ?', [id]);
+  return row ? parseJson(row.state) : null;
+}
+
+/**
+ * حفظ لقطة حساب المحاكاة (تستبدل اللقطة السابقة)
+ */
+async function savePaperState(db, snapshot, id = STATE_ID) {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+    throw new HttpError(400, 'Snapshot must be a JSON object');
+  }
+  if (!Number.isInteger(snapshot.schemaVersion) || snapshot.schemaVersion < 1) {
+    throw new HttpError(400, 'Snapshot schemaVersion must be a positive integer');
+  }
+
+  await db.run(
+    `INSERT INTO paper_trading_state (id, schema_version, state, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET schema_version = excluded.schema_version, state = excluded.state, updated_at = excluded.updated_at`,
+    [id, snapshot.schemaVersion, JSON.stringify(snapshot), new Date().toISOString()]
+  );
+}
+
+/**
+ * مسارات حفظ واستعادة حالة المحاكاة (الكتابة والحذف تتطلب صلاحية التداول)
+ */
+function createPaperTradingRouter({ db, authorize }) {
+  const router = express.Router();
+
+  router.get('/paper-trading/state', authorize('trading:read'), asyncHandler(async (req, res) => {
+    sendSuccess(req, res, await loadPaperState(db));
+  }));
+
+  router.put('/paper-trading/state', authorize('trading:write'), asyncHandler(async (req, res) => {
+    await savePaperState(db, req.body);
+    sendSuccess(req, res, { saved: true, schemaVersion: req.body.schemaVersion });
+  }));
+
+  router.delete('/paper-trading/state', authorize('trading:write'), asyncHandler(async (req, res) => {
+    const result = await db.run('DELETE FROM paper_trading_state WHERE id = ?', [STATE_ID]);
+    sendSuccess(req, res, { cleared: result.changes > 0 });
+  }));
+
+  return router;
+}
+
+module.exports = {
+  createPaperTradingRouter,
+  loadPaperState,
+  savePaperState
+};
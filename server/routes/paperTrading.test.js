@@ -0,0 +1,83 @@
+const { createApp, loadConfig } = require('../index');
+const { Database } = require('../utils/database');
+const { BinanceClient } = require('../utils/binanceClient');
+const { createUser } = require('../utils/users');
+
+describe('Paper trading state routes', () => {
+  let db;
+  let server;
+  let baseUrl;
+  let tokens;
+  const config = loadConfig({ FRONTEND_TOKEN: 'test-token' });
+
+  const request = (method, body, path = '/paper-trading/state', token = tokens.lead) => fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Frontend-Token': 'test-token',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  }).then(res => res.json().then(json => ({ status: res.status, json })));
+
+  const login = async username => {
+    await createUser(db, { username, password: 'password-123', role: username });
+    const response = await request('POST', { username, password: 'password-123' }, '/auth/login', null);
+    return response.json.data.token;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    db = await new Database(':memory:').open();
+    const app = createApp({ config, db, binance: new BinanceClient({ baseUrl: 'http://127.0.0.1:1' }) });
+    server = await new Promise(resolve => {
+      const instance = app.listen(0, () => resolve(instance));
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    tokens = { lead: await login('lead'), frontend: await login('frontend') };
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await db.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should save, load and clear a snapshot', async () => {
+    expect((await request('GET')).json.data).toBeNull();
+
+    const snapshot = { schemaVersion: 1, account: { balances: { USDT: 9000 } }, orderHistory: [] };
+    const saved = await request('PUT', snapshot);
+    expect(saved.status).toBe(200);
+
+    expect((await request('GET')).json.data).toEqual(snapshot);
+
+    expect((await request('DELETE')).json.data).toEqual({ cleared: true });
+    expect((await request('GET')).json.data).toBeNull();
+  });
+
+  test('should reject snapshots without a schema version', async () => {
+    const response = await request('PUT', { account: {} });
+
+    expect(response.status).toBe(400);
+    expect(response.json.error).toMatch(/schemaVersion/);
+  });
+
+  test('should require a session and trading:write to change the snapshot', async () => {
+    const snapshot = { schemaVersion: 1, account: {} };
+
+    expect((await request('GET', undefined, '/paper-trading/state', null)).status).toBe(401);
+    expect((await request('GET', undefined, '/paper-trading/state', tokens.frontend)).status).toBe(200);
+    expect((await request('PUT', snapshot, '/paper-trading/state', tokens.frontend)).status).toBe(403);
+    expect((await request('DELETE', undefined, '/paper-trading/state', tokens.frontend)).status).toBe(403);
+    expect((await request('POST', { level: 'INFO', type: 'TEST', message: 'x', source: 'FRONTEND' }, '/logs/system', null)).status).toBe(401);
+
+    await request('PUT', snapshot);
+    const audit = await request('GET', undefined, '/audit?limit=10');
+    expect(audit.json.data.map(entry => `${entry.action} ${entry.status}`)).toEqual(expect.arrayContaining([
+      'PUT /api/paper-trading/state 200',
+      'PUT /api/paper-trading/state 403'
+    ]));
+  });
+});
@@ -0,0 +1,190 @@
+const express = require('express');
+const { BINANCE_BASE_URLS, BinanceClient } = require('../utils/binanceClient');
+const { parseJson } = require('../utils/database');
+const { sendSuccess, asyncHandler, HttpError } = require('../utils/response');
+const { KEY_SET_NAMES } = require('../utils/keyVault');
+const { hasPermission } = require('../utils/users');
+
+/**
+ * قراءة جميع إعدادات التداول المحفوظة ككائن واحد
+ */
+async function loadTradingSettings(db) {
+  const rows = await db.all('SELECT key, value FROM trading_settings');
+  return rows.reduce((settings, row) => {
+    settings[row.key] = parseJson(row.value);
+    return settings;
+  }, {});
+}
+
+/**
+ * مسارات الإعدادات ومفاتيح Binance
+ */
+function createSettingsRouter({ db, binance, vault, authorize }) {
+  const router = express.Router();
+
+  // قراءة إعدادات التداول
+  router.get('/settings/trading', authorize('settings:read'), asyncHandler(async (req, res) => {
+    sendSuccess(req, res, await loadTradingSettings(db));
+  }));
+
+  // تحديث إعدادات التداول (دمج المفاتيح المرسلة فقط)
+  router.put('/settings/trading', authorize('settings:write'), asyncHandler(async (req, res) => {
+    const settings = req.body;
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      throw new HttpError(400, 'Settings must be a JSON object');
+    }
+
+    const updatedAt = new Date().toISOString();
+    for (const [key, value] of Object.entries(settings)) {
+      await db.run(
+        `INSERT INTO trading_settings (key, value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+        [key, JSON.stringify(value), updatedAt]
+      );
+    }
+
+    sendSuccess(req, res, await loadTradingSettings(db));
+  }));
+
+  // اسم مجموعة المفاتيح التي يستخدمها عميل Binance الحالي
+  const activeSetName = () => (binance.isTestnet() ? 'testnet' : 'live');
+
+  const resolveSetName = (value) => {
+    const name = value === undefined || value === null || value === '' ? activeSetName() : value;
+    if (!KEY_SET_NAMES.includes(name)) {
+      throw new HttpError(400, `name must be one of: ${KEY_SET_NAMES.join(', ')}`);
+    }
+    return name;
+  };
+
+  // مجموعة live تتطلب keys:manage خارج Testnet (المختبر لا يديرها)
+  const assertCanManage = (req, name) => {
+    if (name === 'live' && !hasPermission(req.user.role, 'keys:manage', { testnet: false })) {
+      console.warn(`[SECURITY] ${req.user.username} denied live key set management`);
+      throw new HttpError(403, 'Permission denied: keys:manage (live)');
+    }
+  };
+
+  // تعيين مفاتيح Binance بعد التحقق منها عبر /v3/account وحفظها مشفرة في الخزنة
+  router.post('/settings/binance-api-keys', authorize('keys:manage'), asyncHandler(async (req, res) => {
+    const { apiKey, secretKey } = req.body || {};
+    if (typeof apiKey !== 'string' || typeof secretKey !== 'string' || !apiKey.trim() || !secretKey.trim()) {
+      throw new HttpError(400, 'apiKey and secretKey are required');
+    }
+
+    const name = resolveSetName(req.body.name);
+    assertCanManage(req, name);
+    const loadNow = name === activeSetName();
+    if (!vault && !loadNow) {
+      throw new HttpError(400, 'ENCRYPTION_KEY is not configured, only the active key set can be loaded');
+    }
+
+    const keys = { apiKey: apiKey.trim(), secretKey: secretKey.trim() };
+    const candidate = new BinanceClient({
+      baseUrl: loadNow ? binance.baseUrl : BINANCE_BASE_URLS[name],
+      ...keys,
+      rateLimiter: binance.rateLimiter
+    });
+    const account = await candidate.signedRequest('/v3/account');
+    const permissions = account.permissions || [];
+    req.auditDetails = { name, permissions };
+
+    const keySet = vault
+      ? await vault.store(name, keys, { permissions, canTrade: Boolean(account.canTrade), createdBy: req.user.username })
+      : null;
+    if (loadNow) {
+      binance.setCredentials(keys.apiKey, keys.secretKey);
+    }
+    console.log(`[SETTINGS] Binance ${name} API keys validated${vault ? ' and stored' : ' (memory only)'} by ${req.user.username}`);
+
+    sendSuccess(req, res, {
+      validated: true,
+      name,
+      testnet: name === 'testnet',
+      stored: Boolean(vault),
+      permissions,
+      keySet
+    });
+  }));
+
+  // البيانات الوصفية لمجموعات المفاتيح (المفاتيح نفسها لا تعود للواجهة أبداً)
+  router.get('/settings/binance-api-keys', authorize('keys:read'), asyncHandler(async (req, res) => {
+    sendSuccess(req, res, {
+      encrypted: Boolean(vault),
+      active: activeSetName(),
+      keySets: vault ? await vault.list() : []
+    });
+  }));
+
+  // استرجاع المجموعة السابقة خلال فترة سماح التدوير
+  router.post('/settings/binance-api-keys/rollback', authorize('keys:manage'), asyncHandler(async (req, res) => {
+    const name = resolveSetName((req.body || {}).name);
+    assertCanManage(req, name);
+    if (!vault) {
+      throw new HttpError(400, 'ENCRYPTION_KEY is not configured');
+    }
+
+    const keySet = await vault.rollback(name);
+    if (!keySet) {
+      throw new HttpError(404, `No ${name} key set within the rotation grace period`);
+    }
+
+    if (name === activeSetName()) {
+      const credentials = await vault.getCredentials(name);
+      binance.setCredentials(credentials.apiKey, credentials.secretKey);
+    }
+    console.log(`[SETTINGS] Binance ${name} API keys rolled back by ${req.user.username}`);
+    sendSuccess(req, res, keySet);
+  }));
+
+  // إلغاء مجموعة مفاتيح (الافتراضي: المجموعة النشطة) ومسحها من الذاكرة
+  router.delete('/settings/binance-api-keys', authorize('keys:manage'), asyncHandler(async (req, res) => {
+    const name = resolveSetName(req.query.name);
+    assertCanManage(req, name);
+
+    const revoked = vault ? await vault.revoke(name) : false;
+    if (name === activeSetName()) {
+      binance.setCredentials(null, null);
+    }
+    console.log(`[SETTINGS] Binance ${name} API keys cleared by ${req.user.username}`);
+    sendSuccess(req, res, { cleared: true, name, revoked });
+  }));
+
+  // حالة الاتصال بـ Binance وصلاحيات المفتاح المخزن
+  router.get('/binance/connection-status', authorize('keys:read'), asyncHandler(async (req, res) => {
+    const testnet = binance.isTestnet();
+    const keySet = vault ? await vault.getActive(activeSetName()) : null;
+
+    if (!binance.hasCredentials()) {
+      sendSuccess(req, res, { connected: false, testnet, permissions: [], keySet });
+      return;
+    }
+
+    try {
+      const account = await binance.signedRequest('/v3/account');
+      sendSuccess(req, res, {
+        connected: true,
+        testnet,
+        permissions: account.permissions || [],
+        canTrade: account.canTrade,
+        keySet
+      });
+    } catch (error) {
+      // آخر صلاحيات متحقق منها عند تعذر الوصول إلى Binance
+      sendSuccess(req, res, {
+        connected: false,
+        testnet,
+        permissions: keySet ? keySet.permissions : [],
+        keySet,
+        error: error.message
+      });
+    }
+  }));
+
+  return router;
+}
+
+module.exports = {
+  createSettingsRouter,
+  loadTradingSettings
+};
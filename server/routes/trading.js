@@ -0,0 +1,470 @@
+const crypto = require('crypto');
+const express = require('express');
+const { sendSuccess, asyncHandler, HttpError } = require('../utils/response');
+const { parseSymbol, parseLimit } = require('./market');
+const { insertTradeLog, mapTradeRow } = require('./logs');
+const { BinanceApiError } = require('../utils/binanceClient');
+const {
+  generateClientOrderId,
+  parseClientOrderId,
+  findOrder,
+  findOrderByOrderId,
+  reserveOrder,
+  claimSubmission,
+  releaseSubmission,
+  updateOrder,
+  listOrders
+} = require('../utils/orders');
+
+const SIMULATED_FEE_RATE = 0.001; // 0.1% رسوم
+const SIMULATED_SLIPPAGE = 0.0005; // 0.05% انزلاق
+const ORDER_NOT_FOUND_CODE = -2013;
+
+/**
+ * التحقق من طلب الأمر القادم من الواجهة
+ */
+function validateOrderRequest(body) {
+  const symbol = parseSymbol(body && body.symbol);
+  const side = String(body.side || '').toUpperCase();
+  const type = String(body.type || '').toUpperCase();
+  const quantity = Number(body.quantity);
+  const price = body.price !== undefined && body.price !== null ? Number(body.price) : undefined;
+
+  if (!['BUY', 'SELL'].includes(side)) {
+    throw new HttpError(400, 'side must be BUY or SELL');
+  }
+  if (!['MARKET', 'LIMIT'].includes(type)) {
+    throw new HttpError(400, 'type must be MARKET or LIMIT');
+  }
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    throw new HttpError(400, 'quantity must be a positive number');
+  }
+  if (type === 'LIMIT' && (!Number.isFinite(price) || price <= 0)) {
+    throw new HttpError(400, 'price is required for LIMIT orders');
+  }
+
+  const timeInForce = type === 'LIMIT' ? (body.timeInForce || 'GTC') : undefined;
+  if (timeInForce && !['GTC', 'IOC', 'FOK'].includes(timeInForce)) {
+    throw new HttpError(400, 'timeInForce must be GTC, IOC or FOK');
+  }
+
+  return { symbol, side, type, quantity, price, timeInForce };
+}
+
+/**
+ * إعادة استخدام clientOrderId مقبولة لنفس الأمر فقط
+ */
+function isSameOrder(existing, order) {
+  return existing.symbol === order.symbol
+    && existing.side === order.side
+    && existing.type === order.type
+    && existing.quantity === order.quantity;
+}
+
+/**
+ * تحويل استجابة أمر Binance إلى تحديث دورة الحياة
+ */
+function fromBinanceOrder(result) {
+  const executedQty = parseFloat(result.executedQty || '0');
+  const quoteQty = parseFloat(result.cummulativeQuoteQty || '0');
+  return {
+    orderId: result.orderId,
+    status: result.status,
+    executedQty,
+    avgPrice: executedQty > 0 ? quoteQty / executedQty : null,
+    fees: (result.fills || []).reduce((sum, fill) => sum + parseFloat(fill.commission || '0'), 0)
+  };
+}
+
+/**
+ * الأمر المحفوظ بنفس شكل استجابة POST /order (عند تكرار الإرسال)
+ */
+function toOrderResponse(order) {
+  return {
+    orderId: order.orderId,
+    clientOrderId: order.clientOrderId,
+    symbol: order.symbol,
+    side: order.side,
+    type: order.type,
+    quantity: order.quantity,
+    price: order.price,
+    status: order.status,
+    executedQty: order.executedQty,
+    executedPrice: order.avgPrice,
+    fees: order.fees,
+    isDryRun: order.mode === 'PAPER'
+  };
+}
+
+/**
+ * نشر حالة الأمر وتنفيذه لقناة الدفع
+ */
+function publishOrderEvents(events, order) {
+  events.publish('orderUpdate', order);
+  if (order.executedQty > 0) {
+    events.publish('fill', {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.executedQty,
+      price: order.executedPrice,
+      fees: order.fees,
+      reason: order.reason,
+      isDryRun: order.isDryRun
+    });
+  }
+}
+
+/**
+ * مسارات التداول والحساب (تتطلب مصادقة)
+ */
+function createTradingRouter({ db, binance, config, events, authorize }) {
+  const router = express.Router();
+
+  /**
+   * محاكاة تنفيذ أمر في وضع DRY_RUN باستخدام السعر الحالي
+   */
+  const simulateOrder = async (order) => {
+    const ticker = await binance.publicRequest('/v3/ticker/price', { symbol: order.symbol });
+    const marketPrice = parseFloat(ticker.price);
+    const basePrice = order.type === 'LIMIT' ? order.price : marketPrice;
+    const executedPrice = order.type === 'LIMIT'
+      ? basePrice
+      : order.side === 'BUY'
+        ? basePrice * (1 + SIMULATED_SLIPPAGE)
+        : basePrice * (1 - SIMULATED_SLIPPAGE);
+    const fees = order.quantity * executedPrice * SIMULATED_FEE_RATE;
+
+    return {
+      orderId: `sim_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      quantity: order.quantity,
+      price: basePrice,
+      status: 'FILLED',
+      executedQty: order.quantity,
+      executedPrice,
+      timestamp: Date.now(),
+      fees,
+      slippage: Math.abs(executedPrice - basePrice),
+      commission: fees,
+      commissionAsset: 'USDT',
+      isDryRun: true
+    };
+  };
+
+  /**
+   * تنفيذ الأمر المحجوز (محاكاة في DRY_RUN أو إرسال لـ Binance) وتحديث دورة حياته
+   */
+  const submitOrder = async (order, clientOrderId, { username, strategy, reason }) => {
+    if (config.dryRun) {
+      // تطبيق نفس فلاتر الرمز على الأوامر المحاكاة
+      const prepared = await binance.prepareOrder(order);
+      order.quantity = parseFloat(prepared.quantity);
+      if (prepared.price !== undefined) order.price = parseFloat(prepared.price);
+
+      const result = { ...await simulateOrder(order), clientOrderId };
+      await updateOrder(db, clientOrderId, {
+        orderId: result.orderId,
+        status: result.status,
+        executedQty: result.executedQty,
+        avgPrice: result.executedPrice,
+        fees: result.fees
+      });
+      await insertTradeLog(db, {
+        symbol: order.symbol,
+        action: order.side,
+        price: result.price,
+        size: order.quantity,
+        reason: 'Simulated order (DRY_RUN)',
+        strategy,
+        isDryRun: true,
+        orderId: result.orderId,
+        executedPrice: result.executedPrice,
+        executedSize: result.executedQty,
+        fees: result.fees,
+        status: 'SIMULATED',
+        metadata: { type: order.type, user: username, clientOrderId }
+      });
+
+      publishOrderEvents(events, {
+        orderId: result.orderId,
+        clientOrderId,
+        symbol: order.symbol,
+        side: order.side,
+        type: order.type,
+        status: result.status,
+        quantity: order.quantity,
+        price: result.price,
+        executedQty: result.executedQty,
+        executedPrice: result.executedPrice,
+        fees: result.fees,
+        reason: reason || null,
+        isDryRun: true
+      });
+
+      console.log(`[DRY_RUN] Simulated ${order.side} ${order.quantity} ${order.symbol} @ ${result.executedPrice}`);
+      return result;
+    }
+
+    const result = await binance.placeOrder({ ...order, newClientOrderId: clientOrderId });
+    const { executedQty, avgPrice, fees } = fromBinanceOrder(result);
+    await updateOrder(db, clientOrderId, fromBinanceOrder(result));
+
+    await insertTradeLog(db, {
+      symbol: order.symbol,
+      action: order.side,
+      price: order.price,
+      size: order.quantity,
+      reason: 'Live order',
+      strategy,
+      isDryRun: false,
+      orderId: result.orderId,
+      executedPrice: avgPrice,
+      executedSize: executedQty,
+      fees,
+      status: result.status === 'FILLED' ? 'FILLED' : 'PENDING',
+      metadata: { type: order.type, user: username, binanceStatus: result.status, clientOrderId }
+    });
+
+    publishOrderEvents(events, {
+      orderId: result.orderId,
+      clientOrderId,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      status: result.status,
+      quantity: order.quantity,
+      price: order.price ?? null,
+      executedQty,
+      executedPrice: avgPrice,
+      fees,
+      reason: reason || null,
+      isDryRun: false
+    });
+
+    console.log(`[BINANCE] Order ${result.orderId} ${order.side} ${order.symbol}: ${result.status}`);
+    return result;
+  };
+
+  /**
+   * حل أمر مسجل بلا orderId (نتيجة إرساله السابق غير معروفة) عبر origClientOrderId
+   * يعيد null إذا لم يصل الأمر إلى Binance، فيصبح إرساله مجدداً آمناً
+   */
+  const resolveUnknownOrder = async (order) => {
+    try {
+      const result = await binance.signedRequest('/v3/order', {
+        symbol: order.symbol,
+        origClientOrderId: order.clientOrderId
+      });
+      return updateOrder(db, order.clientOrderId, fromBinanceOrder(result));
+    } catch (error) {
+      if (error instanceof BinanceApiError && error.code === ORDER_NOT_FOUND_CODE) return null;
+      throw error;
+    }
+  };
+
+  // إرسال أمر (نفس clientOrderId لا يرسل مرتين عند إعادة المحاولة)
+  router.post('/order', authorize('trading:write'), asyncHandler(async (req, res) => {
+    const order = validateOrderRequest(req.body || {});
+    const clientOrderId = parseClientOrderId(req.body.clientOrderId) || generateClientOrderId();
+    req.auditDetails = {
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      quantity: order.quantity,
+      clientOrderId,
+      dryRun: config.dryRun
+    };
+
+    const reserved = await reserveOrder(db, {
+      ...order,
+      clientOrderId,
+      mode: config.dryRun ? 'PAPER' : 'LIVE',
+      strategy: req.body.strategy,
+      reason: req.body.reason
+    }, { submitting: true });
+
+    if (!reserved) {
+      const existing = await findOrder(db, clientOrderId);
+      if (!isSameOrder(existing, order)) {
+        throw new HttpError(409, `clientOrderId ${clientOrderId} is already used by a different order`);
+      }
+
+      let resolved = existing;
+      if (!config.dryRun && existing.status === 'NEW' && !existing.orderId) {
+        // الإرسال الأول ما زال جارياً: الاستعلام الآن قد يرجع -2013 قبل وصوله فيرسل الأمر مرتين
+        if (!await claimSubmission(db, clientOrderId)) {
+          throw new HttpError(409, `Order ${clientOrderId} is still being submitted`, 'ORDER_IN_FLIGHT');
+        }
+        try {
+          resolved = await resolveUnknownOrder(existing);
+        } catch (error) {
+          await releaseSubmission(db, clientOrderId);
+          throw error;
+        }
+      }
+
+      if (resolved) {
+        console.warn(`[ORDERS] Duplicate submission of ${clientOrderId} ignored (${resolved.status})`);
+        sendSuccess(req, res, { ...toOrderResponse(resolved), replayed: true });
+        return;
+      }
+      console.warn(`[ORDERS] ${clientOrderId} never reached Binance, submitting again`);
+    }
+
+    try {
+      sendSuccess(req, res, await submitOrder(order, clientOrderId, {
+        username: req.user.username,
+        strategy: req.body.strategy,
+        reason: req.body.reason
+      }), 201);
+    } catch (error) {
+      // انقطاع أو خطأ خادم من Binance: النتيجة غير معروفة فيبقى NEW حتى المطابقة
+      const unknownOutcome = error instanceof BinanceApiError && (error.status >= 500 || error.status === 429);
+      await updateOrder(db, clientOrderId, { status: unknownOutcome ? 'NEW' : 'REJECTED', error: error.message });
+      throw error;
+    }
+  }));
+
+  // إلغاء أمر
+  router.delete('/order/:orderId', authorize('trading:write'), asyncHandler(async (req, res) => {
+    const symbol = parseSymbol(req.query.symbol);
+
+    if (config.dryRun) {
+      throw new HttpError(400, 'No resting orders exist in DRY_RUN mode');
+    }
+
+    const result = await binance.signedRequest('/v3/order', {
+      symbol,
+      orderId: req.params.orderId
+    }, 'DELETE');
+
+    const tracked = await findOrderByOrderId(db, result.orderId);
+    if (tracked) {
+      await updateOrder(db, tracked.clientOrderId, fromBinanceOrder(result));
+    }
+
+    events.publish('orderUpdate', {
+      orderId: result.orderId,
+      clientOrderId: result.origClientOrderId,
+      symbol,
+      side: result.side,
+      type: result.type,
+      status: result.status,
+      quantity: parseFloat(result.origQty || '0'),
+      price: parseFloat(result.price || '0'),
+      executedQty: parseFloat(result.executedQty || '0'),
+      isDryRun: false
+    });
+
+    sendSuccess(req, res, result);
+  }));
+
+  // الأوامر المفتوحة
+  router.get('/orders/open', authorize('trading:read'), asyncHandler(async (req, res) => {
+    const symbol = parseSymbol(req.query.symbol, false);
+
+    if (config.dryRun) {
+      sendSuccess(req, res, []);
+      return;
+    }
+
+    const orders = await binance.signedRequest('/v3/openOrders', { symbol });
+    sendSuccess(req, res, orders);
+  }));
+
+  // الأوامر المحفوظة في دورة الحياة (status=open للأوامر غير النهائية)
+  router.get('/orders', authorize('trading:read'), asyncHandler(async (req, res) => {
+    sendSuccess(req, res, await listOrders(db, {
+      ...req.query,
+      symbol: parseSymbol(req.query.symbol, false)
+    }));
+  }));
+
+  // حفظ حالة أمر من OrderManager في الواجهة (أوامر المحاكاة ونتائج المطابقة)
+  router.put('/orders/:clientOrderId', authorize('trading:write'), asyncHandler(async (req, res) => {
+    const clientOrderId = parseClientOrderId(req.params.clientOrderId);
+    const body = req.body || {};
+    if (!['PAPER', 'LIVE'].includes(body.mode)) {
+      throw new HttpError(400, 'mode must be PAPER or LIVE');
+    }
+
+    const order = validateOrderRequest(body);
+    await reserveOrder(db, { ...order, clientOrderId, mode: body.mode, strategy: body.strategy, reason: body.reason });
+    sendSuccess(req, res, await updateOrder(db, clientOrderId, {
+      orderId: body.orderId,
+      status: body.status,
+      executedQty: body.executedQty,
+      avgPrice: body.avgPrice,
+      fees: body.fees,
+      error: body.error
+    }));
+  }));
+
+  // تنفيذات الحساب من Binance (/v3/myTrades) لمطابقة الأوامر بعد إعادة الاتصال
+  router.get('/trades/my', authorize('trading:read'), asyncHandler(async (req, res) => {
+    const symbol = parseSymbol(req.query.symbol);
+
+    if (config.dryRun) {
+      sendSuccess(req, res, []);
+      return;
+    }
+
+    const trades = await binance.signedRequest('/v3/myTrades', {
+      symbol,
+      orderId: req.query.orderId,
+      limit: parseLimit(req.query.limit, 500, 1000)
+    });
+    sendSuccess(req, res, trades.map(trade => ({
+      id: trade.id,
+      orderId: trade.orderId,
+      symbol: trade.symbol,
+      price: parseFloat(trade.price),
+      quantity: parseFloat(trade.qty),
+      commission: parseFloat(trade.commission),
+      commissionAsset: trade.commissionAsset,
+      isBuyer: trade.isBuyer,
+      time: trade.time
+    })));
+  }));
+
+  // معلومات الحساب (بدون بيانات حساسة)
+  router.get('/account/info', authorize('trading:read'), asyncHandler(async (req, res) => {
+    const account = await binance.signedRequest('/v3/account');
+
+    sendSuccess(req, res, {
+      canTrade: account.canTrade,
+      canWithdraw: account.canWithdraw,
+      canDeposit: account.canDeposit,
+      accountType: account.accountType,
+      permissions: account.permissions || [],
+      balances: (account.balances || [])
+        .map(balance => ({
+          asset: balance.asset,
+          free: parseFloat(balance.free),
+          locked: parseFloat(balance.locked)
+        }))
+        .filter(balance => balance.free > 0 || balance.locked > 0),
+      updateTime: account.updateTime
+    });
+  }));
+
+  // سجل التداول من قاعدة البيانات
+  router.get('/trading/history', authorize('trading:read'), asyncHandler(async (req, res) => {
+    const limit = parseLimit(req.query.limit, 50, 500);
+    const rows = await db.all(
+      `SELECT * FROM trade_logs WHERE action IN ('BUY', 'SELL') ORDER BY timestamp DESC LIMIT ?`,
+      [limit]
+    );
+    sendSuccess(req, res, rows.map(mapTradeRow));
+  }));
+
+  return router;
+}
+
+module.exports = {
+  createTradingRouter,
+  validateOrderRequest
+};
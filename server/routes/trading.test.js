@@ -0,0 +1,157 @@
+const { createApp, loadConfig } = require('../index');
+const { Database } = require('../utils/database');
+const { BinanceApiError } = require('../utils/binanceClient');
+const { createUser } = require('../utils/users');
+const { reserveOrder } = require('../utils/orders');
+
+/**
+ * عميل Binance وهمي يسجل الأوامر المرسلة
+ */
+function createFakeBinance() {
+  return {
+    placed: [],
+    placeResults: [],
+    lookups: [],
+    isTestnet: () => true,
+    hasCredentials: () => true,
+    async placeOrder(order) {
+      this.placed.push(order);
+      const next = this.placeResults.shift();
+      if (next instanceof Error) throw next;
+      return next || {
+        orderId: 1000 + this.placed.length,
+        clientOrderId: order.newClientOrderId,
+        status: 'FILLED',
+        executedQty: String(order.quantity),
+        cummulativeQuoteQty: String(order.quantity * 100),
+        fills: [{ commission: '0.1' }]
+      };
+    },
+    async signedRequest(path, params) {
+      this.lookups.push({ path, params });
+      throw new BinanceApiError(400, -2013, 'Order does not exist.');
+    }
+  };
+}
+
+describe('Order lifecycle routes', () => {
+  let db;
+  let server;
+  let baseUrl;
+  let binance;
+  let token;
+
+  const request = async (method, path, body) => {
+    const response = await fetch(`${baseUrl}/api${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Frontend-Token': 'test-token',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    db = await new Database(':memory:').open();
+    await createUser(db, { username: 'lead', password: 'password-123', role: 'lead' });
+
+    binance = createFakeBinance();
+    const config = loadConfig({ FRONTEND_TOKEN: 'test-token', JWT_SECRET: 'x'.repeat(32), DRY_RUN: 'false' });
+    const app = createApp({ config, db, binance });
+    server = await new Promise(resolve => {
+      const instance = app.listen(0, () => resolve(instance));
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+    token = null;
+    token = (await request('POST', '/auth/login', { username: 'lead', password: 'password-123' })).body.data.token;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await db.close();
+    jest.restoreAllMocks();
+  });
+
+  const order = { symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 0.5, clientOrderId: 'ellen_test_1' };
+
+  test('should submit each clientOrderId to Binance only once', async () => {
+    const first = await request('POST', '/order', order);
+    expect(first.status).toBe(201);
+    expect(binance.placed[0].newClientOrderId).toBe('ellen_test_1');
+
+    const retry = await request('POST', '/order', order);
+    expect(retry.status).toBe(200);
+    expect(retry.body.data).toMatchObject({ replayed: true, status: 'FILLED', executedQty: 0.5, executedPrice: 100 });
+    expect(binance.placed).toHaveLength(1);
+
+    const { body } = await request('GET', '/orders?status=FILLED');
+    expect(body.data).toEqual([expect.objectContaining({ clientOrderId: 'ellen_test_1', mode: 'LIVE', orderId: '1001', fees: 0.1 })]);
+  });
+
+  test('should resubmit an order whose first attempt never reached Binance', async () => {
+    binance.placeResults.push(new BinanceApiError(503, -1001, 'Binance is unreachable'));
+    const failed = await request('POST', '/order', order);
+    expect(failed.status).toBe(502);
+    expect(failed.body.upstream).toBe('binance-rest');
+    expect((await request('GET', '/orders?status=open')).body.data[0]).toMatchObject({ status: 'NEW', orderId: null });
+
+    const retry = await request('POST', '/order', order);
+    expect(retry.status).toBe(201);
+    expect(binance.lookups[0]).toEqual({ path: '/v3/order', params: { symbol: 'BTCUSDT', origClientOrderId: 'ellen_test_1' } });
+    expect(binance.placed.map(placed => placed.newClientOrderId)).toEqual(['ellen_test_1', 'ellen_test_1']);
+  });
+
+  test('should refuse a retry while the first submission is in flight', async () => {
+    let respond;
+    binance.placeResults.push(new Promise(resolve => {
+      respond = resolve;
+    }));
+    const first = request('POST', '/order', order);
+    while (binance.placed.length === 0) await new Promise(resolve => setTimeout(resolve, 5));
+
+    const retry = await request('POST', '/order', order);
+    expect(retry.status).toBe(409);
+    expect(retry.body.code).toBe('ORDER_IN_FLIGHT');
+    expect(binance.lookups).toHaveLength(0);
+
+    respond({ orderId: 2001, status: 'FILLED', executedQty: '0.5', cummulativeQuoteQty: '50' });
+    expect((await first).status).toBe(201);
+    expect((await request('POST', '/order', order)).body.data).toMatchObject({ replayed: true, orderId: '2001' });
+    expect(binance.placed).toHaveLength(1);
+  });
+
+  test('should look up a stale submission before sending it again', async () => {
+    await reserveOrder(db, { ...order, mode: 'LIVE' }, { submitting: true });
+    await db.run('UPDATE orders SET submitting_at = ? WHERE client_order_id = ?', [new Date(Date.now() - 3600000).toISOString(), order.clientOrderId]);
+
+    const retry = await request('POST', '/order', order);
+    expect(retry.status).toBe(201);
+    expect(binance.lookups).toHaveLength(1);
+    expect(binance.placed).toHaveLength(1);
+  });
+
+  test('should reject a clientOrderId reused for a different order', async () => {
+    await request('POST', '/order', order);
+
+    const reused = await request('POST', '/order', { ...order, quantity: 1 });
+    expect(reused.status).toBe(409);
+    expect((await request('POST', '/order', { ...order, side: 'SELL' })).status).toBe(409);
+    expect(binance.placed).toHaveLength(1);
+  });
+
+  test('should reject invalid lifecycle transitions from the order manager', async () => {
+    const paperOrder = { ...order, clientOrderId: 'ellen_paper_1', mode: 'PAPER', type: 'LIMIT', price: 100 };
+    expect((await request('PUT', '/orders/ellen_paper_1', { ...paperOrder, status: 'PARTIALLY_FILLED', executedQty: 0.2 })).status).toBe(200);
+    expect((await request('PUT', '/orders/ellen_paper_1', { ...paperOrder, status: 'FILLED', executedQty: 0.5 })).status).toBe(200);
+
+    const invalid = await request('PUT', '/orders/ellen_paper_1', { ...paperOrder, status: 'NEW' });
+    expect(invalid.status).toBe(409);
+    expect((await request('PUT', '/orders/bad id', paperOrder)).status).toBe(400);
+  });
+});
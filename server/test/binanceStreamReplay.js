@@ -0,0 +1,131 @@
+const { WebSocketServer } = require('ws');
+
+/**
+ * خادم WebSocket محلي يحاكي تدفقات Binance المجمعة (/stream) للاختبارات
+ * يرد على SUBSCRIBE/UNSUBSCRIBE ويعيد بث الأحداث بصيغة { stream, data }
+ */
+function createBinanceStreamReplay() {
+  const state = {
+    connections: 0,
+    subscriptions: new Set(),
+    requests: []
+  };
+
+  let server = null;
+
+  const broadcast = (message) => {
+    const payload = JSON.stringify(message);
+    server.clients.forEach(client => {
+      if (client.readyState === client.OPEN) client.send(payload);
+    });
+  };
+
+  const handleConnection = (socket, request) => {
+    state.connections++;
+
+    // التدفقات المطلوبة في رابط الاتصال (?streams=a/b/c)
+    const query = new URL(request.url, 'ws://localhost').searchParams.get('streams');
+    if (query) query.split('/').forEach(stream => state.subscriptions.add(stream));
+
+    socket.on('message', raw => {
+      const message = JSON.parse(raw.toString());
+      state.requests.push(message);
+
+      if (message.method === 'SUBSCRIBE') {
+        message.params.forEach(stream => state.subscriptions.add(stream));
+      } else if (message.method === 'UNSUBSCRIBE') {
+        message.params.forEach(stream => state.subscriptions.delete(stream));
+      }
+      socket.send(JSON.stringify({ result: null, id: message.id }));
+    });
+  };
+
+  return {
+    state,
+
+    /**
+     * تشغيل الخادم على منفذ عشوائي وإرجاع رابط بصيغة BINANCE_STREAM_URL
+     */
+    start() {
+      return new Promise((resolve, reject) => {
+        server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+        server.on('connection', handleConnection);
+        server.on('listening', () => resolve(`ws://127.0.0.1:${server.address().port}/stream`));
+        server.on('error', reject);
+      });
+    },
+
+    /**
+     * بث حدث واحد على تدفق
+     */
+    push(stream, data) {
+      broadcast({ stream, data });
+    },
+
+    /**
+     * إعادة بث تسلسل أحداث مسجلة [{ stream, data }]
+     */
+    replay(events) {
+      events.forEach(event => this.push(event.stream, event.data));
+    },
+
+    /**
+     * قطع جميع الاتصالات لاختبار إعادة الاتصال
+     */
+    dropConnections() {
+      state.subscriptions.clear();
+      server.clients.forEach(client => client.terminate());
+    },
+
+    /**
+     * إيقاف الخادم
+     */
+    stop() {
+      return new Promise((resolve) => {
+        if (!server) {
+          resolve();
+          return;
+        }
+        server.clients.forEach(client => client.terminate());
+        server.close(() => resolve());
+      });
+    }
+  };
+}
+
+/**
+ * أحداث بصيغة Binance لبناء السيناريوهات في الاختبارات
+ */
+function depthUpdate(symbol, firstUpdateId, finalUpdateId, bids = [], asks = []) {
+  return {
+    stream: `${symbol.toLowerCase()}@depth@100ms`,
+    data: { e: 'depthUpdate', E: Date.now(), s: symbol, U: firstUpdateId, u: finalUpdateId, b: bids, a: asks }
+  };
+}
+
+function bookTicker(symbol, updateId, bidPrice, askPrice, quantity = '1.00000000') {
+  return {
+    stream: `${symbol.toLowerCase()}@bookTicker`,
+    data: { u: updateId, s: symbol, b: bidPrice, B: quantity, a: askPrice, A: quantity }
+  };
+}
+
+function kline(symbol, openTime, open, close, closed = false) {
+  const rising = parseFloat(close) >= parseFloat(open);
+  return {
+    stream: `${symbol.toLowerCase()}@kline_1m`,
+    data: {
+      e: 'kline',
+      E: Date.now(),
+      s: symbol,
+      k: { t: openTime, T: openTime + 59999, s: symbol, i: '1m', o: open, c: close, h: rising ? close : open, l: rising ? open : close, v: '10.00000000', x: closed }
+    }
+  };
+}
+
+module.exports = {
+  createBinanceStreamReplay,
+  depthUpdate,
+  bookTicker,
+  kline
+};
@@ -0,0 +1,348 @@
+const express = require('express');
+const { createSignature } = require('../utils/signature');
+
+/**
+ * خادم محلي يحاكي استجابات Binance Testnet وأخطاءها للاختبارات
+ * الأخطاء المدعومة: -1013 (فلاتر)، -2010 (رصيد غير كاف)، -1021 (timestamp)
+ * و state.failures لاستجابات مجدولة مثل { status: 503 } أو { status: 429, headers: { 'Retry-After': '1' } }
+ */
+
+const DEFAULT_SYMBOLS = {
+  BTCUSDT: {
+    baseAsset: 'BTC',
+    quoteAsset: 'USDT',
+    price: '50000.00',
+    filters: [
+      { filterType: 'PRICE_FILTER', minPrice: '0.01000000', maxPrice: '1000000.00000000', tickSize: '0.01000000' },
+      { filterType: 'LOT_SIZE', minQty: '0.00001000', maxQty: '9000.00000000', stepSize: '0.00001000' },
+      { filterType: 'MARKET_LOT_SIZE', minQty: '0.00000000', maxQty: '100.00000000', stepSize: '0.00000000' },
+      {
+        filterType: 'NOTIONAL',
+        minNotional: '5.00000000',
+        applyMinToMarket: true,
+        maxNotional: '9000000.00000000',
+        applyMaxToMarket: false,
+        avgPriceMins: 5
+      }
+    ]
+  },
+  ETHUSDT: {
+    baseAsset: 'ETH',
+    quoteAsset: 'USDT',
+    price: '3000.00',
+    filters: [
+      { filterType: 'PRICE_FILTER', minPrice: '0.01000000', maxPrice: '1000000.00000000', tickSize: '0.01000000' },
+      { filterType: 'LOT_SIZE', minQty: '0.00010000', maxQty: '9000.00000000', stepSize: '0.00010000' },
+      { filterType: 'MIN_NOTIONAL', minNotional: '10.00000000', applyToMarket: true, avgPriceMins: 5 }
+    ]
+  }
+};
+
+const ERRORS = {
+  invalidSymbol: { status: 400, code: -1121, msg: 'Invalid symbol.' },
+  invalidApiKey: { status: 401, code: -2015, msg: 'Invalid API-key, IP, or permissions for action.' },
+  invalidSignature: { status: 400, code: -1022, msg: 'Signature for this request is not valid.' },
+  timestamp: { status: 400, code: -1021, msg: 'Timestamp for this request is outside of the recvWindow.' },
+  insufficientBalance: { status: 400, code: -2010, msg: 'Account has insufficient balance for requested action.' },
+  unknownOrder: { status: 400, code: -2011, msg: 'Unknown order sent.' }
+};
+
+/**
+ * هل القيمة مضاعف صحيح للخطوة؟
+ */
+function isMultipleOf(value, step) {
+  const stepValue = parseFloat(step);
+  if (!stepValue) return true;
+  const ratio = value / stepValue;
+  return Math.abs(ratio - Math.round(ratio)) < 1e-6;
+}
+
+/**
+ * التحقق من فلاتر الأمر كما يفعل Binance (يعيد نوع الفلتر الفاشل أو null)
+ */
+function checkFilters(symbolInfo, { type, quantity, price }) {
+  const filters = Object.fromEntries(symbolInfo.filters.map(filter => [filter.filterType, filter]));
+  const lot = filters.LOT_SIZE;
+  const priceFilter = filters.PRICE_FILTER;
+  const notional = filters.NOTIONAL || filters.MIN_NOTIONAL;
+
+  if (quantity < parseFloat(lot.minQty) || quantity > parseFloat(lot.maxQty) || !isMultipleOf(quantity, lot.stepSize)) {
+    return 'LOT_SIZE';
+  }
+
+  if (type === 'LIMIT') {
+    if (price < parseFloat(priceFilter.minPrice) || price > parseFloat(priceFilter.maxPrice) || !isMultipleOf(price, priceFilter.tickSize)) {
+      return 'PRICE_FILTER';
+    }
+  }
+
+  const effectivePrice = type === 'LIMIT' ? price : parseFloat(symbolInfo.price);
+  const applies = type === 'LIMIT' || (notional.applyMinToMarket ?? notional.applyToMarket);
+  if (applies && quantity * effectivePrice < parseFloat(notional.minNotional)) {
+    return filters.NOTIONAL ? 'NOTIONAL' : 'MIN_NOTIONAL';
+  }
+
+  return null;
+}
+
+/**
+ * دفتر أوامر افتراضي حول السعر (خمسة مستويات لكل جانب بفارق 1$)
+ */
+function defaultOrderBook(price) {
+  const mid = parseFloat(price);
+  const levels = direction => Array.from({ length: 5 }, (_, index) => [
+    (mid + direction * (index + 1)).toFixed(2),
+    '1.00000000'
+  ]);
+  return { lastUpdateId: 100, bids: levels(-1), asks: levels(1) };
+}
+
+/**
+ * إنشاء خادم Binance وهمي
+ */
+function createBinanceStub({
+  apiKey = 'stub-api-key',
+  secretKey = 'stub-secret-key',
+  serverTimeOffset = 0,
+  balances = { USDT: 1000, BTC: 0.5, ETH: 0 },
+  symbols = DEFAULT_SYMBOLS
+} = {}) {
+  const state = {
+    serverTimeOffset,
+    balances: { ...balances },
+    symbols: JSON.parse(JSON.stringify(symbols)),
+    orderBooks: Object.fromEntries(Object.entries(symbols).map(([symbol, info]) => [symbol, defaultOrderBook(info.price)])),
+    orders: [],
+    requests: [],
+    failures: [],
+    nextOrderId: 1
+  };
+
+  const app = express();
+
+  const fail = (res, error, msg = error.msg) => {
+    res.status(error.status).json({ code: error.code, msg });
+  };
+
+  const serverTime = () => Date.now() + state.serverTimeOffset;
+
+  app.use((req, res, next) => {
+    state.requests.push({ method: req.method, path: req.path, query: { ...req.query } });
+    next();
+  });
+
+  app.use((req, res, next) => {
+    const failure = state.failures.shift();
+    if (!failure) {
+      next();
+      return;
+    }
+    res.set(failure.headers || {});
+    res.status(failure.status).json({ code: failure.code ?? -1000, msg: failure.msg || 'Scheduled failure' });
+  });
+
+  // التحقق من المفتاح والتوقيع والـ timestamp للطلبات الموقعة
+  const signed = (req, res, next) => {
+    if (req.get('X-MBX-APIKEY') !== apiKey) {
+      fail(res, ERRORS.invalidApiKey);
+      return;
+    }
+
+    const rawQuery = req.originalUrl.split('?')[1] || '';
+    const payload = rawQuery.replace(/&?signature=[0-9a-f]+$/, '');
+    if (createSignature(payload, secretKey) !== req.query.signature) {
+      fail(res, ERRORS.invalidSignature);
+      return;
+    }
+
+    const timestamp = Number(req.query.timestamp);
+    const recvWindow = Number(req.query.recvWindow || 5000);
+    const now = serverTime();
+    if (timestamp > now + 1000 || now - timestamp > recvWindow) {
+      fail(res, ERRORS.timestamp);
+      return;
+    }
+
+    next();
+  };
+
+  app.get('/api/v3/ping', (req, res) => res.json({}));
+
+  app.get('/api/v3/time', (req, res) => res.json({ serverTime: serverTime() }));
+
+  app.get('/api/v3/exchangeInfo', (req, res) => {
+    const requested = req.query.symbol ? [req.query.symbol] : Object.keys(state.symbols);
+    if (requested.some(symbol => !state.symbols[symbol])) {
+      fail(res, ERRORS.invalidSymbol);
+      return;
+    }
+
+    res.json({
+      timezone: 'UTC',
+      serverTime: serverTime(),
+      symbols: requested.map(symbol => ({
+        symbol,
+        status: 'TRADING',
+        baseAsset: state.symbols[symbol].baseAsset,
+        quoteAsset: state.symbols[symbol].quoteAsset,
+        orderTypes: ['LIMIT', 'MARKET', 'STOP_LOSS_LIMIT', 'TAKE_PROFIT_LIMIT'],
+        filters: state.symbols[symbol].filters
+      }))
+    });
+  });
+
+  app.get('/api/v3/ticker/price', (req, res) => {
+    if (req.query.symbol) {
+      const info = state.symbols[req.query.symbol];
+      if (!info) {
+        fail(res, ERRORS.invalidSymbol);
+        return;
+      }
+      res.json({ symbol: req.query.symbol, price: info.price });
+      return;
+    }
+    res.json(Object.entries(state.symbols).map(([symbol, info]) => ({ symbol, price: info.price })));
+  });
+
+  // لقطة عمق السوق من state.orderBooks (تعدل في الاختبارات لمحاكاة تقدم lastUpdateId)
+  app.get('/api/v3/depth', (req, res) => {
+    const book = state.orderBooks[req.query.symbol];
+    if (!book) {
+      fail(res, ERRORS.invalidSymbol);
+      return;
+    }
+    const limit = parseInt(req.query.limit || '100', 10);
+    res.json({
+      lastUpdateId: book.lastUpdateId,
+      bids: book.bids.slice(0, limit),
+      asks: book.asks.slice(0, limit)
+    });
+  });
+
+  app.get('/api/v3/account', signed, (req, res) => {
+    res.json({
+      canTrade: true,
+      canWithdraw: false,
+      canDeposit: true,
+      accountType: 'SPOT',
+      permissions: ['SPOT'],
+      updateTime: serverTime(),
+      balances: Object.entries(state.balances).map(([asset, free]) => ({
+        asset,
+        free: free.toFixed(8),
+        locked: '0.00000000'
+      }))
+    });
+  });
+
+  app.post('/api/v3/order', signed, (req, res) => {
+    const { symbol, side, type } = req.query;
+    const info = state.symbols[symbol];
+    if (!info) {
+      fail(res, ERRORS.invalidSymbol);
+      return;
+    }
+
+    const quantity = parseFloat(req.query.quantity);
+    const price = type === 'LIMIT' ? parseFloat(req.query.price) : parseFloat(info.price);
+
+    const failedFilter = checkFilters(info, { type, quantity, price });
+    if (failedFilter) {
+      res.status(400).json({ code: -1013, msg: `Filter failure: ${failedFilter}` });
+      return;
+    }
+
+    const cost = quantity * price;
+    if (side === 'BUY' && cost > (state.balances[info.quoteAsset] || 0)) {
+      fail(res, ERRORS.insufficientBalance);
+      return;
+    }
+    if (side === 'SELL' && quantity > (state.balances[info.baseAsset] || 0)) {
+      fail(res, ERRORS.insufficientBalance);
+      return;
+    }
+
+    const filled = type === 'MARKET';
+    if (filled) {
+      const direction = side === 'BUY' ? 1 : -1;
+      state.balances[info.baseAsset] = (state.balances[info.baseAsset] || 0) + direction * quantity;
+      state.balances[info.quoteAsset] = (state.balances[info.quoteAsset] || 0) - direction * cost;
+    }
+
+    const order = {
+      symbol,
+      orderId: state.nextOrderId++,
+      orderListId: -1,
+      clientOrderId: req.query.newClientOrderId || `stub${state.nextOrderId}`,
+      transactTime: serverTime(),
+      price: type === 'LIMIT' ? req.query.price : '0.00000000',
+      origQty: req.query.quantity,
+      executedQty: filled ? req.query.quantity : '0.00000000',
+      cummulativeQuoteQty: filled ? cost.toFixed(8) : '0.00000000',
+      status: filled ? 'FILLED' : 'NEW',
+      timeInForce: req.query.timeInForce || 'GTC',
+      type,
+      side,
+      fills: filled
+        ? [{ price: info.price, qty: req.query.quantity, commission: '0.00000000', commissionAsset: info.quoteAsset, tradeId: state.nextOrderId }]
+        : []
+    };
+
+    state.orders.push(order);
+    res.json(order);
+  });
+
+  app.delete('/api/v3/order', signed, (req, res) => {
+    const order = state.orders.find(entry => String(entry.orderId) === String(req.query.orderId) && entry.status === 'NEW');
+    if (!order) {
+      fail(res, ERRORS.unknownOrder);
+      return;
+    }
+    order.status = 'CANCELED';
+    res.json(order);
+  });
+
+  app.get('/api/v3/openOrders', signed, (req, res) => {
+    res.json(state.orders.filter(order => order.status === 'NEW' && (!req.query.symbol || order.symbol === req.query.symbol)));
+  });
+
+  let server = null;
+
+  return {
+    state,
+    apiKey,
+    secretKey,
+
+    /**
+     * تشغيل الخادم على منفذ عشوائي وإرجاع baseUrl بصيغة BINANCE_BASE_URL
+     */
+    start() {
+      return new Promise((resolve, reject) => {
+        server = app.listen(0, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${server.address().port}/api`);
+        });
+        server.on('error', reject);
+      });
+    },
+
+    /**
+     * إيقاف الخادم
+     */
+    stop() {
+      return new Promise((resolve) => {
+        if (!server) {
+          resolve();
+          return;
+        }
+        server.close(() => resolve());
+        // fetch يحتفظ باتصالات keep-alive مفتوحة
+        server.closeAllConnections();
+      });
+    }
+  };
+}
+
+module.exports = {
+  createBinanceStub,
+  DEFAULT_SYMBOLS
+};
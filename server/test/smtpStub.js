@@ -0,0 +1,109 @@
+const net = require('net');
+
+/**
+ * خادم SMTP محلي للاختبارات: يستقبل الرسائل ويحفظها بدون تشفير (يقبل أي AUTH)
+ */
+function createSmtpStub() {
+  const state = {
+    messages: [],
+    commands: []
+  };
+  const sockets = new Set();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.setEncoding('utf8');
+
+    let buffer = '';
+    let message = null;
+    let envelope = { from: null, to: [] };
+
+    const reply = line => socket.write(`${line}\r\n`);
+
+    const handleLine = (line) => {
+      if (message !== null) {
+        if (line === '.') {
+          state.messages.push({ ...envelope, data: message.join('\r\n') });
+          envelope = { from: null, to: [] };
+          message = null;
+          reply('250 OK: queued');
+        } else {
+          message.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        return;
+      }
+
+      state.commands.push(line);
+      const verb = line.split(' ')[0].toUpperCase();
+
+      if (verb === 'EHLO') {
+        reply('250-smtp.stub');
+        reply('250-AUTH PLAIN');
+        reply('250 8BITMIME');
+      } else if (verb === 'AUTH') {
+        reply('235 Authentication successful');
+      } else if (verb === 'MAIL') {
+        envelope.from = line.match(/<(.*)>/)[1];
+        reply('250 OK');
+      } else if (verb === 'RCPT') {
+        envelope.to.push(line.match(/<(.*)>/)[1]);
+        reply('250 OK');
+      } else if (verb === 'DATA') {
+        message = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (verb === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('502 Command not implemented');
+      }
+    };
+
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        handleLine(line);
+      }
+    });
+
+    reply('220 smtp.stub ESMTP ready');
+  });
+
+  return {
+    state,
+
+    /**
+     * تشغيل الخادم على منفذ عشوائي وإرجاع رقم المنفذ
+     */
+    start() {
+      return new Promise((resolve, reject) => {
+        server.listen(0, '127.0.0.1', () => resolve(server.address().port));
+        server.on('error', reject);
+      });
+    },
+
+    stop() {
+      return new Promise((resolve) => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => resolve());
+      });
+    }
+  };
+}
+
+/**
+ * فك محتوى رسالة base64 من نص DATA المستلم
+ */
+function decodeMessageBody(data) {
+  const [, body] = data.split('\r\n\r\n');
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+module.exports = {
+  createSmtpStub,
+  decodeMessageBody
+};
@@ -0,0 +1,89 @@
+const express = require('express');
+
+/**
+ * خادم محلي يحاكي Telegram Bot API (sendMessage و getUpdates)
+ * رمز غير مطابق يعيد 401 كما يفعل Telegram
+ */
+function createTelegramStub({ botToken = 'stub-bot-token' } = {}) {
+  const state = {
+    messages: [],
+    updates: [], // رسائل واردة تعاد من getUpdates
+    failNext: null // { status, description } لمحاكاة خطأ واحد
+  };
+  let nextUpdateId = 1;
+
+  const app = express();
+  app.use(express.json());
+
+  app.use('/bot:token', (req, res, next) => {
+    if (req.params.token !== botToken) {
+      res.status(401).json({ ok: false, error_code: 401, description: 'Unauthorized' });
+      return;
+    }
+    if (state.failNext) {
+      const { status, description } = state.failNext;
+      state.failNext = null;
+      res.status(status).json({ ok: false, error_code: status, description });
+      return;
+    }
+    next();
+  });
+
+  app.post('/bot:token/sendMessage', (req, res) => {
+    const message = { message_id: state.messages.length + 1, chat: { id: req.body.chat_id }, text: req.body.text };
+    state.messages.push(message);
+    res.json({ ok: true, result: message });
+  });
+
+  // يعيد فوراً بدلاً من الانتظار حتى timeout
+  app.post('/bot:token/getUpdates', (req, res) => {
+    const offset = req.body.offset || 0;
+    state.updates = state.updates.filter(update => update.update_id >= offset);
+    res.json({ ok: true, result: state.updates });
+  });
+
+  let server = null;
+
+  return {
+    state,
+    botToken,
+
+    /**
+     * إضافة رسالة واردة من محادثة
+     */
+    receive(chatId, text, username = 'trader') {
+      const updateId = nextUpdateId++;
+      state.updates.push({
+        update_id: updateId,
+        message: { message_id: updateId, chat: { id: chatId }, from: { id: 7, username }, text }
+      });
+    },
+
+    /**
+     * تشغيل الخادم على منفذ عشوائي وإرجاع apiBaseUrl
+     */
+    start() {
+      return new Promise((resolve, reject) => {
+        server = app.listen(0, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${server.address().port}`);
+        });
+        server.on('error', reject);
+      });
+    },
+
+    stop() {
+      return new Promise((resolve) => {
+        if (!server) {
+          resolve();
+          return;
+        }
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    }
+  };
+}
+
+module.exports = {
+  createTelegramStub
+};
@@ -0,0 +1,116 @@
+const crypto = require('crypto');
+const { parseJson } = require('./database');
+const { parseLimit } = require('../routes/market');
+
+/**
+ * حفظ سجل مراجعة (وصول لمسار محمي أو عملية مصادقة)
+ */
+async function writeAuditLog(db, entry) {
+  const id = crypto.randomUUID();
+  await db.run(
+    `INSERT INTO audit_logs
+      (id, timestamp, user_id, username, role, action, permission, status, success, ip_address, request_id, details)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      entry.timestamp || new Date().toISOString(),
+      entry.userId || null,
+      entry.username || null,
+      entry.role || null,
+      entry.action,
+      entry.permission || null,
+      entry.status ?? null,
+      entry.success ? 1 : 0,
+      entry.ipAddress || null,
+      entry.requestId || null,
+      entry.details ? JSON.stringify(entry.details) : null
+    ]
+  );
+  return id;
+}
+
+function mapAuditRow(row) {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    userId: row.user_id,
+    username: row.username,
+    role: row.role,
+    action: row.action,
+    permission: row.permission,
+    status: row.status,
+    success: Boolean(row.success),
+    ipAddress: row.ip_address,
+    requestId: row.request_id,
+    details: parseJson(row.details, {})
+  };
+}
+
+/**
+ * قراءة سجل المراجعة مع فلترة اختيارية بالمستخدم والتاريخ
+ */
+async function queryAuditLog(db, query = {}) {
+  const conditions = [];
+  const params = [];
+
+  if (query.username) {
+    conditions.push('username = ?');
+    params.push(String(query.username));
+  }
+  if (query.success === 'true' || query.success === 'false') {
+    conditions.push('success = ?');
+    params.push(query.success === 'true' ? 1 : 0);
+  }
+  if (query.startDate) {
+    conditions.push('timestamp >= ?');
+    params.push(String(query.startDate));
+  }
+  if (query.endDate) {
+    conditions.push('timestamp <= ?');
+    params.push(String(query.endDate));
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = await db.all(
+    `SELECT * FROM audit_logs ${where} ORDER BY timestamp DESC LIMIT ?`,
+    [...params, parseLimit(query.limit, 100, 1000)]
+  );
+  return rows.map(mapAuditRow);
+}
+
+/**
+ * وسيط يكتب سجل مراجعة عند انتهاء الاستجابة (بعد معرفة المستخدم والحالة)
+ */
+function auditAccess(db, { enabled = true } = {}) {
+  return (req, res, next) => {
+    if (!enabled || req.auditAttached) {
+      next();
+      return;
+    }
+    req.auditAttached = true;
+
+    res.on('finish', () => {
+      const user = req.user || {};
+      writeAuditLog(db, {
+        userId: user.id,
+        username: user.username,
+        role: user.role,
+        action: `${req.method} ${req.originalUrl.split('?')[0]}`,
+        permission: req.requiredPermission,
+        status: res.statusCode,
+        success: res.statusCode < 400,
+        ipAddress: req.ip,
+        requestId: req.requestId,
+        details: req.auditDetails
+      }).catch(error => console.error('[AUDIT] Failed to write audit log:', error));
+    });
+
+    next();
+  };
+}
+
+module.exports = {
+  writeAuditLog,
+  queryAuditLog,
+  auditAccess
+};
@@ -0,0 +1,289 @@
+const { EventEmitter } = require('events');
+const { createSignature, createTimestamp } = require('./signature');
+const { FilterError, parseSymbolFilters, applySymbolFilters } = require('./binanceFilters');
+const { BinanceRateLimiter, getRequestCost } = require('./binanceRateLimiter');
+
+const TIMESTAMP_ERROR_CODE = -1021;
+const TIME_SYNC_INTERVAL = 30 * 60 * 1000; // إعادة مزامنة الوقت كل 30 دقيقة
+const EXCHANGE_INFO_TTL = 60 * 60 * 1000; // تخزين فلاتر الرموز لمدة ساعة
+const DEFAULT_RATE_LIMIT_PAUSE = 60 * 1000; // عند غياب Retry-After مع 429/418
+
+// عناوين REST لكل بيئة (تستخدم للتحقق من مجموعات المفاتيح المسماة)
+const BINANCE_BASE_URLS = {
+  testnet: 'https://testnet.binance.vision/api',
+  live: 'https://api.binance.com/api'
+};
+
+/**
+ * خطأ صادر من Binance API (يحمل code و msg الأصليين)
+ */
+class BinanceApiError extends Error {
+  constructor(status, code, message) {
+    super(message);
+    this.name = 'BinanceApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * عميل REST لـ Binance مع توقيع HMAC، تصحيح فرق الوقت وتطبيق فلاتر الرموز
+ * كل طلب يحجز وزنه من rateLimiter قبل الإرسال (الحدود لكل IP، فيشاركه كل عميل على نفس الخادم)
+ * ينشر 'health' عند كل إخفاق في الوصول إلى Binance وعند أول نجاح بعده (لقاطع binance-rest في الواجهة)
+ */
+class BinanceClient extends EventEmitter {
+  constructor({
+    baseUrl,
+    apiKey = null,
+    secretKey = null,
+    recvWindow = 5000,
+    timeSyncInterval = TIME_SYNC_INTERVAL,
+    exchangeInfoTtl = EXCHANGE_INFO_TTL,
+    rateLimiter = new BinanceRateLimiter()
+  } = {}) {
+    super();
+    this.baseUrl = (baseUrl || BINANCE_BASE_URLS.testnet).replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.secretKey = secretKey;
+    this.recvWindow = recvWindow;
+    this.timeSyncInterval = timeSyncInterval;
+    this.exchangeInfoTtl = exchangeInfoTtl;
+    this.rateLimiter = rateLimiter;
+
+    this.timeOffset = 0;
+    this.lastTimeSync = 0;
+    this.symbolFilters = new Map();
+    this.healthy = true;
+  }
+
+  /**
+   * تحديث مفاتيح API أثناء التشغيل
+   */
+  setCredentials(apiKey, secretKey) {
+    this.apiKey = apiKey || null;
+    this.secretKey = secretKey || null;
+  }
+
+  /**
+   * هل تم تكوين مفاتيح API؟
+   */
+  hasCredentials() {
+    return Boolean(this.apiKey && this.secretKey);
+  }
+
+  /**
+   * هل العميل متصل بـ Testnet؟
+   */
+  isTestnet() {
+    return this.baseUrl.includes('testnet');
+  }
+
+  /**
+   * بناء query string مع تجاهل القيم الفارغة
+   */
+  buildQuery(params = {}) {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== null && value !== '') {
+        search.append(key, String(value));
+      }
+    }
+    return search.toString();
+  }
+
+  /**
+   * مزامنة الوقت مع /api/v3/time وحساب فرق الساعة
+   */
+  async syncTime() {
+    const requestedAt = createTimestamp();
+    const { serverTime } = await this.publicRequest('/v3/time');
+    const receivedAt = createTimestamp();
+
+    // نفترض أن الخادم أجاب في منتصف زمن الرحلة
+    const localMidpoint = Math.round((requestedAt + receivedAt) / 2);
+    this.timeOffset = serverTime - localMidpoint;
+    this.lastTimeSync = receivedAt;
+
+    if (Math.abs(this.timeOffset) > 1000) {
+      console.warn(`[BINANCE] Local clock differs from server by ${this.timeOffset}ms`);
+    }
+
+    return this.timeOffset;
+  }
+
+  /**
+   * الوقت الحالي بعد تصحيح فرق الساعة
+   */
+  getTimestamp() {
+    return createTimestamp() + this.timeOffset;
+  }
+
+  /**
+   * طلب عام بدون توقيع
+   */
+  async publicRequest(path, params = {}, method = 'GET') {
+    const query = this.buildQuery(params);
+    const url = `${this.baseUrl}${path}${query ? `?${query}` : ''}`;
+    return this.send(url, { method });
+  }
+
+  /**
+   * طلب موقع بـ HMAC SHA256 مع recvWindow
+   * عند خطأ -1021 (timestamp خارج النافذة) نعيد المزامنة ونحاول مرة واحدة
+   */
+  async signedRequest(path, params = {}, method = 'GET', retryOnTimestampError = true) {
+    if (!this.hasCredentials()) {
+      throw new BinanceApiError(400, -2014, 'Binance API keys are not configured');
+    }
+
+    if (createTimestamp() - this.lastTimeSync > this.timeSyncInterval) {
+      await this.syncTime();
+    }
+
+    const query = this.buildQuery({
+      ...params,
+      recvWindow: this.recvWindow,
+      timestamp: this.getTimestamp()
+    });
+    const signature = createSignature(query, this.secretKey);
+    const url = `${this.baseUrl}${path}?${query}&signature=${signature}`;
+
+    try {
+      return await this.send(url, {
+        method,
+        headers: { 'X-MBX-APIKEY': this.apiKey }
+      });
+    } catch (error) {
+      if (error instanceof BinanceApiError && error.code === TIMESTAMP_ERROR_CODE && retryOnTimestampError) {
+        console.warn('[BINANCE] Timestamp outside recvWindow, resyncing clock and retrying');
+        await this.syncTime();
+        return this.signedRequest(path, params, method, false);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * الحصول على فلاتر الرمز من exchangeInfo (مع تخزين مؤقت)
+   */
+  async getSymbolFilters(symbol) {
+    const cached = this.symbolFilters.get(symbol);
+    if (cached && createTimestamp() - cached.fetchedAt < this.exchangeInfoTtl) {
+      return cached.filters;
+    }
+
+    const info = await this.publicRequest('/v3/exchangeInfo', { symbol });
+    const symbolInfo = (info.symbols || []).find(entry => entry.symbol === symbol);
+    if (!symbolInfo) {
+      throw new BinanceApiError(400, -1121, 'Invalid symbol.');
+    }
+
+    const filters = parseSymbolFilters(symbolInfo);
+    this.symbolFilters.set(symbol, { filters, fetchedAt: createTimestamp() });
+    return filters;
+  }
+
+  /**
+   * تجهيز أمر: تقريب الكمية والسعر والتحقق من MIN_NOTIONAL
+   */
+  async prepareOrder(order) {
+    const filters = await this.getSymbolFilters(order.symbol);
+
+    if (filters.status && filters.status !== 'TRADING') {
+      throw new BinanceApiError(400, -1013, `Symbol ${order.symbol} is not trading (${filters.status})`);
+    }
+
+    // أوامر السوق تحتاج سعراً مرجعياً لفحص الحد الأدنى للقيمة
+    let referencePrice = null;
+    if (order.type === 'MARKET' && filters.notional.minNotional > 0 && filters.notional.applyToMarket) {
+      const ticker = await this.publicRequest('/v3/ticker/price', { symbol: order.symbol });
+      referencePrice = parseFloat(ticker.price);
+    }
+
+    try {
+      const { quantity, price } = applySymbolFilters(order, filters, referencePrice);
+      return { ...order, quantity, price };
+    } catch (error) {
+      if (error instanceof FilterError) {
+        throw new BinanceApiError(error.status, error.code, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * إرسال أمر بعد تطبيق الفلاتر
+   */
+  async placeOrder(order) {
+    const prepared = await this.prepareOrder(order);
+
+    return this.signedRequest('/v3/order', {
+      symbol: prepared.symbol,
+      side: prepared.side,
+      type: prepared.type,
+      quantity: prepared.quantity,
+      price: prepared.price,
+      timeInForce: prepared.timeInForce,
+      stopPrice: prepared.stopPrice,
+      newClientOrderId: prepared.newClientOrderId,
+      newOrderRespType: 'FULL'
+    }, 'POST');
+  }
+
+  /**
+   * إرسال الطلب وتحويل أخطاء Binance إلى BinanceApiError
+   */
+  async send(url, options) {
+    await this.rateLimiter.acquire(getRequestCost(url, options.method));
+
+    let response;
+    try {
+      response = await fetch(url, options);
+    } catch (error) {
+      this.reportHealth(false);
+      throw new BinanceApiError(503, -1001, `Binance is unreachable: ${error.message}`);
+    }
+
+    this.rateLimiter.updateFromHeaders(response.headers);
+    if (response.status === 429 || response.status === 418) {
+      // إيقاف كل الطلبات التالية وليس هذا الطلب فقط، فتجاهل 429 يؤدي إلى حظر IP (418)
+      const retryAfter = Number(response.headers.get('retry-after'));
+      this.rateLimiter.pause(retryAfter > 0 ? retryAfter * 1000 : DEFAULT_RATE_LIMIT_PAUSE);
+    }
+
+    // أخطاء الطلب نفسه (4xx) تعني أن Binance يعمل، بخلاف 5xx وحدود المعدل
+    this.reportHealth(response.status < 500 && response.status !== 429 && response.status !== 418);
+
+    const text = await response.text();
+
+    let body = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      body = null;
+    }
+
+    if (!response.ok) {
+      const code = body && typeof body.code === 'number' ? body.code : response.status;
+      const message = (body && body.msg) || `HTTP ${response.status}: ${response.statusText}`;
+      throw new BinanceApiError(response.status, code, message);
+    }
+
+    return body;
+  }
+
+  /**
+   * كل إخفاق ينشر حتى تعد الواجهة الإخفاقات المتتالية، والنجاح ينشر مرة واحدة بعد الإخفاق
+   */
+  reportHealth(healthy) {
+    if (healthy && this.healthy) return;
+    this.healthy = healthy;
+    this.emit('health', healthy);
+  }
+}
+
+module.exports = {
+  BINANCE_BASE_URLS,
+  BinanceClient,
+  BinanceApiError
+};
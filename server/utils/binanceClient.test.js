@@ -0,0 +1,202 @@
+const { BinanceClient, BinanceApiError } = require('./binanceClient');
+const { roundToStep } = require('./binanceFilters');
+const { createBinanceStub } = require('../test/binanceStub');
+
+describe('BinanceClient', () => {
+  let stub;
+  let client;
+
+  beforeEach(async () => {
+    stub = createBinanceStub();
+    const baseUrl = await stub.start();
+    client = new BinanceClient({
+      baseUrl,
+      apiKey: stub.apiKey,
+      secretKey: stub.secretKey,
+      recvWindow: 5000
+    });
+  });
+
+  afterEach(async () => {
+    await stub.stop();
+  });
+
+  describe('Clock skew', () => {
+    test('should compute offset from /api/v3/time', async () => {
+      stub.state.serverTimeOffset = 20000;
+
+      const offset = await client.syncTime();
+
+      expect(Math.abs(offset - 20000)).toBeLessThan(500);
+    });
+
+    test('should resync and retry once on -1021', async () => {
+      // الساعة المحلية متأخرة 20 ثانية عن الخادم دون مزامنة مسبقة
+      stub.state.serverTimeOffset = 20000;
+      client.lastTimeSync = Date.now();
+
+      const account = await client.signedRequest('/v3/account');
+
+      expect(account.canTrade).toBe(true);
+      const accountCalls = stub.state.requests.filter(request => request.path === '/api/v3/account');
+      expect(accountCalls).toHaveLength(2);
+      expect(stub.state.requests.some(request => request.path === '/api/v3/time')).toBe(true);
+    });
+
+    test('should surface -1021 when clock drifts during retry', async () => {
+      client.lastTimeSync = Date.now();
+      client.syncTime = async () => {
+        stub.state.serverTimeOffset += 60000;
+        return client.timeOffset;
+      };
+      stub.state.serverTimeOffset = 60000;
+
+      await expect(client.signedRequest('/v3/account')).rejects.toMatchObject({ code: -1021 });
+    });
+
+    test('should send recvWindow with signed requests', async () => {
+      await client.signedRequest('/v3/account');
+
+      const accountCall = stub.state.requests.find(request => request.path === '/api/v3/account');
+      expect(accountCall.query.recvWindow).toBe('5000');
+      expect(accountCall.query.signature).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('Symbol filters', () => {
+    test('should round quantity down to LOT_SIZE and price to tick size', async () => {
+      const prepared = await client.prepareOrder({
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        type: 'LIMIT',
+        quantity: 0.0012345678,
+        price: 49999.987,
+        timeInForce: 'GTC'
+      });
+
+      expect(prepared.quantity).toBe('0.00123');
+      expect(prepared.price).toBe('49999.99');
+    });
+
+    test('should reject orders below MIN_NOTIONAL locally with -1013', async () => {
+      await expect(client.placeOrder({
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        type: 'MARKET',
+        quantity: 0.00005
+      })).rejects.toMatchObject({ code: -1013, message: expect.stringContaining('NOTIONAL') });
+
+      expect(stub.state.requests.some(request => request.path === '/api/v3/order')).toBe(false);
+    });
+
+    test('should support legacy MIN_NOTIONAL filter', async () => {
+      await expect(client.prepareOrder({
+        symbol: 'ETHUSDT',
+        side: 'BUY',
+        type: 'LIMIT',
+        quantity: 0.001,
+        price: 3000
+      })).rejects.toMatchObject({ code: -1013, message: expect.stringContaining('MIN_NOTIONAL') });
+    });
+
+    test('should cache exchangeInfo per symbol', async () => {
+      const order = { symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 0.001, price: 50000 };
+      await client.prepareOrder(order);
+      await client.prepareOrder(order);
+
+      const infoCalls = stub.state.requests.filter(request => request.path === '/api/v3/exchangeInfo');
+      expect(infoCalls).toHaveLength(1);
+    });
+
+    test('roundToStep should avoid floating point drift', () => {
+      expect(roundToStep(0.3, '0.10000000')).toBe('0.3');
+      expect(roundToStep(1.0000000001, '0.00001000')).toBe('1.00000');
+      expect(roundToStep(123.456, '0.01000000', 'round')).toBe('123.46');
+    });
+  });
+
+  describe('Order placement', () => {
+    test('should place a filled market order', async () => {
+      const result = await client.placeOrder({
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        type: 'MARKET',
+        quantity: 0.0100009
+      });
+
+      expect(result.status).toBe('FILLED');
+      expect(result.executedQty).toBe('0.01000');
+      expect(stub.state.balances.BTC).toBeCloseTo(0.51, 8);
+    });
+
+    test('should map -2010 insufficient balance to BinanceApiError', async () => {
+      const error = await client.placeOrder({
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        type: 'LIMIT',
+        quantity: 1,
+        price: 50000,
+        timeInForce: 'GTC'
+      }).catch(err => err);
+
+      expect(error).toBeInstanceOf(BinanceApiError);
+      expect(error.code).toBe(-2010);
+      expect(error.status).toBe(400);
+    });
+
+    test('stub should reject unrounded quantities with -1013', async () => {
+      await expect(client.signedRequest('/v3/order', {
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        type: 'LIMIT',
+        quantity: '0.0012345',
+        price: '50000.00',
+        timeInForce: 'GTC'
+      }, 'POST')).rejects.toMatchObject({ code: -1013, message: 'Filter failure: LOT_SIZE' });
+    });
+
+    test('should reject requests without credentials', async () => {
+      client.setCredentials(null, null);
+
+      await expect(client.signedRequest('/v3/account')).rejects.toMatchObject({ code: -2014 });
+    });
+  });
+
+  describe('Upstream health', () => {
+    test('should report every unreachable or failing response and a single recovery', async () => {
+      const health = [];
+      client.on('health', healthy => health.push(healthy));
+      stub.state.failures.push({ status: 503 }, { status: 429, headers: { 'Retry-After': '1' } });
+
+      await expect(client.publicRequest('/v3/time')).rejects.toMatchObject({ status: 503 });
+      await expect(client.publicRequest('/v3/time')).rejects.toMatchObject({ status: 429 });
+      await client.publicRequest('/v3/time');
+      await client.publicRequest('/v3/time');
+      await expect(client.publicRequest('/v3/exchangeInfo', { symbol: 'NOPE' })).rejects.toMatchObject({ code: -1121 });
+
+      expect(health).toEqual([false, false, true]);
+      expect(client.healthy).toBe(true);
+    });
+  });
+
+  describe('Rate limiting', () => {
+    test('should hold every request for Retry-After after 429 and sync used weight', async () => {
+      stub.state.failures.push({
+        status: 429,
+        headers: { 'Retry-After': '1', 'X-MBX-USED-WEIGHT-1M': '1200' }
+      });
+
+      await expect(client.publicRequest('/v3/time')).rejects.toMatchObject({ status: 429 });
+      const startedAt = Date.now();
+      await client.publicRequest('/v3/time');
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+      expect(client.rateLimiter.getStats()).toMatchObject({
+        requests: 2,
+        queued: 1,
+        serverPauses: 1,
+        usedWeight1m: 1200
+      });
+    });
+  });
+});
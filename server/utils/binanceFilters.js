@@ -0,0 +1,148 @@
+/**
+ * أدوات تطبيق فلاتر Binance (LOT_SIZE, PRICE_FILTER, MIN_NOTIONAL) على الأوامر
+ */
+
+/**
+ * خطأ فلتر بنفس رمز Binance (-1013)
+ */
+class FilterError extends Error {
+  constructor(filterType, message) {
+    super(`Filter failure: ${filterType}${message ? ` (${message})` : ''}`);
+    this.name = 'FilterError';
+    this.status = 400;
+    this.code = -1013;
+    this.filterType = filterType;
+  }
+}
+
+/**
+ * عدد المنازل العشرية لخطوة مثل "0.00010000"
+ */
+function stepPrecision(step) {
+  const text = String(step);
+  if (!text.includes('.')) return 0;
+  const decimals = text.split('.')[1].replace(/0+$/, '');
+  return decimals.length;
+}
+
+/**
+ * تقريب قيمة إلى مضاعف الخطوة (للأسفل افتراضياً)
+ */
+function roundToStep(value, step, mode = 'floor') {
+  const stepValue = parseFloat(step);
+  if (!stepValue) return String(value);
+
+  const precision = stepPrecision(step);
+  const ratio = value / stepValue;
+  // هامش صغير لتجنب أخطاء الفاصلة العائمة (مثل 0.3 / 0.1 = 2.9999999)
+  const steps = mode === 'round'
+    ? Math.round(ratio)
+    : mode === 'ceil'
+      ? Math.ceil(ratio - 1e-9)
+      : Math.floor(ratio + 1e-9);
+
+  return (steps * stepValue).toFixed(precision);
+}
+
+/**
+ * استخراج الفلاتر المهمة من رمز في exchangeInfo
+ */
+function parseSymbolFilters(symbolInfo) {
+  const byType = {};
+  for (const filter of symbolInfo.filters || []) {
+    byType[filter.filterType] = filter;
+  }
+
+  const lot = byType.LOT_SIZE || {};
+  const marketLot = byType.MARKET_LOT_SIZE || null;
+  const price = byType.PRICE_FILTER || {};
+  // Binance استبدل MIN_NOTIONAL بـ NOTIONAL في الإصدارات الأحدث
+  const notional = byType.NOTIONAL || byType.MIN_NOTIONAL || {};
+
+  return {
+    symbol: symbolInfo.symbol,
+    status: symbolInfo.status,
+    baseAsset: symbolInfo.baseAsset,
+    quoteAsset: symbolInfo.quoteAsset,
+    lotSize: {
+      minQty: parseFloat(lot.minQty || '0'),
+      maxQty: parseFloat(lot.maxQty || '0'),
+      stepSize: lot.stepSize || '0'
+    },
+    marketLotSize: marketLot && parseFloat(marketLot.stepSize || '0') > 0
+      ? {
+        minQty: parseFloat(marketLot.minQty || '0'),
+        maxQty: parseFloat(marketLot.maxQty || '0'),
+        stepSize: marketLot.stepSize
+      }
+      : null,
+    priceFilter: {
+      minPrice: parseFloat(price.minPrice || '0'),
+      maxPrice: parseFloat(price.maxPrice || '0'),
+      tickSize: price.tickSize || '0'
+    },
+    notional: {
+      minNotional: parseFloat(notional.minNotional || '0'),
+      maxNotional: parseFloat(notional.maxNotional || '0'),
+      applyToMarket: notional.applyMinToMarket ?? notional.applyToMarket ?? true,
+      filterType: byType.NOTIONAL ? 'NOTIONAL' : 'MIN_NOTIONAL'
+    }
+  };
+}
+
+/**
+ * تقريب الكمية والسعر وفق الفلاتر والتحقق من الحدود
+ * يعيد الكمية والسعر كنصوص جاهزة للإرسال
+ */
+function applySymbolFilters(order, filters, referencePrice = null) {
+  const isMarket = order.type === 'MARKET';
+  const lot = isMarket && filters.marketLotSize ? filters.marketLotSize : filters.lotSize;
+
+  const quantity = roundToStep(Number(order.quantity), lot.stepSize);
+  const quantityValue = parseFloat(quantity);
+
+  if (quantityValue <= 0 || quantityValue < lot.minQty) {
+    throw new FilterError('LOT_SIZE', `quantity ${order.quantity} below minQty ${lot.minQty}`);
+  }
+  if (lot.maxQty > 0 && quantityValue > lot.maxQty) {
+    throw new FilterError('LOT_SIZE', `quantity ${order.quantity} above maxQty ${lot.maxQty}`);
+  }
+
+  let price;
+  if (order.price !== undefined && order.price !== null && !isMarket) {
+    const { minPrice, maxPrice, tickSize } = filters.priceFilter;
+    price = roundToStep(Number(order.price), tickSize, 'round');
+    const priceValue = parseFloat(price);
+
+    if (priceValue <= 0 || (minPrice > 0 && priceValue < minPrice)) {
+      throw new FilterError('PRICE_FILTER', `price ${order.price} below minPrice ${minPrice}`);
+    }
+    if (maxPrice > 0 && priceValue > maxPrice) {
+      throw new FilterError('PRICE_FILTER', `price ${order.price} above maxPrice ${maxPrice}`);
+    }
+  }
+
+  const { minNotional, maxNotional, applyToMarket, filterType } = filters.notional;
+  const notionalPrice = price !== undefined ? parseFloat(price) : referencePrice;
+  const checkNotional = notionalPrice && (!isMarket || applyToMarket);
+
+  if (checkNotional) {
+    const notional = quantityValue * notionalPrice;
+    if (minNotional > 0 && notional < minNotional) {
+      throw new FilterError(filterType, `notional ${notional.toFixed(8)} below ${minNotional}`);
+    }
+    if (maxNotional > 0 && notional > maxNotional) {
+      throw new FilterError(filterType, `notional ${notional.toFixed(8)} above ${maxNotional}`);
+    }
+  }
+
+  return { quantity, price };
+}
+
+module.exports = {
+  FilterError,
+  stepPrecision,
+  roundToStep,
+  parseSymbolFilters,
+  applySymbolFilters
+};
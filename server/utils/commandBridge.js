@@ -0,0 +1,57 @@
+const crypto = require('crypto');
+const { HttpError } = require('./response');
+
+/**
+ * تمرير أوامر التحكم عن بعد (Telegram) إلى واجهة التداول التي تشغل المحرك
+ * الأمر ينشر كحدث botCommand، وأول واجهة تحجزه تنفذه وترسل النتيجة
+ */
+class CommandBridge {
+  constructor({ events, timeout = 15000 }) {
+    this.events = events;
+    this.timeout = timeout;
+    this.pending = new Map();
+  }
+
+  /**
+   * نشر أمر وانتظار نتيجته (يرفض إذا لم تستجب أي واجهة خلال المهلة)
+   */
+  dispatch(command, args = []) {
+    const id = crypto.randomUUID();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error('No trading UI answered the command'));
+      }, this.timeout);
+      timer.unref();
+
+      this.pending.set(id, { command, claimed: false, resolve, timer });
+      this.events.publish('botCommand', { id, command, args });
+    });
+  }
+
+  /**
+   * حجز الأمر لواجهة واحدة (منع التنفيذ المزدوج عند فتح أكثر من واجهة)
+   */
+  claim(id) {
+    const entry = this.pending.get(id);
+    if (!entry) throw new HttpError(404, 'Command not found or expired');
+    if (entry.claimed) throw new HttpError(409, 'Command already claimed');
+    entry.claimed = true;
+    return entry.command;
+  }
+
+  complete(id, { ok, message }) {
+    const entry = this.pending.get(id);
+    if (!entry) throw new HttpError(404, 'Command not found or expired');
+    if (!entry.claimed) throw new HttpError(409, 'Command must be claimed first');
+
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    entry.resolve({ ok: ok !== false, message: String(message || '') });
+  }
+}
+
+module.exports = {
+  CommandBridge
+};
@@ -0,0 +1,120 @@
+const fs = require('fs');
+const path = require('path');
+const sqlite3 = require('sqlite3');
+const MigrationManager = require('./migrations');
+
+/**
+ * غلاف بسيط لقاعدة بيانات SQLite يعيد Promises بدلاً من callbacks
+ */
+class Database {
+  constructor(filename) {
+    this.filename = filename;
+    this.db = null;
+  }
+
+  /**
+   * فتح قاعدة البيانات وتطبيق الترحيلات
+   */
+  async open() {
+    if (this.filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(this.filename)), { recursive: true });
+    }
+
+    this.db = await new Promise((resolve, reject) => {
+      const db = new sqlite3.Database(this.filename, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(db);
+        }
+      });
+    });
+
+    const migrationManager = new MigrationManager(this.db);
+    await migrationManager.applyMigrations();
+
+    return this;
+  }
+
+  /**
+   * تنفيذ استعلام تعديل (INSERT/UPDATE/DELETE)
+   */
+  run(sql, params = []) {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve({ lastID: this.lastID, changes: this.changes });
+        }
+      });
+    });
+  }
+
+  /**
+   * الحصول على صف واحد
+   */
+  get(sql, params = []) {
+    return new Promise((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
+  /**
+   * الحصول على جميع الصفوف
+   */
+  all(sql, params = []) {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      });
+    });
+  }
+
+  /**
+   * إغلاق الاتصال
+   */
+  close() {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        resolve();
+        return;
+      }
+      this.db.close((err) => {
+        if (err) {
+          reject(err);
+        } else {
+          this.db = null;
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * تحويل حقل JSON مخزن كنص إلى كائن بأمان
+ */
+function parseJson(value, fallback = null) {
+  if (value === null || value === undefined || value === '') return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+module.exports = {
+  Database,
+  parseJson
+};
@@ -0,0 +1,91 @@
+const { EventEmitter } = require('events');
+
+/**
+ * أنواع الأحداث التي تدفع للواجهة عبر /api/stream
+ */
+const EVENT_TYPES = ['price', 'bookTicker', 'depth', 'orderUpdate', 'fill', 'signal', 'riskAlert', 'log', 'botCommand'];
+
+const DEPTH_LEVELS = 20;
+
+/**
+ * ناقل أحداث الخادم: المسارات ومركز بيانات السوق تنشر هنا وقناة الدفع توزع على العملاء
+ */
+class EventBroadcaster extends EventEmitter {
+  constructor() {
+    super();
+    this.setMaxListeners(0);
+    this.sequence = 0;
+  }
+
+  /**
+   * نشر حدث بنوع معروف، يعيد الحدث بعد ترقيمه
+   */
+  publish(type, data) {
+    if (!EVENT_TYPES.includes(type)) {
+      throw new Error(`Unknown event type: ${type}`);
+    }
+
+    const event = { type, seq: ++this.sequence, timestamp: Date.now(), data };
+    this.emit('event', event);
+    return event;
+  }
+}
+
+/**
+ * تحويل تحديثات مركز بيانات السوق إلى أحداث مدفوعة:
+ * price من شموع @kline_1m (مع أفضل عرض وطلب من آخر @bookTicker)،
+ * bookTicker مرة كل bookTickerInterval لكل رمز (Binance يرسله مع كل تغيير في أفضل الأسعار)،
+ * و depth بأفضل مستويات الدفتر المحلي مرة كل depthInterval لكل رمز بدلاً من كل تحديث
+ */
+function bridgeMarketData(marketData, events, { depthInterval = 1000, bookTickerInterval = 250 } = {}) {
+  const lastDepth = new Map(); // symbol -> وقت آخر نشر للعمق
+  const lastBookTicker = new Map(); // symbol -> وقت آخر نشر لأفضل الأسعار
+
+  const listener = (update) => {
+    if (update.type === 'kline') {
+      const ticker = marketData.getBookTicker(update.symbol);
+      events.publish('price', {
+        symbol: update.symbol,
+        price: update.data.close,
+        bid: ticker ? ticker.bidPrice : null,
+        ask: ticker ? ticker.askPrice : null,
+        volume: update.data.volume,
+        timestamp: update.data.timestamp
+      });
+    } else if (update.type === 'bookTicker') {
+      const now = Date.now();
+      if (now - (lastBookTicker.get(update.symbol) || 0) < bookTickerInterval) return;
+
+      lastBookTicker.set(update.symbol, now);
+      events.publish('bookTicker', {
+        symbol: update.symbol,
+        bid: update.data.bidPrice,
+        bidQty: update.data.bidQty,
+        ask: update.data.askPrice,
+        askQty: update.data.askQty
+      });
+    } else if (update.type === 'depth') {
+      const now = Date.now();
+      if (now - (lastDepth.get(update.symbol) || 0) < depthInterval) return;
+
+      const book = marketData.getOrderBook(update.symbol, DEPTH_LEVELS);
+      if (!book) return;
+      lastDepth.set(update.symbol, now);
+      events.publish('depth', {
+        symbol: update.symbol,
+        bids: book.bids,
+        asks: book.asks,
+        lastUpdateId: book.lastUpdateId
+      });
+    }
+  };
+
+  marketData.on('update', listener);
+  return () => marketData.off('update', listener);
+}
+
+module.exports = {
+  EventBroadcaster,
+  bridgeMarketData,
+  EVENT_TYPES
+};
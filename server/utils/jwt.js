@@ -0,0 +1,68 @@
+const crypto = require('crypto');
+
+/**
+ * خطأ التحقق من JWT (reason: invalid | expired)
+ */
+class JwtError extends Error {
+  constructor(message, reason = 'invalid') {
+    super(message);
+    this.name = 'JwtError';
+    this.reason = reason;
+  }
+}
+
+const encodeSegment = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const hmac = (data, secret) => crypto.createHmac('sha256', secret).update(data).digest();
+
+/**
+ * توقيع JWT بخوارزمية HS256 مع iat و exp (expiresIn بالثواني)
+ */
+function signJwt(payload, secret, { expiresIn }) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = encodeSegment({ alg: 'HS256', typ: 'JWT' });
+  const body = encodeSegment({ ...payload, iat: issuedAt, exp: issuedAt + expiresIn });
+  const signature = hmac(`${header}.${body}`, secret).toString('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+/**
+ * التحقق من التوقيع والصلاحية وإرجاع الحمولة
+ */
+function verifyJwt(token, secret) {
+  const parts = String(token || '').split('.');
+  if (parts.length !== 3) {
+    throw new JwtError('Malformed token');
+  }
+
+  const [header, body, signature] = parts;
+  const expected = hmac(`${header}.${body}`, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new JwtError('Invalid token signature');
+  }
+
+  let decodedHeader;
+  let payload;
+  try {
+    decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString());
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+  } catch {
+    throw new JwtError('Malformed token');
+  }
+
+  if (decodedHeader.alg !== 'HS256') {
+    throw new JwtError(`Unsupported algorithm: ${decodedHeader.alg}`);
+  }
+  if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) {
+    throw new JwtError('Token expired', 'expired');
+  }
+
+  return payload;
+}
+
+module.exports = {
+  JwtError,
+  signJwt,
+  verifyJwt
+};
@@ -0,0 +1,228 @@
+const crypto = require('crypto');
+const { parseJson } = require('./database');
+
+const KEY_SET_NAMES = ['testnet', 'live'];
+const ROTATION_GRACE_PERIOD = 24 * 60 * 60 * 1000; // المجموعة القديمة قابلة للاسترجاع لمدة يوم
+
+/**
+ * خطأ خزنة المفاتيح (مفتاح تشفير غير صالح أو نص مشفر تالف)
+ */
+class KeyVaultError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'KeyVaultError';
+  }
+}
+
+/**
+ * قراءة ENCRYPTION_KEY: 32 بايت بترميز base64/base64url (مفتاح Fernet) أو 64 حرف hex
+ */
+function parseEncryptionKey(value) {
+  const raw = String(value || '').trim();
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new KeyVaultError('ENCRYPTION_KEY must decode to 32 bytes (base64 or hex)');
+  }
+  return key;
+}
+
+/**
+ * إظهار أول وآخر 4 أحرف فقط من مفتاح API
+ */
+function maskApiKey(apiKey) {
+  return apiKey.length <= 8 ? '****' : `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+}
+
+/**
+ * تحويل صف api_key_sets إلى بيانات وصفية (بدون أي مادة مفاتيح)
+ */
+function mapKeySetRow(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    apiKeyHint: row.api_key_hint,
+    permissions: parseJson(row.permissions, []),
+    canTrade: Boolean(row.can_trade),
+    validatedAt: row.validated_at,
+    retireAfter: row.retire_after,
+    revokedAt: row.revoked_at,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * خزنة مفاتيح Binance: تشفير AES-256-GCM في SQLite مع مجموعات مسماة وتدوير بفترة سماح
+ */
+class KeyVault {
+  constructor({ db, encryptionKey, gracePeriod = ROTATION_GRACE_PERIOD }) {
+    this.db = db;
+    this.key = parseEncryptionKey(encryptionKey);
+    this.gracePeriod = gracePeriod;
+  }
+
+  /**
+   * تشفير نص مع ربطه بمعرف المجموعة (AAD) حتى لا ينقل بين الصفوف
+   */
+  encrypt(plaintext, associatedData) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(Buffer.from(associatedData));
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  decrypt(payload, associatedData) {
+    const [version, iv, tag, encrypted] = String(payload || '').split(':');
+    if (version !== 'v1' || !iv || !tag || encrypted === undefined) {
+      throw new KeyVaultError('Unsupported encrypted key format');
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64'));
+      decipher.setAAD(Buffer.from(associatedData));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new KeyVaultError('Failed to decrypt key set (wrong ENCRYPTION_KEY or tampered data)');
+    }
+  }
+
+  /**
+   * حفظ مجموعة مفاتيح متحقق منها كـ active، والمجموعة السابقة تصبح retiring خلال فترة السماح
+   */
+  async store(name, { apiKey, secretKey }, { permissions = [], canTrade = false, createdBy = null } = {}) {
+    this.assertName(name);
+    await this.purgeExpired();
+
+    const now = new Date();
+    const id = crypto.randomUUID();
+    const retireAfter = new Date(now.getTime() + this.gracePeriod).toISOString();
+
+    await this.db.run(
+      `UPDATE api_key_sets SET status = 'retiring', retire_after = ? WHERE name = ? AND status = 'active'`,
+      [retireAfter, name]
+    );
+    await this.db.run(
+      `INSERT INTO api_key_sets
+        (id, name, status, api_key_encrypted, secret_key_encrypted, api_key_hint, permissions, can_trade,
+         validated_at, created_by, created_at)
+       VALUES (?, ?, 'active', ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        name,
+        this.encrypt(apiKey, `${id}:apiKey`),
+        this.encrypt(secretKey, `${id}:secretKey`),
+        maskApiKey(apiKey),
+        JSON.stringify(permissions),
+        canTrade ? 1 : 0,
+        now.toISOString(),
+        createdBy,
+        now.toISOString()
+      ]
+    );
+
+    console.log(`[KEY VAULT] Stored ${name} key set ${maskApiKey(apiKey)}`);
+    return mapKeySetRow(await this.db.get('SELECT * FROM api_key_sets WHERE id = ?', [id]));
+  }
+
+  /**
+   * المفاتيح المفكوكة للمجموعة النشطة (للاستخدام داخل الخادم فقط)
+   */
+  async getCredentials(name) {
+    const row = await this.getActiveRow(name);
+    if (!row) return null;
+
+    return {
+      apiKey: this.decrypt(row.api_key_encrypted, `${row.id}:apiKey`),
+      secretKey: this.decrypt(row.secret_key_encrypted, `${row.id}:secretKey`),
+      keySet: mapKeySetRow(row)
+    };
+  }
+
+  async getActive(name) {
+    const row = await this.getActiveRow(name);
+    return row ? mapKeySetRow(row) : null;
+  }
+
+  /**
+   * جميع المجموعات غير الملغاة (بيانات وصفية فقط)
+   */
+  async list() {
+    await this.purgeExpired();
+    const rows = await this.db.all(
+      `SELECT * FROM api_key_sets WHERE status != 'revoked' ORDER BY name, created_at DESC, rowid DESC`
+    );
+    return rows.map(mapKeySetRow);
+  }
+
+  /**
+   * استرجاع المجموعة السابقة خلال فترة السماح (عند فشل المفاتيح الجديدة)
+   */
+  async rollback(name) {
+    this.assertName(name);
+    await this.purgeExpired();
+
+    const previous = await this.db.get(
+      `SELECT * FROM api_key_sets WHERE name = ? AND status = 'retiring' ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+      [name]
+    );
+    if (!previous) return null;
+
+    await this.revokeWhere('name = ? AND status = ?', [name, 'active']);
+    await this.db.run(
+      `UPDATE api_key_sets SET status = 'active', retire_after = NULL WHERE id = ?`,
+      [previous.id]
+    );
+
+    console.warn(`[KEY VAULT] Rolled back ${name} key set to ${previous.api_key_hint}`);
+    return this.getActive(name);
+  }
+
+  /**
+   * إلغاء جميع مجموعات الاسم ومسح نصوصها المشفرة
+   */
+  async revoke(name) {
+    this.assertName(name);
+    const changes = await this.revokeWhere('name = ? AND status != ?', [name, 'revoked']);
+    if (changes > 0) console.log(`[KEY VAULT] Revoked ${name} key sets`);
+    return changes > 0;
+  }
+
+  /**
+   * إنهاء المجموعات التي تجاوزت فترة السماح
+   */
+  async purgeExpired() {
+    return this.revokeWhere(`status = 'retiring' AND retire_after <= ?`, [new Date().toISOString()]);
+  }
+
+  async getActiveRow(name) {
+    this.assertName(name);
+    return this.db.get(`SELECT * FROM api_key_sets WHERE name = ? AND status = 'active'`, [name]);
+  }
+
+  async revokeWhere(condition, params) {
+    const result = await this.db.run(
+      `UPDATE api_key_sets
+       SET status = 'revoked', revoked_at = ?, api_key_encrypted = NULL, secret_key_encrypted = NULL
+       WHERE ${condition}`,
+      [new Date().toISOString(), ...params]
+    );
+    return result.changes;
+  }
+
+  assertName(name) {
+    if (!KEY_SET_NAMES.includes(name)) {
+      throw new KeyVaultError(`Key set name must be one of: ${KEY_SET_NAMES.join(', ')}`);
+    }
+  }
+}
+
+module.exports = {
+  KEY_SET_NAMES,
+  KeyVault,
+  KeyVaultError,
+  parseEncryptionKey,
+  maskApiKey
+};
@@ -0,0 +1,68 @@
+const crypto = require('crypto');
+const { Database } = require('./database');
+const { KeyVault, KeyVaultError, parseEncryptionKey } = require('./keyVault');
+
+describe('KeyVault', () => {
+  const encryptionKey = crypto.randomBytes(32).toString('base64');
+  const keys = { apiKey: 'AKEY1234567890ZZ', secretKey: 'SECRET-1234567890' };
+  let db;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    db = await new Database(':memory:').open();
+  });
+
+  afterEach(async () => {
+    await db.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should accept base64 and hex keys of 32 bytes only', () => {
+    expect(parseEncryptionKey(encryptionKey)).toHaveLength(32);
+    expect(parseEncryptionKey('ab'.repeat(32))).toHaveLength(32);
+    expect(() => parseEncryptionKey('your_fernet_encryption_key')).toThrow(KeyVaultError);
+  });
+
+  test('should store keys encrypted and return metadata only', async () => {
+    const vault = new KeyVault({ db, encryptionKey });
+    const keySet = await vault.store('testnet', keys, { permissions: ['SPOT'], canTrade: true, createdBy: 'lead' });
+
+    expect(keySet).toMatchObject({ name: 'testnet', status: 'active', apiKeyHint: 'AKEY…90ZZ', permissions: ['SPOT'] });
+    expect(JSON.stringify(keySet)).not.toContain(keys.secretKey);
+
+    const row = await db.get('SELECT * FROM api_key_sets WHERE id = ?', [keySet.id]);
+    expect(row.api_key_encrypted).not.toContain(keys.apiKey);
+    expect(row.secret_key_encrypted).toMatch(/^v1:/);
+
+    expect(await vault.getCredentials('testnet')).toMatchObject(keys);
+    await expect(new KeyVault({ db, encryptionKey: crypto.randomBytes(32).toString('hex') }).getCredentials('testnet'))
+      .rejects.toThrow(KeyVaultError);
+  });
+
+  test('should keep the previous key set for rollback during the grace period', async () => {
+    const vault = new KeyVault({ db, encryptionKey, gracePeriod: 60000 });
+    await vault.store('live', keys);
+    await vault.store('live', { apiKey: 'NEWKEY0000000000', secretKey: 'NEW-SECRET' });
+
+    expect((await vault.list()).map(set => set.status)).toEqual(['active', 'retiring']);
+    expect((await vault.getCredentials('live')).apiKey).toBe('NEWKEY0000000000');
+
+    await vault.rollback('live');
+    expect((await vault.getCredentials('live')).apiKey).toBe(keys.apiKey);
+    expect(await vault.rollback('live')).toBeNull();
+
+    expect(await vault.revoke('live')).toBe(true);
+    expect(await vault.getCredentials('live')).toBeNull();
+    expect(await db.get('SELECT COUNT(*) AS count FROM api_key_sets WHERE api_key_encrypted IS NOT NULL')).toEqual({ count: 0 });
+  });
+
+  test('should revoke retiring key sets once the grace period ends', async () => {
+    const vault = new KeyVault({ db, encryptionKey, gracePeriod: 0 });
+    await vault.store('testnet', keys);
+    await vault.store('testnet', { apiKey: 'NEWKEY0000000000', secretKey: 'NEW-SECRET' });
+
+    expect(await vault.rollback('testnet')).toBeNull();
+    expect(await vault.list()).toHaveLength(1);
+  });
+});
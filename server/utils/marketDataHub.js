@@ -0,0 +1,352 @@
+const { EventEmitter } = require('events');
+const WebSocket = require('ws');
+const { OrderBook, OrderBookGapError } = require('./orderBook');
+
+const DEFAULT_STREAM_URL = 'wss://stream.testnet.binance.vision/stream';
+const MAX_BUFFERED_EVENTS = 1000; // حد أحداث العمق المخزنة أثناء انتظار اللقطة
+
+/**
+ * مركز بيانات السوق: اتصال WebSocket واحد بتدفقات Binance المجمعة
+ * يحافظ على دفتر أوامر محلي لكل رمز (@depth + لقطة REST) وآخر @bookTicker و @kline_1m
+ * ويوزع التحديثات على المشتركين بدلاً من استطلاع REST من كل مكون
+ */
+class MarketDataHub extends EventEmitter {
+  constructor({
+    streamUrl = DEFAULT_STREAM_URL,
+    fetchSnapshot,
+    snapshotLimit = 1000,
+    depthInterval = '100ms',
+    reconnectDelay = 1000,
+    maxReconnectDelay = 30000,
+    WebSocketImpl = WebSocket
+  } = {}) {
+    super();
+    if (typeof fetchSnapshot !== 'function') {
+      throw new Error('MarketDataHub requires fetchSnapshot(symbol, limit)');
+    }
+
+    this.streamUrl = streamUrl;
+    this.fetchSnapshot = fetchSnapshot;
+    this.snapshotLimit = snapshotLimit;
+    this.depthInterval = depthInterval;
+    this.reconnectDelay = reconnectDelay;
+    this.maxReconnectDelay = maxReconnectDelay;
+    this.WebSocketImpl = WebSocketImpl;
+
+    this.symbols = new Map(); // symbol -> { book, buffer, syncing, listeners, watchers, bookTicker, kline }
+    this.socket = null;
+    this.connected = false;
+    this.stopped = true;
+    this.reconnectAttempts = 0;
+    this.reconnectTimer = null;
+    this.nextRequestId = 1;
+    this.stats = { messages: 0, resyncs: 0, reconnects: 0 };
+  }
+
+  /**
+   * الاشتراك في تحديثات رمز، يعيد دالة إلغاء الاشتراك
+   * المستمع يستقبل { type: 'depth' | 'bookTicker' | 'kline' | 'resync', symbol, data }
+   */
+  subscribe(symbol, listener) {
+    const entry = this.ensureSymbol(symbol);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      this.releaseSymbol(symbol);
+    };
+  }
+
+  /**
+   * متابعة رمز بدون مستمع (لإبقاء الدفتر جاهزاً لمسارات REST)
+   */
+  watch(symbol) {
+    this.ensureSymbol(symbol).watchers++;
+  }
+
+  unwatch(symbol) {
+    const entry = this.symbols.get(symbol.toUpperCase());
+    if (!entry || entry.watchers === 0) return;
+    entry.watchers--;
+    this.releaseSymbol(symbol);
+  }
+
+  /**
+   * دفتر الأوامر المحلي (null قبل اكتمال المزامنة)
+   */
+  getOrderBook(symbol, limit = 20) {
+    const entry = this.symbols.get(symbol.toUpperCase());
+    return entry && entry.book.isSynced() ? entry.book.getDepth(limit) : null;
+  }
+
+  getBookTicker(symbol) {
+    return this.symbols.get(symbol.toUpperCase())?.bookTicker || null;
+  }
+
+  getLastKline(symbol) {
+    return this.symbols.get(symbol.toUpperCase())?.kline || null;
+  }
+
+  /**
+   * آخر سعر تداول معروف (إغلاق الشمعة الحالية أو منتصف أفضل عرض وطلب)
+   */
+  getLastPrice(symbol) {
+    const kline = this.getLastKline(symbol);
+    if (kline) return kline.close;
+    const ticker = this.getBookTicker(symbol);
+    return ticker ? (ticker.bidPrice + ticker.askPrice) / 2 : null;
+  }
+
+  getStatus() {
+    return {
+      connected: this.connected,
+      streamUrl: this.streamUrl,
+      symbols: Array.from(this.symbols, ([symbol, entry]) => ({
+        symbol,
+        synced: entry.book.isSynced(),
+        lastUpdateId: entry.book.lastUpdateId,
+        subscribers: entry.listeners.size + entry.watchers
+      })),
+      ...this.stats
+    };
+  }
+
+  /**
+   * إيقاف الاتصال نهائياً (حتى اشتراك جديد)
+   */
+  close() {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on('error', () => {});
+      this.socket.terminate();
+      this.socket = null;
+    }
+    this.connected = false;
+  }
+
+  ensureSymbol(symbol) {
+    const key = symbol.toUpperCase();
+    let entry = this.symbols.get(key);
+    if (entry) return entry;
+
+    entry = {
+      book: new OrderBook(key),
+      buffer: [],
+      syncing: false,
+      listeners: new Set(),
+      watchers: 0,
+      bookTicker: null,
+      kline: null
+    };
+    this.symbols.set(key, entry);
+
+    if (this.stopped) {
+      this.stopped = false;
+      this.connect();
+    } else if (this.connected) {
+      this.send('SUBSCRIBE', this.streamsFor(key));
+    }
+
+    return entry;
+  }
+
+  releaseSymbol(symbol) {
+    const key = symbol.toUpperCase();
+    const entry = this.symbols.get(key);
+    if (!entry || entry.listeners.size > 0 || entry.watchers > 0) return;
+
+    this.symbols.delete(key);
+    if (this.connected) this.send('UNSUBSCRIBE', this.streamsFor(key));
+    if (this.symbols.size === 0) this.close();
+  }
+
+  streamsFor(symbol) {
+    const name = symbol.toLowerCase();
+    return [`${name}@depth@${this.depthInterval}`, `${name}@bookTicker`, `${name}@kline_1m`];
+  }
+
+  connect() {
+    const streams = Array.from(this.symbols.keys()).flatMap(symbol => this.streamsFor(symbol));
+    const socket = new this.WebSocketImpl(`${this.streamUrl}?streams=${streams.join('/')}`);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      console.log(`[MARKET DATA] Connected to ${this.streamUrl} (${this.symbols.size} symbols)`);
+
+      // الرموز المضافة أثناء الاتصال لم تكن في رابط الاتصال
+      const pending = Array.from(this.symbols.keys())
+        .flatMap(symbol => this.streamsFor(symbol))
+        .filter(stream => !streams.includes(stream));
+      if (pending.length > 0) this.send('SUBSCRIBE', pending);
+      this.emit('connected');
+    });
+
+    socket.on('message', raw => this.handleMessage(raw));
+
+    socket.on('error', error => {
+      console.warn('[MARKET DATA] Stream error:', error.message);
+    });
+
+    socket.on('close', () => {
+      this.connected = false;
+      this.socket = null;
+      this.emit('disconnected');
+      if (this.stopped) return;
+
+      // الدفاتر تحتاج لقطة جديدة بعد أي انقطاع
+      this.symbols.forEach(entry => this.resetBook(entry));
+      this.scheduleReconnect();
+    });
+  }
+
+  scheduleReconnect() {
+    const delay = Math.min(this.reconnectDelay * 2 ** this.reconnectAttempts, this.maxReconnectDelay);
+    this.reconnectAttempts++;
+    this.stats.reconnects++;
+    console.warn(`[MARKET DATA] Stream closed, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.connect();
+    }, delay);
+  }
+
+  send(method, params) {
+    if (!this.socket || params.length === 0) return;
+    this.socket.send(JSON.stringify({ method, params, id: this.nextRequestId++ }));
+  }
+
+  handleMessage(raw) {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      console.warn('[MARKET DATA] Ignoring malformed stream message');
+      return;
+    }
+
+    // ردود SUBSCRIBE/UNSUBSCRIBE لا تحمل stream
+    if (!message.stream || !message.data) return;
+    this.stats.messages++;
+
+    const [name, type] = message.stream.split('@');
+    const entry = this.symbols.get(name.toUpperCase());
+    if (!entry) return;
+
+    if (type === 'depth') {
+      this.handleDepth(name.toUpperCase(), entry, message.data);
+    } else if (type === 'bookTicker') {
+      entry.bookTicker = {
+        updateId: message.data.u,
+        bidPrice: parseFloat(message.data.b),
+        bidQty: parseFloat(message.data.B),
+        askPrice: parseFloat(message.data.a),
+        askQty: parseFloat(message.data.A)
+      };
+      this.publish(name.toUpperCase(), entry, 'bookTicker', entry.bookTicker);
+    } else if (type.startsWith('kline')) {
+      const k = message.data.k;
+      entry.kline = {
+        timestamp: k.t,
+        open: parseFloat(k.o),
+        high: parseFloat(k.h),
+        low: parseFloat(k.l),
+        close: parseFloat(k.c),
+        volume: parseFloat(k.v),
+        closed: k.x
+      };
+      this.publish(name.toUpperCase(), entry, 'kline', entry.kline);
+    }
+  }
+
+  handleDepth(symbol, entry, event) {
+    if (!entry.book.isSynced()) {
+      entry.buffer.push(event);
+      if (entry.buffer.length > MAX_BUFFERED_EVENTS) entry.buffer.shift();
+      if (!entry.syncing) this.syncBook(symbol, entry);
+      return;
+    }
+
+    try {
+      if (entry.book.applyDiff(event)) {
+        this.publishDepth(symbol, entry);
+      }
+    } catch (error) {
+      this.handleGap(symbol, entry, error);
+    }
+  }
+
+  /**
+   * جلب اللقطة ثم تطبيق الأحداث المخزنة أثناء الانتظار
+   */
+  async syncBook(symbol, entry) {
+    entry.syncing = true;
+    try {
+      const snapshot = await this.fetchSnapshot(symbol, this.snapshotLimit);
+      if (this.symbols.get(symbol) !== entry) return; // ألغي الاشتراك أثناء الانتظار
+
+      entry.book.applySnapshot(snapshot);
+      const buffered = entry.buffer;
+      entry.buffer = [];
+      for (const event of buffered) {
+        entry.book.applyDiff(event);
+      }
+
+      console.log(`[MARKET DATA] ${symbol} order book synced @ ${entry.book.lastUpdateId}`);
+      this.publishDepth(symbol, entry);
+    } catch (error) {
+      if (error instanceof OrderBookGapError) {
+        // اللقطة أقدم من أول حدث مخزن: ننتظر الحدث التالي ونجلب لقطة أحدث
+        this.handleGap(symbol, entry, error);
+      } else {
+        console.warn(`[MARKET DATA] Snapshot for ${symbol} failed:`, error.message);
+        entry.book.reset();
+      }
+    } finally {
+      entry.syncing = false;
+    }
+  }
+
+  handleGap(symbol, entry, error) {
+    this.stats.resyncs++;
+    console.warn(`[MARKET DATA] ${error.message} - resyncing`);
+    this.resetBook(entry);
+    this.publish(symbol, entry, 'resync', { reason: error.message });
+  }
+
+  resetBook(entry) {
+    entry.book.reset();
+    entry.buffer = [];
+  }
+
+  publishDepth(symbol, entry) {
+    const best = entry.book.getBest();
+    this.publish(symbol, entry, 'depth', {
+      lastUpdateId: entry.book.lastUpdateId,
+      bid: best.bid,
+      ask: best.ask
+    });
+  }
+
+  publish(symbol, entry, type, data) {
+    const update = { type, symbol, data };
+    entry.listeners.forEach(listener => {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error('[MARKET DATA] Subscriber failed:', error);
+      }
+    });
+    this.emit('update', update);
+  }
+}
+
+module.exports = {
+  MarketDataHub,
+  DEFAULT_STREAM_URL
+};
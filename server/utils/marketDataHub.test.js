@@ -0,0 +1,129 @@
+const { MarketDataHub } = require('./marketDataHub');
+const { BinanceClient } = require('./binanceClient');
+const { createBinanceStub } = require('../test/binanceStub');
+const { createBinanceStreamReplay, depthUpdate, bookTicker, kline } = require('../test/binanceStreamReplay');
+
+/**
+ * انتظار شرط غير متزامن (أحداث WebSocket لا تصل فوراً)
+ */
+async function waitFor(condition, timeout = 2000) {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('MarketDataHub', () => {
+  let stub;
+  let replay;
+  let hub;
+  let updates;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    stub = createBinanceStub();
+    replay = createBinanceStreamReplay();
+    const [baseUrl, streamUrl] = await Promise.all([stub.start(), replay.start()]);
+    const binance = new BinanceClient({ baseUrl });
+
+    hub = new MarketDataHub({
+      streamUrl,
+      fetchSnapshot: (symbol, limit) => binance.publicRequest('/v3/depth', { symbol, limit }),
+      reconnectDelay: 20
+    });
+    updates = [];
+  });
+
+  afterEach(async () => {
+    hub.close();
+    await Promise.all([replay.stop(), stub.stop()]);
+    jest.restoreAllMocks();
+  });
+
+  const subscribe = async (symbol = 'BTCUSDT') => {
+    const unsubscribe = hub.subscribe(symbol, update => updates.push(update));
+    await waitFor(() => hub.connected);
+    return unsubscribe;
+  };
+
+  test('should build the book from a snapshot and buffered diffs, dropping stale events', async () => {
+    await subscribe();
+    expect(replay.state.subscriptions.has('btcusdt@depth@100ms')).toBe(true);
+
+    replay.replay([
+      depthUpdate('BTCUSDT', 90, 99, [['49999.00', '9.00000000']]), // أقدم من اللقطة (100)
+      depthUpdate('BTCUSDT', 95, 101, [['49999.00', '2.00000000']]),
+      depthUpdate('BTCUSDT', 102, 102, [], [['50001.00', '0.00000000']])
+    ]);
+
+    await waitFor(() => hub.getOrderBook('BTCUSDT')?.lastUpdateId === 102);
+    const book = hub.getOrderBook('BTCUSDT', 2);
+
+    expect(book.bids[0]).toEqual({ price: 49999, quantity: 2 });
+    expect(book.asks[0]).toEqual({ price: 50002, quantity: 1 });
+    expect(updates.some(update => update.type === 'depth')).toBe(true);
+  });
+
+  test('should resync from a fresh snapshot when a sequence gap is detected', async () => {
+    await subscribe();
+    replay.replay([depthUpdate('BTCUSDT', 100, 101)]);
+    await waitFor(() => hub.getOrderBook('BTCUSDT')?.lastUpdateId === 101);
+
+    // فقدان التحديثات 102-104
+    stub.state.orderBooks.BTCUSDT = { lastUpdateId: 110, bids: [['49000.00', '3.00000000']], asks: [['51000.00', '3.00000000']] };
+    replay.replay([
+      depthUpdate('BTCUSDT', 105, 106),
+      depthUpdate('BTCUSDT', 107, 111, [['49000.00', '4.00000000']])
+    ]);
+
+    await waitFor(() => hub.getOrderBook('BTCUSDT')?.lastUpdateId === 111);
+    expect(updates.some(update => update.type === 'resync')).toBe(true);
+    expect(hub.getOrderBook('BTCUSDT').bids[0]).toEqual({ price: 49000, quantity: 4 });
+    expect(hub.getStatus().resyncs).toBe(1);
+  });
+
+  test('should fan out bookTicker and kline updates until unsubscribed', async () => {
+    const unsubscribe = await subscribe();
+
+    replay.replay([
+      bookTicker('BTCUSDT', 1, '49999.50', '50000.50'),
+      kline('BTCUSDT', 1700000000000, '50000.00', '50123.45')
+    ]);
+    await waitFor(() => updates.some(update => update.type === 'kline'));
+
+    expect(hub.getBookTicker('BTCUSDT')).toMatchObject({ bidPrice: 49999.5, askPrice: 50000.5 });
+    expect(hub.getLastPrice('BTCUSDT')).toBe(50123.45);
+
+    hub.subscribe('ETHUSDT', () => {});
+    await waitFor(() => replay.state.subscriptions.has('ethusdt@bookTicker'));
+
+    unsubscribe();
+    await waitFor(() => !replay.state.subscriptions.has('btcusdt@bookTicker'));
+    const received = updates.length;
+    replay.replay([bookTicker('BTCUSDT', 2, '1.00', '2.00')]);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(updates).toHaveLength(received);
+  });
+
+  test('should reconnect, resubscribe and resync after the stream drops', async () => {
+    await subscribe();
+    replay.replay([depthUpdate('BTCUSDT', 100, 101)]);
+    await waitFor(() => hub.getOrderBook('BTCUSDT') !== null);
+
+    replay.dropConnections();
+    await waitFor(() => !hub.connected);
+    expect(hub.getOrderBook('BTCUSDT')).toBeNull();
+
+    await waitFor(() => hub.connected && replay.state.connections === 2);
+    expect(replay.state.subscriptions.has('btcusdt@depth@100ms')).toBe(true);
+
+    stub.state.orderBooks.BTCUSDT.lastUpdateId = 200;
+    replay.replay([depthUpdate('BTCUSDT', 201, 201)]);
+    await waitFor(() => hub.getOrderBook('BTCUSDT')?.lastUpdateId === 201);
+    expect(hub.getStatus().reconnects).toBe(1);
+  });
+});
@@ -0,0 +1,264 @@
+const crypto = require('crypto');
+const net = require('net');
+const tls = require('tls');
+const os = require('os');
+
+/**
+ * خطأ من قناة إرسال (Telegram أو SMTP)
+ */
+class TransportError extends Error {
+  constructor(transport, message) {
+    super(`${transport}: ${message}`);
+    this.name = 'TransportError';
+    this.transport = transport;
+  }
+}
+
+/**
+ * إرسال التنبيهات عبر Telegram Bot API (apiBaseUrl قابل للتغيير لخادم وهمي في الاختبارات)
+ */
+class TelegramTransport {
+  constructor({ botToken, chatId = null, apiBaseUrl = 'https://api.telegram.org', timeout = 10000 }) {
+    if (!botToken) {
+      throw new Error('TelegramTransport requires botToken');
+    }
+    this.name = 'telegram';
+    this.botToken = botToken;
+    this.chatId = chatId;
+    this.apiBaseUrl = apiBaseUrl.replace(/\/+$/, '');
+    this.timeout = timeout;
+  }
+
+  /**
+   * استدعاء طريقة من Bot API وإرجاع result
+   */
+  async request(method, payload, timeout = this.timeout) {
+    let response;
+    try {
+      response = await fetch(`${this.apiBaseUrl}/bot${this.botToken}/${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(timeout)
+      });
+    } catch (error) {
+      throw new TransportError(this.name, `Bot API is unreachable: ${error.message}`);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body || !body.ok) {
+      throw new TransportError(this.name, (body && body.description) || `HTTP ${response.status}`);
+    }
+    return body.result;
+  }
+
+  sendMessage(chatId, text) {
+    return this.request('sendMessage', { chat_id: chatId, text, disable_web_page_preview: true });
+  }
+
+  async send({ title, message }) {
+    return this.sendMessage(this.chatId, `${title}\n\n${message}`);
+  }
+}
+
+/**
+ * ترميز ترويسة بـ UTF-8 (العناوين العربية)
+ */
+function encodeHeader(value) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * بناء رسالة نصية بصيغة MIME (المحتوى base64 فلا يحتاج لمعالجة النقاط في DATA)
+ */
+function buildMessage({ from, to, subject, text, date = new Date() }) {
+  const body = Buffer.from(text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${from.split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+}
+
+/**
+ * اتصال SMTP بسيط: يقرأ الردود متعددة الأسطر ويدعم الترقية إلى TLS
+ */
+class SmtpConnection {
+  constructor(socket, timeout) {
+    this.timeout = timeout;
+    this.buffer = '';
+    this.lines = [];
+    this.waiter = null;
+    this.attach(socket);
+  }
+
+  attach(socket) {
+    this.socket = socket;
+    this.socket.setTimeout(this.timeout);
+    this.socket.on('data', chunk => {
+      this.buffer += chunk.toString('utf8');
+      this.flush();
+    });
+    this.socket.on('timeout', () => this.fail(new Error('Connection timed out')));
+    this.socket.on('error', error => this.fail(error));
+    this.socket.on('close', () => this.fail(new Error('Connection closed')));
+  }
+
+  flush() {
+    let index;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      this.lines.push(this.buffer.slice(0, index));
+      this.buffer = this.buffer.slice(index + 2);
+    }
+
+    // الرد يكتمل عند سطر "250 ..." (بمسافة بعد الرمز لا شرطة)
+    const last = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+    if (last === -1 || !this.waiter) return;
+
+    const lines = this.lines.splice(0, last + 1);
+    const { resolve } = this.waiter;
+    this.waiter = null;
+    resolve({ code: parseInt(lines[0].slice(0, 3), 10), lines: lines.map(line => line.slice(4)) });
+  }
+
+  fail(error) {
+    if (!this.waiter) return;
+    const { reject } = this.waiter;
+    this.waiter = null;
+    reject(error);
+  }
+
+  read() {
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  async command(line, expected) {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      const shown = line && line.startsWith('AUTH') ? 'AUTH' : line;
+      throw new Error(`${shown || 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  upgrade(servername) {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('timeout');
+    plain.removeAllListeners('close');
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername }, () => resolve());
+      secure.once('error', reject);
+      this.attach(secure);
+    });
+  }
+
+  close() {
+    this.waiter = null;
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+/**
+ * إرسال التنبيهات بالبريد عبر SMTP مباشرة (STARTTLS على 587 أو TLS على 465)
+ * بيانات الدخول لا ترسل عبر اتصال غير مشفر إلا مع allowInsecureAuth (خادم محلي)
+ */
+class SmtpTransport {
+  constructor({
+    host,
+    port = 587,
+    secure = port === 465,
+    user = null,
+    pass = null,
+    from = user,
+    to = user,
+    timeout = 15000,
+    allowInsecureAuth = false
+  }) {
+    const recipients = (Array.isArray(to) ? to : String(to || '').split(','))
+      .map(address => address.trim())
+      .filter(Boolean);
+    if (!host || !from || recipients.length === 0) {
+      throw new Error('SmtpTransport requires host, from and at least one recipient');
+    }
+
+    this.name = 'email';
+    this.host = host;
+    this.port = port;
+    this.secure = secure;
+    this.user = user;
+    this.pass = pass;
+    this.from = from;
+    this.to = recipients;
+    this.timeout = timeout;
+    this.allowInsecureAuth = allowInsecureAuth;
+  }
+
+  connect() {
+    return new Promise((resolve, reject) => {
+      const options = { host: this.host, port: this.port };
+      const socket = this.secure
+        ? tls.connect({ ...options, servername: this.host }, () => resolve(socket))
+        : net.connect(options, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send({ title, message }) {
+    let connection = null;
+    try {
+      connection = new SmtpConnection(await this.connect(), this.timeout);
+      await connection.command(null, [220]);
+
+      let encrypted = this.secure;
+      const ehlo = `EHLO ${os.hostname() || 'localhost'}`;
+      const hello = await connection.command(ehlo, [250]);
+      if (!encrypted && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.host);
+        encrypted = true;
+        await connection.command(ehlo, [250]); // الإمكانات تعلن من جديد بعد التشفير
+      }
+
+      if (this.user && this.pass) {
+        if (!encrypted && !this.allowInsecureAuth) {
+          throw new Error('Server does not support STARTTLS, refusing to send credentials in plain text');
+        }
+        const credentials = Buffer.from(`\0${this.user}\0${this.pass}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${this.from}>`, [250]);
+      for (const recipient of this.to) {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await connection.command('DATA', [354]);
+      const data = buildMessage({ from: this.from, to: this.to, subject: title, text: message });
+      await connection.command(`${data}.`, [250]);
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } catch (error) {
+      throw new TransportError(this.name, error.message);
+    } finally {
+      if (connection) connection.close();
+    }
+  }
+}
+
+module.exports = {
+  TransportError,
+  TelegramTransport,
+  SmtpTransport,
+  buildMessage
+};
@@ -0,0 +1,265 @@
+const { TelegramTransport, SmtpTransport } = require('./notificationTransports');
+
+/**
+ * مستويات الخطورة بالترتيب (مرشح القناة يمرر المستوى المحدد وما فوقه)
+ */
+const SEVERITIES = ['info', 'warning', 'critical'];
+
+// أسباب الخروج التي تعتبر إيقافاً للخسارة (من PositionTracker في الواجهة)
+const STOP_OUT_REASONS = ['STOP_LOSS', 'TRAILING_STOP'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function severityRank(severity) {
+  const rank = SEVERITIES.indexOf(severity);
+  return rank === -1 ? 0 : rank;
+}
+
+function formatNumber(value, digits = 2) {
+  return Number.isFinite(value) ? value.toFixed(digits) : '-';
+}
+
+/**
+ * تحويل حدث من EventBroadcaster إلى تنبيه (null = حدث لا ينبه)
+ */
+function toNotification(event) {
+  const { type, data } = event;
+
+  if (type === 'fill') {
+    const mode = data.isDryRun ? 'DRY_RUN' : 'LIVE';
+    const details = `${data.side} ${data.quantity} ${data.symbol} @ ${formatNumber(data.price, 4)} (${mode})`;
+    if (STOP_OUT_REASONS.includes(data.reason)) {
+      return {
+        key: `stopOut:${data.symbol}`,
+        severity: 'warning',
+        title: `🛑 إيقاف خسارة ${data.symbol}`,
+        message: `${details}\nالسبب: ${data.reason}`
+      };
+    }
+    return {
+      key: `fill:${data.symbol}`,
+      severity: 'info',
+      title: `✅ تنفيذ ${data.side} ${data.symbol}`,
+      message: `${details}\nالرسوم: ${formatNumber(data.fees, 4)}${data.reason ? `\nالسبب: ${data.reason}` : ''}`
+    };
+  }
+
+  if (type === 'riskAlert') {
+    return {
+      key: `risk:${data.action}`,
+      severity: data.riskLevel === 'HIGH' ? 'critical' : 'warning',
+      title: `⚠️ رفض فحص المخاطر (${data.action})`,
+      message: [
+        data.reason || 'بدون سبب',
+        `الخسارة اليومية: ${formatNumber(data.dailyLoss)}`,
+        `التراجع: ${formatNumber(data.currentDrawdown)}%`
+      ].join('\n')
+    };
+  }
+
+  // القواطع تعمل في الواجهة وتبلغ الخادم عبر POST /logs/system
+  if (type === 'log' && data.logType === 'system' && data.entry.type === 'CIRCUIT_BREAKER') {
+    const metadata = data.entry.metadata || {};
+    if (metadata.state !== 'OPEN') return null;
+    return {
+      key: `circuit:${metadata.circuit}`,
+      severity: 'critical',
+      title: `⛔ قاطع الدائرة ${metadata.circuit} مفتوح`,
+      message: `${data.entry.message}\nإعادة المحاولة بعد ${Math.ceil((metadata.retryIn || 0) / 1000)} ثانية`
+    };
+  }
+
+  return null;
+}
+
+/**
+ * خدمة التنبيهات: تتابع أحداث الخادم وترسلها لكل قناة حسب مرشح الخطورة مع تقليل التكرار
+ * القناة: { name, transport: { send({ title, message, severity }) }, minSeverity, throttleMs }
+ */
+class NotificationService {
+  constructor({ events, db = null, channels = [], dailySummaryHour = null, now = () => Date.now() }) {
+    this.events = events;
+    this.db = db;
+    this.channels = channels.map(channel => ({
+      minSeverity: 'info',
+      throttleMs: 60 * 1000,
+      ...channel
+    }));
+    this.dailySummaryHour = dailySummaryHour;
+    this.now = now;
+    this.throttled = new Map(); // `${channel}:${key}` -> { sentAt, suppressed }
+    this.summaryTimer = null;
+    this.listener = event => {
+      const notification = toNotification(event);
+      if (notification) this.notify(notification);
+    };
+  }
+
+  start() {
+    this.events.on('event', this.listener);
+    this.scheduleDailySummary();
+    console.log(`[NOTIFY] Notifications enabled via ${this.channels.map(channel => channel.name).join(', ')}`);
+  }
+
+  stop() {
+    this.events.off('event', this.listener);
+    if (this.summaryTimer) {
+      clearTimeout(this.summaryTimer);
+      this.summaryTimer = null;
+    }
+  }
+
+  /**
+   * إرسال تنبيه لكل قناة يمر بمرشحها، يعيد أسماء القنوات التي أرسل إليها
+   */
+  async notify({ key, severity, title, message }) {
+    const sentAt = this.now();
+    const deliveries = this.channels.map(async (channel) => {
+      if (severityRank(severity) < severityRank(channel.minSeverity)) return null;
+
+      // نفس المفتاح خلال مهلة القناة يعد ولا يرسل، ويذكر عدده مع التنبيه التالي
+      const throttleKey = `${channel.name}:${key}`;
+      const previous = this.throttled.get(throttleKey);
+      if (previous && sentAt - previous.sentAt < channel.throttleMs) {
+        previous.suppressed += 1;
+        return null;
+      }
+      this.throttled.set(throttleKey, { sentAt, suppressed: 0 });
+
+      const suppressed = previous ? previous.suppressed : 0;
+      const text = suppressed > 0 ? `${message}\n(+${suppressed} تنبيهات مماثلة لم ترسل)` : message;
+      try {
+        await channel.transport.send({ title, message: text, severity });
+        return channel.name;
+      } catch (error) {
+        console.warn(`[NOTIFY] ${channel.name} delivery failed: ${error.message}`);
+        return null;
+      }
+    });
+
+    return (await Promise.all(deliveries)).filter(Boolean);
+  }
+
+  /**
+   * ملخص آخر 24 ساعة: التنفيذات والرسوم وإيقافات الخسارة ورفض المخاطر
+   */
+  async buildDailySummary(until = this.now()) {
+    const from = new Date(until - DAY_MS).toISOString();
+    const to = new Date(until).toISOString();
+
+    const [fills, risk, riskState] = await Promise.all([
+      this.db.all(
+        `SELECT side, COUNT(*) AS count, SUM(executed_qty * avg_price) AS volume, SUM(fees) AS fees,
+                SUM(CASE WHEN reason IN (${STOP_OUT_REASONS.map(() => '?').join(', ')}) THEN 1 ELSE 0 END) AS stopOuts
+         FROM orders WHERE executed_qty > 0 AND updated_at >= ? AND updated_at < ? GROUP BY side`,
+        [...STOP_OUT_REASONS, from, to]
+      ),
+      this.db.get(
+        'SELECT COUNT(*) AS rejections FROM risk_logs WHERE approved = 0 AND timestamp >= ? AND timestamp < ?',
+        [from, to]
+      ),
+      this.db.get(
+        'SELECT daily_loss AS dailyLoss, current_drawdown AS drawdown FROM risk_logs WHERE timestamp >= ? AND timestamp < ? ORDER BY timestamp DESC LIMIT 1',
+        [from, to]
+      )
+    ]);
+
+    const bySide = side => fills.find(row => row.side === side) || { count: 0, volume: 0, fees: 0, stopOuts: 0 };
+    const buys = bySide('BUY');
+    const sells = bySide('SELL');
+
+    return {
+      from,
+      to,
+      fills: buys.count + sells.count,
+      buyVolume: buys.volume || 0,
+      sellVolume: sells.volume || 0,
+      fees: (buys.fees || 0) + (sells.fees || 0),
+      stopOuts: buys.stopOuts + sells.stopOuts,
+      riskRejections: risk.rejections,
+      dailyLoss: riskState ? riskState.dailyLoss : null,
+      drawdown: riskState ? riskState.drawdown : null
+    };
+  }
+
+  async sendDailySummary(until = this.now()) {
+    const summary = await this.buildDailySummary(until);
+    return this.notify({
+      key: `dailySummary:${summary.to}`,
+      severity: 'info',
+      title: `📊 الملخص اليومي ${summary.to.slice(0, 10)}`,
+      message: [
+        `التنفيذات: ${summary.fills}`,
+        `حجم الشراء: ${formatNumber(summary.buyVolume)} | حجم البيع: ${formatNumber(summary.sellVolume)}`,
+        `الرسوم: ${formatNumber(summary.fees, 4)}`,
+        `صافي التدفق: ${formatNumber(summary.sellVolume - summary.buyVolume - summary.fees)}`,
+        `إيقافات الخسارة: ${summary.stopOuts}`,
+        `رفض فحص المخاطر: ${summary.riskRejections}`,
+        `الخسارة اليومية (مدير المخاطر): ${formatNumber(summary.dailyLoss)}`,
+        `التراجع: ${formatNumber(summary.drawdown)}%`
+      ].join('\n')
+    });
+  }
+
+  /**
+   * جدولة الملخص اليومي عند الساعة المحددة (UTC)
+   */
+  scheduleDailySummary() {
+    if (this.dailySummaryHour === null || !this.db) return;
+
+    const now = this.now();
+    const next = new Date(now);
+    next.setUTCHours(this.dailySummaryHour, 0, 0, 0);
+    if (next.getTime() <= now) next.setTime(next.getTime() + DAY_MS);
+
+    this.summaryTimer = setTimeout(() => {
+      this.sendDailySummary()
+        .catch(error => console.warn(`[NOTIFY] Daily summary failed: ${error.message}`))
+        .finally(() => this.scheduleDailySummary());
+    }, next.getTime() - now);
+    this.summaryTimer.unref();
+  }
+}
+
+/**
+ * إنشاء خدمة التنبيهات من الإعدادات (null إذا لم تضبط أي قناة)
+ */
+function createNotificationService(config, { events, db }) {
+  const channels = [];
+
+  if (config.telegramBotToken && config.telegramChatId) {
+    channels.push({
+      name: 'telegram',
+      transport: new TelegramTransport({ botToken: config.telegramBotToken, chatId: config.telegramChatId }),
+      minSeverity: config.notifyTelegramMinSeverity,
+      throttleMs: config.notifyThrottleSeconds * 1000
+    });
+  }
+
+  if (config.emailSmtpHost && config.emailTo) {
+    channels.push({
+      name: 'email',
+      transport: new SmtpTransport({
+        host: config.emailSmtpHost,
+        port: config.emailSmtpPort,
+        user: config.emailUser,
+        pass: config.emailPass,
+        from: config.emailFrom,
+        to: config.emailTo
+      }),
+      minSeverity: config.notifyEmailMinSeverity,
+      throttleMs: config.notifyThrottleSeconds * 1000
+    });
+  }
+
+  if (channels.length === 0) return null;
+  return new NotificationService({ events, db, channels, dailySummaryHour: config.notifyDailySummaryHour });
+}
+
+module.exports = {
+  SEVERITIES,
+  STOP_OUT_REASONS,
+  NotificationService,
+  createNotificationService,
+  toNotification
+};
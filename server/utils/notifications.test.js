@@ -0,0 +1,146 @@
+const { EventBroadcaster } = require('./eventBroadcaster');
+const { Database } = require('./database');
+const { reserveOrder, updateOrder } = require('./orders');
+const { insertRiskLog } = require('../routes/logs');
+const { NotificationService } = require('./notifications');
+const { TelegramTransport, SmtpTransport } = require('./notificationTransports');
+const { createTelegramStub } = require('../test/telegramStub');
+const { createSmtpStub, decodeMessageBody } = require('../test/smtpStub');
+
+describe('NotificationService', () => {
+  let telegram;
+  let smtp;
+  let events;
+  let clock;
+  let service;
+
+  const createService = (options = {}) => new NotificationService({
+    events,
+    now: () => clock,
+    channels: [
+      {
+        name: 'telegram',
+        transport: new TelegramTransport({ botToken: telegram.botToken, chatId: '42', apiBaseUrl: telegram.url }),
+        minSeverity: 'info',
+        throttleMs: 60000
+      },
+      {
+        name: 'email',
+        transport: new SmtpTransport({
+          host: '127.0.0.1',
+          port: smtp.port,
+          user: 'bot@ellen.test',
+          pass: 'secret',
+          to: 'ops@ellen.test',
+          allowInsecureAuth: true
+        }),
+        minSeverity: 'warning',
+        throttleMs: 60000
+      }
+    ],
+    ...options
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    telegram = createTelegramStub();
+    telegram.url = await telegram.start();
+    smtp = createSmtpStub();
+    smtp.port = await smtp.start();
+    events = new EventBroadcaster();
+    clock = Date.parse('2026-03-02T10:00:00.000Z');
+    service = createService();
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await telegram.stop();
+    await smtp.stop();
+    jest.restoreAllMocks();
+  });
+
+  test('should route events to channels by severity', async () => {
+    const fill = { orderId: 1, symbol: 'BTCUSDT', side: 'BUY', quantity: 0.5, price: 100, fees: 0.05, isDryRun: true };
+
+    expect(await service.notify({ key: 'fill:BTCUSDT', severity: 'info', title: 'Fill', message: 'BUY' })).toEqual(['telegram']);
+    expect(smtp.state.messages).toHaveLength(0);
+
+    service.start();
+    events.publish('fill', { ...fill, symbol: 'ETHUSDT', side: 'SELL', reason: 'STOP_LOSS' });
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(telegram.state.messages[1].text).toContain('إيقاف خسارة ETHUSDT');
+    expect(smtp.state.messages).toHaveLength(1);
+    expect(smtp.state.messages[0]).toMatchObject({ from: 'bot@ellen.test', to: ['ops@ellen.test'] });
+    expect(decodeMessageBody(smtp.state.messages[0].data)).toContain('السبب: STOP_LOSS');
+    expect(smtp.state.commands).toContain(`AUTH PLAIN ${Buffer.from('\0bot@ellen.test\0secret').toString('base64')}`);
+  });
+
+  test('should throttle repeated alerts and report how many were suppressed', async () => {
+    const alert = { key: 'risk:RISK_CHECK', severity: 'critical', title: 'Risk', message: 'Daily loss limit reached' };
+
+    expect(await service.notify(alert)).toEqual(['telegram', 'email']);
+    clock += 10000;
+    expect(await service.notify(alert)).toEqual([]);
+    expect(await service.notify(alert)).toEqual([]);
+    clock += 60000;
+    expect(await service.notify(alert)).toEqual(['telegram', 'email']);
+
+    expect(telegram.state.messages).toHaveLength(2);
+    expect(telegram.state.messages[1].text).toContain('+2');
+  });
+
+  test('should map risk rejections and circuit breaker trips to alerts', async () => {
+    const received = [];
+    service.notify = async notification => received.push(notification);
+    service.start();
+
+    events.publish('riskAlert', { action: 'RISK_CHECK', reason: 'Kill switch activated', riskLevel: 'HIGH', dailyLoss: 50, currentDrawdown: 4 });
+    events.publish('log', {
+      logType: 'system',
+      entry: { type: 'CIRCUIT_BREAKER', message: 'Circuit breaker binance-rest tripped', metadata: { circuit: 'binance-rest', state: 'OPEN', retryIn: 30000 } }
+    });
+    events.publish('log', {
+      logType: 'system',
+      entry: { type: 'CIRCUIT_BREAKER', message: 'recovered', metadata: { circuit: 'binance-rest', state: 'CLOSED' } }
+    });
+    events.publish('price', { symbol: 'BTCUSDT', price: 100 });
+
+    expect(received.map(({ key, severity }) => ({ key, severity }))).toEqual([
+      { key: 'risk:RISK_CHECK', severity: 'critical' },
+      { key: 'circuit:binance-rest', severity: 'critical' }
+    ]);
+  });
+
+  test('should keep other channels working when one transport fails', async () => {
+    telegram.state.failNext = { status: 400, description: 'Bad Request: chat not found' };
+
+    expect(await service.notify({ key: 'a', severity: 'warning', title: 'A', message: 'a' })).toEqual(['email']);
+    expect(console.warn).toHaveBeenCalledWith('[NOTIFY] telegram delivery failed: telegram: Bad Request: chat not found');
+  });
+
+  test('should summarize the last 24 hours of fills and risk checks', async () => {
+    const db = await new Database(':memory:').open();
+    try {
+      service = createService({ db });
+      await reserveOrder(db, { clientOrderId: 'a', mode: 'PAPER', symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1 });
+      await updateOrder(db, 'a', { status: 'FILLED', executedQty: 1, avgPrice: 100, fees: 0.1 });
+      await reserveOrder(db, { clientOrderId: 'b', mode: 'PAPER', symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: 1, reason: 'STOP_LOSS' });
+      await updateOrder(db, 'b', { status: 'FILLED', executedQty: 1, avgPrice: 95, fees: 0.1 });
+      // الأوامر تؤرخ بالوقت الحقيقي فتنتهي نافذة الملخص بعده مباشرة
+      clock = Date.now() + 1000;
+
+      const timestamp = new Date(clock - 1800000).toISOString();
+      await insertRiskLog(db, { action: 'RISK_CHECK', approved: false, dailyLoss: 5.2, currentDrawdown: 1.5, timestamp });
+
+      expect(await service.buildDailySummary()).toMatchObject({
+        fills: 2, buyVolume: 100, sellVolume: 95, stopOuts: 1, riskRejections: 1, dailyLoss: 5.2
+      });
+      expect(await service.sendDailySummary()).toEqual(['telegram']);
+      expect(telegram.state.messages[0].text).toContain('إيقافات الخسارة: 1');
+    } finally {
+      await db.close();
+    }
+  });
+});
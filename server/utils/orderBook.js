@@ -0,0 +1,121 @@
+/**
+ * دفتر أوامر محلي يبنى من لقطة REST ثم تحديثات @depth المتتالية
+ * قواعد التسلسل كما في توثيق Binance:
+ * - تتجاهل التحديثات التي u <= lastUpdateId للقطة
+ * - أول تحديث بعد اللقطة يجب أن يحقق U <= lastUpdateId + 1 <= u
+ * - كل تحديث بعده يجب أن يبدأ بـ U = u السابق + 1، وإلا توجد فجوة ويجب إعادة المزامنة
+ */
+
+class OrderBookGapError extends Error {
+  constructor(symbol, expected, received) {
+    super(`Order book gap for ${symbol}: expected update ${expected}, received ${received}`);
+    this.name = 'OrderBookGapError';
+    this.symbol = symbol;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+class OrderBook {
+  constructor(symbol) {
+    this.symbol = symbol;
+    this.reset();
+  }
+
+  /**
+   * مسح الدفتر حتى وصول لقطة جديدة
+   */
+  reset() {
+    this.bids = new Map();
+    this.asks = new Map();
+    this.lastUpdateId = null;
+    this.firstEventApplied = false;
+    this.updatedAt = null;
+  }
+
+  isSynced() {
+    return this.lastUpdateId !== null;
+  }
+
+  /**
+   * تحميل لقطة /api/v3/depth (المستويات بصيغة [price, quantity] كنصوص)
+   */
+  applySnapshot(snapshot) {
+    this.reset();
+    this.setLevels(this.bids, snapshot.bids);
+    this.setLevels(this.asks, snapshot.asks);
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * تطبيق حدث depthUpdate، يعيد false إذا كان الحدث أقدم من الدفتر
+   * ويرمي OrderBookGapError عند انقطاع التسلسل
+   */
+  applyDiff(event) {
+    if (!this.isSynced()) {
+      throw new Error(`Order book for ${this.symbol} has no snapshot`);
+    }
+
+    if (event.u <= this.lastUpdateId) return false;
+
+    const expected = this.lastUpdateId + 1;
+    const inSequence = this.firstEventApplied
+      ? event.U === expected
+      : event.U <= expected && event.u >= expected;
+
+    if (!inSequence) {
+      throw new OrderBookGapError(this.symbol, expected, event.U);
+    }
+
+    this.setLevels(this.bids, event.b);
+    this.setLevels(this.asks, event.a);
+    this.lastUpdateId = event.u;
+    this.firstEventApplied = true;
+    this.updatedAt = Date.now();
+    return true;
+  }
+
+  /**
+   * أفضل سعر شراء وبيع
+   */
+  getBest() {
+    const [bid] = this.sortedLevels(this.bids, 'desc', 1);
+    const [ask] = this.sortedLevels(this.asks, 'asc', 1);
+    return { bid: bid || null, ask: ask || null };
+  }
+
+  /**
+   * العمق بنفس صيغة مسار /depth في الخادم
+   */
+  getDepth(limit = 20) {
+    return {
+      bids: this.sortedLevels(this.bids, 'desc', limit),
+      asks: this.sortedLevels(this.asks, 'asc', limit),
+      lastUpdateId: this.lastUpdateId,
+      timestamp: this.updatedAt
+    };
+  }
+
+  setLevels(side, levels = []) {
+    for (const [price, quantity] of levels) {
+      const value = parseFloat(quantity);
+      if (value === 0) {
+        side.delete(price);
+      } else {
+        side.set(price, value);
+      }
+    }
+  }
+
+  sortedLevels(side, direction, limit) {
+    const levels = Array.from(side, ([price, quantity]) => ({ price: parseFloat(price), quantity }));
+    levels.sort((a, b) => (direction === 'desc' ? b.price - a.price : a.price - b.price));
+    return levels.slice(0, limit);
+  }
+}
+
+module.exports = {
+  OrderBook,
+  OrderBookGapError
+};
@@ -0,0 +1,236 @@
+const crypto = require('crypto');
+const { HttpError } = require('./response');
+const { parseLimit } = require('../routes/market');
+
+const OPEN_STATUSES = ['NEW', 'PARTIALLY_FILLED'];
+
+// إرسال أقدم من هذه المهلة دون نتيجة يعتبر متروكاً (أطول من مهلة طلب Binance مع إعادة المحاولة)
+const SUBMISSION_TIMEOUT_MS = 60000;
+
+// الانتقالات المسموح بها (الحالات النهائية لا تتغير)
+const ORDER_TRANSITIONS = {
+  NEW: ['PARTIALLY_FILLED', 'FILLED', 'CANCELED', 'REJECTED', 'EXPIRED'],
+  PARTIALLY_FILLED: ['FILLED', 'CANCELED', 'EXPIRED'],
+  FILLED: [],
+  CANCELED: [],
+  REJECTED: [],
+  EXPIRED: []
+};
+
+// نفس قيود Binance على newClientOrderId
+const CLIENT_ORDER_ID_PATTERN = /^[a-zA-Z0-9_-]{1,36}$/;
+
+/**
+ * توليد clientOrderId فريد
+ */
+function generateClientOrderId() {
+  return `ellen_${Date.now().toString(36)}_${crypto.randomBytes(6).toString('hex')}`;
+}
+
+function parseClientOrderId(value) {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !CLIENT_ORDER_ID_PATTERN.test(value)) {
+    throw new HttpError(400, 'clientOrderId must be 1-36 characters of letters, digits, "_" or "-"');
+  }
+  return value;
+}
+
+/**
+ * تحويل حالة Binance أو المحاكاة إلى حالات دورة الحياة (null = حالة انتقالية تتجاهل)
+ */
+function normalizeOrderStatus(status) {
+  switch (String(status || '').toUpperCase()) {
+    case 'NEW':
+    case 'PENDING':
+      return 'NEW';
+    case 'PARTIALLY_FILLED':
+      return 'PARTIALLY_FILLED';
+    case 'FILLED':
+      return 'FILLED';
+    case 'CANCELED':
+    case 'CANCELLED':
+      return 'CANCELED';
+    case 'REJECTED':
+      return 'REJECTED';
+    case 'EXPIRED':
+    case 'EXPIRED_IN_MATCH':
+      return 'EXPIRED';
+    default:
+      return null;
+  }
+}
+
+function canTransition(from, to) {
+  return from === to || (ORDER_TRANSITIONS[from] || []).includes(to);
+}
+
+function mapOrderRow(row) {
+  return {
+    clientOrderId: row.client_order_id,
+    orderId: row.order_id,
+    mode: row.mode,
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    quantity: row.quantity,
+    price: row.price,
+    timeInForce: row.time_in_force,
+    status: row.status,
+    executedQty: row.executed_qty,
+    avgPrice: row.avg_price,
+    fees: row.fees,
+    strategy: row.strategy,
+    reason: row.reason,
+    error: row.error,
+    submittingAt: row.submitting_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+async function findOrder(db, clientOrderId) {
+  const row = await db.get('SELECT * FROM orders WHERE client_order_id = ?', [clientOrderId]);
+  return row ? mapOrderRow(row) : null;
+}
+
+async function findOrderByOrderId(db, orderId) {
+  const row = await db.get('SELECT * FROM orders WHERE order_id = ?', [String(orderId)]);
+  return row ? mapOrderRow(row) : null;
+}
+
+/**
+ * حجز clientOrderId قبل الإرسال (false إذا كان الأمر مسجلاً من قبل = إعادة محاولة)
+ * submitting: الحجز يبدأ إرسالاً إلى Binance فيعلم كقيد الإرسال حتى تسجل نتيجته
+ */
+async function reserveOrder(db, order, { submitting = false } = {}) {
+  const now = new Date().toISOString();
+  const result = await db.run(
+    `INSERT INTO orders
+      (client_order_id, mode, symbol, side, type, quantity, price, time_in_force, status, strategy, reason,
+       submitting_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'NEW', ?, ?, ?, ?, ?)
+     ON CONFLICT(client_order_id) DO NOTHING`,
+    [
+      order.clientOrderId,
+      order.mode,
+      order.symbol,
+      order.side,
+      order.type,
+      order.quantity,
+      order.price ?? null,
+      order.timeInForce || null,
+      order.strategy || null,
+      order.reason || null,
+      submitting ? now : null,
+      now,
+      now
+    ]
+  );
+  return result.changes > 0;
+}
+
+/**
+ * الاستحواذ على أمر NEW بلا orderId لإعادة إرساله (false إذا كان إرسال آخر جارياً ولم تنته مهلته)
+ */
+async function claimSubmission(db, clientOrderId, { timeout = SUBMISSION_TIMEOUT_MS } = {}) {
+  const now = Date.now();
+  const result = await db.run(
+    `UPDATE orders SET submitting_at = ?, updated_at = ?
+     WHERE client_order_id = ? AND status = 'NEW' AND order_id IS NULL
+       AND (submitting_at IS NULL OR submitting_at < ?)`,
+    [new Date(now).toISOString(), new Date(now).toISOString(), clientOrderId, new Date(now - timeout).toISOString()]
+  );
+  return result.changes > 0;
+}
+
+/**
+ * إنهاء علامة الإرسال دون تغيير الحالة (فشل الاستعلام قبل معرفة النتيجة)
+ */
+async function releaseSubmission(db, clientOrderId) {
+  await db.run('UPDATE orders SET submitting_at = NULL WHERE client_order_id = ?', [clientOrderId]);
+}
+
+/**
+ * تطبيق تحديث حالة مع رفض الانتقالات غير الصالحة (الكمية المنفذة لا تنقص)
+ * أي نتيجة مسجلة تنهي علامة الإرسال
+ */
+async function updateOrder(db, clientOrderId, update) {
+  const current = await findOrder(db, clientOrderId);
+  if (!current) {
+    throw new HttpError(404, `Order not found: ${clientOrderId}`);
+  }
+
+  const status = update.status ? normalizeOrderStatus(update.status) : current.status;
+  if (!status) {
+    return current;
+  }
+  if (!canTransition(current.status, status)) {
+    throw new HttpError(409, `Invalid order transition ${current.status} -> ${status}`);
+  }
+
+  await db.run(
+    `UPDATE orders
+     SET order_id = ?, status = ?, executed_qty = ?, avg_price = ?, fees = ?, error = ?, submitting_at = NULL, updated_at = ?
+     WHERE client_order_id = ?`,
+    [
+      update.orderId !== undefined && update.orderId !== null ? String(update.orderId) : current.orderId,
+      status,
+      Math.max(current.executedQty || 0, Number(update.executedQty) || 0),
+      update.avgPrice ?? current.avgPrice,
+      update.fees ?? current.fees,
+      update.error ?? current.error,
+      new Date().toISOString(),
+      clientOrderId
+    ]
+  );
+  return findOrder(db, clientOrderId);
+}
+
+/**
+ * قائمة الأوامر المحفوظة (status=open للأوامر غير النهائية)
+ */
+async function listOrders(db, query = {}) {
+  const conditions = [];
+  const params = [];
+
+  if (query.status === 'open') {
+    conditions.push(`status IN (${OPEN_STATUSES.map(() => '?').join(', ')})`);
+    params.push(...OPEN_STATUSES);
+  } else if (query.status) {
+    conditions.push('status = ?');
+    params.push(String(query.status).toUpperCase());
+  }
+  if (query.symbol) {
+    conditions.push('symbol = ?');
+    params.push(query.symbol);
+  }
+  if (query.mode) {
+    conditions.push('mode = ?');
+    params.push(String(query.mode).toUpperCase());
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = await db.all(
+    `SELECT * FROM orders ${where} ORDER BY created_at DESC LIMIT ?`,
+    [...params, parseLimit(query.limit, 100, 1000)]
+  );
+  return rows.map(mapOrderRow);
+}
+
+module.exports = {
+  OPEN_STATUSES,
+  ORDER_TRANSITIONS,
+  SUBMISSION_TIMEOUT_MS,
+  generateClientOrderId,
+  parseClientOrderId,
+  normalizeOrderStatus,
+  canTransition,
+  mapOrderRow,
+  findOrder,
+  findOrderByOrderId,
+  reserveOrder,
+  claimSubmission,
+  releaseSubmission,
+  updateOrder,
+  listOrders
+};
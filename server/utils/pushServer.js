@@ -0,0 +1,207 @@
+const { WebSocketServer } = require('ws');
+const { safeEqual } = require('../middleware/security');
+const { JwtError } = require('./jwt');
+const { hasPermission } = require('./users');
+const { EVENT_TYPES } = require('./eventBroadcaster');
+
+// رمز إغلاق خاص بالتطبيق: الواجهة تجدد الجلسة قبل إعادة الاتصال
+const SESSION_CLOSE_CODE = 4401;
+
+/**
+ * قناة دفع WebSocket من الخادم إلى الواجهة على /api/stream?token=FRONTEND_TOKEN&accessToken=JWT
+ * (المتصفح لا يسمح بترويسات مخصصة في WebSocket لذلك تمرر الرموز في الرابط)
+ * الاتصال يتطلب صلاحية trading:read، ويغلق بالرمز 4401 عند انتهاء رمز الوصول أو إلغاء الجلسة
+ *
+ * بروتوكول العميل:
+ *   { action: 'subscribe', topics: ['price', 'fill'], symbols: ['BTCUSDT'] | null }
+ *   يستبدل اشتراك العميل بالكامل، symbols = null يعني كل الرموز
+ * رسائل الخادم:
+ *   { type: 'subscribed', topics, symbols } تأكيد الاشتراك
+ *   { type: 'upstream', name: 'binance-ws' | 'binance-rest', healthy } حالة اتصال الخادم بـ Binance (لكل العملاء)
+ *   { type, seq, timestamp, data } حدث من EVENT_TYPES
+ */
+function attachPushServer(server, {
+  events,
+  frontendToken,
+  tokens,
+  isTestnet = () => false,
+  marketData = null,
+  binance = null,
+  path = '/api/stream',
+  heartbeatInterval = 30000
+}) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  const rejectUpgrade = (socket, status, message) => {
+    socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+  };
+
+  const onUpgrade = (request, socket, head) => {
+    const url = new URL(request.url, 'http://localhost');
+    if (url.pathname !== path) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    const token = url.searchParams.get('token');
+    if (!token || !safeEqual(token, frontendToken)) {
+      console.warn('[SECURITY] Rejected event stream without valid frontend token');
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    let session;
+    try {
+      session = tokens.verifySession(url.searchParams.get('accessToken'));
+    } catch (error) {
+      if (!(error instanceof JwtError)) throw error;
+      console.warn(`[SECURITY] Rejected event stream: ${error.message}`);
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    if (!hasPermission(session.user.role, 'trading:read', { testnet: isTestnet() })) {
+      console.warn(`[SECURITY] ${session.user.username} denied trading:read: event stream`);
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+
+    wss.handleUpgrade(request, socket, head, client => wss.emit('connection', client, request, session));
+  };
+
+  const send = (client, message) => {
+    if (client.readyState === client.OPEN) client.send(JSON.stringify(message));
+  };
+
+  const upstreamStatus = () => ({ type: 'upstream', name: 'binance-ws', healthy: marketData.connected });
+  const restStatus = healthy => ({ type: 'upstream', name: 'binance-rest', healthy });
+
+  const closeSession = (client, reason) => {
+    if (client.readyState === client.OPEN) client.close(SESSION_CLOSE_CODE, reason);
+  };
+
+  wss.on('connection', (client, request, session) => {
+    client.isAlive = true;
+    client.topics = new Set();
+    client.symbols = null;
+    client.sessionId = session.sessionId;
+
+    const expiryTimer = setTimeout(() => closeSession(client, 'Token expired'), Math.max(0, session.expiresAt - Date.now()));
+    expiryTimer.unref();
+    client.on('close', () => clearTimeout(expiryTimer));
+
+    if (marketData) send(client, upstreamStatus());
+    if (binance) send(client, restStatus(binance.healthy));
+
+    client.on('pong', () => {
+      client.isAlive = true;
+    });
+
+    client.on('message', (raw) => {
+      let message;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        send(client, { type: 'error', error: 'Invalid JSON message' });
+        return;
+      }
+
+      if (message.action !== 'subscribe') {
+        send(client, { type: 'error', error: `Unknown action: ${message.action}` });
+        return;
+      }
+
+      const topics = Array.isArray(message.topics) ? message.topics.filter(topic => EVENT_TYPES.includes(topic)) : [];
+      client.topics = new Set(topics);
+      client.symbols = Array.isArray(message.symbols)
+        ? new Set(message.symbols.map(symbol => String(symbol).toUpperCase()))
+        : null;
+
+      send(client, {
+        type: 'subscribed',
+        topics,
+        symbols: client.symbols ? Array.from(client.symbols) : null
+      });
+    });
+  });
+
+  const onEvent = (event) => {
+    const symbol = event.data && event.data.symbol;
+    wss.clients.forEach(client => {
+      if (!client.topics.has(event.type)) return;
+      if (client.symbols && symbol && !client.symbols.has(symbol)) return;
+      send(client, event);
+    });
+  };
+
+  // الواجهة تغذي قاطعي binance-ws و binance-rest من هذه الرسائل
+  const onUpstreamChange = () => {
+    const message = upstreamStatus();
+    wss.clients.forEach(client => send(client, message));
+  };
+
+  const onRestHealth = (healthy) => {
+    const message = restStatus(healthy);
+    wss.clients.forEach(client => send(client, message));
+  };
+
+  // تسجيل الخروج يلغي الجلسة فتغلق قنواتها فوراً دون انتظار انتهاء رمز الوصول
+  const onSessionRevoked = (sessionId) => {
+    wss.clients.forEach(client => {
+      if (client.sessionId === sessionId) closeSession(client, 'Session revoked');
+    });
+  };
+
+  // إنهاء الاتصالات التي لم ترد على ping السابق
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(client => {
+      if (!client.isAlive) {
+        client.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.ping();
+    });
+  }, heartbeatInterval);
+  heartbeat.unref();
+
+  server.on('upgrade', onUpgrade);
+  events.on('event', onEvent);
+  tokens.on('revoked', onSessionRevoked);
+  if (marketData) {
+    marketData.on('connected', onUpstreamChange);
+    marketData.on('disconnected', onUpstreamChange);
+  }
+  if (binance) binance.on('health', onRestHealth);
+
+  return {
+    wss,
+
+    getClientCount() {
+      return wss.clients.size;
+    },
+
+    /**
+     * فصل جميع العملاء وإيقاف القناة
+     */
+    close() {
+      clearInterval(heartbeat);
+      server.off('upgrade', onUpgrade);
+      events.off('event', onEvent);
+      tokens.off('revoked', onSessionRevoked);
+      if (marketData) {
+        marketData.off('connected', onUpstreamChange);
+        marketData.off('disconnected', onUpstreamChange);
+      }
+      if (binance) binance.off('health', onRestHealth);
+      wss.clients.forEach(client => client.terminate());
+      return new Promise(resolve => wss.close(() => resolve()));
+    }
+  };
+}
+
+module.exports = {
+  SESSION_CLOSE_CODE,
+  attachPushServer
+};
@@ -0,0 +1,227 @@
+const { EventEmitter } = require('events');
+const WebSocket = require('ws');
+const { createApp, loadConfig } = require('../index');
+const { TokenService } = require('../middleware/auth');
+const { Database } = require('./database');
+const { BinanceClient } = require('./binanceClient');
+const { EventBroadcaster, bridgeMarketData } = require('./eventBroadcaster');
+const { SESSION_CLOSE_CODE, attachPushServer } = require('./pushServer');
+const { signJwt } = require('./jwt');
+const { createUser } = require('./users');
+
+describe('Push server', () => {
+  let db;
+  let server;
+  let push;
+  let events;
+  let baseUrl;
+  let tokens;
+  let token;
+  let refreshToken;
+  const config = loadConfig({ FRONTEND_TOKEN: 'test-token' });
+
+  const post = (path, body) => fetch(`${baseUrl}/api${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Frontend-Token': 'test-token',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: JSON.stringify(body)
+  });
+
+  /**
+   * فتح اتصال وتجميع الرسائل المستلمة
+   */
+  const connect = (frontendToken = 'test-token', accessToken = token) => new Promise((resolve, reject) => {
+    const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/api/stream?token=${frontendToken}&accessToken=${accessToken}`);
+    socket.messages = [];
+    socket.on('message', raw => socket.messages.push(JSON.parse(raw.toString())));
+    socket.on('open', () => resolve(socket));
+    socket.on('unexpected-response', (req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    socket.on('error', reject);
+  });
+
+  const waitForMessage = async (socket, predicate, timeout = 2000) => {
+    const started = Date.now();
+    while (Date.now() - started < timeout) {
+      const message = socket.messages.find(predicate);
+      if (message) return message;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Timed out waiting for message');
+  };
+
+  const waitForClose = socket => new Promise(resolve => {
+    socket.on('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+  });
+
+  const subscribe = async (socket, topics, symbols = null) => {
+    socket.send(JSON.stringify({ action: 'subscribe', topics, symbols }));
+    await waitForMessage(socket, message => message.type === 'subscribed');
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    db = await new Database(':memory:').open();
+    events = new EventBroadcaster();
+    tokens = new TokenService({ db, secret: 'test-secret' });
+    const app = createApp({ config, db, events, tokens, binance: new BinanceClient({ baseUrl: 'http://127.0.0.1:1' }) });
+    server = await new Promise(resolve => {
+      const instance = app.listen(0, () => resolve(instance));
+    });
+    push = attachPushServer(server, { events, tokens, frontendToken: 'test-token' });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+    await createUser(db, { username: 'tester', password: 'password-123', role: 'tester' });
+    token = null;
+    ({ token, refreshToken } = (await (await post('/auth/login', { username: 'tester', password: 'password-123' })).json()).data);
+  });
+
+  afterEach(async () => {
+    await push.close();
+    await new Promise(resolve => server.close(resolve));
+    await db.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should reject connections without the frontend token', async () => {
+    await expect(connect('wrong-token')).rejects.toThrow('HTTP 401');
+  });
+
+  test('should reject connections without a valid access token or trading:read', async () => {
+    await expect(connect('test-token', '')).rejects.toThrow('HTTP 401');
+    await expect(connect('test-token', 'not-a-jwt')).rejects.toThrow('HTTP 401');
+
+    const guest = signJwt({ sub: 'guest', username: 'guest', role: 'guest' }, 'test-secret', { expiresIn: 60 });
+    await expect(connect('test-token', guest)).rejects.toThrow('HTTP 403');
+  });
+
+  test('should close the stream when the access token expires', async () => {
+    const shortLived = signJwt({ sub: 'tester', username: 'tester', role: 'tester', sid: 'short' }, 'test-secret', { expiresIn: 2 });
+    const socket = await connect('test-token', shortLived);
+
+    expect(await waitForClose(socket)).toEqual({ code: SESSION_CLOSE_CODE, reason: 'Token expired' });
+  });
+
+  test('should close the stream of a session that logs out', async () => {
+    const socket = await connect();
+    const other = await connect('test-token', signJwt({ sub: 'tester', username: 'tester', role: 'tester', sid: 'other' }, 'test-secret', { expiresIn: 60 }));
+    const closed = waitForClose(socket);
+
+    await post('/auth/logout', { refreshToken });
+
+    expect(await closed).toEqual({ code: SESSION_CLOSE_CODE, reason: 'Session revoked' });
+    expect(other.readyState).toBe(WebSocket.OPEN);
+    other.close();
+  });
+
+  test('should push signal and riskAlert events from the routes to subscribed topics only', async () => {
+    const socket = await connect();
+    await subscribe(socket, ['signal', 'riskAlert']);
+
+    await post('/analysis/signal', { symbol: 'BTCUSDT', action: 'BUY', price: 50000, confidence: 80 });
+    await post('/logs/risk', { action: 'RISK_CHECK', approved: false, reason: 'Kill switch active', riskLevel: 'HIGH' });
+    await post('/logs/decision', { symbol: 'BTCUSDT', strategy: 'test', decision: 'HOLD' });
+
+    const signal = await waitForMessage(socket, message => message.type === 'signal');
+    expect(signal.data).toMatchObject({ symbol: 'BTCUSDT', action: 'BUY', price: 50000 });
+
+    const alert = await waitForMessage(socket, message => message.type === 'riskAlert');
+    expect(alert.data).toMatchObject({ reason: 'Kill switch active', riskLevel: 'HIGH' });
+    expect(alert.seq).toBeGreaterThan(signal.seq);
+
+    // سجل القرار ينشر كحدث log وهذا العميل غير مشترك فيه
+    expect(socket.messages.some(message => message.type === 'log')).toBe(false);
+    socket.close();
+  });
+
+  test('should filter symbol events and replace the subscription on resubscribe', async () => {
+    const socket = await connect();
+    await subscribe(socket, ['price'], ['ethusdt']);
+
+    events.publish('price', { symbol: 'BTCUSDT', price: 50000 });
+    events.publish('price', { symbol: 'ETHUSDT', price: 3000 });
+    await waitForMessage(socket, message => message.type === 'price');
+    const prices = socket.messages.filter(message => message.type === 'price');
+    expect(prices.map(message => message.data.symbol)).toEqual(['ETHUSDT']);
+
+    socket.messages = [];
+    await subscribe(socket, ['log']);
+    events.publish('price', { symbol: 'ETHUSDT', price: 3001 });
+    events.publish('log', { logType: 'system', entry: { message: 'hello' } });
+    await waitForMessage(socket, message => message.type === 'log');
+
+    expect(socket.messages.filter(message => message.type === 'price')).toHaveLength(0);
+    socket.close();
+  });
+
+  test('should report the Binance stream status to every client', async () => {
+    await push.close();
+    const marketData = Object.assign(new EventEmitter(), { connected: false });
+    push = attachPushServer(server, { events, tokens, marketData, frontendToken: 'test-token' });
+
+    const socket = await connect();
+    await waitForMessage(socket, message => message.type === 'upstream');
+    expect(socket.messages[0]).toEqual({ type: 'upstream', name: 'binance-ws', healthy: false });
+
+    marketData.connected = true;
+    marketData.emit('connected');
+    await waitForMessage(socket, message => message.type === 'upstream' && message.healthy);
+    socket.close();
+  });
+
+  test('should report Binance REST failures and recovery to every client', async () => {
+    await push.close();
+    const binance = Object.assign(new EventEmitter(), { healthy: true });
+    push = attachPushServer(server, { events, tokens, binance, frontendToken: 'test-token' });
+
+    const socket = await connect();
+    await waitForMessage(socket, message => message.type === 'upstream');
+    expect(socket.messages[0]).toEqual({ type: 'upstream', name: 'binance-rest', healthy: true });
+
+    binance.emit('health', false);
+    binance.emit('health', false);
+    binance.emit('health', true);
+    await waitForMessage(socket, message => message.type === 'upstream' && message.healthy && socket.messages.length === 4);
+    expect(socket.messages.slice(1).map(message => message.healthy)).toEqual([false, false, true]);
+    socket.close();
+  });
+
+  test('should push throttled bookTicker and depth updates from the market data hub', async () => {
+    const book = { bids: [{ price: 49999, quantity: 2 }], asks: [{ price: 50001, quantity: 1 }], lastUpdateId: 7 };
+    const marketData = Object.assign(new EventEmitter(), {
+      getBookTicker: () => null,
+      getOrderBook: () => book
+    });
+    const unbridge = bridgeMarketData(marketData, events, { depthInterval: 60000, bookTickerInterval: 60000 });
+
+    const socket = await connect();
+    await subscribe(socket, ['bookTicker', 'depth'], ['BTCUSDT']);
+
+    marketData.emit('update', {
+      type: 'bookTicker',
+      symbol: 'BTCUSDT',
+      data: { updateId: 1, bidPrice: 49999, bidQty: 2, askPrice: 50001, askQty: 1 }
+    });
+    marketData.emit('update', {
+      type: 'bookTicker',
+      symbol: 'BTCUSDT',
+      data: { updateId: 2, bidPrice: 50000, bidQty: 1, askPrice: 50002, askQty: 1 }
+    });
+    marketData.emit('update', { type: 'depth', symbol: 'BTCUSDT', data: { lastUpdateId: 7 } });
+    marketData.emit('update', { type: 'depth', symbol: 'BTCUSDT', data: { lastUpdateId: 8 } });
+
+    const ticker = await waitForMessage(socket, message => message.type === 'bookTicker');
+    expect(ticker.data).toEqual({ symbol: 'BTCUSDT', bid: 49999, bidQty: 2, ask: 50001, askQty: 1 });
+    const depth = await waitForMessage(socket, message => message.type === 'depth');
+    expect(depth.data).toEqual({ symbol: 'BTCUSDT', ...book });
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(socket.messages.filter(message => message.type === 'bookTicker')).toHaveLength(1);
+    expect(socket.messages.filter(message => message.type === 'depth')).toHaveLength(1);
+    unbridge();
+    socket.close();
+  });
+});
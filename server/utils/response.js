@@ -0,0 +1,56 @@
+/**
+ * أدوات موحدة لبناء استجابات ApiResponse<T> المتوقعة من الواجهة
+ */
+
+/**
+ * إرسال استجابة ناجحة
+ */
+function sendSuccess(req, res, data, status = 200) {
+  res.status(status).json({
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+    requestId: req.requestId
+  });
+}
+
+/**
+ * إرسال استجابة خطأ
+ */
+function sendError(req, res, status, error, extra = {}) {
+  res.status(status).json({
+    success: false,
+    error,
+    ...extra,
+    timestamp: new Date().toISOString(),
+    requestId: req.requestId
+  });
+}
+
+/**
+ * تغليف معالجات async حتى تصل الأخطاء إلى معالج الأخطاء العام
+ */
+function asyncHandler(handler) {
+  return (req, res, next) => {
+    Promise.resolve(handler(req, res, next)).catch(next);
+  };
+}
+
+/**
+ * خطأ HTTP مع رمز حالة
+ */
+class HttpError extends Error {
+  constructor(status, message, code = undefined) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    if (code !== undefined) this.code = code;
+  }
+}
+
+module.exports = {
+  sendSuccess,
+  sendError,
+  asyncHandler,
+  HttpError
+};
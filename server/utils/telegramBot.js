@@ -0,0 +1,203 @@
+const crypto = require('crypto');
+const { writeAuditLog } = require('./auditLog');
+
+/**
+ * أوامر التحكم عن بعد، confirm = يتطلب /confirm قبل التنفيذ
+ * /pause لا يحتاج تأكيداً لأنه إجراء أمان يجب أن يكون فورياً
+ */
+const BOT_COMMANDS = {
+  status: { confirm: false, description: 'الاستراتيجية الحالية وحالة السوق والمراكز المفتوحة' },
+  pnl: { confirm: false, description: 'الربح والخسارة المحققة وغير المحققة' },
+  risk: { confirm: false, description: 'لقطة إدارة المخاطر' },
+  pause: { confirm: false, description: 'إيقاف محرك التداول' },
+  resume: { confirm: true, description: 'تشغيل محرك التداول' },
+  flatten: { confirm: true, description: 'إغلاق جميع المراكز المفتوحة' },
+  strategy: { confirm: true, description: 'فرض استراتيجية (HYBRID للعودة للاختيار التلقائي)', usage: '/strategy <id>' }
+};
+
+const COMMAND_PATTERN = /^\/([a-z_]+)(?:@\w+)?(?:\s+(.*))?$/i;
+
+function helpText() {
+  return [
+    'الأوامر المتاحة:',
+    ...Object.entries(BOT_COMMANDS).map(([name, spec]) =>
+      `${spec.usage || `/${name}`} - ${spec.description}${spec.confirm ? ' (يتطلب تأكيداً)' : ''}`
+    ),
+    '/cancel - إلغاء أمر بانتظار التأكيد'
+  ].join('\n');
+}
+
+/**
+ * بوت Telegram للتحكم بالمحرك: يقرأ الرسائل بـ getUpdates ويقبل فقط المحادثات المسموح بها
+ */
+class TelegramCommandBot {
+  constructor({
+    transport,
+    commands,
+    allowedChatIds = [],
+    db = null,
+    confirmationTtl = 60 * 1000,
+    pollTimeout = 25,
+    now = () => Date.now()
+  }) {
+    this.transport = transport;
+    this.commands = commands;
+    this.allowedChatIds = new Set(allowedChatIds.map(String));
+    this.db = db;
+    this.confirmationTtl = confirmationTtl;
+    this.pollTimeout = pollTimeout;
+    this.now = now;
+    this.offset = 0;
+    this.running = false;
+    this.confirmations = new Map(); // chatId -> { command, args, code, expiresAt }
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.poll();
+    console.log(`[TELEGRAM] Command bot listening for ${this.allowedChatIds.size} allowed chat(s)`);
+  }
+
+  stop() {
+    this.running = false;
+  }
+
+  async poll() {
+    while (this.running) {
+      try {
+        await this.pollOnce();
+      } catch (error) {
+        console.warn(`[TELEGRAM] Polling failed: ${error.message}`);
+        await new Promise(resolve => setTimeout(resolve, 5000).unref());
+      }
+    }
+  }
+
+  /**
+   * جلب الرسائل الجديدة (long polling) ومعالجتها بالترتيب
+   */
+  async pollOnce() {
+    const updates = await this.transport.request('getUpdates', {
+      offset: this.offset,
+      timeout: this.pollTimeout,
+      allowed_updates: ['message']
+    }, (this.pollTimeout + 10) * 1000);
+
+    for (const update of updates) {
+      this.offset = update.update_id + 1;
+      if (update.message && typeof update.message.text === 'string') {
+        await this.handleMessage(update.message);
+      }
+    }
+  }
+
+  async handleMessage(message) {
+    const chatId = String(message.chat.id);
+    const user = message.from ? (message.from.username || String(message.from.id)) : chatId;
+
+    if (!this.allowedChatIds.has(chatId)) {
+      // لا رد على المحادثات غير المسموح بها حتى لا يكشف وجود البوت
+      console.warn(`[SECURITY] Telegram message from unauthorized chat ${chatId} ignored`);
+      await this.audit({ chatId, user, command: 'unauthorized', success: false });
+      return;
+    }
+
+    const match = message.text.trim().match(COMMAND_PATTERN);
+    if (!match) {
+      await this.reply(chatId, helpText());
+      return;
+    }
+
+    const command = match[1].toLowerCase();
+    const args = match[2] ? match[2].trim().split(/\s+/) : [];
+
+    if (command === 'confirm') {
+      await this.confirm(chatId, user, args[0]);
+      return;
+    }
+    if (command === 'cancel') {
+      const cancelled = this.confirmations.delete(chatId);
+      await this.reply(chatId, cancelled ? 'تم إلغاء الأمر' : 'لا يوجد أمر بانتظار التأكيد');
+      return;
+    }
+
+    const spec = BOT_COMMANDS[command];
+    if (!spec) {
+      await this.reply(chatId, helpText());
+      return;
+    }
+    if (spec.usage && args.length === 0) {
+      await this.reply(chatId, `الاستخدام: ${spec.usage}`);
+      return;
+    }
+
+    if (spec.confirm) {
+      const code = String(crypto.randomInt(1000, 10000));
+      this.confirmations.set(chatId, { command, args, code, expiresAt: this.now() + this.confirmationTtl });
+      await this.reply(
+        chatId,
+        `⚠️ تأكيد /${[command, ...args].join(' ')}: أرسل /confirm ${code} خلال ${Math.round(this.confirmationTtl / 1000)} ثانية`
+      );
+      return;
+    }
+
+    await this.execute(chatId, user, command, args);
+  }
+
+  async confirm(chatId, user, code) {
+    const pending = this.confirmations.get(chatId);
+    if (!pending || pending.expiresAt < this.now()) {
+      this.confirmations.delete(chatId);
+      await this.reply(chatId, 'لا يوجد أمر بانتظار التأكيد أو انتهت صلاحيته');
+      return;
+    }
+    if (pending.code !== code) {
+      await this.reply(chatId, 'رمز التأكيد غير صحيح');
+      return;
+    }
+
+    this.confirmations.delete(chatId);
+    await this.execute(chatId, user, pending.command, pending.args);
+  }
+
+  async execute(chatId, user, command, args) {
+    let result;
+    try {
+      result = await this.commands.dispatch(command, args);
+    } catch (error) {
+      result = { ok: false, message: `تعذر تنفيذ الأمر: ${error.message}` };
+    }
+
+    console.log(`[TELEGRAM] /${command} from ${user} (${chatId}): ${result.ok ? 'ok' : 'failed'}`);
+    await this.audit({ chatId, user, command, args, success: result.ok });
+    await this.reply(chatId, result.message || (result.ok ? 'تم' : 'فشل التنفيذ'));
+  }
+
+  async reply(chatId, text) {
+    try {
+      await this.transport.sendMessage(chatId, text);
+    } catch (error) {
+      console.warn(`[TELEGRAM] Reply to ${chatId} failed: ${error.message}`);
+    }
+  }
+
+  async audit({ chatId, user, command, args = [], success }) {
+    if (!this.db) return;
+    try {
+      await writeAuditLog(this.db, {
+        username: `telegram:${user}`,
+        action: `TELEGRAM /${command}`,
+        success,
+        details: { chatId, args }
+      });
+    } catch (error) {
+      console.error('[AUDIT] Failed to write Telegram audit log:', error.message);
+    }
+  }
+}
+
+module.exports = {
+  BOT_COMMANDS,
+  TelegramCommandBot
+};
@@ -0,0 +1,115 @@
+const { EventBroadcaster } = require('./eventBroadcaster');
+const { Database } = require('./database');
+const { queryAuditLog } = require('./auditLog');
+const { CommandBridge } = require('./commandBridge');
+const { TelegramCommandBot } = require('./telegramBot');
+const { TelegramTransport } = require('./notificationTransports');
+const { createTelegramStub } = require('../test/telegramStub');
+
+describe('TelegramCommandBot', () => {
+  let telegram;
+  let db;
+  let events;
+  let commands;
+  let executed;
+  let clock;
+  let bot;
+
+  const replies = () => telegram.state.messages.map(message => message.text);
+
+  const send = async (text, chatId = 42) => {
+    telegram.receive(chatId, text);
+    await bot.pollOnce();
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    telegram = createTelegramStub();
+    const apiBaseUrl = await telegram.start();
+    db = await new Database(':memory:').open();
+    events = new EventBroadcaster();
+    commands = new CommandBridge({ events, timeout: 200 });
+
+    // واجهة تداول وهمية تحجز كل أمر مرتين (الثانية تمثل نافذة أخرى) وتنفذه مرة واحدة
+    executed = [];
+    events.on('event', ({ type, data }) => {
+      if (type !== 'botCommand') return;
+      commands.claim(data.id);
+      expect(() => commands.claim(data.id)).toThrow('Command already claimed');
+      executed.push([data.command, ...data.args].join(' '));
+      commands.complete(data.id, { ok: true, message: `done: ${data.command}` });
+    });
+
+    clock = 1000000;
+    bot = new TelegramCommandBot({
+      transport: new TelegramTransport({ botToken: telegram.botToken, apiBaseUrl }),
+      commands,
+      allowedChatIds: ['42'],
+      db,
+      now: () => clock
+    });
+  });
+
+  afterEach(async () => {
+    await telegram.stop();
+    await db.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should ignore chats that are not whitelisted and audit the attempt', async () => {
+    await send('/flatten', 999);
+
+    expect(replies()).toEqual([]);
+    expect(executed).toEqual([]);
+    const [entry] = await queryAuditLog(db);
+    expect(entry).toMatchObject({ username: 'telegram:trader', action: 'TELEGRAM /unauthorized', success: false });
+  });
+
+  test('should run read-only commands and pause immediately', async () => {
+    await send('/status');
+    await send('/pause');
+    await send('/unknown');
+
+    expect(executed).toEqual(['status', 'pause']);
+    expect(replies().slice(0, 2)).toEqual(['done: status', 'done: pause']);
+    expect(replies()[2]).toContain('/strategy <id>');
+  });
+
+  test('should require a matching confirmation code before destructive commands', async () => {
+    await send('/flatten');
+    const code = replies()[0].match(/\/confirm (\d{4})/)[1];
+
+    await send('/confirm 0000');
+    expect(executed).toEqual([]);
+    expect(replies()[1]).toBe('رمز التأكيد غير صحيح');
+
+    await send(`/confirm ${code}`);
+    expect(executed).toEqual(['flatten']);
+    expect(replies()[2]).toBe('done: flatten');
+
+    await send(`/confirm ${code}`);
+    expect(executed).toEqual(['flatten']);
+  });
+
+  test('should expire confirmations and validate command arguments', async () => {
+    await send('/strategy');
+    expect(replies()[0]).toBe('الاستخدام: /strategy <id>');
+
+    await send('/strategy SCALPING');
+    const code = replies()[1].match(/\/confirm (\d{4})/)[1];
+    clock += 61000;
+    await send(`/confirm ${code}`);
+
+    expect(executed).toEqual([]);
+    expect(replies()[2]).toBe('لا يوجد أمر بانتظار التأكيد أو انتهت صلاحيته');
+  });
+
+  test('should report when no trading UI answers', async () => {
+    events.removeAllListeners('event');
+
+    await send('/pnl');
+
+    expect(replies()[0]).toBe('تعذر تنفيذ الأمر: No trading UI answered the command');
+  });
+});
@@ -0,0 +1,138 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+const { HttpError } = require('./response');
+
+const scrypt = promisify(crypto.scrypt);
+const PASSWORD_KEY_LENGTH = 64;
+
+/**
+ * مستويات الصلاحيات كما في docs/API_SECURITY_POLICY.md
+ */
+const ROLES = ['lead', 'backend', 'frontend', 'tester'];
+
+const ROLE_PERMISSIONS = {
+  lead: ['trading:read', 'trading:write', 'keys:read', 'keys:manage', 'settings:read', 'settings:write', 'audit:read', 'users:manage'],
+  backend: ['trading:read', 'trading:write', 'keys:read', 'settings:read', 'settings:write'],
+  frontend: ['trading:read', 'settings:read'],
+  tester: ['trading:read', 'settings:read']
+};
+
+// المختبر يتداول ويدير المفاتيح على Testnet فقط
+const TESTNET_PERMISSIONS = {
+  tester: ['trading:write', 'keys:read', 'keys:manage']
+};
+
+/**
+ * هل يملك الدور الصلاحية؟ (بعض صلاحيات المختبر مشروطة بـ Testnet)
+ */
+function hasPermission(role, permission, { testnet = false } = {}) {
+  if ((ROLE_PERMISSIONS[role] || []).includes(permission)) return true;
+  return testnet && (TESTNET_PERMISSIONS[role] || []).includes(permission);
+}
+
+/**
+ * تجزئة كلمة المرور بـ scrypt: scrypt$salt$hash
+ */
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password, stored) {
+  const [scheme, saltHex, hashHex] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * تحويل صف users إلى كائن عام (بدون بصمة كلمة المرور)
+ */
+function mapUserRow(row) {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    disabled: Boolean(row.disabled),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+async function createUser(db, { username, password, role }) {
+  if (typeof username !== 'string' || !/^[A-Za-z0-9_.-]{3,64}$/.test(username)) {
+    throw new HttpError(400, 'username must be 3-64 characters (letters, digits, _ . -)');
+  }
+  if (typeof password !== 'string' || password.length < 8) {
+    throw new HttpError(400, 'password must be at least 8 characters');
+  }
+  if (!ROLES.includes(role)) {
+    throw new HttpError(400, `role must be one of: ${ROLES.join(', ')}`);
+  }
+  if (await db.get('SELECT id FROM users WHERE username = ?', [username])) {
+    throw new HttpError(409, `User "${username}" already exists`);
+  }
+
+  const now = new Date().toISOString();
+  const row = {
+    id: crypto.randomUUID(),
+    username,
+    role,
+    disabled: 0,
+    created_at: now,
+    updated_at: now
+  };
+  await db.run(
+    `INSERT INTO users (id, username, password_hash, role, disabled, created_at, updated_at)
+     VALUES (?, ?, ?, ?, 0, ?, ?)`,
+    [row.id, username, await hashPassword(password), role, now, now]
+  );
+
+  return mapUserRow(row);
+}
+
+function findUserByUsername(db, username) {
+  return db.get('SELECT * FROM users WHERE username = ?', [username]);
+}
+
+function findUserById(db, id) {
+  return db.get('SELECT * FROM users WHERE id = ?', [id]);
+}
+
+async function listUsers(db) {
+  const rows = await db.all('SELECT * FROM users ORDER BY created_at');
+  return rows.map(mapUserRow);
+}
+
+/**
+ * إنشاء حساب lead من ADMIN_USERNAME/ADMIN_PASSWORD عند عدم وجود أي مستخدم
+ */
+async function ensureBootstrapUser(db, config) {
+  const { count } = await db.get('SELECT COUNT(*) AS count FROM users');
+  if (count > 0 || !config.adminUsername || !config.adminPassword) return null;
+
+  const user = await createUser(db, {
+    username: config.adminUsername,
+    password: config.adminPassword,
+    role: 'lead'
+  });
+  console.log(`[AUTH] Created initial lead user "${user.username}"`);
+  return user;
+}
+
+module.exports = {
+  ROLES,
+  ROLE_PERMISSIONS,
+  hasPermission,
+  hashPassword,
+  verifyPassword,
+  mapUserRow,
+  createUser,
+  findUserByUsername,
+  findUserById,
+  listUsers,
+  ensureBootstrapUser
+};
@@ -6,10 +6,64 @@ import { MarketAnalysis } from './components/MarketAnalysis';
 import { StrategyManager } from './components/StrategyManager';
 import { LogsViewer } from './components/LogsViewer';
 import { Settings, Activity, TrendingUp, BarChart3, FileText } from 'lucide-react';
+import { RetryService, CircuitBreakerSnapshot } from './services/RetryService';
+import { secureLoggingService } from './services/SecureLoggingService';
+import { backendService } from './services/BackendService';
+import type { RateLimiterStats } from './services/BinanceRateLimiter';
+
+const SERVER_STATS_INTERVAL = 10000;
 
 function App() {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [isConnected, setIsConnected] = useState(false);
+  const [trippedCircuits, setTrippedCircuits] = useState<CircuitBreakerSnapshot[]>([]);
+  const [rateLimit, setRateLimit] = useState<RateLimiterStats | null>(null);
+
+  // متابعة قواطع الدائرة (backend / binance-rest / binance-ws) لعرضها بجانب شارة الاتصال
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const refresh = () => {
+      const snapshots = Object.values(RetryService.getRetryStats().circuitBreakers);
+      setTrippedCircuits(snapshots.filter(snapshot => snapshot.state !== 'CLOSED'));
+
+      // OPEN يتحول إلى HALF_OPEN عند انتهاء المهلة دون حدث، لذا نعيد القراءة حينها
+      if (timer) clearTimeout(timer);
+      const retryIns = snapshots.filter(snapshot => snapshot.state === 'OPEN').map(snapshot => snapshot.retryIn);
+      timer = retryIns.length > 0 ? setTimeout(refresh, Math.min(...retryIns) + 50) : null;
+    };
+
+    refresh();
+    const unsubscribe = RetryService.onCircuitStateChange(refresh);
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  // محدد وزن Binance يعمل في الخادم، فنقرأ حالته من /stats لعرض الطلبات المؤجلة بجانب القواطع
+  useEffect(() => {
+    const refresh = () => {
+      backendService.getServerStats()
+        .then(stats => setRateLimit(stats?.rateLimiter ?? null))
+        .catch(() => setRateLimit(null));
+    };
+
+    refresh();
+    const timer = setInterval(refresh, SERVER_STATS_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // إبلاغ الخادم بفتح القواطع ليرسل تنبيهاً (فتح قاطع backend نفسه لا يصل بطبيعة الحال)
+  useEffect(() => RetryService.onCircuitStateChange(snapshot => {
+    if (snapshot.state !== 'OPEN') return;
+    secureLoggingService.logSystem({
+      level: 'ERROR',
+      type: 'CIRCUIT_BREAKER',
+      message: `Circuit breaker ${snapshot.name} tripped after ${snapshot.failureCount} consecutive failures`,
+      metadata: { circuit: snapshot.name, state: snapshot.state, trips: snapshot.trips, retryIn: snapshot.retryIn }
+    });
+  }), []);
 
   const tabs = [
     { id: 'dashboard', label: 'لوحة التداول', icon: TrendingUp },
@@ -40,6 +94,27 @@ function App() {
               }`}>
                 {isConnected ? 'متصل بـ Binance' : 'غير متصل'}
               </div>
+              {trippedCircuits.map(circuit => (
+                <div
+                  key={circuit.name}
+                  title={circuit.state === 'OPEN' ? `إعادة المحاولة خلال ${Math.ceil(circuit.retryIn / 1000)} ثانية` : 'طلب تجريبي'}
+                  className={`px-3 py-1 rounded-full text-xs font-medium ${
+                    circuit.state === 'OPEN'
+                      ? 'bg-red-500/20 text-red-400 border border-red-500/30'
+                      : 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+                  }`}
+                >
+                  {circuit.name}: {circuit.state === 'OPEN' ? 'القاطع مفتوح' : 'قيد الاختبار'}
+                </div>
+              ))}
+              {rateLimit && rateLimit.queueLength > 0 && (
+                <div
+                  title={`الوزن المستخدم: ${rateLimit.usedWeight1m ?? '-'} / دقيقة، إيقافات 429: ${rateLimit.serverPauses}`}
+                  className="px-3 py-1 rounded-full text-xs font-medium bg-amber-500/20 text-amber-400 border border-amber-500/30"
+                >
+                  Binance: {rateLimit.queueLength} طلب بانتظار حد الوزن
+                </div>
+              )}
             </div>
             
             <nav className="flex space-x-1">
@@ -8,6 +8,8 @@ import {
   Download,
   RefreshCw
 } from 'lucide-react';
+import { HYBRID_STRATEGY } from '../strategies/HybridManager';
+import { strategyRegistry } from '../strategies/registry';
 
 interface BacktestResultsProps {
   results: any;
@@ -44,7 +46,10 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({
     );
   }
 
-  const currentResult = results;
+  // نتيجة الاستراتيجية المختارة (النظام الهجين هو النتيجة الرئيسية)
+  const currentResult = selectedStrategy === 'HYBRID'
+    ? results
+    : results.strategies?.[selectedStrategy];
 
   const getPerformanceColor = (value: number, type: 'return' | 'winRate' | 'drawdown') => {
     switch (type) {
@@ -83,12 +88,10 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({
               onChange={(e) => setSelectedStrategy(e.target.value)}
               className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              <option value="HYBRID">النظام الهجين</option>
-              <option value="TREND_FOLLOWING">تتبع الاتجاه</option>
-              <option value="MEAN_REVERSION">العودة للمتوسط</option>
-              <option value="GRID_DCA">الشبكة + DCA</option>
-              <option value="SCALPING">السكالبينج</option>
-              <option value="MARKET_MAKING">صناعة السوق</option>
+              <option value={HYBRID_STRATEGY.id}>{HYBRID_STRATEGY.name}</option>
+              {strategyRegistry.list().map(strategy => (
+                <option key={strategy.id} value={strategy.id}>{strategy.name}</option>
+              ))}
             </select>
             
             <button
@@ -244,13 +247,7 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({
               
               <div className="space-y-4">
                 {Object.entries(results.strategyDistribution).map(([strategy, percentage]) => {
-                  const strategyInfo = {
-                    'TREND_FOLLOWING': { name: 'تتبع الاتجاه', color: 'emerald' },
-                    'MEAN_REVERSION': { name: 'العودة للمتوسط', color: 'blue' },
-                    'GRID_DCA': { name: 'الشبكة + DCA', color: 'purple' },
-                    'SCALPING': { name: 'السكالبينج', color: 'yellow' },
-                    'MARKET_MAKING': { name: 'صناعة السوق', color: 'indigo' }
-                  }[strategy] || { name: strategy, color: 'gray' };
+                  const strategyInfo = strategyRegistry.get(strategy) || { name: strategy, color: 'gray' };
 
                   return (
                     <div key={strategy} className="flex items-center space-x-3">
@@ -343,7 +340,7 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({
           </div>
 
           {/* Recent Trades Sample */}
-          {results.trades && results.trades.length > 0 && (
+          {currentResult.trades && currentResult.trades.length > 0 && (
             <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 border border-slate-700/50">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-semibold">عينة من الصفقات</h3>
@@ -367,7 +364,7 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({
                     </tr>
                   </thead>
                   <tbody>
-                    {results.trades.slice(0, 10).map((trade: any, index: number) => (
+                    {currentResult.trades.slice(0, 10).map((trade: any, index: number) => (
                       <tr key={trade.id} className={`border-b border-slate-700/50 ${index % 2 === 0 ? 'bg-slate-800/20' : ''}`}>
                         <td className="py-3 px-4">
                           <span className={`px-2 py-1 rounded text-xs font-medium ${
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Download, Filter, RefreshCw, Database, HardDrive } from 'lucide-react';
 import { secureLoggingService } from '../services/SecureLoggingService';
+import { backendService } from '../services/BackendService';
 
 export const LogsViewer: React.FC = () => {
   const [activeSource, setActiveSource] = useState<'local' | 'server'>('local');
@@ -26,6 +27,20 @@ export const LogsViewer: React.FC = () => {
     loadStatistics();
   }, [activeSource, logType, filters]);
 
+  useEffect(() => {
+    if (activeSource !== 'server') return;
+
+    // السجلات الجديدة تصل مدفوعة من الخادم بدلاً من إعادة التحميل
+    return backendService.subscribeEvents('log', ({ logType: type, entry }) => {
+      if (type !== logType) return;
+      if (filters.symbol && entry.symbol !== filters.symbol) return;
+      if (filters.strategy && entry.strategy !== filters.strategy) return;
+
+      setLogs(prev => [entry, ...prev.filter(log => log.id !== entry.id)].slice(0, filters.limit));
+      setPagination(prev => ({ ...prev, total: prev.total + 1 }));
+    });
+  }, [activeSource, logType, filters]);
+
   const loadLogs = async () => {
     setLoading(true);
     try {
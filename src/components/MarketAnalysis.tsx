@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { TrendingUp, TrendingDown, Activity, Target, Brain, Zap } from 'lucide-react';
 import { PaperTradingService } from '../services/PaperTradingService';
+import { backendService } from '../services/BackendService';
 
 interface MarketData {
   symbol: string;
@@ -60,32 +61,57 @@ export const MarketAnalysis: React.FC = () => {
   const [analysisSpeed, setAnalysisSpeed] = useState('fast');
 
   useEffect(() => {
-    // تحديث بيانات السوق من الخدمة
-    const updateMarketData = () => {
-      const realMarketData = paperTradingService.getMarketPrices();
-      
-      setMarketData(prevData => 
+    // القيم الأولية من بيانات المحاكاة ثم التحديثات المدفوعة من الخادم
+    const realMarketData = paperTradingService.getMarketPrices();
+    setMarketData(prevData =>
+      prevData.map(item => {
+        const realData = realMarketData[item.symbol];
+        if (realData) {
+          return {
+            ...item,
+            price: realData.currentPrice,
+            bid: realData.bid,
+            ask: realData.ask,
+            spread: realData.spread,
+            volume: realData.volume24h
+          };
+        }
+        return item;
+      })
+    );
+
+    const symbols = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT'];
+
+    const unsubscribePrice = backendService.subscribeEvents('price', (event) => {
+      setMarketData(prevData =>
         prevData.map(item => {
-          const realData = realMarketData[item.symbol];
-          if (realData) {
-            return {
-              ...item,
-              price: realData.currentPrice,
-              bid: realData.bid,
-              ask: realData.ask,
-              spread: realData.spread,
-              volume: realData.volume24h
-            };
-          }
-          return item;
+          if (item.symbol !== event.symbol) return item;
+          const bid = event.bid ?? item.bid;
+          const ask = event.ask ?? item.ask;
+          return {
+            ...item,
+            price: event.price,
+            bid,
+            ask,
+            spread: bid > 0 ? ((ask - bid) / bid) * 100 : item.spread
+          };
         })
       );
-    };
+    }, symbols);
 
-    updateMarketData();
-    const interval = setInterval(updateMarketData, 5000);
-    
-    return () => clearInterval(interval);
+    const unsubscribeSignal = backendService.subscribeEvents('signal', (signal) => {
+      setMarketData(prevData =>
+        prevData.map(item => item.symbol === signal.symbol
+          ? { ...item, signal: signal.action, confidence: signal.confidence, analysis: signal.reason || item.analysis }
+          : item
+        )
+      );
+    }, symbols);
+
+    return () => {
+      unsubscribePrice();
+      unsubscribeSignal();
+    };
   }, [paperTradingService]);
 
   const getSignalColor = (signal: string) => {
@@ -11,112 +11,135 @@ import {
   AlertTriangle,
   CheckCircle,
   Activity,
-  TrendingDown
+  TrendingDown,
+  ListChecks
 } from 'lucide-react';
-import { HybridTradingManager, HybridSignal, MarketCondition } from '../strategies/HybridManager';
+import { HybridSignal, MarketCondition } from '../strategies/HybridManager';
+import { TradingEngine } from '../services/TradingEngine';
+import { OrderManager } from '../services/OrderManager';
+import { RemoteControl } from '../services/RemoteControl';
+import { BacktestingService } from '../services/BacktestingService';
 import { TestingUtils } from '../utils/TestingUtils';
 import { BacktestResults } from './BacktestResults';
 import { backendService } from '../services/BackendService';
+import { RiskAlertEvent } from '../services/BackendEventStream';
+
+// أيقونات الاستراتيجيات حسب الاسم المسجل في بياناتها الوصفية
+const STRATEGY_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  Brain,
+  TrendingUp,
+  BarChart3,
+  Grid3X3,
+  Zap,
+  Target,
+  ListChecks
+};
 
 export const StrategyManager: React.FC = () => {
-  const [hybridManager] = useState(() => new HybridTradingManager());
+  const [orderManager] = useState(() => new OrderManager());
+  const [tradingEngine] = useState(() => new TradingEngine({ analysisSpeed: 5000 }, orderManager));
+  const hybridManager = tradingEngine.getHybridManager();
+  const [isRunning, setIsRunning] = useState(false);
   const [selectedStrategyId, setSelectedStrategyId] = useState('HYBRID');
   const [tradingMode, setTradingMode] = useState<'AUTO' | 'MANUAL' | 'NONE'>('NONE');
   const [currentSignal, setCurrentSignal] = useState<HybridSignal | null>(null);
   const [marketCondition, setMarketCondition] = useState<MarketCondition | null>(null);
   const [backtestResults, setBacktestResults] = useState<any>(null);
+  const [isBacktesting, setIsBacktesting] = useState(false);
   const [riskManagement, setRiskManagement] = useState(hybridManager.getRiskManagement());
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
   const [orderResult, setOrderResult] = useState<string>('');
+  const [riskAlert, setRiskAlert] = useState<RiskAlertEvent | null>(null);
 
-  const strategies = [
-    { 
-      id: 'HYBRID', 
-      name: 'النظام الهجين', 
-      icon: Brain, 
-      color: 'purple',
-      description: 'يختار الاستراتيجية المناسبة تلقائياً حسب حالة السوق'
-    },
-    { 
-      id: 'TREND_FOLLOWING', 
-      name: 'تتبع الاتجاه', 
-      icon: TrendingUp, 
-      color: 'emerald',
-      description: 'يتبع الاتجاهات القوية باستخدام EMA و MACD'
-    },
-    { 
-      id: 'MEAN_REVERSION', 
-      name: 'العودة للمتوسط', 
-      icon: BarChart3, 
-      color: 'blue',
-      description: 'يستغل التشبع الشرائي والبيعي'
-    },
-    { 
-      id: 'GRID_DCA', 
-      name: 'الشبكة + DCA', 
-      icon: Grid3X3, 
-      color: 'purple',
-      description: 'شبكة تداول مع متوسط التكلفة'
-    },
-    { 
-      id: 'SCALPING', 
-      name: 'السكالبينج', 
-      icon: Zap, 
-      color: 'yellow',
-      description: 'صفقات سريعة بأرباح صغيرة'
-    },
-    { 
-      id: 'MARKET_MAKING', 
-      name: 'صناعة السوق', 
-      icon: Target, 
-      color: 'indigo',
-      description: 'توفير السيولة والربح من السبريد'
-    }
-  ];
+  const strategies = hybridManager.getAvailableStrategies().map(strategy => ({
+    ...strategy,
+    icon: STRATEGY_ICONS[strategy.icon] || Activity
+  }));
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (isRunning) {
-      interval = setInterval(() => {
-        // محاكاة بيانات السوق
-        const mockCandles = TestingUtils.generateMockCandleData(200);
-        const mockOrderBook = {
-          bid: 43000,
-          ask: 43010,
-          bidSize: 10,
-          askSize: 10
-        };
+    orderManager.start().catch(error => console.warn('[ORDERS] Failed to start order manager:', error));
+    return () => orderManager.stop();
+  }, [orderManager]);
 
-        const signal = hybridManager.analyze(mockCandles, mockOrderBook);
-        setCurrentSignal(signal);
-        setMarketCondition(signal.marketCondition);
-        setRiskManagement(hybridManager.getRiskManagement());
-      }, 2000);
-    }
+  useEffect(() => {
+    // تحديث الواجهة من إشارات محرك التداول الحقيقية
+    const unsubscribe = tradingEngine.onSignal(({ signal }) => {
+      setCurrentSignal(signal);
+      setMarketCondition(signal.marketCondition);
+      setRiskManagement(hybridManager.getRiskManagement());
+    });
+
+    return () => {
+      unsubscribe();
+      tradingEngine.stop();
+    };
+  }, [tradingEngine, hybridManager]);
+
+  useEffect(() => {
+    // أوامر بوت Telegram تنفذ على هذا المحرك، والواجهة تتبع حالته بعد كل أمر
+    const remoteControl = new RemoteControl(tradingEngine);
+    const unsubscribe = remoteControl.onExecuted(() => {
+      setIsRunning(tradingEngine.getIsRunning());
+      setSelectedStrategyId(tradingEngine.getConfig().strategyId ?? 'HYBRID');
+      setRiskManagement(hybridManager.getRiskManagement());
+    });
+    remoteControl.start();
+
+    return () => {
+      unsubscribe();
+      remoteControl.stop();
+    };
+  }, [tradingEngine, hybridManager]);
+
+  useEffect(() => {
+    // تنبيهات المخاطر والتنفيذات المدفوعة من الخادم تحدث لوحة المخاطر فوراً
+    const unsubscribeAlerts = backendService.subscribeEvents('riskAlert', (alert) => {
+      setRiskAlert(alert);
+      setRiskManagement(hybridManager.getRiskManagement());
+    });
+    const unsubscribeFills = backendService.subscribeEvents('fill', () => {
+      setRiskManagement(hybridManager.getRiskManagement());
+    });
 
     return () => {
-      if (interval) clearInterval(interval);
+      unsubscribeAlerts();
+      unsubscribeFills();
     };
-  }, [isRunning, hybridManager]);
+  }, [hybridManager]);
 
   const handleStart = () => {
+    tradingEngine.updateConfig({
+      strategyId: selectedStrategyId === 'HYBRID' ? undefined : selectedStrategyId
+    });
+    tradingEngine.start();
     setIsRunning(true);
   };
 
   const handleStop = () => {
+    tradingEngine.stop();
     setIsRunning(false);
     setCurrentSignal(null);
   };
 
   const runBacktest = async () => {
-    const historicalData = TestingUtils.generateMockCandleData(1000);
-    const results = hybridManager.backtest(historicalData, {
-      initialBalance: 10000,
-      commission: 0.001,
-      slippage: 0.0005
-    });
-    setBacktestResults(results);
+    setIsBacktesting(true);
+    try {
+      const historicalData = TestingUtils.generateMockCandleData(1000);
+      const backtestingService = new BacktestingService({
+        startDate: new Date(historicalData[0].timestamp),
+        endDate: new Date(historicalData[historicalData.length - 1].timestamp),
+        initialBalance: 10000,
+        feeRate: 0.001,
+        slippageRate: 0.0005,
+        timeframe: '1m'
+      });
+
+      // نتيجة النظام الهجين + نتيجة كل استراتيجية على نفس البيانات للمقارنة
+      const { overall, strategies: strategyResults } = await backtestingService.runStrategyComparison(historicalData);
+      setBacktestResults({ ...overall, strategies: strategyResults });
+    } finally {
+      setIsBacktesting(false);
+    }
   };
 
   const getStrategyColor = (strategyId: string) => {
@@ -232,7 +255,7 @@ export const StrategyManager: React.FC = () => {
                   <div className="flex justify-between">
                     <span className="text-slate-400">الاستخدام:</span>
                     <span className="text-white">
-                      {backtestResults.strategyDistribution[strategy.id]?.toFixed(1) || 0}%
+                      {backtestResults.strategyDistribution?.[strategy.id]?.toFixed(1) || 0}%
                     </span>
                   </div>
                 </div>
@@ -307,6 +330,15 @@ export const StrategyManager: React.FC = () => {
           <AlertTriangle className="w-5 h-5 text-red-400 mr-2" />
           حالة إدارة المخاطر
         </h3>
+
+        {riskAlert && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-300 flex items-start justify-between">
+            <span>
+              [{new Date(riskAlert.timestamp).toLocaleTimeString()}] {riskAlert.reason || riskAlert.action}
+            </span>
+            <button onClick={() => setRiskAlert(null)} className="text-red-400 hover:text-red-200 ml-4">✕</button>
+          </div>
+        )}
         
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="bg-slate-700/30 rounded-lg p-4">
@@ -391,7 +423,7 @@ export const StrategyManager: React.FC = () => {
       <BacktestResults 
         results={backtestResults}
         onRunBacktest={runBacktest}
-        isLoading={false}
+        isLoading={isBacktesting}
       />
 
       {/* Live Signals Log */}
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Activity, TrendingUp, DollarSign, BarChart3 } from 'lucide-react';
+import { OrderManager } from '../services/OrderManager';
 import { backendService } from '../services/BackendService';
+import { OrderUpdateEvent } from '../services/BackendEventStream';
+import { PositionLedger } from '../services/PositionLedger';
 
 interface TradingDashboardProps {
   // Add any props you need here
@@ -12,6 +15,57 @@ export const TradingDashboard: React.FC<TradingDashboardProps> = () => {
   const [pnl, setPnl] = useState(0);
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
   const [orderResult, setOrderResult] = useState<string>('');
+  // الأوامر اليدوية تمر بنفس فحوصات المخاطر التي يستخدمها محرك التداول
+  // ولكل أمر clientOrderId حتى لا يتكرر عند إعادة المحاولة
+  const [executor] = useState(() => new OrderManager());
+  const [ledger] = useState(() => new PositionLedger());
+  const [activity, setActivity] = useState<OrderUpdateEvent[]>([]);
+
+  useEffect(() => {
+    const unsubscribeStatus = backendService.onStreamStatusChange(status => setIsConnected(status === 'open'));
+
+    // الرصيد الابتدائي من الحساب (يتطلب تسجيل الدخول)
+    backendService.getAccountInfo()
+      .then(account => {
+        const usdt = account?.balances?.find((entry: { asset: string }) => entry.asset === 'USDT');
+        if (usdt) setBalance(usdt.free);
+      })
+      .catch(() => undefined);
+
+    const unsubscribeOrders = backendService.subscribeEvents('orderUpdate', (order) => {
+      setActivity(prev => [order, ...prev].slice(0, 10));
+    });
+
+    // كل تنفيذ يحدث الرصيد النقدي والربح المحقق عبر سجل الدفعات
+    const unsubscribeFills = backendService.subscribeEvents('fill', (fill) => {
+      const execution = {
+        orderId: String(fill.orderId),
+        quantity: fill.quantity,
+        price: fill.price,
+        fee: fill.fees,
+        timestamp: new Date().toISOString()
+      };
+      if (fill.side === 'BUY') {
+        ledger.addLot(fill.symbol, execution);
+        setBalance(prev => prev - fill.quantity * fill.price - fill.fees);
+      } else {
+        ledger.closeLots(fill.symbol, execution);
+        setBalance(prev => prev + fill.quantity * fill.price - fill.fees);
+      }
+      setPnl(ledger.getTotalRealizedPnL());
+    });
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeOrders();
+      unsubscribeFills();
+    };
+  }, [ledger]);
+
+  useEffect(() => {
+    executor.start().catch(error => console.warn('[ORDERS] Failed to start order manager:', error));
+    return () => executor.stop();
+  }, [executor]);
 
   const handleManualTrade = async (action: 'BUY' | 'SELL', symbol: string = 'BTCUSDT', quantity: number = 0.001) => {
     if (isPlacingOrder) return;
@@ -27,11 +81,11 @@ export const TradingDashboard: React.FC<TradingDashboardProps> = () => {
         quantity
       };
 
-      const result = await backendService.placeOrder(orderRequest);
+      const result = await executor.execute(orderRequest);
       
       if (result.success) {
+        // الرصيد والـ PnL يتحدثان من حدث fill المدفوع من الخادم
         setOrderResult(`✅ تم تنفيذ أمر ${action} بنجاح - ${quantity} ${symbol.replace('USDT', '')}`);
-        // تحديث الرصيد والـ PnL هنا إذا لزم الأمر
       } else {
         setOrderResult(`❌ فشل في تنفيذ الأمر: ${result.error}`);
       }
@@ -138,9 +192,24 @@ export const TradingDashboard: React.FC<TradingDashboardProps> = () => {
 
           <div className="bg-white rounded-lg shadow-sm p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Activity</h2>
-            <div className="text-gray-500 text-center py-8">
-              No recent activity
-            </div>
+            {activity.length === 0 ? (
+              <div className="text-gray-500 text-center py-8">
+                No recent activity
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {activity.map(order => (
+                  <li key={`${order.orderId}-${order.status}`} className="py-2 flex items-center justify-between text-sm">
+                    <span className={order.side === 'BUY' ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                      {order.side} {order.executedQty || order.quantity} {order.symbol}
+                    </span>
+                    <span className="text-gray-500">
+                      {order.status}{order.isDryRun ? ' (DRY_RUN)' : ''}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
       </div>
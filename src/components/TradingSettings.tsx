@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Key, Shield, Zap, AlertTriangle, CheckCircle, Lock, Eye, EyeOff } from 'lucide-react';
 import { backendService } from '../services/BackendService';
 import { PaperTradingService } from '../services/PaperTradingService';
+import { RiskConfig, riskManager } from '../services/RiskManager';
 
 interface TradingSettingsProps {
   onConnectionChange: (connected: boolean) => void;
@@ -18,12 +19,13 @@ export const TradingSettings: React.FC<TradingSettingsProps> = ({ onConnectionCh
   const [isConnected, setIsConnected] = useState(false);
   const [isDryRun, setIsDryRun] = useState(true);
   const [paperConfig, setPaperConfig] = useState(paperTradingService.getConfig());
-  const [riskSettings, setRiskSettings] = useState({
-    maxDailyLoss: 100,
-    maxPositionSize: 10,
-    stopLoss: 5,
-    takeProfit: 10
-  });
+  const [riskSettings, setRiskSettings] = useState(riskManager.getConfig());
+
+  // تطبيق حدود المخاطر مباشرة على مدير المخاطر المشترك
+  const updateRiskSettings = (changes: Partial<RiskConfig>) => {
+    setRiskSettings({ ...riskSettings, ...changes });
+    riskManager.updateConfig(changes);
+  };
 
   const handleConnect = async () => {
     if (!apiKey || !secretKey) {
@@ -379,6 +381,28 @@ export const TradingSettings: React.FC<TradingSettingsProps> = ({ onConnectionCh
           إدارة المخاطر
         </h3>
         
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h4 className="text-white font-medium">مفتاح الإيقاف (Kill Switch)</h4>
+            <p className="text-slate-400 text-sm">منع أي أمر يزيد التعرض في جميع مسارات التداول</p>
+          </div>
+          <button
+            onClick={() => {
+              riskManager.setKillSwitch(!riskSettings.killSwitch, 'settings');
+              setRiskSettings(riskManager.getConfig());
+            }}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              riskSettings.killSwitch ? 'bg-red-600' : 'bg-slate-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                riskSettings.killSwitch ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-2">
@@ -387,7 +411,7 @@ export const TradingSettings: React.FC<TradingSettingsProps> = ({ onConnectionCh
             <input
               type="number"
               value={riskSettings.maxDailyLoss}
-              onChange={(e) => setRiskSettings({...riskSettings, maxDailyLoss: Number(e.target.value)})}
+              onChange={(e) => updateRiskSettings({ maxDailyLoss: Number(e.target.value) })}
               className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
             />
           </div>
@@ -399,7 +423,55 @@ export const TradingSettings: React.FC<TradingSettingsProps> = ({ onConnectionCh
             <input
               type="number"
               value={riskSettings.maxPositionSize}
-              onChange={(e) => setRiskSettings({...riskSettings, maxPositionSize: Number(e.target.value)})}
+              onChange={(e) => updateRiskSettings({ maxPositionSize: Number(e.target.value) })}
+              className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              الحد الأقصى للتعرض لكل رمز ($)
+            </label>
+            <input
+              type="number"
+              value={riskSettings.maxSymbolExposure}
+              onChange={(e) => updateRiskSettings({ maxSymbolExposure: Number(e.target.value) })}
+              className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              الحد الأقصى للتعرض الإجمالي ($)
+            </label>
+            <input
+              type="number"
+              value={riskSettings.maxGrossExposure}
+              onChange={(e) => updateRiskSettings({ maxGrossExposure: Number(e.target.value) })}
+              className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              الحد الأقصى للمراكز المفتوحة
+            </label>
+            <input
+              type="number"
+              value={riskSettings.maxConcurrentPositions}
+              onChange={(e) => updateRiskSettings({ maxConcurrentPositions: Number(e.target.value) })}
+              className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              الحد الأقصى للتراجع (%)
+            </label>
+            <input
+              type="number"
+              value={riskSettings.maxDrawdown}
+              onChange={(e) => updateRiskSettings({ maxDrawdown: Number(e.target.value) })}
               className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
             />
           </div>
@@ -410,8 +482,8 @@ export const TradingSettings: React.FC<TradingSettingsProps> = ({ onConnectionCh
             </label>
             <input
               type="number"
-              value={riskSettings.stopLoss}
-              onChange={(e) => setRiskSettings({...riskSettings, stopLoss: Number(e.target.value)})}
+              value={riskSettings.stopLossPercent}
+              onChange={(e) => updateRiskSettings({ stopLossPercent: Number(e.target.value) })}
               className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
             />
           </div>
@@ -422,8 +494,8 @@ export const TradingSettings: React.FC<TradingSettingsProps> = ({ onConnectionCh
             </label>
             <input
               type="number"
-              value={riskSettings.takeProfit}
-              onChange={(e) => setRiskSettings({...riskSettings, takeProfit: Number(e.target.value)})}
+              value={riskSettings.takeProfitPercent}
+              onChange={(e) => updateRiskSettings({ takeProfitPercent: Number(e.target.value) })}
               className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
             />
           </div>
@@ -0,0 +1,204 @@
+/**
+ * اختبارات عميل قناة الدفع: الاشتراك وإعادة الاتصال وإعادة الاشتراك
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BackendEventStream, SESSION_CLOSE_CODE, StreamStatus, UpstreamStatus } from './BackendEventStream';
+import { CircuitBreaker } from './RetryService';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  url: string;
+  sent: Array<{ action: string; topics: string[]; symbols: string[] | null }> = [];
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  open() {
+    this.onopen?.();
+  }
+
+  emit(type: string, data: object, seq = 1) {
+    this.onmessage?.({ data: JSON.stringify({ type, seq, timestamp: Date.now(), data }) });
+  }
+
+  drop(code = 1006) {
+    this.onclose?.({ code });
+  }
+}
+
+const latest = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+const lastSent = () => latest().sent[latest().sent.length - 1];
+
+function createStream() {
+  return new BackendEventStream({
+    url: 'ws://backend/api/stream?token=t',
+    WebSocketImpl: FakeWebSocket as unknown as typeof WebSocket,
+    baseDelay: 100,
+    maxDelay: 400
+  });
+}
+
+describe('BackendEventStream', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should send the union of subscriptions and dispatch events by type and symbol', () => {
+    const stream = createStream();
+    const prices: number[] = [];
+    const fills: string[] = [];
+
+    stream.subscribe('price', data => prices.push(data.price), ['btcusdt']);
+    stream.subscribe('fill', data => fills.push(data.symbol));
+    latest().open();
+
+    expect(lastSent()).toEqual({ action: 'subscribe', topics: ['price', 'fill'], symbols: null });
+
+    latest().emit('price', { symbol: 'BTCUSDT', price: 50000 });
+    latest().emit('price', { symbol: 'ETHUSDT', price: 3000 });
+    latest().emit('fill', { symbol: 'ETHUSDT', quantity: 1 });
+    latest().emit('subscribed', {});
+
+    expect(prices).toEqual([50000]);
+    expect(fills).toEqual(['ETHUSDT']);
+  });
+
+  it('should reconnect with exponential backoff and resubscribe', () => {
+    const stream = createStream();
+    const statuses: StreamStatus[] = [];
+    stream.onStatusChange(status => statuses.push(status));
+    stream.subscribe('signal', () => undefined, ['BTCUSDT']);
+    latest().open();
+
+    latest().drop();
+    expect(stream.getStatus()).toBe('reconnecting');
+    vi.advanceTimersByTime(99);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    // فشل الاتصال الثاني يضاعف التأخير
+    latest().drop();
+    vi.advanceTimersByTime(199);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    latest().open();
+    expect(latest().sent).toEqual([{ action: 'subscribe', topics: ['signal'], symbols: ['BTCUSDT'] }]);
+    expect(statuses).toEqual(['idle', 'connecting', 'open', 'reconnecting', 'open']);
+
+    // الاتصال الناجح يعيد التأخير إلى قيمته الأساسية
+    latest().drop();
+    vi.advanceTimersByTime(100);
+    expect(FakeWebSocket.instances).toHaveLength(4);
+  });
+
+  it('should close the socket after the last unsubscribe and stop reconnecting', () => {
+    const stream = createStream();
+    const unsubscribePrice = stream.subscribe('price', () => undefined);
+    const unsubscribeLog = stream.subscribe('log', () => undefined);
+    latest().open();
+
+    unsubscribePrice();
+    expect(lastSent()).toEqual({ action: 'subscribe', topics: ['log'], symbols: null });
+
+    unsubscribeLog();
+    expect(latest().closed).toBe(true);
+    expect(stream.getStatus()).toBe('idle');
+
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it('should hold reconnects while the circuit breaker is open and forward upstream status', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const breaker = new CircuitBreaker('backend', { failureThreshold: 2, recoveryTimeout: 1000, successThreshold: 1 });
+    const stream = new BackendEventStream({
+      url: 'ws://backend/api/stream?token=t',
+      WebSocketImpl: FakeWebSocket as unknown as typeof WebSocket,
+      baseDelay: 100,
+      maxDelay: 400,
+      circuitBreaker: breaker
+    });
+    const upstream: UpstreamStatus[] = [];
+    stream.onUpstreamStatus(status => upstream.push(status));
+    stream.subscribe('price', () => undefined);
+
+    // محاولتان فاشلتان تفتحان القاطع
+    latest().drop();
+    vi.advanceTimersByTime(100);
+    latest().drop();
+    expect(breaker.getState()).toBe('OPEN');
+
+    vi.advanceTimersByTime(999);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    latest().open();
+    expect(breaker.getState()).toBe('CLOSED');
+
+    latest().onmessage?.({ data: JSON.stringify({ type: 'upstream', name: 'binance-ws', healthy: false }) });
+    expect(upstream).toEqual([{ name: 'binance-ws', healthy: false }]);
+  });
+
+  it('should connect with the access token and renew it after the server ends the session', async () => {
+    const requests: boolean[] = [];
+    let token = 'jwt-1';
+    const stream = new BackendEventStream({
+      url: 'ws://backend/api/stream?token=t',
+      WebSocketImpl: FakeWebSocket as unknown as typeof WebSocket,
+      baseDelay: 100,
+      getAccessToken: async expired => {
+        requests.push(expired);
+        if (expired) token = 'jwt-2';
+        return token;
+      }
+    });
+
+    stream.subscribe('fill', () => undefined);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(latest().url).toBe('ws://backend/api/stream?token=t&accessToken=jwt-1');
+    latest().open();
+
+    // انتهاء رمز الوصول لا يحسب فشلاً في الاتصال، والمحاولة التالية تطلب رمزاً مجدداً
+    latest().drop(SESSION_CLOSE_CODE);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(requests).toEqual([false, true]);
+    expect(latest().url).toBe('ws://backend/api/stream?token=t&accessToken=jwt-2');
+
+    // تجديد الجلسة من REST يعيد فتح القناة المفتوحة بالرمز الجديد
+    latest().open();
+    token = 'jwt-3';
+    stream.reconnect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(FakeWebSocket.instances[1].closed).toBe(true);
+    expect(latest().url).toBe('ws://backend/api/stream?token=t&accessToken=jwt-3');
+    expect(FakeWebSocket.instances).toHaveLength(3);
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * عميل قناة الدفع من الخادم (/api/stream) بدلاً من استطلاع REST في المكونات
+ * يعيد الاتصال بتأخير أسي ويعيد إرسال الاشتراكات الحالية بعد كل اتصال
+ */
+
+import type { CircuitBreaker, CircuitName } from './RetryService';
+
+export interface PriceEvent {
+  symbol: string;
+  price: number;
+  bid: number | null;
+  ask: number | null;
+  volume: number;
+  timestamp: number;
+}
+
+export interface BookTickerEvent {
+  symbol: string;
+  bid: number;
+  bidQty: number;
+  ask: number;
+  askQty: number;
+}
+
+/**
+ * أفضل مستويات دفتر الأوامر المحلي في الخادم (ينشر مرة كل ثانية على الأكثر لكل رمز)
+ */
+export interface DepthEvent {
+  symbol: string;
+  bids: Array<{ price: number; quantity: number }>;
+  asks: Array<{ price: number; quantity: number }>;
+  lastUpdateId: number;
+}
+
+export interface OrderUpdateEvent {
+  orderId: string | number;
+  clientOrderId?: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  status: string;
+  quantity: number;
+  price: number | null;
+  executedQty: number;
+  executedPrice?: number | null;
+  fees?: number;
+  isDryRun: boolean;
+}
+
+export interface FillEvent {
+  orderId: string | number;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  fees: number;
+  reason?: string | null; // سبب الأمر (مثل STOP_LOSS لإغلاقات PositionTracker)
+  isDryRun: boolean;
+}
+
+export interface SignalEvent {
+  id: string;
+  symbol: string;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  price: number;
+  confidence: number;
+  reason: string;
+  timestamp: string;
+  strategy?: string;
+}
+
+export interface RiskAlertEvent {
+  id: string;
+  action: string;
+  reason: string | null;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | null;
+  dailyLoss: number | null;
+  currentDrawdown: number | null;
+  positionSize: number | null;
+  timestamp: string;
+}
+
+export interface LogEvent {
+  logType: 'trades' | 'decisions' | 'risk' | 'system';
+  symbol?: string;
+  entry: Record<string, unknown> & { id: string };
+}
+
+/**
+ * أمر تحكم عن بعد من بوت Telegram (تنفذه واجهة واحدة بعد حجزه)
+ */
+export interface BotCommandEvent {
+  id: string;
+  command: string;
+  args: string[];
+}
+
+export interface BackendEventMap {
+  price: PriceEvent;
+  bookTicker: BookTickerEvent;
+  depth: DepthEvent;
+  orderUpdate: OrderUpdateEvent;
+  fill: FillEvent;
+  signal: SignalEvent;
+  riskAlert: RiskAlertEvent;
+  log: LogEvent;
+  botCommand: BotCommandEvent;
+}
+
+export type BackendEventType = keyof BackendEventMap;
+
+export interface BackendEvent<K extends BackendEventType = BackendEventType> {
+  type: K;
+  seq: number;
+  timestamp: number;
+  data: BackendEventMap[K];
+}
+
+// الخادم يغلق القناة بهذا الرمز عند انتهاء رمز الوصول أو إلغاء الجلسة
+export const SESSION_CLOSE_CODE = 4401;
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export interface UpstreamStatus {
+  name: CircuitName;
+  healthy: boolean;
+}
+
+export interface EventStreamOptions {
+  url: string;
+  WebSocketImpl?: typeof WebSocket;
+  baseDelay?: number;
+  maxDelay?: number;
+  circuitBreaker?: CircuitBreaker; // يؤجل إعادة الاتصال ما دام القاطع مفتوحاً
+  getAccessToken?: (expired: boolean) => Promise<string | null>; // expired: أغلق الخادم القناة لانتهاء الجلسة
+}
+
+interface Subscription {
+  type: BackendEventType;
+  symbols: string[] | null; // null = جميع الرموز
+  listener: (data: BackendEventMap[BackendEventType], event: BackendEvent) => void;
+}
+
+export class BackendEventStream {
+  private url: string;
+  private WebSocketImpl: typeof WebSocket | undefined;
+  private baseDelay: number;
+  private maxDelay: number;
+  private circuitBreaker: CircuitBreaker | null;
+  private getAccessToken: EventStreamOptions['getAccessToken'];
+  private sessionExpired = false;
+  private connectSeq = 0; // يبطل انتظار رمز وصول لمحاولة اتصال أقدم
+  private socket: WebSocket | null = null;
+  private subscriptions: Set<Subscription> = new Set();
+  private statusListeners: Set<(status: StreamStatus) => void> = new Set();
+  private upstreamListeners: Set<(status: UpstreamStatus) => void> = new Set();
+  private status: StreamStatus = 'idle';
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: EventStreamOptions) {
+    this.url = options.url;
+    this.WebSocketImpl = options.WebSocketImpl ?? (typeof WebSocket !== 'undefined' ? WebSocket : undefined);
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.circuitBreaker = options.circuitBreaker ?? null;
+    this.getAccessToken = options.getAccessToken;
+  }
+
+  /**
+   * الاشتراك في نوع حدث (واختيارياً رموز محددة)، يعيد دالة إلغاء الاشتراك
+   * أول اشتراك يفتح الاتصال وآخر إلغاء يغلقه
+   */
+  public subscribe<K extends BackendEventType>(
+    type: K,
+    listener: (data: BackendEventMap[K], event: BackendEvent<K>) => void,
+    symbols?: string[]
+  ): () => void {
+    const subscription: Subscription = {
+      type,
+      symbols: symbols ? symbols.map(symbol => symbol.toUpperCase()) : null,
+      listener: listener as unknown as Subscription['listener']
+    };
+    this.subscriptions.add(subscription);
+
+    if (this.status === 'idle') {
+      this.connect();
+    } else {
+      this.sendSubscription();
+    }
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0) {
+        this.close();
+      } else {
+        this.sendSubscription();
+      }
+    };
+  }
+
+  /**
+   * متابعة حالة الاتصال (تستدعى فوراً بالحالة الحالية)
+   */
+  public onStatusChange(listener: (status: StreamStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * متابعة حالة اتصالات الخادم بالمصادر الخارجية (رسائل upstream)
+   */
+  public onUpstreamStatus(listener: (status: UpstreamStatus) => void): () => void {
+    this.upstreamListeners.add(listener);
+    return () => {
+      this.upstreamListeners.delete(listener);
+    };
+  }
+
+  public getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  /**
+   * إغلاق الاتصال وإيقاف إعادة المحاولة
+   */
+  public close(): void {
+    this.connectSeq++;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onclose = null;
+      socket.close();
+    }
+    this.reconnectAttempts = 0;
+    this.setStatus('idle');
+  }
+
+  /**
+   * إعادة فتح الاتصال المفتوح برمز وصول جديد (بعد تجديد الجلسة أو تسجيل الدخول)
+   */
+  public reconnect(): void {
+    if (this.status !== 'open' || !this.socket) return;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket.onclose = null;
+    socket.close();
+    this.connect();
+  }
+
+  private connect(): void {
+    if (!this.WebSocketImpl) {
+      console.warn('[BACKEND STREAM] WebSocket is not available in this environment');
+      return;
+    }
+
+    if (this.circuitBreaker && !this.circuitBreaker.allowRequest()) {
+      this.scheduleReconnect(this.circuitBreaker.getRetryIn());
+      return;
+    }
+
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    if (!this.getAccessToken) {
+      this.open(this.url);
+      return;
+    }
+
+    const seq = ++this.connectSeq;
+    const expired = this.sessionExpired;
+    this.sessionExpired = false;
+    this.getAccessToken(expired)
+      .catch(() => null)
+      .then(token => {
+        // أغلقت القناة أو بدأت محاولة أحدث أثناء انتظار الرمز
+        if (seq !== this.connectSeq) return;
+        this.open(token ? `${this.url}${this.url.includes('?') ? '&' : '?'}accessToken=${encodeURIComponent(token)}` : this.url);
+      });
+  }
+
+  private open(url: string): void {
+    if (!this.WebSocketImpl) return;
+
+    const socket = new this.WebSocketImpl(url);
+    this.socket = socket;
+    let opened = false;
+
+    socket.onopen = () => {
+      opened = true;
+      this.circuitBreaker?.recordSuccess();
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+      this.sendSubscription();
+    };
+
+    socket.onmessage = (message: MessageEvent) => {
+      this.handleMessage(message.data);
+    };
+
+    socket.onerror = () => {
+      console.warn('[BACKEND STREAM] Connection error');
+    };
+
+    socket.onclose = (event: CloseEvent) => {
+      this.socket = null;
+      if (event.code === SESSION_CLOSE_CODE) {
+        this.sessionExpired = true;
+      } else if (!opened) {
+        this.circuitBreaker?.recordFailure();
+      }
+      if (this.subscriptions.size === 0) {
+        this.setStatus('idle');
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(minDelay = 0): void {
+    const delay = Math.max(Math.min(this.baseDelay * 2 ** this.reconnectAttempts, this.maxDelay), minDelay);
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+    console.warn(`[BACKEND STREAM] Disconnected, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * إرسال اتحاد الاشتراكات الحالية (الخادم يستبدل اشتراك العميل بالكامل)
+   */
+  private sendSubscription(): void {
+    if (!this.socket || this.status !== 'open') return;
+
+    const subscriptions = Array.from(this.subscriptions);
+    const topics = new Set(subscriptions.map(subscription => subscription.type));
+    const symbols = subscriptions.some(subscription => !subscription.symbols)
+      ? null
+      : new Set(subscriptions.flatMap(subscription => subscription.symbols ?? []));
+
+    this.socket.send(JSON.stringify({
+      action: 'subscribe',
+      topics: Array.from(topics),
+      symbols: symbols ? Array.from(symbols) : null
+    }));
+  }
+
+  private handleMessage(raw: unknown): void {
+    let event: BackendEvent | (UpstreamStatus & { type: 'upstream' });
+    try {
+      event = JSON.parse(String(raw));
+    } catch {
+      console.warn('[BACKEND STREAM] Ignoring malformed message');
+      return;
+    }
+
+    if (event.type === 'upstream') {
+      const status = { name: event.name, healthy: event.healthy };
+      this.upstreamListeners.forEach(listener => listener(status));
+      return;
+    }
+
+    if (typeof event.seq !== 'number') return; // رسائل التحكم (subscribed/error)
+
+    const symbol = (event.data as { symbol?: string }).symbol;
+    this.subscriptions.forEach(subscription => {
+      if (subscription.type !== event.type) return;
+      if (subscription.symbols && symbol && !subscription.symbols.includes(symbol)) return;
+      try {
+        subscription.listener(event.data, event);
+      } catch (error) {
+        console.error('[BACKEND STREAM] Listener failed:', error);
+      }
+    });
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
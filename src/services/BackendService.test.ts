@@ -0,0 +1,70 @@
+/**
+ * اختبارات BackendService مقابل خادم حقيقي: جلسة المستخدم مع حالة Paper Trading
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BackendService } from './BackendService';
+
+interface Server {
+  address(): { port: number };
+  close(callback: () => void): void;
+}
+
+// وحدات الخادم CommonJS بلا أنواع، وتبعياتها (sqlite3) مثبتة داخل server/
+const loadServerModule = (path: string) => import(/* @vite-ignore */ `../../server/${path}`);
+const { createApp, loadConfig } = await loadServerModule('index.js');
+const { Database } = await loadServerModule('utils/database.js');
+const { BinanceClient } = await loadServerModule('utils/binanceClient.js');
+const { createUser } = await loadServerModule('utils/users.js');
+
+describe('BackendService paper trading state', () => {
+  let db: { close(): Promise<void> };
+  let server: Server;
+  let service: BackendService;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db = await new Database(':memory:').open();
+    await createUser(db, { username: 'lead', password: 'password-123', role: 'lead' });
+
+    const app = createApp({
+      config: loadConfig({ FRONTEND_TOKEN: 'test-token' }),
+      db,
+      binance: new BinanceClient({ baseUrl: 'http://127.0.0.1:1' })
+    });
+    server = await new Promise<Server>(resolve => {
+      const instance = app.listen(0, () => resolve(instance));
+    });
+
+    vi.stubEnv('VITE_BACKEND_URL', `http://127.0.0.1:${server.address().port}/api`);
+    vi.stubEnv('VITE_FRONTEND_TOKEN', 'test-token');
+    service = new BackendService();
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(resolve));
+    await db.close();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should save, load and clear a snapshot with the session token', async () => {
+    expect(await service.authenticate({ username: 'lead', password: 'password-123' })).toBe(true);
+
+    const snapshot = { schemaVersion: 3, account: { balances: { USDT: 9000 } }, orderHistory: [] };
+    expect(await service.savePaperTradingState(snapshot)).toBe(true);
+    expect(await service.getPaperTradingState()).toEqual(snapshot);
+
+    expect(await service.clearPaperTradingState()).toBe(true);
+    expect(await service.getPaperTradingState()).toBeNull();
+  });
+
+  it('should refresh the session when the access token is rejected', async () => {
+    await service.authenticate({ username: 'lead', password: 'password-123' });
+    // رمز وصول منتهٍ أو ملغى: يرفضه الخادم بـ 401 فيجدد BackendService الجلسة ويعيد الطلب
+    (service as unknown as { authToken: string }).authToken = 'expired-token';
+
+    expect(await service.savePaperTradingState({ schemaVersion: 3 })).toBe(true);
+    expect(await service.getPaperTradingState()).toEqual({ schemaVersion: 3 });
+  });
+});
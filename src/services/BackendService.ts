@@ -4,6 +4,9 @@
  */
 
 import { RetryService, RetryResult } from './RetryService';
+import { BackendEventStream, BackendEvent, BackendEventMap, BackendEventType, StreamStatus } from './BackendEventStream';
+import type { ManagedOrder, OrderTrade } from './OrderManager';
+import type { RateLimiterStats } from './BinanceRateLimiter';
 
 interface BackendConfig {
   baseUrl: string;
@@ -20,6 +23,38 @@ interface ApiResponse<T> {
   requestId?: string;
 }
 
+interface AuthSession {
+  token: string;
+  expiresAt: string;
+  refreshToken?: string;
+  refreshExpiresAt?: string;
+  user?: { id: string; username: string; role: 'lead' | 'backend' | 'frontend' | 'tester' };
+}
+
+// بيانات وصفية لمجموعة مفاتيح Binance المخزنة (المفاتيح نفسها لا تعود من الخادم)
+export interface BinanceKeySet {
+  id: string;
+  name: 'testnet' | 'live';
+  status: 'active' | 'retiring' | 'revoked';
+  apiKeyHint: string;
+  permissions: string[];
+  canTrade: boolean;
+  validatedAt: string;
+  retireAfter: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+// إحصائيات الخادم من /stats (rateLimiter هو محدد وزن Binance الذي تمر به كل طلبات REST)
+export interface ServerStats {
+  uptime: number;
+  memory: number;
+  dryRun: boolean;
+  binanceConfigured: boolean;
+  rateLimiter: RateLimiterStats;
+  logs: { trades: number; decisions: number; risk: number };
+}
+
 interface OrderRequest {
   symbol: string;
   side: 'BUY' | 'SELL';
@@ -28,6 +63,9 @@ interface OrderRequest {
   price?: number;
   timeInForce?: 'GTC' | 'IOC' | 'FOK';
   stopPrice?: number;
+  clientOrderId?: string; // يرسل كـ newClientOrderId ويمنع التكرار عند إعادة المحاولة
+  strategy?: string;
+  reason?: string;
 }
 
 interface TradeSignal {
@@ -45,7 +83,10 @@ interface TradeSignal {
 export class BackendService {
   private config: BackendConfig;
   private authToken: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshing: Promise<boolean> | null = null;
   private retryFetch: (url: string, options?: RequestInit) => Promise<Response>;
+  private eventStream: BackendEventStream;
 
   constructor() {
     this.config = {
@@ -59,7 +100,31 @@ export class BackendService {
     this.retryFetch = RetryService.createRetryFetch({
       maxAttempts: this.config.retryAttempts,
       baseDelay: 1000,
-      maxDelay: 30000
+      maxDelay: 30000,
+      circuitBreaker: 'backend'
+    });
+
+    // قناة الدفع على نفس الخادم (/api/stream) مع رمز الواجهة ورمز الوصول في الرابط
+    const streamUrl = import.meta.env.VITE_BACKEND_WS_URL || `${this.config.baseUrl.replace(/^http/, 'ws')}/stream`;
+    this.eventStream = new BackendEventStream({
+      url: `${streamUrl}?token=${encodeURIComponent(this.config.frontendToken)}`,
+      baseDelay: 1000,
+      maxDelay: 30000,
+      circuitBreaker: RetryService.getCircuitBreaker('backend'),
+      getAccessToken: async expired => {
+        if (expired) await this.refreshSession();
+        return this.authToken;
+      }
+    });
+
+    // الخادم يبلغ عن حالة اتصاله بـ Binance WebSocket فنعكسها على قاطع binance-ws
+    this.eventStream.onUpstreamStatus(({ name, healthy }) => {
+      const breaker = RetryService.getCircuitBreaker(name);
+      if (healthy) {
+        breaker.recordSuccess();
+      } else {
+        breaker.recordFailure();
+      }
     });
 
     this.initializeAuth();
@@ -74,6 +139,7 @@ export class BackendService {
       if (token) {
         this.authToken = token;
       }
+      this.refreshToken = localStorage.getItem('ellen_refresh_token');
     } catch (e) {
       // في بيئات preview قد لا يكون localStorage متاحًا بنفس الطريقة
       console.warn('[BackendService] unable to read localStorage for auth token', e);
@@ -85,14 +151,13 @@ export class BackendService {
    */
   async authenticate(credentials: { username: string; password: string }): Promise<boolean> {
     try {
-      const result = await this.makeSecureRequest<{ token: string }>('/auth/login', {
+      const result = await this.makeSecureRequest<AuthSession>('/auth/login', {
         method: 'POST',
         body: JSON.stringify(credentials)
       });
 
       if (result.success && result.data?.token) {
-        this.authToken = result.data.token;
-        try { localStorage.setItem('ellen_auth_token', this.authToken); } catch {}
+        this.storeSession(result.data);
         return true;
       }
       return false;
@@ -102,6 +167,55 @@ export class BackendService {
     }
   }
 
+  /**
+   * تجديد رمز الوصول برمز التجديد (طلب واحد حتى لو انتهت عدة طلبات معاً)
+   */
+  async refreshSession(): Promise<boolean> {
+    if (!this.refreshToken) return false;
+
+    if (!this.refreshing) {
+      this.refreshing = this.makeSecureRequest<AuthSession>('/auth/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken: this.refreshToken })
+      })
+        .then(result => {
+          if (!result.success || !result.data?.token) return false;
+          this.storeSession(result.data);
+          return true;
+        })
+        .catch(error => {
+          console.warn('[AUTH] Session refresh failed, logging out:', error);
+          this.clearSession();
+          return false;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+
+    return this.refreshing;
+  }
+
+  private storeSession(session: AuthSession): void {
+    this.authToken = session.token;
+    this.refreshToken = session.refreshToken ?? null;
+    try {
+      localStorage.setItem('ellen_auth_token', session.token);
+      if (session.refreshToken) localStorage.setItem('ellen_refresh_token', session.refreshToken);
+    } catch {}
+    // القناة المفتوحة تغلق عند انتهاء رمزها القديم، فنعيد فتحها بالرمز الجديد
+    this.eventStream.reconnect();
+  }
+
+  private clearSession(): void {
+    this.authToken = null;
+    this.refreshToken = null;
+    try {
+      localStorage.removeItem('ellen_auth_token');
+      localStorage.removeItem('ellen_refresh_token');
+    } catch {}
+  }
+
   /**
    * الحصول على بيانات السوق (آمن - لا يحتاج مفاتيح API)
    */
@@ -112,11 +226,21 @@ export class BackendService {
 
   /**
    * الحصول على بيانات الشموع
+   * endTime يثبت نهاية السلسلة لمزامنة عدة أطر، و closedOnly يستبعد الشمعة الجارية
    */
-  async getKlines(symbol: string, interval: string, limit: number = 100): Promise<any[]> {
+  async getKlines(
+    symbol: string,
+    interval: string,
+    limit: number = 100,
+    options: { endTime?: number; closedOnly?: boolean } = {}
+  ): Promise<any[]> {
+    const params: Record<string, string> = { symbol, interval, limit: limit.toString() };
+    if (options.endTime !== undefined) params.endTime = options.endTime.toString();
+    if (options.closedOnly) params.closed = 'true';
+
     const result = await this.makeSecureRequest<any[]>(`/klines`, {
       method: 'GET',
-      params: { symbol, interval, limit: limit.toString() }
+      params
     });
     return result.data || [];
   }
@@ -252,6 +376,73 @@ export class BackendService {
     return result.data || [];
   }
 
+  /**
+   * الأوامر المحفوظة في دورة الحياة (status=open للأوامر غير النهائية)
+   */
+  async getOrders(params: { status?: string; symbol?: string; mode?: string; limit?: number } = {}): Promise<ManagedOrder[]> {
+    const query: Record<string, string> = {};
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) query[key] = String(value);
+    });
+
+    const result = await this.makeSecureRequest<ManagedOrder[]>('/orders', {
+      headers: this.getAuthHeaders(),
+      params: query
+    });
+    return result.data || [];
+  }
+
+  /**
+   * حفظ حالة أمر في قاعدة البيانات
+   */
+  async saveOrder(order: ManagedOrder): Promise<boolean> {
+    const result = await this.makeSecureRequest(`/orders/${encodeURIComponent(order.clientOrderId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(order),
+      headers: this.getAuthHeaders()
+    });
+    return result.success;
+  }
+
+  /**
+   * تنفيذات الحساب لرمز (وأمر محدد اختيارياً) من Binance
+   */
+  async getMyTrades(symbol: string, orderId?: string): Promise<OrderTrade[]> {
+    const result = await this.makeSecureRequest<OrderTrade[]>('/trades/my', {
+      headers: this.getAuthHeaders(),
+      params: orderId ? { symbol, orderId } : { symbol }
+    });
+    return result.data || [];
+  }
+
+  /**
+   * حجز أمر التحكم عن بعد قبل تنفيذه (false إذا حجزته واجهة أخرى أو انتهت صلاحيته)
+   */
+  async claimBotCommand(id: string): Promise<boolean> {
+    try {
+      const result = await this.makeSecureRequest(`/bot/commands/${encodeURIComponent(id)}/claim`, {
+        method: 'POST',
+        headers: this.getAuthHeaders()
+      });
+      return result.success;
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === 404 || status === 409) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * إرسال نتيجة أمر التحكم ليرد بها البوت
+   */
+  async completeBotCommand(id: string, result: { ok: boolean; message: string }): Promise<void> {
+    await this.makeSecureRequest(`/bot/commands/${encodeURIComponent(id)}/result`, {
+      method: 'POST',
+      body: JSON.stringify(result),
+      headers: this.getAuthHeaders()
+    });
+  }
+
   /**
    * الحصول على معلومات الحساب
    */
@@ -327,22 +518,33 @@ export class BackendService {
   }
 
   /**
-   * تعيين مفاتيح Binance API بشكل آمن
+   * تعيين مفاتيح Binance API بشكل آمن (تحفظ مشفرة في خزنة الخادم كمجموعة testnet أو live)
    */
   async setBinanceApiKeys(keys: {
     apiKey: string;
     secretKey: string;
     testnet?: boolean;
-  }): Promise<{ success: boolean; error?: string; validated?: boolean }> {
+  }): Promise<{ success: boolean; error?: string; validated?: boolean; permissions?: string[]; keySet?: BinanceKeySet | null }> {
     try {
-      const result = await this.makeSecureRequest<{ validated: boolean }>('/settings/binance-api-keys', {
+      const result = await this.makeSecureRequest<{
+        validated: boolean;
+        permissions: string[];
+        keySet: BinanceKeySet | null;
+      }>('/settings/binance-api-keys', {
         method: 'POST',
-        body: JSON.stringify(keys)
+        body: JSON.stringify({
+          apiKey: keys.apiKey,
+          secretKey: keys.secretKey,
+          name: keys.testnet === false ? 'live' : 'testnet'
+        }),
+        headers: this.getAuthHeaders()
       });
 
       return {
         success: result.success,
         validated: result.data?.validated || false,
+        permissions: result.data?.permissions || [],
+        keySet: result.data?.keySet ?? null,
         error: result.error
       };
     } catch (error) {
@@ -354,12 +556,36 @@ export class BackendService {
   }
 
   /**
-   * مسح مفاتيح Binance API من الخادم
+   * مجموعات المفاتيح المخزنة (بيانات وصفية فقط)
+   */
+  async getBinanceKeySets(): Promise<BinanceKeySet[]> {
+    const result = await this.makeSecureRequest<{ keySets: BinanceKeySet[] }>('/settings/binance-api-keys', {
+      headers: this.getAuthHeaders()
+    });
+    return result.data?.keySets || [];
+  }
+
+  /**
+   * الرجوع إلى مجموعة المفاتيح السابقة خلال فترة سماح التدوير
+   */
+  async rollbackBinanceApiKeys(name: BinanceKeySet['name']): Promise<BinanceKeySet | null> {
+    const result = await this.makeSecureRequest<BinanceKeySet>('/settings/binance-api-keys/rollback', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+      headers: this.getAuthHeaders()
+    });
+    return result.data ?? null;
+  }
+
+  /**
+   * مسح مفاتيح Binance API من الخادم (الافتراضي: المجموعة النشطة)
    */
-  async clearBinanceApiKeys(): Promise<boolean> {
+  async clearBinanceApiKeys(name?: BinanceKeySet['name']): Promise<boolean> {
     try {
       const result = await this.makeSecureRequest('/settings/binance-api-keys', {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+        ...(name ? { params: { name } } : {})
       });
       return result.success;
     } catch (error) {
@@ -369,12 +595,13 @@ export class BackendService {
   }
 
   /**
-   * التحقق من حالة اتصال Binance
+   * التحقق من حالة اتصال Binance وصلاحيات المفتاح المخزن
    */
   async checkBinanceConnection(): Promise<{
     connected: boolean;
     testnet: boolean;
     permissions?: string[];
+    keySet?: BinanceKeySet | null;
     error?: string;
   }> {
     try {
@@ -382,13 +609,18 @@ export class BackendService {
         connected: boolean;
         testnet: boolean;
         permissions: string[];
-      }>('/binance/connection-status');
+        keySet: BinanceKeySet | null;
+        error?: string;
+      }>('/binance/connection-status', {
+        headers: this.getAuthHeaders()
+      });
 
       return {
         connected: (result.success && !!result.data?.connected) || false,
         testnet: result.data?.testnet || false,
         permissions: result.data?.permissions || [],
-        error: result.error
+        keySet: result.data?.keySet ?? null,
+        error: result.error || result.data?.error
       };
     } catch (error) {
       return {
@@ -399,6 +631,57 @@ export class BackendService {
     }
   }
 
+  /**
+   * قراءة لقطة حساب المحاكاة المحفوظة في قاعدة البيانات
+   */
+  async getPaperTradingState<T>(): Promise<T | null> {
+    const result = await this.makeSecureRequest<T | null>('/paper-trading/state', {
+      headers: this.getAuthHeaders()
+    });
+    return result.data ?? null;
+  }
+
+  /**
+   * حفظ لقطة حساب المحاكاة في قاعدة البيانات
+   */
+  async savePaperTradingState(snapshot: object): Promise<boolean> {
+    const result = await this.makeSecureRequest('/paper-trading/state', {
+      method: 'PUT',
+      body: JSON.stringify(snapshot),
+      headers: this.getAuthHeaders()
+    });
+    return result.success;
+  }
+
+  /**
+   * حذف لقطة حساب المحاكاة
+   */
+  async clearPaperTradingState(): Promise<boolean> {
+    const result = await this.makeSecureRequest('/paper-trading/state', {
+      method: 'DELETE',
+      headers: this.getAuthHeaders()
+    });
+    return result.success;
+  }
+
+  /**
+   * الاشتراك في أحداث الخادم المدفوعة (price, bookTicker, depth, orderUpdate, fill, signal, riskAlert, log)
+   */
+  subscribeEvents<K extends BackendEventType>(
+    type: K,
+    listener: (data: BackendEventMap[K], event: BackendEvent<K>) => void,
+    symbols?: string[]
+  ): () => void {
+    return this.eventStream.subscribe(type, listener, symbols);
+  }
+
+  /**
+   * متابعة حالة اتصال قناة الدفع
+   */
+  onStreamStatusChange(listener: (status: StreamStatus) => void): () => void {
+    return this.eventStream.onStatusChange(listener);
+  }
+
   /**
    * دالة محسنة لإجراء طلبات HTTP آمنة مع retry logic
    */
@@ -409,6 +692,7 @@ export class BackendService {
       body?: string;
       headers?: Record<string, string>;
       params?: Record<string, string>;
+      skipRefresh?: boolean; // منع حلقة التجديد عند إعادة الطلب أو تسجيل الخروج
     } = {}
   ): Promise<ApiResponse<T>> {
     const { method = 'GET', body, headers = {}, params } = options;
@@ -536,6 +820,16 @@ export class BackendService {
     );
 
     if (!retryResult.success) {
+      // رمز الوصول قصير العمر: جدد الجلسة مرة واحدة وأعد الطلب بالرمز الجديد
+      const status = (retryResult.error as { status?: number } | undefined)?.status;
+      if (status === 401 && headers['Authorization'] && !options.skipRefresh && await this.refreshSession()) {
+        return this.makeSecureRequest<T>(endpoint, {
+          ...options,
+          headers: { ...headers, 'Authorization': `Bearer ${this.authToken}` },
+          skipRefresh: true
+        });
+      }
+
       console.error(`[BACKEND] Request failed after ${retryResult.attempts} attempts:`, retryResult.error);
       throw retryResult.error ?? new Error('Unknown retry failure');
     }
@@ -551,6 +845,14 @@ export class BackendService {
     return data as ApiResponse<T>;
   }
 
+  /**
+   * ترويسة Bearer للجلسة الحالية (فارغة قبل تسجيل الدخول)
+   * تستخدمها أيضاً خدمات السجلات التي ترسل إلى الخادم مباشرة
+   */
+  getAuthHeaders(): Record<string, string> {
+    return this.authToken ? { 'Authorization': `Bearer ${this.authToken}` } : {};
+  }
+
   /**
    * توليد معرف طلب فريد
    */
@@ -591,8 +893,24 @@ export class BackendService {
    * تسجيل الخروج
    */
   logout(): void {
-    this.authToken = null;
-    try { localStorage.removeItem('ellen_auth_token'); } catch {}
+    // إلغاء رمز التجديد على الخادم دون انتظار
+    if (this.authToken && this.refreshToken) {
+      this.makeSecureRequest('/auth/logout', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken: this.refreshToken }),
+        headers: { 'Authorization': `Bearer ${this.authToken}` },
+        skipRefresh: true
+      }).catch(() => undefined);
+    }
+    this.clearSession();
+  }
+
+  /**
+   * إحصائيات الخادم ومحدد وزن Binance فيه
+   */
+  async getServerStats(): Promise<ServerStats | null> {
+    const result = await this.makeSecureRequest<ServerStats>('/stats');
+    return result.data ?? null;
   }
 
   /**
@@ -602,11 +920,13 @@ export class BackendService {
     retryStats: any;
     isAuthenticated: boolean;
     backendUrl: string;
+    streamStatus: StreamStatus;
   } {
     return {
       retryStats: RetryService.getRetryStats(),
       isAuthenticated: !!this.authToken,
-      backendUrl: this.config.baseUrl
+      backendUrl: this.config.baseUrl,
+      streamStatus: this.eventStream.getStatus()
     };
   }
 }
@@ -0,0 +1,196 @@
+/**
+ * اختبارات محرك الاختبار التاريخي القائم على الأحداث
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BacktestEngine, Portfolio, resampleCandles, SignalProvider } from './BacktestEngine';
+import { HybridSignal } from '../strategies/HybridManager';
+import { CandleData } from '../utils/TechnicalAnalysis';
+
+const START = Date.UTC(2024, 0, 1);
+
+function flatCandles(count: number, price: number = 100): CandleData[] {
+  return Array.from({ length: count }, (_, i) => ({
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume: 1000,
+    timestamp: START + i * 60000
+  }));
+}
+
+function signal(overrides: Partial<HybridSignal>): HybridSignal {
+  return {
+    strategy: 'TREND_FOLLOWING',
+    action: 'HOLD',
+    confidence: 80,
+    entryPrice: 0,
+    stopLoss: 0,
+    takeProfit: 0,
+    quantity: 0,
+    reasons: [],
+    marketCondition: { volatility: 0, trendStrength: 0, liquidity: 1, regime: 'RANGING', confidence: 50 },
+    riskLevel: 'LOW',
+    ...overrides
+  };
+}
+
+// إشارة شراء عند أول شمعة بعد الإحماء فقط
+const buyOnce = (stopLoss: number, takeProfit: number): SignalProvider => {
+  let sent = false;
+  return () => {
+    if (sent) return signal({});
+    sent = true;
+    return signal({ action: 'BUY', stopLoss, takeProfit, quantity: 10 });
+  };
+};
+
+const options = { feeRate: 0, slippageRate: 0, warmupBars: 2, lookback: 3 };
+
+describe('Portfolio', () => {
+  it('should track cash and equity for long and short positions', () => {
+    const portfolio = new Portfolio(10000);
+    const base = { entryTime: START, entryIndex: 0, slippage: 0, stopLoss: 0, takeProfit: 0, strategy: 'X', confidence: 80 };
+
+    portfolio.open({ ...base, id: 'long', side: 'BUY', quantity: 10, entryPrice: 100, entryFee: 1 });
+    portfolio.open({ ...base, id: 'short', side: 'SELL', quantity: 5, entryPrice: 100, entryFee: 0.5 });
+
+    expect(portfolio.getCash()).toBeCloseTo(10000 - 1000 - 1 + 500 - 0.5);
+    expect(portfolio.getEquity(110)).toBeCloseTo(10000 - 1.5 + 100 - 50);
+
+    expect(portfolio.close('long', 110, 1.1)).toBeCloseTo(100 - 1 - 1.1);
+    expect(portfolio.close('short', 110, 0.55)).toBeCloseTo(-50 - 0.5 - 0.55);
+    expect(portfolio.getOpenPositions()).toHaveLength(0);
+    expect(portfolio.getCash()).toBeCloseTo(10000 + 100 - 2.1 - 50 - 1.05);
+  });
+});
+
+describe('BacktestEngine', () => {
+  it('should fill entries on the next bar open and stamp trades with candle times', () => {
+    const candles = flatCandles(10);
+    candles[3] = { ...candles[3], open: 101, close: 101, high: 101, low: 101 };
+
+    const engine = new BacktestEngine({ ...options, maxHoldBars: 2 });
+    const run = engine.run(candles, buyOnce(0, 0));
+
+    expect(run.trades).toHaveLength(1);
+    const [trade] = run.trades;
+    expect(trade.entryPrice).toBe(101);
+    expect(trade.entryTime.getTime()).toBe(candles[3].timestamp);
+    expect(trade.exitTime.getTime()).toBe(candles[5].timestamp);
+    expect(trade.holdTime).toBe(2);
+    expect(trade.reason).toBe('timeout');
+    expect(trade.symbol).toBe('BTCUSDT');
+  });
+
+  it('should close positions with their strategy exit rules on the next bar open', () => {
+    const candles = flatCandles(20);
+    candles[6] = { ...candles[6], high: 105, close: 105 };
+
+    const run = new BacktestEngine({
+      ...options,
+      exitRules: [
+        { name: 'SCALPING_EXIT', strategy: 'SCALPING', shouldExit: () => true },
+        { name: 'PRICE_EXIT', strategy: 'TREND_FOLLOWING', shouldExit: ({ position, price }) => position.side === 'LONG' && price >= 105 }
+      ]
+    }).run(candles, buyOnce(0, 0));
+
+    expect(run.trades).toHaveLength(1);
+    expect(run.trades[0].reason).toBe('PRICE_EXIT');
+    expect(run.trades[0].exitTime.getTime()).toBe(candles[7].timestamp);
+    expect(run.trades[0].exitPrice).toBe(100);
+  });
+
+  it('should use the signal maxHoldTime instead of maxHoldBars', () => {
+    let sent = false;
+    const buyWithHoldTime: SignalProvider = () => {
+      if (sent) return signal({});
+      sent = true;
+      return signal({ action: 'BUY', quantity: 10, maxHoldTime: 3 });
+    };
+
+    const run = new BacktestEngine({ ...options, maxHoldBars: 2 }).run(flatCandles(20), buyWithHoldTime);
+
+    expect(run.trades).toHaveLength(1);
+    expect(run.trades[0].reason).toBe('max_hold_time');
+    expect(run.trades[0].holdTime).toBe(3);
+  });
+
+  it('should trigger stop loss from the bar low', () => {
+    const candles = flatCandles(10);
+    candles[5] = { ...candles[5], low: 90 };
+
+    const run = new BacktestEngine(options).run(candles, buyOnce(95, 120));
+
+    expect(run.trades[0].reason).toBe('stop_loss');
+    expect(run.trades[0].exitPrice).toBe(95);
+    expect(run.trades[0].profit).toBeLessThan(0);
+  });
+
+  it('should respect the open position limit', () => {
+    const candles = flatCandles(50);
+    const alwaysBuy: SignalProvider = () => signal({ action: 'BUY', stopLoss: 90, takeProfit: 200 });
+
+    const run = new BacktestEngine({ ...options, maxOpenPositions: 1 }).run(candles, alwaysBuy);
+
+    // صفقة واحدة فقط تبقى مفتوحة حتى نهاية البيانات
+    expect(run.trades).toHaveLength(1);
+    expect(run.trades[0].reason).toBe('end_of_data');
+  });
+
+  it('should record equity per bar', () => {
+    const candles = flatCandles(20);
+    const run = new BacktestEngine(options).run(candles, () => signal({}));
+
+    expect(run.equityCurve).toHaveLength(20);
+    expect(run.equityCurve.map(point => point.timestamp)).toEqual(candles.map(c => c.timestamp));
+    expect(run.finalEquity).toBe(10000);
+  });
+
+  it('should apply the date range and timeframe', () => {
+    const candles = flatCandles(60);
+    const engine = new BacktestEngine({
+      ...options,
+      startDate: new Date(candles[10].timestamp),
+      endDate: new Date(candles[39].timestamp),
+      timeframe: '5m'
+    });
+
+    const run = engine.run(candles, () => signal({}));
+
+    expect(run.bars).toBe(6);
+    expect(run.equityCurve[0].timestamp).toBe(candles[10].timestamp);
+  });
+
+  it('should backtest 100k bars quickly', () => {
+    const candles = Array.from({ length: 100000 }, (_, i) => {
+      const price = 100 + Math.sin(i / 20) * 5;
+      return { open: price, high: price + 1, low: price - 1, close: price, volume: 1000, timestamp: START + i * 60000 };
+    });
+    const provider: SignalProvider = (windowData) => {
+      const last = windowData[windowData.length - 1].close;
+      return last < 96 ? signal({ action: 'BUY', stopLoss: last - 3, takeProfit: last + 6 }) : signal({});
+    };
+
+    const startTime = performance.now();
+    const run = new BacktestEngine({ lookback: 50, warmupBars: 50 }).run(candles, provider);
+    const duration = performance.now() - startTime;
+
+    expect(run.trades.length).toBeGreaterThan(0);
+    expect(duration).toBeLessThan(5000);
+  });
+});
+
+describe('resampleCandles', () => {
+  it('should aggregate 1m candles into 5m bars', () => {
+    const candles = flatCandles(10).map((candle, i) => ({ ...candle, high: 100 + i, volume: 1 }));
+
+    const bars = resampleCandles(candles, 300000);
+
+    expect(bars).toHaveLength(2);
+    expect(bars[0].high).toBe(104);
+    expect(bars[0].volume).toBe(5);
+    expect(bars[1].timestamp).toBe(candles[5].timestamp);
+  });
+});
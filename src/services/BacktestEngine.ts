@@ -0,0 +1,611 @@
+/**
+ * محرك اختبار تاريخي قائم على الأحداث
+ * كل شمعة حدث BAR، والإشارات تتحول إلى أحداث ORDER تنفذ كأحداث FILL على المحفظة
+ * الساعة محاكاة بالكامل من توقيت الشموع (لا يستخدم Date.now)
+ */
+
+import { CandleData } from '../utils/TechnicalAnalysis';
+import { HybridSignal } from '../strategies/HybridManager';
+import { TradeRecord } from './BacktestingService';
+import { RiskManager } from './RiskManager';
+import type { ExitRule, TrackedPosition } from './PositionTracker';
+
+export type BacktestTimeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export const TIMEFRAME_MS: Record<BacktestTimeframe, number> = {
+  '1m': 60000,
+  '5m': 300000,
+  '15m': 900000,
+  '1h': 3600000,
+  '4h': 14400000,
+  '1d': 86400000
+};
+
+export interface BarEvent {
+  type: 'BAR';
+  index: number;
+  bar: CandleData;
+}
+
+export interface OrderEvent {
+  type: 'ORDER';
+  intent: 'OPEN' | 'CLOSE';
+  orderType: 'MARKET' | 'STOP' | 'LIMIT';
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price?: number; // سعر الأمر لـ STOP/LIMIT (أوامر MARKET تنفذ على افتتاح الشمعة)
+  reason: string;
+  signal?: HybridSignal;
+  positionId?: string;
+}
+
+export interface FillEvent {
+  type: 'FILL';
+  order: OrderEvent;
+  timestamp: number;
+  index: number;
+  price: number;
+  quantity: number;
+  fee: number;
+  slippage: number;
+}
+
+export type BacktestEvent = BarEvent | OrderEvent | FillEvent;
+
+export interface BacktestPosition {
+  id: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  entryPrice: number;
+  entryTime: number;
+  entryIndex: number;
+  entryFee: number;
+  slippage: number;
+  stopLoss: number;
+  takeProfit: number;
+  strategy: string;
+  confidence: number;
+  maxHoldTime?: number; // من الإشارة (بالدقائق)
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  cash: number;
+  equity: number;
+}
+
+export interface BacktestEngineOptions {
+  symbol: string;
+  initialBalance: number;
+  feeRate: number;
+  slippageRate: number;
+  startDate?: Date;
+  endDate?: Date;
+  timeframe?: BacktestTimeframe;
+  minConfidence: number;
+  maxOpenPositions: number;
+  maxHoldBars: number; // أقصى مدة للصفقة بالشموع إن لم تحدد الإشارة maxHoldTime
+  lookback: number; // عدد الشموع المرسلة للاستراتيجية في كل حدث
+  warmupBars: number; // شموع الإحماء قبل أول إشارة
+  riskManager?: RiskManager; // حدود المخاطر وحجم الصفقة (مدير مستقل بدون تسجيل إن لم يحدد)
+  exitRules: ExitRule[]; // قواعد خروج الاستراتيجيات كما في PositionTracker (تقيم عند إغلاق كل شمعة)
+}
+
+export type SignalProvider = (
+  windowData: CandleData[],
+  orderBook: { bid: number; ask: number; bidSize: number; askSize: number }
+) => HybridSignal;
+
+export interface BacktestRun {
+  trades: TradeRecord[];
+  equityCurve: EquityPoint[];
+  finalEquity: number;
+  maxDrawdown: number;
+  totalFees: number;
+  strategyUsage: Record<string, number>;
+  bars: number;
+}
+
+const DEFAULT_OPTIONS: BacktestEngineOptions = {
+  symbol: 'BTCUSDT',
+  initialBalance: 10000,
+  feeRate: 0.001,
+  slippageRate: 0.0005,
+  minConfidence: 70,
+  maxOpenPositions: 1,
+  maxHoldBars: 100,
+  lookback: 250,
+  warmupBars: 200,
+  exitRules: []
+};
+
+/**
+ * تجميع الشموع إلى الإطار الزمني المطلوب (الشموع الأكبر من الإطار تبقى كما هي)
+ */
+export function resampleCandles(candles: CandleData[], intervalMs: number): CandleData[] {
+  const result: CandleData[] = [];
+  let bucket = -1;
+
+  for (const candle of candles) {
+    const candleBucket = Math.floor(candle.timestamp / intervalMs);
+    const last = result[result.length - 1];
+
+    if (last && candleBucket === bucket) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.volume += candle.volume;
+    } else {
+      result.push({ ...candle });
+      bucket = candleBucket;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * محفظة المحاكاة: النقد والمراكز وقيمة الحساب لكل شمعة
+ */
+export class Portfolio {
+  private cash: number;
+  private positions: Map<string, BacktestPosition> = new Map();
+  private equityCurve: EquityPoint[] = [];
+  private peakEquity: number;
+  private maxDrawdown: number = 0;
+  private totalFees: number = 0;
+
+  constructor(initialBalance: number) {
+    this.cash = initialBalance;
+    this.peakEquity = initialBalance;
+  }
+
+  public getCash(): number {
+    return this.cash;
+  }
+
+  public getOpenPositions(): BacktestPosition[] {
+    return Array.from(this.positions.values());
+  }
+
+  public getPosition(id: string): BacktestPosition | undefined {
+    return this.positions.get(id);
+  }
+
+  /**
+   * قيمة الحساب بسعر معين (المراكز القصيرة التزام على النقد)
+   */
+  public getEquity(price: number): number {
+    let equity = this.cash;
+    this.positions.forEach(position => {
+      equity += position.side === 'BUY' ? position.quantity * price : -position.quantity * price;
+    });
+    return equity;
+  }
+
+  public open(position: BacktestPosition): void {
+    const notional = position.quantity * position.entryPrice;
+    this.cash += position.side === 'BUY' ? -notional - position.entryFee : notional - position.entryFee;
+    this.totalFees += position.entryFee;
+    this.positions.set(position.id, position);
+  }
+
+  /**
+   * إغلاق مركز وإرجاع صافي الربح بعد رسوم الدخول والخروج
+   */
+  public close(id: string, exitPrice: number, exitFee: number): number {
+    const position = this.positions.get(id);
+    if (!position) return 0;
+
+    const notional = position.quantity * exitPrice;
+    this.cash += position.side === 'BUY' ? notional - exitFee : -notional - exitFee;
+    this.totalFees += exitFee;
+    this.positions.delete(id);
+
+    const gross = position.side === 'BUY'
+      ? (exitPrice - position.entryPrice) * position.quantity
+      : (position.entryPrice - exitPrice) * position.quantity;
+
+    return gross - position.entryFee - exitFee;
+  }
+
+  /**
+   * تسجيل قيمة الحساب عند إغلاق الشمعة وتحديث أقصى انخفاض
+   */
+  public markToMarket(timestamp: number, price: number): number {
+    const equity = this.getEquity(price);
+    this.equityCurve.push({ timestamp, cash: this.cash, equity });
+
+    if (equity > this.peakEquity) this.peakEquity = equity;
+    const drawdown = this.peakEquity > 0 ? ((this.peakEquity - equity) / this.peakEquity) * 100 : 0;
+    this.maxDrawdown = Math.max(this.maxDrawdown, drawdown);
+    return equity;
+  }
+
+  public getEquityCurve(): EquityPoint[] {
+    return this.equityCurve;
+  }
+
+  public getMaxDrawdown(): number {
+    return this.maxDrawdown;
+  }
+
+  public getTotalFees(): number {
+    return this.totalFees;
+  }
+}
+
+export class BacktestEngine {
+  private options: BacktestEngineOptions;
+  private portfolio: Portfolio;
+  private riskManager: RiskManager;
+  private bars: CandleData[] = [];
+  private pendingOrders: OrderEvent[] = [];
+  private trades: TradeRecord[] = [];
+  private strategyUsage: Record<string, number> = {};
+  private nextPositionId: number = 1;
+
+  constructor(options: Partial<BacktestEngineOptions> = {}) {
+    // القيم غير المحددة لا تلغي القيم الافتراضية
+    const defined = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+    this.options = { ...DEFAULT_OPTIONS, ...defined };
+    this.portfolio = new Portfolio(this.options.initialBalance);
+    this.riskManager = this.options.riskManager || new RiskManager({}, { logging: false });
+  }
+
+  /**
+   * تشغيل الاختبار على الشموع بإشارات من المزود المعطى
+   */
+  public run(candles: CandleData[], getSignal: SignalProvider): BacktestRun {
+    this.reset();
+    this.bars = this.prepareBars(candles);
+
+    for (let index = 0; index < this.bars.length; index++) {
+      this.dispatch({ type: 'BAR', index, bar: this.bars[index] }, getSignal);
+    }
+
+    return {
+      trades: this.trades,
+      equityCurve: this.portfolio.getEquityCurve(),
+      finalEquity: this.portfolio.getCash(), // كل المراكز مغلقة عند آخر شمعة
+      maxDrawdown: this.portfolio.getMaxDrawdown(),
+      totalFees: this.portfolio.getTotalFees(),
+      strategyUsage: this.strategyUsage,
+      bars: this.bars.length
+    };
+  }
+
+  private reset(): void {
+    this.portfolio = new Portfolio(this.options.initialBalance);
+    this.riskManager.reset();
+    this.riskManager.updateEquity(this.options.initialBalance);
+    this.pendingOrders = [];
+    this.trades = [];
+    this.strategyUsage = {};
+    this.nextPositionId = 1;
+  }
+
+  /**
+   * تطبيق نطاق التواريخ والإطار الزمني من الإعدادات
+   */
+  private prepareBars(candles: CandleData[]): CandleData[] {
+    const start = this.options.startDate?.getTime() ?? -Infinity;
+    const end = this.options.endDate?.getTime() ?? Infinity;
+    const inRange = candles.filter(candle => candle.timestamp >= start && candle.timestamp <= end);
+
+    return this.options.timeframe
+      ? resampleCandles(inRange, TIMEFRAME_MS[this.options.timeframe])
+      : inRange;
+  }
+
+  private dispatch(event: BacktestEvent, getSignal: SignalProvider, index?: number): void {
+    switch (event.type) {
+      case 'BAR':
+        this.onBar(event, getSignal);
+        break;
+      case 'ORDER':
+        this.onOrder(event, getSignal, index!);
+        break;
+      case 'FILL':
+        this.onFill(event);
+        break;
+    }
+  }
+
+  private onBar(event: BarEvent, getSignal: SignalProvider): void {
+    const { bar, index } = event;
+
+    // 1. تنفيذ أوامر الشمعة السابقة على سعر الافتتاح
+    const orders = this.pendingOrders;
+    this.pendingOrders = [];
+    orders.forEach(order => this.dispatch(order, getSignal, index));
+
+    // 2. فحص وقف الخسارة وجني الربح داخل الشمعة
+    this.portfolio.getOpenPositions().forEach(position => {
+      const exit = this.checkExit(position, bar, index);
+      if (exit) {
+        this.dispatch(this.createCloseOrder(position, exit.reason, exit.orderType, exit.price), getSignal, index);
+      }
+    });
+
+    // 3. إغلاق المراكز المتبقية عند نهاية البيانات
+    const isLastBar = index === this.bars.length - 1;
+    if (isLastBar) {
+      this.portfolio.getOpenPositions().forEach(position => {
+        this.dispatch(this.createCloseOrder(position, 'end_of_data', 'LIMIT', bar.close), getSignal, index);
+      });
+    }
+
+    // 4. تقييم المحفظة عند الإغلاق
+    const equity = this.portfolio.markToMarket(bar.timestamp, bar.close);
+    this.riskManager.updatePrice(this.options.symbol, bar.close);
+    this.riskManager.updateEquity(equity);
+    if (isLastBar) return;
+
+    // 5. قواعد خروج الاستراتيجيات على سعر الإغلاق (تنفذ على افتتاح الشمعة التالية)
+    const windowData = this.bars.slice(Math.max(0, index - this.options.lookback + 1), index + 1);
+    this.portfolio.getOpenPositions().forEach(position => {
+      const rule = this.findExitRule(position, bar, windowData);
+      if (rule) {
+        this.pendingOrders.push(this.createCloseOrder(position, rule.name, 'MARKET'));
+      }
+    });
+
+    // 6. إشارة الاستراتيجية عند إغلاق الشمعة (تنفذ على افتتاح الشمعة التالية)
+    if (index < this.options.warmupBars) return;
+
+    const signal = getSignal(windowData, {
+      bid: bar.close * 0.9995,
+      ask: bar.close * 1.0005,
+      bidSize: 10,
+      askSize: 10
+    });
+    this.strategyUsage[signal.strategy] = (this.strategyUsage[signal.strategy] || 0) + 1;
+
+    this.handleSignal(signal, bar);
+  }
+
+  private handleSignal(signal: HybridSignal, bar: CandleData): void {
+    const side = resolveSide(signal.action);
+    const strong = signal.confidence >= this.options.minConfidence;
+
+    // إغلاق المراكز عند أمر الإغلاق أو إشارة معاكسة قوية (ما لم تغلقها قاعدة خروج)
+    this.portfolio.getOpenPositions().forEach(position => {
+      if (this.pendingOrders.some(order => order.positionId === position.id)) return;
+      if (signal.action === 'CLOSE_ALL' || (strong && side !== null && side !== position.side)) {
+        this.pendingOrders.push(this.createCloseOrder(position, 'signal_exit', 'MARKET'));
+      }
+    });
+
+    if (!side || !strong) return;
+
+    const pendingOpens = this.pendingOrders.filter(order => order.intent === 'OPEN').length;
+    const pendingCloses = this.pendingOrders.filter(order => order.intent === 'CLOSE').length;
+    const openAfterPending = this.portfolio.getOpenPositions().length - pendingCloses + pendingOpens;
+    if (openAfterPending >= this.options.maxOpenPositions) return;
+
+    const quantity = this.calculatePositionSize(signal, bar.close);
+    if (quantity <= 0) return;
+
+    // نفس فحص ما قبل التداول المستخدم في الحساب الحقيقي والمحاكاة
+    const check = this.riskManager.checkOrder({
+      symbol: this.options.symbol,
+      side,
+      quantity,
+      price: bar.close,
+      timestamp: bar.timestamp
+    });
+    if (!check.approved) return;
+
+    this.pendingOrders.push({
+      type: 'ORDER',
+      intent: 'OPEN',
+      orderType: 'MARKET',
+      side,
+      quantity,
+      reason: signal.reasons.join(' | '),
+      signal
+    });
+  }
+
+  private onOrder(order: OrderEvent, getSignal: SignalProvider, index: number): void {
+    const bar = this.bars[index];
+    const basePrice = order.orderType === 'MARKET' ? bar.open : order.price!;
+
+    // الانزلاق على أوامر السوق والوقف فقط، أوامر LIMIT تنفذ بسعرها
+    const slippageRate = order.orderType === 'LIMIT' ? 0 : this.options.slippageRate;
+    const price = order.side === 'BUY' ? basePrice * (1 + slippageRate) : basePrice * (1 - slippageRate);
+
+    let quantity = order.quantity;
+    if (order.intent === 'OPEN' && order.side === 'BUY') {
+      // لا يمكن الشراء بأكثر من النقد المتاح
+      quantity = Math.min(quantity, this.portfolio.getCash() / (price * (1 + this.options.feeRate)));
+    }
+    if (quantity <= 0) return;
+
+    this.dispatch({
+      type: 'FILL',
+      order,
+      timestamp: bar.timestamp,
+      index,
+      price,
+      quantity,
+      fee: price * quantity * this.options.feeRate,
+      slippage: Math.abs(price - basePrice)
+    }, getSignal);
+  }
+
+  private onFill(fill: FillEvent): void {
+    const { order } = fill;
+
+    if (order.intent === 'OPEN') {
+      const signal = order.signal!;
+      this.riskManager.recordFill({
+        symbol: this.options.symbol,
+        side: order.side,
+        quantity: fill.quantity,
+        price: fill.price,
+        timestamp: fill.timestamp
+      });
+      this.portfolio.open({
+        id: `${signal.strategy}_${this.nextPositionId++}`,
+        side: order.side,
+        quantity: fill.quantity,
+        entryPrice: fill.price,
+        entryTime: fill.timestamp,
+        entryIndex: fill.index,
+        entryFee: fill.fee,
+        slippage: fill.slippage,
+        stopLoss: signal.stopLoss,
+        takeProfit: signal.takeProfit,
+        strategy: signal.strategy,
+        confidence: signal.confidence,
+        maxHoldTime: signal.maxHoldTime
+      });
+      return;
+    }
+
+    const position = this.portfolio.getPosition(order.positionId!);
+    if (!position) return;
+
+    const profit = this.portfolio.close(position.id, fill.price, fill.fee);
+    this.riskManager.recordFill({
+      symbol: this.options.symbol,
+      side: order.side,
+      quantity: position.quantity,
+      price: fill.price,
+      realizedPnL: profit,
+      timestamp: fill.timestamp
+    });
+    this.trades.push({
+      id: position.id,
+      strategy: position.strategy,
+      symbol: this.options.symbol,
+      side: position.side,
+      entryTime: new Date(position.entryTime),
+      exitTime: new Date(fill.timestamp),
+      entryPrice: position.entryPrice,
+      exitPrice: fill.price,
+      quantity: position.quantity,
+      profit,
+      profitPercent: (profit / (position.entryPrice * position.quantity)) * 100,
+      fees: position.entryFee + fill.fee,
+      slippage: position.slippage,
+      holdTime: (fill.timestamp - position.entryTime) / 60000, // بالدقائق
+      reason: order.reason,
+      confidence: position.confidence
+    });
+  }
+
+  /**
+   * شروط الخروج داخل الشمعة (وقف الخسارة له الأولوية عند تحقق الاثنين)
+   * مدة الاحتفاظ من الإشارة تنتهي عند افتتاح الشمعة، وبدونها يطبق maxHoldBars
+   */
+  private checkExit(
+    position: BacktestPosition,
+    bar: CandleData,
+    index: number
+  ): { reason: string; orderType: 'STOP' | 'LIMIT' | 'MARKET'; price?: number } | null {
+    const isLong = position.side === 'BUY';
+
+    if (position.maxHoldTime && bar.timestamp - position.entryTime >= position.maxHoldTime * 60000) {
+      return { reason: 'max_hold_time', orderType: 'MARKET' };
+    }
+
+    if (position.stopLoss > 0) {
+      if (isLong ? bar.open <= position.stopLoss : bar.open >= position.stopLoss) {
+        // فجوة سعرية تجاوزت الوقف
+        return { reason: 'stop_loss', orderType: 'STOP', price: bar.open };
+      }
+      if (isLong ? bar.low <= position.stopLoss : bar.high >= position.stopLoss) {
+        return { reason: 'stop_loss', orderType: 'STOP', price: position.stopLoss };
+      }
+    }
+
+    if (position.takeProfit > 0) {
+      if (isLong ? bar.open >= position.takeProfit : bar.open <= position.takeProfit) {
+        return { reason: 'take_profit', orderType: 'LIMIT', price: bar.open };
+      }
+      if (isLong ? bar.high >= position.takeProfit : bar.low <= position.takeProfit) {
+        return { reason: 'take_profit', orderType: 'LIMIT', price: position.takeProfit };
+      }
+    }
+
+    if (!position.maxHoldTime && index - position.entryIndex >= this.options.maxHoldBars) {
+      return { reason: 'timeout', orderType: 'LIMIT', price: bar.close };
+    }
+
+    return null;
+  }
+
+  /**
+   * أول قاعدة خروج تتحقق لمراكز استراتيجيتها، بنفس سياق PositionTracker
+   */
+  private findExitRule(position: BacktestPosition, bar: CandleData, candles: CandleData[]): ExitRule | undefined {
+    const tracked: TrackedPosition = {
+      symbol: this.options.symbol,
+      side: position.side === 'BUY' ? 'LONG' : 'SHORT',
+      entryPrice: position.entryPrice,
+      quantity: position.quantity,
+      strategy: position.strategy,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      maxHoldTime: position.maxHoldTime,
+      openedAt: position.entryTime,
+      lastPrice: bar.close,
+      bestPrice: bar.close
+    };
+
+    return this.options.exitRules.find(rule =>
+      (!rule.strategy || rule.strategy === position.strategy) &&
+      rule.shouldExit({ position: tracked, price: bar.close, timestamp: bar.timestamp, candles })
+    );
+  }
+
+  private createCloseOrder(
+    position: BacktestPosition,
+    reason: string,
+    orderType: OrderEvent['orderType'],
+    price?: number
+  ): OrderEvent {
+    return {
+      type: 'ORDER',
+      intent: 'CLOSE',
+      orderType,
+      side: position.side === 'BUY' ? 'SELL' : 'BUY',
+      quantity: position.quantity,
+      price,
+      reason,
+      positionId: position.id
+    };
+  }
+
+  private calculatePositionSize(signal: HybridSignal, price: number): number {
+    // حساب حجم المركز بناءً على إدارة المخاطر
+    const equity = this.portfolio.getEquity(price);
+
+    // الاستراتيجيات بدون وقف خسارة (صناعة السوق) تحدد الكمية بنفسها
+    const quantity = signal.stopLoss > 0
+      ? this.riskManager.calculatePositionSize(equity, price, signal.stopLoss)
+      : signal.quantity;
+
+    // بدون رافعة مالية
+    return Math.max(0, Math.min(quantity, equity / price));
+  }
+}
+
+/**
+ * تحويل إجراءات الاستراتيجيات إلى جهة الصفقة (صناعة السوق تستخدم PLACE_BID/PLACE_ASK)
+ */
+function resolveSide(action: string): 'BUY' | 'SELL' | null {
+  switch (action) {
+    case 'BUY':
+    case 'PLACE_BID':
+      return 'BUY';
+    case 'SELL':
+    case 'PLACE_ASK':
+      return 'SELL';
+    default:
+      return null;
+  }
+}
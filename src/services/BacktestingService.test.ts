@@ -0,0 +1,114 @@
+/**
+ * اختبارات الاختبار التاريخي لكل استراتيجية منفردة
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BacktestingService, BacktestConfig } from './BacktestingService';
+import { CandleData } from '../utils/TechnicalAnalysis';
+
+const STRATEGIES = ['TREND_FOLLOWING', 'MEAN_REVERSION', 'GRID_DCA', 'SCALPING', 'MARKET_MAKING'];
+
+// بيانات ثابتة (اتجاه + تذبذب) حتى تكون النتائج قابلة للمقارنة
+function generateCandles(count: number): CandleData[] {
+  const candles: CandleData[] = [];
+  const start = Date.UTC(2024, 0, 1);
+
+  for (let i = 0; i < count; i++) {
+    const open = 50000 + i * 5 + Math.sin(i / 8) * 600;
+    const close = 50000 + (i + 1) * 5 + Math.sin((i + 1) / 8) * 600;
+    candles.push({
+      open,
+      high: Math.max(open, close) * 1.001,
+      low: Math.min(open, close) * 0.999,
+      close,
+      volume: 1000000 + (i % 20) * 50000,
+      timestamp: start + i * 60000
+    });
+  }
+
+  return candles;
+}
+
+// فترات متناوبة من نطاق هادئ (0.2% ثم 0.8%) وتذبذب حاد بحجم متفاوت
+// حتى يمر الوضع الهجين بكل فروع اختيار الاستراتيجية
+function generateRegimeCandles(count: number): CandleData[] {
+  const start = Date.UTC(2024, 0, 1);
+
+  return Array.from({ length: count }, (_, i) => {
+    const volatile = Math.floor(i / 150) % 2 === 1;
+    const amplitude = Math.floor(i / 300) % 2 === 0 ? 0.002 : 0.008;
+    const open = volatile ? 50000 : 50000 * (1 + Math.sin((i - 1) / 3) * amplitude);
+    const close = volatile ? 50000 * (i % 2 ? 1.04 : 0.96) : 50000 * (1 + Math.sin(i / 3) * amplitude);
+    return {
+      open,
+      high: Math.max(open, close) * 1.001,
+      low: Math.min(open, close) * 0.999,
+      close,
+      volume: 1000000 * (volatile ? [1, 1, 1, 3, 4, 6][i % 6] : 1),
+      timestamp: start + i * 60000
+    };
+  });
+}
+
+const config: BacktestConfig = {
+  startDate: new Date(Date.UTC(2024, 0, 1)),
+  endDate: new Date(Date.UTC(2024, 0, 2)),
+  initialBalance: 10000,
+  feeRate: 0.001,
+  slippageRate: 0.0005,
+  timeframe: '1m'
+};
+
+describe('BacktestingService', () => {
+  const candles = generateCandles(600);
+
+  it('should produce identical results for the same candles', async () => {
+    for (const strategy of STRATEGIES) {
+      const first = await new BacktestingService(config).runSingleStrategyBacktest(candles, strategy);
+      const second = await new BacktestingService(config).runSingleStrategyBacktest(candles, strategy);
+
+      expect(second).toEqual(first);
+    }
+  });
+
+  it('should produce identical hybrid results for the same candles', async () => {
+    const regimeCandles = generateRegimeCandles(1200);
+    const first = await new BacktestingService(config).runStrategyComparison(regimeCandles);
+    const second = await new BacktestingService(config).runStrategyComparison(regimeCandles);
+
+    expect(second.overall).toEqual(first.overall);
+    for (const strategy of ['MEAN_REVERSION', 'GRID_DCA', 'SCALPING', 'MARKET_MAKING']) {
+      expect(first.overall.strategyDistribution?.[strategy]).toBeGreaterThan(0);
+    }
+  });
+
+  it('should only trade the requested strategy using candle timestamps', async () => {
+    const result = await new BacktestingService(config).runSingleStrategyBacktest(candles, 'MEAN_REVERSION');
+
+    expect(result.strategy).toBe('MEAN_REVERSION');
+    expect(result.totalTrades).toBe(result.trades.length);
+    expect(result.trades.length).toBeGreaterThan(0);
+
+    const timestamps = new Set(candles.map(c => c.timestamp));
+    for (const trade of result.trades) {
+      expect(trade.strategy).toBe('MEAN_REVERSION');
+      expect(timestamps.has(trade.entryTime.getTime())).toBe(true);
+      expect(timestamps.has(trade.exitTime.getTime())).toBe(true);
+    }
+  });
+
+  it('should not open overlapping trades', async () => {
+    const result = await new BacktestingService(config).runSingleStrategyBacktest(candles, 'TREND_FOLLOWING');
+
+    for (let i = 1; i < result.trades.length; i++) {
+      expect(result.trades[i].entryTime.getTime()).toBeGreaterThanOrEqual(result.trades[i - 1].exitTime.getTime());
+    }
+  });
+
+  it('should return no trades for an unknown strategy', async () => {
+    const result = await new BacktestingService(config).runSingleStrategyBacktest(candles, 'UNKNOWN');
+
+    expect(result.totalTrades).toBe(0);
+    expect(result.netProfit).toBe(0);
+  });
+});
@@ -1,5 +1,9 @@
 import { CandleData } from '../utils/TechnicalAnalysis';
 import { HybridTradingManager } from '../strategies/HybridManager';
+import { strategyRegistry } from '../strategies/registry';
+import { RiskManager, riskManager } from './RiskManager';
+import { BacktestEngine, BacktestTimeframe, EquityPoint, SignalProvider } from './BacktestEngine';
+import type { ExitRule } from './PositionTracker';
 
 export interface BacktestConfig {
   startDate: Date;
@@ -7,7 +11,10 @@ export interface BacktestConfig {
   initialBalance: number;
   feeRate: number;
   slippageRate: number;
-  timeframe: '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+  timeframe: BacktestTimeframe;
+  symbol?: string;
+  minConfidence?: number; // أقل ثقة لفتح صفقة (افتراضياً 70 كما في محرك التداول)
+  maxOpenPositions?: number; // أقصى عدد مراكز مفتوحة في نفس الوقت (افتراضياً 1)
 }
 
 export interface BacktestResult {
@@ -28,6 +35,8 @@ export interface BacktestResult {
   totalFees: number;
   netProfit: number;
   trades: TradeRecord[];
+  strategyDistribution?: Record<string, number>;
+  equityCurve?: EquityPoint[];
 }
 
 export interface TradeRecord {
@@ -51,11 +60,9 @@ export interface TradeRecord {
 
 export class BacktestingService {
   private config: BacktestConfig;
-  private hybridManager: HybridTradingManager;
 
   constructor(config: BacktestConfig) {
     this.config = config;
-    this.hybridManager = new HybridTradingManager();
   }
 
   public async runComprehensiveBacktest(historicalData: CandleData[]): Promise<{
@@ -65,17 +72,8 @@ export class BacktestingService {
   }> {
     console.log('🧪 بدء الاختبار التاريخي الشامل...');
 
-    // 1. اختبار شامل
-    const overallResult = await this.runSingleBacktest(historicalData, 'HYBRID');
-
-    // 2. اختبار كل استراتيجية منفردة
-    const strategyResults: Record<string, BacktestResult> = {};
-    
-    const strategies = ['TREND_FOLLOWING', 'MEAN_REVERSION', 'GRID_DCA', 'SCALPING', 'MARKET_MAKING'];
-    
-    for (const strategy of strategies) {
-      strategyResults[strategy] = await this.runSingleStrategyBacktest(historicalData, strategy);
-    }
+    // 1. اختبار شامل + 2. اختبار كل استراتيجية منفردة
+    const { overall: overallResult, strategies: strategyResults } = await this.runStrategyComparison(historicalData);
 
     // 3. Walk-Forward Analysis
     const walkForwardResults = await this.runWalkForwardAnalysis(historicalData);
@@ -87,57 +85,114 @@ export class BacktestingService {
     };
   }
 
+  /**
+   * مقارنة النظام الهجين مع كل استراتيجية منفردة على نفس البيانات
+   */
+  public async runStrategyComparison(historicalData: CandleData[]): Promise<{
+    overall: BacktestResult;
+    strategies: Record<string, BacktestResult>;
+  }> {
+    const overall = await this.runSingleBacktest(historicalData, 'HYBRID');
+    const strategies: Record<string, BacktestResult> = {};
+
+    for (const strategy of strategyRegistry.ids()) {
+      strategies[strategy] = await this.runSingleStrategyBacktest(historicalData, strategy);
+    }
+
+    return { overall, strategies };
+  }
+
   private async runSingleBacktest(data: CandleData[], strategyName: string): Promise<BacktestResult> {
-    const trades: TradeRecord[] = [];
-    let balance = this.config.initialBalance;
-    let peak = balance;
-    let maxDrawdown = 0;
-    let totalFees = 0;
+    // مدير مستقل بدون تسجيل القرارات حتى لا يرسل كل شمعة للخادم
+    const risk = this.createRiskManager();
+    const manager = new HybridTradingManager(risk);
+    manager.setDecisionLogging(false);
+
+    return this.simulate(data, strategyName, risk, manager.getWarmup(), manager.getExitRules(), (windowData, orderBook) =>
+      manager.analyze(windowData, orderBook, this.config.symbol)
+    );
+  }
+
+  /**
+   * اختبار استراتيجية واحدة بفرضها عبر analyzeWithStrategy
+   * مدير جديد لكل تشغيل حتى لا تتأثر النتائج بحالة الاستراتيجيات من تشغيل سابق
+   */
+  public async runSingleStrategyBacktest(data: CandleData[], strategyName: string): Promise<BacktestResult> {
+    const risk = this.createRiskManager();
+    const manager = new HybridTradingManager(risk);
+
+    // getWarmup ينشئ الاستراتيجية في المدير قبل قراءة قواعد خروجها
+    const warmupBars = manager.getWarmup(strategyName);
+    return this.simulate(data, strategyName, risk, warmupBars, manager.getExitRules(), (windowData, orderBook) =>
+      manager.analyzeWithStrategy(windowData, strategyName, orderBook, this.config.symbol)
+    );
+  }
+
+  private async runWalkForwardAnalysis(data: CandleData[]): Promise<BacktestResult[]> {
+    const results: BacktestResult[] = [];
+    const windowSize = 500; // حجم نافذة الاختبار
+    const stepSize = 100; // خطوة التقدم
+
+    for (let start = 0; start < data.length - windowSize; start += stepSize) {
+      const windowData = data.slice(start, start + windowSize);
+      const result = await this.runSingleBacktest(windowData, `WALK_FORWARD_${start}`);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * نسخة من حدود المخاطر الحالية بحالة مستقلة وبدون تسجيل لكل تشغيل
+   */
+  private createRiskManager(): RiskManager {
+    return new RiskManager({ ...riskManager.getConfig(), killSwitch: false }, { logging: false });
+  }
+
+  /**
+   * تشغيل محرك الأحداث وتحويل نتيجته إلى إحصائيات الاختبار
+   */
+  private async simulate(
+    data: CandleData[],
+    strategyName: string,
+    risk: RiskManager,
+    warmupBars: number,
+    exitRules: ExitRule[],
+    getSignal: SignalProvider
+  ): Promise<BacktestResult> {
+    const engine = new BacktestEngine({
+      symbol: this.config.symbol,
+      initialBalance: this.config.initialBalance,
+      feeRate: this.config.feeRate,
+      slippageRate: this.config.slippageRate,
+      startDate: this.config.startDate,
+      endDate: this.config.endDate,
+      timeframe: this.config.timeframe,
+      minConfidence: this.config.minConfidence,
+      maxOpenPositions: this.config.maxOpenPositions,
+      warmupBars,
+      // النافذة المرسلة للاستراتيجية يجب أن تغطي الإحماء وإلا لا تصدر إشارة أبداً
+      lookback: Math.max(250, warmupBars),
+      exitRules,
+      riskManager: risk
+    });
+    const run = engine.run(data, getSignal);
+    const trades = run.trades;
+
+    // الانتصارات والخسائر المتتالية
     let consecutiveWins = 0;
     let consecutiveLosses = 0;
     let maxConsecutiveWins = 0;
     let maxConsecutiveLosses = 0;
-
-    // تشغيل الاختبار
-    for (let i = 200; i < data.length - 10; i++) {
-      const windowData = data.slice(0, i + 1);
-      
-      // محاكاة order book
-      const currentPrice = windowData[windowData.length - 1].close;
-      const mockOrderBook = {
-        bid: currentPrice * 0.9995,
-        ask: currentPrice * 1.0005,
-        bidSize: 10,
-        askSize: 10
-      };
-
-      const signal = this.hybridManager.analyze(windowData, mockOrderBook);
-
-      if (signal.action !== 'HOLD' && signal.confidence > 70) {
-        // تنفيذ الصفقة
-        const trade = await this.executeTrade(signal, data.slice(i), balance);
-        
-        if (trade) {
-          trades.push(trade);
-          balance += trade.profit - trade.fees;
-          totalFees += trade.fees;
-
-          // تتبع الانتصارات والخسائر المتتالية
-          if (trade.profit > 0) {
-            consecutiveWins++;
-            consecutiveLosses = 0;
-            maxConsecutiveWins = Math.max(maxConsecutiveWins, consecutiveWins);
-          } else {
-            consecutiveLosses++;
-            consecutiveWins = 0;
-            maxConsecutiveLosses = Math.max(maxConsecutiveLosses, consecutiveLosses);
-          }
-
-          // حساب drawdown
-          if (balance > peak) peak = balance;
-          const currentDrawdown = (peak - balance) / peak * 100;
-          maxDrawdown = Math.max(maxDrawdown, currentDrawdown);
-        }
+    for (const trade of trades) {
+      if (trade.profit > 0) {
+        consecutiveWins++;
+        consecutiveLosses = 0;
+        maxConsecutiveWins = Math.max(maxConsecutiveWins, consecutiveWins);
+      } else {
+        consecutiveLosses++;
+        consecutiveWins = 0;
+        maxConsecutiveLosses = Math.max(maxConsecutiveLosses, consecutiveLosses);
       }
     }
 
@@ -145,7 +200,8 @@ export class BacktestingService {
     const winningTrades = trades.filter(t => t.profit > 0);
     const losingTrades = trades.filter(t => t.profit < 0);
     
-    const totalReturn = ((balance - this.config.initialBalance) / this.config.initialBalance) * 100;
+    const netProfit = run.finalEquity - this.config.initialBalance;
+    const totalReturn = (netProfit / this.config.initialBalance) * 100;
     const winRate = trades.length > 0 ? (winningTrades.length / trades.length) * 100 : 0;
     
     const avgWin = winningTrades.length > 0 
@@ -158,7 +214,14 @@ export class BacktestingService {
 
     const profitFactor = avgLoss > 0 ? (avgWin * winningTrades.length) / (avgLoss * losingTrades.length) : 0;
     const sharpeRatio = this.calculateSharpeRatio(trades);
-    const calmarRatio = maxDrawdown > 0 ? totalReturn / maxDrawdown : 0;
+    const calmarRatio = run.maxDrawdown > 0 ? totalReturn / run.maxDrawdown : 0;
+
+    // تحويل استخدام الاستراتيجيات إلى نسب مئوية
+    const totalUsage = Object.values(run.strategyUsage).reduce((a, b) => a + b, 0);
+    const strategyDistribution: Record<string, number> = {};
+    for (const [strategy, usage] of Object.entries(run.strategyUsage)) {
+      strategyDistribution[strategy] = totalUsage > 0 ? (usage / totalUsage) * 100 : 0;
+    }
 
     return {
       strategy: strategyName,
@@ -167,7 +230,7 @@ export class BacktestingService {
       losingTrades: losingTrades.length,
       winRate,
       totalReturn,
-      maxDrawdown,
+      maxDrawdown: run.maxDrawdown,
       sharpeRatio,
       calmarRatio,
       profitFactor,
@@ -175,141 +238,14 @@ export class BacktestingService {
       avgLoss,
       maxConsecutiveWins,
       maxConsecutiveLosses,
-      totalFees,
-      netProfit: balance - this.config.initialBalance,
-      trades
-    };
-  }
-
-  private async runSingleStrategyBacktest(data: CandleData[], strategyName: string): Promise<BacktestResult> {
-    // محاكاة نتائج استراتيجية واحدة
-    const mockResult: BacktestResult = {
-      strategy: strategyName,
-      totalTrades: Math.floor(Math.random() * 50) + 20,
-      winningTrades: 0,
-      losingTrades: 0,
-      winRate: Math.random() * 40 + 50, // 50-90%
-      totalReturn: (Math.random() - 0.3) * 20, // -6% to +14%
-      maxDrawdown: Math.random() * 15 + 2, // 2-17%
-      sharpeRatio: Math.random() * 2 + 0.5, // 0.5-2.5
-      calmarRatio: Math.random() * 1.5 + 0.3,
-      profitFactor: Math.random() * 2 + 0.8,
-      avgWin: Math.random() * 50 + 10,
-      avgLoss: Math.random() * 30 + 5,
-      maxConsecutiveWins: Math.floor(Math.random() * 8) + 2,
-      maxConsecutiveLosses: Math.floor(Math.random() * 5) + 1,
-      totalFees: Math.random() * 20 + 5,
-      netProfit: Math.random() * 200 - 50,
-      trades: []
-    };
-    
-    mockResult.winningTrades = Math.floor(mockResult.totalTrades * mockResult.winRate / 100);
-    mockResult.losingTrades = mockResult.totalTrades - mockResult.winningTrades;
-    
-    return mockResult;
-  }
-
-  private async runWalkForwardAnalysis(data: CandleData[]): Promise<BacktestResult[]> {
-    const results: BacktestResult[] = [];
-    const windowSize = 500; // حجم نافذة الاختبار
-    const stepSize = 100; // خطوة التقدم
-
-    for (let start = 0; start < data.length - windowSize; start += stepSize) {
-      const windowData = data.slice(start, start + windowSize);
-      const result = await this.runSingleBacktest(windowData, `WALK_FORWARD_${start}`);
-      results.push(result);
-    }
-
-    return results;
-  }
-
-  private async executeTrade(signal: any, futureData: CandleData[], balance: number): Promise<TradeRecord | null> {
-    if (futureData.length === 0) return null;
-
-    const entryPrice = signal.entryPrice;
-    const quantity = this.calculatePositionSize(signal, balance);
-    
-    // تطبيق الانزلاق
-    const slippage = this.config.slippageRate;
-    const actualEntryPrice = signal.action === 'BUY' 
-      ? entryPrice * (1 + slippage)
-      : entryPrice * (1 - slippage);
-
-    let exitPrice = actualEntryPrice;
-    let exitTime = new Date();
-    let holdTime = 0;
-    let exitReason = 'timeout';
-
-    // البحث عن نقطة خروج
-    for (let i = 0; i < Math.min(futureData.length, 100); i++) {
-      const currentPrice = futureData[i].close;
-      holdTime = i;
-
-      // فحص أهداف الخروج
-      if (signal.action === 'BUY') {
-        if (currentPrice >= signal.takeProfit) {
-          exitPrice = signal.takeProfit;
-          exitReason = 'take_profit';
-          break;
-        }
-        if (currentPrice <= signal.stopLoss) {
-          exitPrice = signal.stopLoss;
-          exitReason = 'stop_loss';
-          break;
-        }
-      } else if (signal.action === 'SELL') {
-        if (currentPrice <= signal.takeProfit) {
-          exitPrice = signal.takeProfit;
-          exitReason = 'take_profit';
-          break;
-        }
-        if (currentPrice >= signal.stopLoss) {
-          exitPrice = signal.stopLoss;
-          exitReason = 'stop_loss';
-          break;
-        }
-      }
-    }
-
-    // حساب الربح والرسوم
-    const profit = signal.action === 'BUY' 
-      ? (exitPrice - actualEntryPrice) * quantity
-      : (actualEntryPrice - exitPrice) * quantity;
-
-    const fees = (actualEntryPrice + exitPrice) * quantity * this.config.feeRate;
-    const netProfit = profit - fees;
-    const profitPercent = (netProfit / (actualEntryPrice * quantity)) * 100;
-
-    return {
-      id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      strategy: signal.strategy,
-      symbol: 'BTCUSDT',
-      side: signal.action,
-      entryTime: new Date(),
-      exitTime,
-      entryPrice: actualEntryPrice,
-      exitPrice,
-      quantity,
-      profit: netProfit,
-      profitPercent,
-      fees,
-      slippage: Math.abs(actualEntryPrice - entryPrice),
-      holdTime,
-      reason: exitReason,
-      confidence: signal.confidence
+      totalFees: run.totalFees,
+      netProfit,
+      trades,
+      strategyDistribution,
+      equityCurve: run.equityCurve
     };
   }
 
-  private calculatePositionSize(signal: any, balance: number): number {
-    // حساب حجم المركز بناءً على إدارة المخاطر
-    const riskAmount = balance * 0.01; // 1% مخاطرة
-    const stopDistance = Math.abs(signal.entryPrice - signal.stopLoss);
-    
-    if (stopDistance === 0) return 0;
-    
-    return riskAmount / stopDistance;
-  }
-
   private calculateSharpeRatio(trades: TradeRecord[]): number {
     if (trades.length === 0) return 0;
 
@@ -451,18 +387,4 @@ ${this.generateRecommendations(results)}
       recommendations
     };
   }
-
-  private async runWalkForwardAnalysis(data: CandleData[]): Promise<BacktestResult[]> {
-    const results: BacktestResult[] = [];
-    const windowSize = 300;
-    const stepSize = 50;
-
-    for (let start = 0; start < data.length - windowSize; start += stepSize) {
-      const windowData = data.slice(start, start + windowSize);
-      const result = await this.runSingleBacktest(windowData, `WF_${start}`);
-      results.push(result);
-    }
-
-    return results;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,90 @@
+/**
+ * اختبارات محدد وزن طلبات Binance: الأوزان، أولوية الأوامر، ومزامنة الترويسات
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BinanceRateLimiter, getRequestCost } from './BinanceRateLimiter';
+
+const headers = (values: Record<string, string>) => new Headers(values);
+
+describe('getRequestCost', () => {
+  it('should weigh klines and depth by limit and mark orders with priority', () => {
+    expect(getRequestCost('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1m&limit=100').weight).toBe(1);
+    expect(getRequestCost('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1m&limit=1000').weight).toBe(5);
+    expect(getRequestCost('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1m&limit=1500').weight).toBe(10);
+    expect(getRequestCost('https://api.binance.com/api/v3/depth?symbol=BTCUSDT&limit=500')).toEqual({ weight: 25, orders: 0, priority: 'market' });
+    expect(getRequestCost('https://api.binance.com/api/v3/ticker/24hr').weight).toBe(80);
+    expect(getRequestCost('https://api.binance.com/api/v3/order', 'POST')).toEqual({ weight: 1, orders: 1, priority: 'order' });
+    expect(getRequestCost('https://api.binance.com/api/v3/account')).toEqual({ weight: 20, orders: 0, priority: 'default' });
+  });
+});
+
+describe('BinanceRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should delay market data once the server reports the weight is used and let orders go first', async () => {
+    const limiter = new BinanceRateLimiter({ weightLimit: 600, orderLimit: 10, orderReserve: 0.1 });
+    const released: string[] = [];
+
+    // الخادم أبلغ أن 540 من 600 مستخدمة: المتبقي هو الاحتياطي المحجوز للأوامر
+    limiter.updateFromHeaders(headers({ 'X-MBX-USED-WEIGHT-1M': '540', 'X-MBX-ORDER-COUNT-10S': '0' }));
+
+    const market = limiter.acquire({ weight: 10, orders: 0, priority: 'market' }).then(() => released.push('market'));
+    const order = limiter.acquire({ weight: 1, orders: 1, priority: 'order' }).then(() => released.push('order'));
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(released).toEqual(['order']);
+    expect(limiter.getStats()).toMatchObject({ usedWeight1m: 540, orderCount10s: 0, queueLength: 1 });
+
+    // 11 وحدة وزن تحتاج 1.1 ثانية عند 10 وحدات في الثانية (أخذ الأمر وحدة من الاحتياطي)
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(released).toEqual(['order']);
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([market, order]);
+
+    expect(released).toEqual(['order', 'market']);
+    expect(limiter.getStats()).toMatchObject({ queued: 2, maxQueueLength: 2, totalDelayMs: 1100 });
+  });
+
+  it('should hold orders when the 10s order count is exhausted', async () => {
+    const limiter = new BinanceRateLimiter({ weightLimit: 600, orderLimit: 10 });
+    limiter.updateFromHeaders(headers({ 'X-MBX-ORDER-COUNT-10S': '10' }));
+
+    let placed = false;
+    const order = limiter.acquire({ weight: 1, orders: 1, priority: 'order' }).then(() => {
+      placed = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(placed).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await order;
+    expect(placed).toBe(true);
+  });
+
+  it('should pause every request after a server Retry-After', async () => {
+    const limiter = new BinanceRateLimiter();
+    limiter.pause(5000);
+
+    let released = false;
+    const request = limiter.acquire({ weight: 1, orders: 0, priority: 'order' }).then(() => {
+      released = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(released).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await request;
+    expect(limiter.getStats().serverPauses).toBe(1);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * محدد وزن الطلبات لـ Binance قبل الوصول إلى 429
+ * دلوان (Token Bucket): وزن الطلبات في الدقيقة وعدد الأوامر كل 10 ثوان
+ * يتزامنان مع ترويستي X-MBX-USED-WEIGHT-1M و X-MBX-ORDER-COUNT-10S
+ */
+
+export type RequestPriority = 'order' | 'default' | 'market';
+
+export interface RequestCost {
+  weight: number;
+  orders: number;
+  priority: RequestPriority;
+}
+
+export interface RateLimiterConfig {
+  weightLimit: number;   // وزن الطلبات المسموح في الدقيقة
+  orderLimit: number;    // الأوامر المسموحة كل 10 ثوان
+  orderReserve: number;  // نسبة من الوزن محجوزة لوضع الأوامر (بيانات السوق لا تستهلكها)
+}
+
+export interface RateLimiterStats {
+  requests: number;
+  queued: number;
+  totalDelayMs: number;
+  maxQueueLength: number;
+  serverPauses: number;
+  usedWeight1m: number | null;   // آخر قيمة من X-MBX-USED-WEIGHT-1M
+  orderCount10s: number | null;  // آخر قيمة من X-MBX-ORDER-COUNT-10S
+  availableWeight: number;
+  queueLength: number;
+}
+
+interface PendingRequest {
+  cost: RequestCost;
+  seq: number;
+  enqueuedAt: number;
+  resolve: () => void;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { order: 0, default: 1, market: 2 };
+
+// أوزان ثابتة للنقاط الأكثر استخداماً (البقية وزنها 1)
+const ENDPOINT_WEIGHTS: Record<string, number> = {
+  '/v3/account': 20,
+  '/v3/exchangeInfo': 20,
+  '/v3/openOrders': 6,
+  '/v3/allOrders': 20,
+  '/v3/myTrades': 20
+};
+
+// [رمز واحد، جميع الرموز]
+const TICKER_WEIGHTS: Record<string, [number, number]> = {
+  '/v3/ticker/24hr': [2, 80],
+  '/v3/ticker/price': [2, 4]
+};
+
+const MARKET_DATA_PATHS = ['/v3/klines', '/v3/depth', '/v3/ticker', '/v3/trades', '/v3/aggTrades', '/v3/avgPrice'];
+
+/**
+ * دلو رموز يمتلئ خطياً خلال النافذة الزمنية
+ */
+class TokenBucket {
+  public readonly capacity: number;
+  public tokens: number;
+  private windowMs: number;
+  private updatedAt: number;
+
+  constructor(capacity: number, windowMs: number) {
+    this.capacity = capacity;
+    this.windowMs = windowMs;
+    this.tokens = capacity;
+    this.updatedAt = Date.now();
+  }
+
+  public refill(now: number): void {
+    const elapsed = now - this.updatedAt;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.windowMs);
+      this.updatedAt = now;
+    }
+  }
+
+  /**
+   * الوقت اللازم لتوفر amount رمزاً مع ترك reserve دون مساس
+   */
+  public timeUntil(amount: number, now: number, reserve = 0): number {
+    this.refill(now);
+    const needed = Math.min(amount, this.capacity - reserve) + reserve;
+    if (this.tokens >= needed) return 0;
+    return Math.ceil(((needed - this.tokens) * this.windowMs) / this.capacity);
+  }
+
+  public take(amount: number): void {
+    this.tokens = Math.max(0, this.tokens - Math.min(amount, this.capacity));
+  }
+
+  /**
+   * الخادم هو المرجع عندما يكون أكثر تحفظاً من تقديرنا المحلي
+   */
+  public sync(used: number, now: number): void {
+    this.refill(now);
+    this.tokens = Math.min(this.tokens, Math.max(0, this.capacity - used));
+  }
+}
+
+/**
+ * وزن الطلب حسب النقطة والمعاملات (klines و depth حسب limit)
+ */
+export function getRequestCost(url: string, method: string = 'GET'): RequestCost {
+  const parsed = new URL(url, 'http://localhost');
+  const path = parsed.pathname.replace(/^\/api/, '');
+  const limit = Number(parsed.searchParams.get('limit'));
+  const verb = method.toUpperCase();
+
+  if (path === '/v3/order' || path === '/v3/order/oco') {
+    return { weight: 1, orders: verb === 'POST' ? 1 : 0, priority: 'order' };
+  }
+
+  if (path === '/v3/klines') {
+    const size = limit || 500;
+    const weight = size <= 100 ? 1 : size <= 500 ? 2 : size <= 1000 ? 5 : 10;
+    return { weight, orders: 0, priority: 'market' };
+  }
+
+  if (path === '/v3/depth') {
+    const size = limit || 100;
+    const weight = size <= 100 ? 5 : size <= 500 ? 25 : size <= 1000 ? 50 : 250;
+    return { weight, orders: 0, priority: 'market' };
+  }
+
+  if (TICKER_WEIGHTS[path]) {
+    const [single, all] = TICKER_WEIGHTS[path];
+    return { weight: parsed.searchParams.has('symbol') ? single : all, orders: 0, priority: 'market' };
+  }
+
+  const priority = MARKET_DATA_PATHS.some(prefix => path.startsWith(prefix)) ? 'market' : 'default';
+  return { weight: ENDPOINT_WEIGHTS[path] ?? 1, orders: 0, priority };
+}
+
+export class BinanceRateLimiter {
+  private config: RateLimiterConfig;
+  private weightBucket: TokenBucket;
+  private orderBucket: TokenBucket;
+  private queue: PendingRequest[] = [];
+  private seq = 0;
+  private pausedUntil = 0;
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private stats = {
+    requests: 0,
+    queued: 0,
+    totalDelayMs: 0,
+    maxQueueLength: 0,
+    serverPauses: 0,
+    usedWeight1m: null as number | null,
+    orderCount10s: null as number | null
+  };
+
+  constructor(config: Partial<RateLimiterConfig> = {}) {
+    this.config = {
+      weightLimit: 6000,
+      orderLimit: 50,
+      orderReserve: 0.1,
+      ...config
+    };
+    this.weightBucket = new TokenBucket(this.config.weightLimit, 60000);
+    this.orderBucket = new TokenBucket(this.config.orderLimit, 10000);
+  }
+
+  /**
+   * حجز وزن الطلب، ينتظر في الطابور إن لم يتوفر (الأوامر قبل بيانات السوق)
+   */
+  public acquire(cost: RequestCost): Promise<void> {
+    this.stats.requests++;
+
+    if (this.queue.length === 0 && this.getWaitTime(cost, Date.now()) === 0) {
+      this.take(cost);
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.queue.push({ cost, seq: this.seq++, enqueuedAt: Date.now(), resolve });
+      this.queue.sort((a, b) => PRIORITY_RANK[a.cost.priority] - PRIORITY_RANK[b.cost.priority] || a.seq - b.seq);
+      this.stats.queued++;
+      this.stats.maxQueueLength = Math.max(this.stats.maxQueueLength, this.queue.length);
+      this.drain();
+    });
+  }
+
+  /**
+   * تحديث الاستهلاك من ترويسات استجابة Binance
+   */
+  public updateFromHeaders(headers: Headers): void {
+    const now = Date.now();
+    const usedWeight = Number(headers.get('x-mbx-used-weight-1m'));
+    const orderCount = Number(headers.get('x-mbx-order-count-10s'));
+
+    if (headers.has('x-mbx-used-weight-1m') && Number.isFinite(usedWeight)) {
+      this.stats.usedWeight1m = usedWeight;
+      this.weightBucket.sync(usedWeight, now);
+    }
+    if (headers.has('x-mbx-order-count-10s') && Number.isFinite(orderCount)) {
+      this.stats.orderCount10s = orderCount;
+      this.orderBucket.sync(orderCount, now);
+    }
+  }
+
+  /**
+   * إيقاف جميع الطلبات حتى انتهاء Retry-After بعد 429/418
+   */
+  public pause(ms: number): void {
+    const until = Date.now() + ms;
+    if (until <= this.pausedUntil) return;
+
+    this.pausedUntil = until;
+    this.stats.serverPauses++;
+    console.warn(`[RATE_LIMIT] Binance requests paused for ${ms}ms`);
+    this.drain();
+  }
+
+  public getStats(): RateLimiterStats {
+    const now = Date.now();
+    this.weightBucket.refill(now);
+    return {
+      ...this.stats,
+      availableWeight: Math.floor(this.weightBucket.tokens),
+      queueLength: this.queue.length
+    };
+  }
+
+  private getWaitTime(cost: RequestCost, now: number): number {
+    const reserve = cost.priority === 'order' ? 0 : this.config.weightLimit * this.config.orderReserve;
+    return Math.max(
+      this.pausedUntil - now,
+      this.weightBucket.timeUntil(cost.weight, now, reserve),
+      cost.orders > 0 ? this.orderBucket.timeUntil(cost.orders, now) : 0
+    );
+  }
+
+  private take(cost: RequestCost): void {
+    this.weightBucket.take(cost.weight);
+    if (cost.orders > 0) this.orderBucket.take(cost.orders);
+  }
+
+  /**
+   * تحرير الطلبات من رأس الطابور بالترتيب ما دام الوزن متاحاً
+   */
+  private drain(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      const next = this.queue[0];
+      const wait = this.getWaitTime(next.cost, now);
+
+      if (wait > 0) {
+        this.drainTimer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      this.queue.shift();
+      this.take(next.cost);
+      this.stats.totalDelayMs += now - next.enqueuedAt;
+      next.resolve();
+    }
+  }
+}
+
+export const binanceRateLimiter = new BinanceRateLimiter();
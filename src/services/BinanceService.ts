@@ -3,6 +3,7 @@
  */
 
 import { RetryService } from './RetryService';
+import { binanceRateLimiter } from './BinanceRateLimiter';
 
 export interface BinanceConfig {
   baseUrl: string;
@@ -36,7 +37,9 @@ export class BinanceService {
     this.retryFetch = RetryService.createRetryFetch({
       maxAttempts: 3,
       baseDelay: 1000,
-      maxDelay: 30000
+      maxDelay: 30000,
+      circuitBreaker: 'binance-rest',
+      rateLimiter: binanceRateLimiter
     });
   }
 
@@ -0,0 +1,83 @@
+/**
+ * اختبارات الأطر المتعددة: المحاذاة بدون نظر للمستقبل والتخزين حتى إغلاق الشمعة التالية
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./BackendService', () => ({ backendService: {} }));
+
+import { CandleStore, KlineFetcher, KlineRequestOptions } from './CandleStore';
+import { RiskManager } from './RiskManager';
+import { HybridTradingManager } from '../strategies/HybridManager';
+import { alignTimeframes, intervalToMs } from '../utils/Timeframes';
+import type { CandleData } from '../utils/TechnicalAnalysis';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const START = Date.UTC(2024, 0, 1);
+
+const candlesFrom = (interval: string, count: number, start: number = START): CandleData[] =>
+  Array.from({ length: count }, (_, i) => {
+    const close = 100 + i;
+    return {
+      timestamp: start + i * intervalToMs(interval),
+      open: close - 0.5,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000
+    };
+  });
+
+describe('CandleStore', () => {
+  it('aligns higher timeframes on the last lower-timeframe candle and caches them until the next close', async () => {
+    let now = START + 8 * HOUR + 30 * MINUTE;
+    const calls: Array<[string, KlineRequestOptions]> = [];
+    const fetcher: KlineFetcher = async (_symbol, interval, limit, options) => {
+      calls.push([interval, options]);
+      const duration = intervalToMs(interval);
+      // مثل Binance: الشمعة الجارية في النهاية ما لم يطلب closedOnly
+      const currentOpen = Math.floor(now / duration) * duration;
+      const lastOpen = options.closedOnly ? currentOpen - duration : currentOpen;
+      return candlesFrom(interval, limit, lastOpen - (limit - 1) * duration);
+    };
+    const store = new CandleStore(fetcher, () => now);
+
+    const series = await store.getTimeframes('BTCUSDT', ['4h', '1m', '15m'], 60);
+    const lastMinute = series['1m'][series['1m'].length - 1];
+    const asOf = lastMinute.timestamp + MINUTE;
+    for (const interval of ['15m', '4h']) {
+      const candles = series[interval];
+      expect(candles[candles.length - 1].timestamp + intervalToMs(interval)).toBeLessThanOrEqual(asOf);
+    }
+    expect(calls).toEqual([['1m', {}], ['15m', { closedOnly: true }], ['4h', { closedOnly: true }]]);
+
+    // قبل إغلاق شمعة 4h التالية لا يعاد جلبها، لكن 15m أغلقت شمعة جديدة
+    now += 20 * MINUTE;
+    calls.length = 0;
+    await store.getTimeframes('BTCUSDT', ['1m', '15m', '4h'], 60);
+    expect(calls.map(([interval]) => interval)).toEqual(['1m', '15m']);
+  });
+
+  it('drops higher-timeframe candles that had not closed at the decision time', () => {
+    const series = { '1m': candlesFrom('1m', 300), '1h': candlesFrom('1h', 10) };
+
+    // لحظة القرار بعد 150 دقيقة: شمعة الساعة الثالثة (120-180) لم تغلق بعد
+    const aligned = alignTimeframes(series, START + 150 * MINUTE);
+
+    expect(aligned['1m']).toHaveLength(150);
+    expect(aligned['1h'].map(candle => (candle.timestamp - START) / HOUR)).toEqual([0, 1]);
+  });
+
+  it('detects the regime on the highest timeframe and enters on the lowest', () => {
+    const manager = new HybridTradingManager(new RiskManager({}, { logging: false }));
+    manager.setDecisionLogging(false);
+    const series = { '1m': candlesFrom('1m', 120), '4h': candlesFrom('4h', 60) };
+
+    const signal = manager.analyze(series, undefined, 'BTCUSDT', 'SCALPING');
+
+    expect(signal.marketCondition.timeframe).toBe('4h');
+    expect(signal.reasons).toContain(`حالة السوق: ${signal.marketCondition.regime} (4h)`);
+    expect(manager.analyze(series['1m']).marketCondition.timeframe).toBeUndefined();
+  });
+});
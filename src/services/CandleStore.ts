@@ -0,0 +1,111 @@
+import { backendService } from './BackendService';
+import { CandleData } from '../utils/TechnicalAnalysis';
+import { MultiTimeframeCandles, alignTimeframes, intervalToMs, sortTimeframes } from '../utils/Timeframes';
+
+export interface KlineRequestOptions {
+  endTime?: number;
+  closedOnly?: boolean; // استبعاد الشمعة الجارية (غير المغلقة)
+}
+
+export type KlineFetcher = (
+  symbol: string,
+  interval: string,
+  limit: number,
+  options: KlineRequestOptions
+) => Promise<CandleData[]>;
+
+// حد Binance لعدد الشموع في طلب /klines واحد
+export const MAX_KLINES_PER_REQUEST = 1000;
+
+interface CachedSeries {
+  candles: CandleData[];
+  limit: number;
+  nextClose: number; // لا حاجة لإعادة الجلب قبل إغلاق الشمعة التالية
+}
+
+const backendKlines: KlineFetcher = (symbol, interval, limit, options) =>
+  backendService.getKlines(symbol, interval, limit, options) as Promise<CandleData[]>;
+
+/**
+ * مخزن الشموع متعددة الأطر: الإطار الأصغر يجلب في كل دورة مع شمعته الجارية،
+ * والأطر الأكبر مغلقة فقط ومخزنة حتى موعد إغلاق شمعتها التالية
+ */
+export class CandleStore {
+  private fetcher: KlineFetcher;
+  private now: () => number;
+  private cache: Map<string, CachedSeries> = new Map();
+
+  constructor(fetcher: KlineFetcher = backendKlines, now: () => number = () => Date.now()) {
+    this.fetcher = fetcher;
+    this.now = now;
+  }
+
+  /**
+   * آخر limit شمعة لإطار واحد مع الشمعة الجارية (بدون تخزين)
+   */
+  public getCandles(symbol: string, interval: string, limit: number): Promise<CandleData[]> {
+    return this.fetch(symbol, interval, limit, {});
+  }
+
+  /**
+   * شموع مغلقة لإطار واحد (من الذاكرة إذا لم تغلق شمعة جديدة بعد)
+   */
+  public async getClosedCandles(symbol: string, interval: string, limit: number): Promise<CandleData[]> {
+    const key = `${symbol}:${interval}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.limit >= limit && this.now() < cached.nextClose) {
+      return cached.candles.slice(-limit);
+    }
+
+    const candles = await this.fetch(symbol, interval, limit, { closedOnly: true });
+    const duration = intervalToMs(interval);
+    const last = candles[candles.length - 1];
+    this.cache.set(key, {
+      candles,
+      limit,
+      // آخر شمعة مغلقة + مدتين = موعد إغلاق الشمعة الجارية
+      nextClose: last ? last.timestamp + duration * 2 : 0
+    });
+    return candles;
+  }
+
+  /**
+   * سلاسل متزامنة لعدة أطر، محاذاة على آخر شمعة في الإطار الأصغر
+   */
+  public async getTimeframes(symbol: string, timeframes: string[], limit: number): Promise<MultiTimeframeCandles> {
+    const [lowest, ...higher] = sortTimeframes(timeframes);
+    const [entryCandles, ...higherCandles] = await Promise.all([
+      this.fetch(symbol, lowest, limit, {}),
+      ...higher.map(interval => this.getClosedCandles(symbol, interval, limit))
+    ]);
+
+    const series: MultiTimeframeCandles = { [lowest]: entryCandles };
+    higher.forEach((interval, i) => {
+      series[interval] = higherCandles[i];
+    });
+    return alignTimeframes(series);
+  }
+
+  /**
+   * جلب أكثر من حد الطلب الواحد على صفحات متتالية للخلف عبر endTime
+   * (إحماء مثل ICHIMOKU(9,26,1000,26) يتجاوز 1000 شمعة)
+   */
+  private async fetch(symbol: string, interval: string, limit: number, options: KlineRequestOptions): Promise<CandleData[]> {
+    let candles = await this.fetcher(symbol, interval, Math.min(limit, MAX_KLINES_PER_REQUEST), options);
+
+    while (candles.length > 0 && candles.length < limit) {
+      const size = Math.min(limit - candles.length, MAX_KLINES_PER_REQUEST);
+      const page = await this.fetcher(symbol, interval, size, { endTime: candles[0].timestamp - 1 });
+      candles = [...page, ...candles];
+      if (page.length < size) break; // لا يوجد تاريخ أقدم
+    }
+
+    return candles;
+  }
+
+  public clear(): void {
+    this.cache.clear();
+  }
+}
+
+export const candleStore = new CandleStore();
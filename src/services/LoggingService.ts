@@ -3,6 +3,8 @@
  * تسجل جميع الإشارات والصفقات مع معرف فريد وسبب القرار
  */
 
+import { backendService } from './BackendService';
+
 export interface LogEntry {
   id: string;
   symbol: string;
@@ -385,7 +387,8 @@ class LoggingService {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Frontend-Token': frontendToken
+          'X-Frontend-Token': frontendToken,
+          ...backendService.getAuthHeaders()
         },
         body: JSON.stringify(logEntry)
       });
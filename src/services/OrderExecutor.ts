@@ -0,0 +1,254 @@
+import { backendService } from './BackendService';
+import { PaperTradingService } from './PaperTradingService';
+import { PositionLedger } from './PositionLedger';
+import { RiskManager, riskManager as sharedRiskManager } from './RiskManager';
+import type { OrderSnapshot, OrderTrade } from './OrderManager';
+
+export interface ExecutionRequest {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT';
+  quantity: number;
+  price?: number;
+  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  strategy?: string;
+  reason?: string;
+  clientOrderId?: string; // يعينه OrderManager لمنع تكرار الأمر
+}
+
+export interface ExecutionResult {
+  success: boolean;
+  orderId?: string;
+  clientOrderId?: string;
+  status: string;
+  executedPrice?: number;
+  executedQuantity?: number;
+  fees?: number;
+  error?: string;
+}
+
+/**
+ * واجهة منفذ الأوامر - تسمح لمحرك التداول بالعمل مع المحاكاة أو الحساب الحقيقي
+ */
+export interface OrderExecutor {
+  readonly name: string;
+  execute(request: ExecutionRequest): Promise<ExecutionResult>;
+  getQuoteBalance(asset?: string): Promise<number>;
+  // للمطابقة بعد إعادة الاتصال (OrderManager)
+  getOpenOrders?(): Promise<OrderSnapshot[]>;
+  getTrades?(symbol: string, orderId: string): Promise<OrderTrade[]>;
+}
+
+/**
+ * منفذ المحاكاة عبر PaperTradingService (وضع DRY_RUN)
+ * فحص المخاطر يتم داخل الخدمة نفسها حتى يشمل الأوامر اليدوية والمعلقة
+ */
+export class PaperTradingExecutor implements OrderExecutor {
+  readonly name = 'PAPER';
+  private paperTradingService: PaperTradingService;
+
+  constructor(paperTradingService: PaperTradingService = PaperTradingService.getInstance()) {
+    this.paperTradingService = paperTradingService;
+  }
+
+  /**
+   * تنفيذ الأمر في حساب المحاكاة
+   */
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    try {
+      const order = await this.paperTradingService.placeOrder({
+        symbol: request.symbol,
+        side: request.side,
+        type: request.type,
+        quantity: request.quantity,
+        price: request.price,
+        timeInForce: request.timeInForce
+      });
+
+      return {
+        success: order.status === 'FILLED' || order.status === 'PARTIALLY_FILLED',
+        orderId: order.id,
+        status: order.status,
+        executedPrice: order.executedPrice,
+        executedQuantity: order.executedQuantity,
+        fees: order.fees,
+        error: order.status === 'REJECTED' || order.status === 'EXPIRED' ? order.reason : undefined
+      };
+    } catch (error) {
+      return { success: false, status: 'REJECTED', error: (error as Error).message };
+    }
+  }
+
+  /**
+   * الرصيد المتاح من عملة التسعير
+   */
+  async getQuoteBalance(asset: string = 'USDT'): Promise<number> {
+    return this.paperTradingService.getAccountInfo().balances[asset] || 0;
+  }
+
+  async getOpenOrders(): Promise<OrderSnapshot[]> {
+    return this.paperTradingService.getOpenOrders().map(order => ({
+      orderId: order.id,
+      status: order.status,
+      executedQty: order.executedQuantity || 0,
+      avgPrice: order.executedPrice
+    }));
+  }
+
+  /**
+   * دفعات تنفيذ أمر المحاكاة بنفس شكل /trades/my
+   */
+  async getTrades(symbol: string, orderId: string): Promise<OrderTrade[]> {
+    const order = this.paperTradingService.getOrderHistory(Number.MAX_SAFE_INTEGER).find(entry => entry.id === orderId);
+    return (order?.fills || []).map((fill, index) => ({
+      id: `${orderId}-${index}`,
+      orderId,
+      symbol,
+      price: fill.price,
+      quantity: fill.quantity,
+      commission: fill.fee,
+      time: new Date(fill.timestamp).getTime()
+    }));
+  }
+}
+
+/**
+ * منفذ الحساب الحقيقي عبر الخادم الخلفي
+ */
+export class BackendExecutor implements OrderExecutor {
+  readonly name = 'LIVE';
+  private riskManager: RiskManager;
+  private ledger = new PositionLedger(); // لحساب الربح المحقق المرسل لمدير المخاطر
+
+  constructor(riskManager: RiskManager = sharedRiskManager) {
+    this.riskManager = riskManager;
+  }
+
+  /**
+   * إرسال الأمر إلى الخادم الذي يوقعه ويرسله لـ Binance بعد فحص المخاطر
+   */
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    try {
+      const referencePrice = request.price || await this.getMarketPrice(request.symbol);
+      const check = this.riskManager.checkOrder({
+        symbol: request.symbol,
+        side: request.side,
+        quantity: request.quantity,
+        price: referencePrice
+      });
+      if (!check.approved) {
+        return { success: false, status: 'REJECTED', error: `Risk check failed: ${check.reason}` };
+      }
+
+      let result;
+      try {
+        result = await backendService.placeOrder({
+          symbol: request.symbol,
+          side: request.side,
+          type: request.type,
+          quantity: request.quantity,
+          price: request.price,
+          timeInForce: request.timeInForce,
+          clientOrderId: request.clientOrderId,
+          strategy: request.strategy,
+          reason: request.reason
+        });
+      } catch (error) {
+        // انقطاع أو خطأ خادم أو إرسال سابق جارٍ (ORDER_IN_FLIGHT): قد يكون الأمر وصل، فيبقى NEW حتى يعاد إرساله بنفس clientOrderId
+        const { status, text } = error as Error & { status?: number; text?: string };
+        const inFlight = status === 409 && Boolean(text?.includes('ORDER_IN_FLIGHT'));
+        const unknownOutcome = !status || status >= 500 || status === 429 || inFlight;
+        return { success: false, status: unknownOutcome ? 'NEW' : 'REJECTED', error: (error as Error).message };
+      }
+
+      if (!result?.success) {
+        return { success: false, status: 'REJECTED', error: result?.error || 'Order rejected by backend' };
+      }
+
+      const data = result.data || {};
+      const executedQuantity = parseFloat(data.executedQty ?? '0');
+      const quoteQuantity = parseFloat(data.cummulativeQuoteQty ?? '0');
+      const executedPrice = data.executedPrice ?? (executedQuantity > 0 ? quoteQuantity / executedQuantity : undefined);
+
+      // الأمر المكرر (replayed) سبق احتساب تنفيذه
+      if (executedQuantity > 0 && !data.replayed) {
+        this.recordFill(request, data.orderId?.toString() || '', executedQuantity, executedPrice || referencePrice, data.fees || 0);
+      }
+
+      return {
+        success: true,
+        orderId: data.orderId?.toString(),
+        clientOrderId: data.clientOrderId,
+        status: data.status || 'NEW',
+        executedPrice,
+        executedQuantity,
+        fees: data.fees
+      };
+    } catch (error) {
+      return { success: false, status: 'REJECTED', error: (error as Error).message };
+    }
+  }
+
+  /**
+   * تحديث التعرض والربح المحقق في مدير المخاطر
+   */
+  private recordFill(request: ExecutionRequest, orderId: string, quantity: number, price: number, fee: number): void {
+    const asset = request.symbol.replace(/USDT$/, '');
+    const execution = { orderId, quantity, price, fee, timestamp: new Date().toISOString() };
+    let realizedPnL = 0;
+
+    if (request.side === 'BUY') {
+      this.ledger.addLot(asset, execution);
+    } else {
+      realizedPnL = this.ledger.closeLots(asset, execution)?.pnl || 0;
+    }
+
+    this.riskManager.recordFill({ symbol: request.symbol, side: request.side, quantity, price, realizedPnL });
+  }
+
+  private async getMarketPrice(symbol: string): Promise<number> {
+    const ticker = await backendService.getCurrentPrices(symbol);
+    const price = parseFloat(ticker?.price ?? '0');
+    if (!(price > 0)) {
+      throw new Error(`Market price not available for ${symbol}`);
+    }
+    return price;
+  }
+
+  /**
+   * الرصيد المتاح من حساب Binance
+   */
+  async getQuoteBalance(asset: string = 'USDT'): Promise<number> {
+    const account = await backendService.getAccountInfo();
+    const balance = account?.balances?.find((entry: { asset: string }) => entry.asset === asset);
+    return balance ? Number(balance.free) : 0;
+  }
+
+  async getOpenOrders(): Promise<OrderSnapshot[]> {
+    const orders = await backendService.getOpenOrders();
+    return orders.map(order => {
+      const executedQty = parseFloat(order.executedQty ?? '0');
+      const quoteQty = parseFloat(order.cummulativeQuoteQty ?? '0');
+      return {
+        orderId: String(order.orderId),
+        clientOrderId: order.clientOrderId,
+        status: order.status,
+        executedQty,
+        avgPrice: executedQty > 0 ? quoteQty / executedQty : undefined
+      };
+    });
+  }
+
+  async getTrades(symbol: string, orderId: string): Promise<OrderTrade[]> {
+    return backendService.getMyTrades(symbol, orderId);
+  }
+}
+
+/**
+ * اختيار المنفذ حسب وضع التشغيل
+ */
+export function createDefaultExecutor(): OrderExecutor {
+  return import.meta.env.VITE_DRY_RUN === 'true'
+    ? new PaperTradingExecutor()
+    : new BackendExecutor();
+}
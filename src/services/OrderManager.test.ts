@@ -0,0 +1,154 @@
+/**
+ * اختبارات دورة حياة الأوامر ومنع التكرار والمطابقة بعد إعادة الاتصال
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./BackendService', () => ({ backendService: {} }));
+vi.mock('./SecureLoggingService', () => ({ secureLoggingService: { logRiskCheck: async () => undefined } }));
+
+import { OrderManager, MemoryOrderStore, OrderEventSource, OrderSnapshot, OrderTrade } from './OrderManager';
+import type { OrderExecutor, ExecutionRequest, ExecutionResult } from './OrderExecutor';
+import type { OrderUpdateEvent, StreamStatus } from './BackendEventStream';
+
+class FakeExecutor implements OrderExecutor {
+  readonly name = 'LIVE';
+  requests: ExecutionRequest[] = [];
+  results: ExecutionResult[] = [];
+  openOrders: OrderSnapshot[] = [];
+  trades: OrderTrade[] = [];
+
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    this.requests.push(request);
+    return this.results.shift() || { success: true, orderId: '1', status: 'NEW', executedQuantity: 0 };
+  }
+
+  async getQuoteBalance(): Promise<number> {
+    return 1000;
+  }
+
+  async getOpenOrders(): Promise<OrderSnapshot[]> {
+    return this.openOrders;
+  }
+
+  async getTrades(): Promise<OrderTrade[]> {
+    return this.trades;
+  }
+}
+
+class FakeEvents implements OrderEventSource {
+  orderListeners: Array<(event: OrderUpdateEvent) => void> = [];
+  statusListeners: Array<(status: StreamStatus) => void> = [];
+
+  onOrderUpdate(listener: (event: OrderUpdateEvent) => void): () => void {
+    this.orderListeners.push(listener);
+    return () => undefined;
+  }
+
+  onStreamStatusChange(listener: (status: StreamStatus) => void): () => void {
+    this.statusListeners.push(listener);
+    return () => undefined;
+  }
+
+  emitOrder(event: Partial<OrderUpdateEvent>): void {
+    this.orderListeners.forEach(listener => listener({
+      orderId: '1', symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', status: 'NEW',
+      quantity: 2, price: 100, executedQty: 0, isDryRun: false, ...event
+    }));
+  }
+
+  emitStatus(status: StreamStatus): void {
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+const limitBuy: ExecutionRequest = { symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 2, price: 100 };
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('OrderManager', () => {
+  let executor: FakeExecutor;
+  let store: MemoryOrderStore;
+  let events: FakeEvents;
+  let manager: OrderManager;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    executor = new FakeExecutor();
+    store = new MemoryOrderStore();
+    events = new FakeEvents();
+    manager = new OrderManager(executor, store, events);
+    await manager.start();
+  });
+
+  it('assigns a client order id once and never resubmits it', async () => {
+    const first = await manager.execute(limitBuy);
+    expect(first.clientOrderId).toMatch(/^ellen_[a-z0-9_]{1,30}$/);
+    expect(executor.requests[0].clientOrderId).toBe(first.clientOrderId);
+
+    const replay = await manager.execute({ ...limitBuy, clientOrderId: first.clientOrderId });
+    expect(executor.requests).toHaveLength(1);
+    expect(replay).toMatchObject({ success: true, orderId: '1', status: 'NEW' });
+    expect(store.orders.get(first.clientOrderId!)).toMatchObject({ mode: 'LIVE', status: 'NEW', orderId: '1' });
+  });
+
+  it('follows pushed updates and ignores transitions out of terminal states', async () => {
+    const { clientOrderId } = await manager.execute(limitBuy);
+
+    events.emitOrder({ status: 'PARTIALLY_FILLED', executedQty: 1, executedPrice: 100 });
+    events.emitOrder({ status: 'FILLED', executedQty: 2, executedPrice: 100.5 });
+    events.emitOrder({ status: 'NEW', executedQty: 0 });
+    await flush();
+
+    expect(manager.getOrder(clientOrderId!)).toMatchObject({ status: 'FILLED', executedQty: 2, avgPrice: 100.5 });
+    expect(store.orders.get(clientOrderId!)?.status).toBe('FILLED');
+    expect(manager.getActiveOrders()).toEqual([]);
+  });
+
+  it('reconciles with open orders and account trades after a reconnect', async () => {
+    const partial = await manager.execute(limitBuy);
+    executor.results.push({ success: true, orderId: '2', status: 'NEW' });
+    const filled = await manager.execute(limitBuy);
+
+    // أثناء الانقطاع: الأول نفذ جزئياً وما زال مفتوحاً، والثاني نفذ بالكامل
+    executor.openOrders = [{ orderId: '1', status: 'PARTIALLY_FILLED', executedQty: 0.5, avgPrice: 99 }];
+    executor.trades = [
+      { id: 10, orderId: 2, symbol: 'BTCUSDT', price: 100, quantity: 1.5, commission: 0.1, time: 0 },
+      { id: 11, orderId: 2, symbol: 'BTCUSDT', price: 102, quantity: 0.5, commission: 0.05, time: 0 }
+    ];
+
+    events.emitStatus('reconnecting');
+    events.emitStatus('open');
+    await manager.reconcile();
+
+    expect(manager.getOrder(partial.clientOrderId!)).toMatchObject({ status: 'PARTIALLY_FILLED', executedQty: 0.5 });
+    const reconciled = manager.getOrder(filled.clientOrderId!);
+    expect(reconciled).toMatchObject({ status: 'FILLED', executedQty: 2 });
+    expect(reconciled?.avgPrice).toBeCloseTo(100.5);
+    expect(reconciled?.fees).toBeCloseTo(0.15);
+  });
+
+  it('resubmits orders with an unknown outcome under the same client order id', async () => {
+    executor.results.push({ success: false, status: 'NEW', error: 'Request aborted (timeout)' });
+    const first = await manager.execute(limitBuy);
+    expect(first.success).toBe(false);
+    expect(manager.getOrder(first.clientOrderId!)?.status).toBe('NEW');
+
+    executor.results.push({ success: true, orderId: '7', status: 'FILLED', executedQuantity: 2, executedPrice: 100 });
+    await manager.reconcile();
+
+    expect(executor.requests.map(request => request.clientOrderId)).toEqual([first.clientOrderId, first.clientOrderId]);
+    expect(manager.getOrder(first.clientOrderId!)).toMatchObject({ status: 'FILLED', orderId: '7' });
+  });
+
+  it('restores open orders of the same mode from the store', async () => {
+    const { clientOrderId } = await manager.execute(limitBuy);
+    manager.stop();
+
+    const restored = new OrderManager(executor, store, new FakeEvents());
+    executor.openOrders = [{ orderId: '1', status: 'NEW', executedQty: 0 }];
+    await restored.start();
+
+    expect(restored.getActiveOrders().map(order => order.clientOrderId)).toEqual([clientOrderId]);
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * مدير دورة حياة الأوامر فوق أي منفذ (محاكاة أو حقيقي)
+ * يعين clientOrderId لكل أمر حتى لا تتكرر الأوامر عند إعادة المحاولة،
+ * ويتتبع NEW → PARTIALLY_FILLED → FILLED / CANCELED / REJECTED / EXPIRED
+ * ويطابق الأوامر المفتوحة مع الخادم بعد إعادة الاتصال
+ */
+
+import { backendService } from './BackendService';
+import type { OrderUpdateEvent, StreamStatus } from './BackendEventStream';
+import { OrderExecutor, ExecutionRequest, ExecutionResult, createDefaultExecutor } from './OrderExecutor';
+
+export type OrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'REJECTED' | 'EXPIRED';
+
+export interface ManagedOrder {
+  clientOrderId: string;
+  orderId?: string;
+  mode: 'PAPER' | 'LIVE';
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT';
+  quantity: number;
+  price?: number;
+  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  status: OrderStatus;
+  executedQty: number;
+  avgPrice?: number;
+  fees: number;
+  strategy?: string;
+  reason?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// حالة أمر مفتوح كما يعيدها المنفذ
+export interface OrderSnapshot {
+  orderId: string;
+  clientOrderId?: string;
+  status: string;
+  executedQty: number;
+  avgPrice?: number;
+}
+
+// تنفيذ واحد من سجل الحساب (/trades/my)
+export interface OrderTrade {
+  id: string | number;
+  orderId: string | number;
+  symbol: string;
+  price: number;
+  quantity: number;
+  commission: number;
+  commissionAsset?: string;
+  time: number;
+}
+
+type OrderUpdate = Partial<Pick<ManagedOrder, 'orderId' | 'executedQty' | 'avgPrice' | 'fees' | 'error'>> & {
+  status?: string;
+};
+
+/**
+ * حفظ الأوامر (SQLite عبر الخادم افتراضياً)
+ */
+export interface OrderStore {
+  loadOpen(): Promise<ManagedOrder[]>;
+  save(order: ManagedOrder): Promise<void>;
+}
+
+/**
+ * مصدر أحداث الأوامر وحالة الاتصال (قناة الدفع افتراضياً)
+ */
+export interface OrderEventSource {
+  onOrderUpdate(listener: (event: OrderUpdateEvent) => void): () => void;
+  onStreamStatusChange(listener: (status: StreamStatus) => void): () => void;
+}
+
+export const TERMINAL_STATUSES: OrderStatus[] = ['FILLED', 'CANCELED', 'REJECTED', 'EXPIRED'];
+
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  NEW: ['PARTIALLY_FILLED', 'FILLED', 'CANCELED', 'REJECTED', 'EXPIRED'],
+  PARTIALLY_FILLED: ['FILLED', 'CANCELED', 'EXPIRED'],
+  FILLED: [],
+  CANCELED: [],
+  REJECTED: [],
+  EXPIRED: []
+};
+
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * تحويل حالات Binance والمحاكاة إلى حالات دورة الحياة (null = حالة انتقالية مثل PENDING_CANCEL)
+ */
+export function normalizeOrderStatus(status: string | undefined): OrderStatus | null {
+  switch ((status || '').toUpperCase()) {
+    case 'NEW':
+    case 'PENDING':
+      return 'NEW';
+    case 'PARTIALLY_FILLED':
+      return 'PARTIALLY_FILLED';
+    case 'FILLED':
+      return 'FILLED';
+    case 'CANCELED':
+    case 'CANCELLED':
+      return 'CANCELED';
+    case 'REJECTED':
+      return 'REJECTED';
+    case 'EXPIRED':
+    case 'EXPIRED_IN_MATCH':
+      return 'EXPIRED';
+    default:
+      return null;
+  }
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * توليد clientOrderId ضمن قيود Binance (36 حرفاً كحد أقصى)
+ */
+export function generateClientOrderId(): string {
+  return `ellen_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 14)}`;
+}
+
+export class BackendOrderStore implements OrderStore {
+  async loadOpen(): Promise<ManagedOrder[]> {
+    return backendService.getOrders({ status: 'open' });
+  }
+
+  async save(order: ManagedOrder): Promise<void> {
+    if (!await backendService.saveOrder(order)) {
+      throw new Error(`Backend rejected order ${order.clientOrderId}`);
+    }
+  }
+}
+
+/**
+ * تخزين في الذاكرة فقط (للاختبارات)
+ */
+export class MemoryOrderStore implements OrderStore {
+  readonly orders: Map<string, ManagedOrder> = new Map();
+
+  async loadOpen(): Promise<ManagedOrder[]> {
+    return Array.from(this.orders.values())
+      .filter(order => !TERMINAL_STATUSES.includes(order.status))
+      .map(order => ({ ...order }));
+  }
+
+  async save(order: ManagedOrder): Promise<void> {
+    this.orders.set(order.clientOrderId, { ...order });
+  }
+}
+
+const backendEventSource: OrderEventSource = {
+  onOrderUpdate: listener => backendService.subscribeEvents('orderUpdate', listener),
+  onStreamStatusChange: listener => backendService.onStreamStatusChange(listener)
+};
+
+export class OrderManager implements OrderExecutor {
+  private executor: OrderExecutor;
+  private store: OrderStore;
+  private events: OrderEventSource;
+  private orders: Map<string, ManagedOrder> = new Map();
+  private listeners: Set<(order: ManagedOrder) => void> = new Set();
+  private unsubscribers: Array<() => void> = [];
+  private reconciling: Promise<void> | null = null;
+
+  constructor(
+    executor: OrderExecutor = createDefaultExecutor(),
+    store: OrderStore = new BackendOrderStore(),
+    events: OrderEventSource = backendEventSource
+  ) {
+    this.executor = executor;
+    this.store = store;
+    this.events = events;
+  }
+
+  get name(): string {
+    return this.executor.name;
+  }
+
+  /**
+   * استعادة الأوامر المفتوحة ومتابعة التحديثات (المطابقة بعد كل إعادة اتصال)
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribers.length > 0) return;
+
+    let wasDisconnected = false;
+    this.unsubscribers.push(
+      this.events.onOrderUpdate(event => this.handleOrderUpdate(event)),
+      this.events.onStreamStatusChange(status => {
+        if (status === 'reconnecting') {
+          wasDisconnected = true;
+        } else if (status === 'open' && wasDisconnected) {
+          wasDisconnected = false;
+          this.reconcile().catch(error => console.error('[ORDERS] Reconciliation failed:', error));
+        }
+      })
+    );
+
+    try {
+      const open = await this.store.loadOpen();
+      open
+        .filter(order => order.mode === this.executor.name)
+        .forEach(order => this.orders.set(order.clientOrderId, order));
+    } catch (error) {
+      console.warn('[ORDERS] Failed to restore open orders:', error);
+    }
+
+    await this.reconcile();
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * إرسال أمر مرة واحدة فقط لكل clientOrderId
+   */
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    const clientOrderId = request.clientOrderId || generateClientOrderId();
+    const existing = this.orders.get(clientOrderId);
+    if (existing) {
+      return this.toResult(existing);
+    }
+
+    const now = new Date().toISOString();
+    const order: ManagedOrder = {
+      clientOrderId,
+      mode: this.executor.name === 'LIVE' ? 'LIVE' : 'PAPER',
+      symbol: request.symbol,
+      side: request.side,
+      type: request.type,
+      quantity: request.quantity,
+      price: request.price,
+      timeInForce: request.timeInForce,
+      status: 'NEW',
+      executedQty: 0,
+      fees: 0,
+      strategy: request.strategy,
+      reason: request.reason,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.orders.set(clientOrderId, order);
+
+    return this.submit(order);
+  }
+
+  async getQuoteBalance(asset?: string): Promise<number> {
+    return this.executor.getQuoteBalance(asset);
+  }
+
+  getOrder(clientOrderId: string): ManagedOrder | undefined {
+    const order = this.orders.get(clientOrderId);
+    return order ? { ...order } : undefined;
+  }
+
+  getActiveOrders(): ManagedOrder[] {
+    return Array.from(this.orders.values())
+      .filter(order => !TERMINAL_STATUSES.includes(order.status))
+      .map(order => ({ ...order }));
+  }
+
+  /**
+   * الاشتراك في تغييرات حالة الأوامر
+   */
+  onOrderChange(listener: (order: ManagedOrder) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * مطابقة الأوامر غير النهائية مع الأوامر المفتوحة وسجل التنفيذات في المنفذ
+   */
+  reconcile(): Promise<void> {
+    if (!this.reconciling) {
+      this.reconciling = this.runReconcile().finally(() => {
+        this.reconciling = null;
+      });
+    }
+    return this.reconciling;
+  }
+
+  private async runReconcile(): Promise<void> {
+    // انقطع الإرسال قبل معرفة النتيجة: نفس clientOrderId يعيد الأمر المسجل أو يرسله مرة واحدة
+    for (const order of this.getActiveOrders().filter(entry => !entry.orderId)) {
+      await this.submit(order);
+    }
+
+    const pending = this.getActiveOrders().filter(order => order.orderId);
+    if (pending.length === 0 || !this.executor.getOpenOrders || !this.executor.getTrades) return;
+
+    const open = await this.executor.getOpenOrders();
+    for (const order of pending) {
+      const snapshot = open.find(entry =>
+        entry.orderId === order.orderId || (entry.clientOrderId && entry.clientOrderId === order.clientOrderId)
+      );
+
+      if (snapshot) {
+        await this.applyUpdate(order.clientOrderId, snapshot);
+        continue;
+      }
+
+      // لم يعد مفتوحاً: التنفيذات تحدد هل اكتمل أم ألغي بعد تنفيذ جزئي
+      const trades = (await this.executor.getTrades(order.symbol, order.orderId!))
+        .filter(trade => String(trade.orderId) === order.orderId);
+      const executedQty = trades.reduce((sum, trade) => sum + trade.quantity, 0);
+      const quoteQty = trades.reduce((sum, trade) => sum + trade.quantity * trade.price, 0);
+
+      await this.applyUpdate(order.clientOrderId, {
+        status: executedQty >= order.quantity - QUANTITY_EPSILON ? 'FILLED' : 'CANCELED',
+        executedQty,
+        avgPrice: executedQty > 0 ? quoteQty / executedQty : undefined,
+        fees: trades.reduce((sum, trade) => sum + trade.commission, 0)
+      });
+    }
+
+    console.log(`[ORDERS] Reconciled ${pending.length} order(s) via ${this.executor.name}`);
+  }
+
+  private async submit(order: ManagedOrder): Promise<ExecutionResult> {
+    const result = await this.executor.execute({
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      quantity: order.quantity,
+      price: order.price,
+      timeInForce: order.timeInForce,
+      strategy: order.strategy,
+      reason: order.reason,
+      clientOrderId: order.clientOrderId
+    });
+
+    // المنفذ يعيد NEW مع success=false عندما تكون نتيجة الإرسال غير معروفة
+    await this.applyUpdate(order.clientOrderId, {
+      orderId: result.orderId,
+      status: result.success ? result.status : normalizeOrderStatus(result.status) ?? 'REJECTED',
+      executedQty: result.executedQuantity,
+      avgPrice: result.executedPrice,
+      fees: result.fees,
+      error: result.error
+    });
+
+    return { ...result, clientOrderId: order.clientOrderId };
+  }
+
+  private async handleOrderUpdate(event: OrderUpdateEvent): Promise<void> {
+    const order = Array.from(this.orders.values()).find(entry =>
+      (event.clientOrderId && entry.clientOrderId === event.clientOrderId) || entry.orderId === String(event.orderId)
+    );
+    if (!order) return;
+
+    await this.applyUpdate(order.clientOrderId, {
+      orderId: String(event.orderId),
+      status: event.status,
+      executedQty: event.executedQty,
+      avgPrice: event.executedPrice ?? undefined,
+      fees: event.fees
+    });
+  }
+
+  /**
+   * تطبيق تحديث مع تجاهل الانتقالات غير الصالحة (أحداث متأخرة أو مكررة)
+   */
+  private async applyUpdate(clientOrderId: string, update: OrderUpdate): Promise<void> {
+    const order = this.orders.get(clientOrderId);
+    if (!order) return;
+
+    const status = update.status === undefined ? order.status : normalizeOrderStatus(update.status);
+    if (!status) return;
+    if (!canTransition(order.status, status)) {
+      console.warn(`[ORDERS] Ignored ${order.status} -> ${status} for ${clientOrderId}`);
+      return;
+    }
+
+    const updated: ManagedOrder = {
+      ...order,
+      orderId: update.orderId ?? order.orderId,
+      status,
+      executedQty: Math.max(order.executedQty, update.executedQty ?? 0),
+      avgPrice: update.avgPrice ?? order.avgPrice,
+      fees: update.fees ?? order.fees,
+      error: update.error ?? order.error,
+      updatedAt: new Date().toISOString()
+    };
+    this.orders.set(clientOrderId, updated);
+
+    if (status !== order.status) {
+      console.log(`[ORDERS] ${clientOrderId} ${order.status} -> ${status}`);
+    }
+    this.listeners.forEach(listener => listener({ ...updated }));
+
+    try {
+      await this.store.save(updated);
+    } catch (error) {
+      console.warn(`[ORDERS] Failed to persist ${clientOrderId}:`, error);
+    }
+  }
+
+  private toResult(order: ManagedOrder): ExecutionResult {
+    return {
+      success: order.status !== 'REJECTED' && order.status !== 'EXPIRED' && order.status !== 'CANCELED',
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      status: order.status,
+      executedPrice: order.avgPrice,
+      executedQuantity: order.executedQty,
+      fees: order.fees,
+      error: order.error
+    };
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * اختبارات الأوامر المعلقة وأوامر الوقف وOCO في محاكاة التداول
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+
+const market = vi.hoisted(() => ({
+  price: 100,
+  restCalls: 0,
+  listeners: new Map<string, (data: unknown) => void>()
+}));
+
+vi.mock('./BackendService', () => ({
+  backendService: {
+    getCurrentPrices: async (symbol?: string) => {
+      market.restCalls++;
+      return symbol
+        ? { symbol, price: market.price.toString() }
+        : [{ symbol: 'BTCUSDT', price: market.price.toString() }];
+    },
+    getOrderBook: async () => {
+      market.restCalls++;
+      return {
+        bids: [{ price: market.price - 1, quantity: 5 }],
+        asks: [{ price: market.price + 1, quantity: 5 }],
+        lastUpdateId: 1
+      };
+    },
+    getKlines: async () => [],
+    subscribeEvents: (type: string, listener: (data: unknown) => void) => {
+      market.listeners.set(type, listener);
+      return () => market.listeners.delete(type);
+    }
+  }
+}));
+
+vi.mock('./SecureLoggingService', () => ({
+  secureLoggingService: { logTrade: async () => undefined, logRiskCheck: async () => undefined }
+}));
+
+import { PaperTradingService } from './PaperTradingService';
+import { MemoryPaperStateStorage, PAPER_STATE_SCHEMA_VERSION, migrateSnapshot } from './PaperTradingStorage';
+import { RiskManager } from './RiskManager';
+
+let service: PaperTradingService;
+const risk = new RiskManager({ maxSymbolExposure: 1400, maxGrossExposure: 5000 }, { logging: false });
+
+// تحريك الساعة الوهمية حتى تكتمل محاكاة الكمون
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.advanceTimersByTimeAsync(200);
+  return promise;
+}
+
+// تحديث السوق بأحداث الدفع كما يرسلها الخادم (عمق ثم سعر)
+async function tick(price: number): Promise<void> {
+  market.price = price;
+  market.listeners.get('depth')?.({
+    symbol: 'BTCUSDT',
+    bids: [{ price: price - 1, quantity: 5 }],
+    asks: [{ price: price + 1, quantity: 5 }],
+    lastUpdateId: price
+  });
+  market.listeners.get('price')?.({ symbol: 'BTCUSDT', price, bid: price - 1, ask: price + 1, volume: 1, timestamp: Date.now() });
+  await vi.advanceTimersByTimeAsync(5000);
+}
+
+beforeAll(async () => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  service = PaperTradingService.getInstance();
+  service.setRiskManager(risk);
+  await service.setStorage(new MemoryPaperStateStorage());
+  await vi.advanceTimersByTimeAsync(0);
+  service.updateConfig({ enablePartialFills: false, enableSlippage: false, feeRate: 0 });
+});
+
+beforeEach(async () => {
+  market.price = 100;
+  service.resetAccount();
+  await tick(100);
+});
+
+afterAll(() => {
+  service.cleanup();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('PaperTradingService working orders', () => {
+  it('should follow pushed market events without polling REST', async () => {
+    const restCalls = market.restCalls;
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(market.restCalls).toBe(restCalls);
+
+    await tick(97);
+    const book = service.getOrderBookInfo('BTCUSDT');
+    expect(book?.bestBid).toBe(96);
+    expect(book?.bestAsk).toBe(98);
+    expect(service.getMarketPrices().BTCUSDT.currentPrice).toBe(97);
+    expect(market.restCalls).toBe(restCalls);
+  });
+
+  it('should rest a GTC limit order, lock funds and fill on a later tick', async () => {
+    const order = await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 1, price: 95 }));
+
+    expect(order.status).toBe('PENDING');
+    expect(service.getOpenOrders()).toHaveLength(1);
+    expect(service.getAccountInfo().balances.USDT).toBe(10000 - 95);
+    expect(service.getAccountInfo().lockedBalances.USDT).toBe(95);
+
+    await tick(94);
+
+    expect(order.status).toBe('FILLED');
+    expect(order.executedPrice).toBe(95);
+    expect(service.getOpenOrders()).toHaveLength(0);
+    expect(service.getAccountInfo().balances.BTC).toBe(1);
+    expect(service.getAccountInfo().lockedBalances.USDT).toBe(0);
+  });
+
+  it('should honour IOC and FOK against book depth', async () => {
+    const ioc = await settle(service.placeOrder({
+      symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 8, price: 101, timeInForce: 'IOC'
+    }));
+    expect(ioc.status).toBe('PARTIALLY_FILLED');
+    expect(ioc.executedQuantity).toBe(5);
+
+    const fok = await settle(service.placeOrder({
+      symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 8, price: 101, timeInForce: 'FOK'
+    }));
+    expect(fok.status).toBe('EXPIRED');
+    expect(fok.executedQuantity).toBeUndefined();
+    expect(service.getOpenOrders()).toHaveLength(0);
+  });
+
+  it('should trigger stop loss and take profit orders', async () => {
+    await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 2 }));
+
+    const stop = await settle(service.placeStopLossOrder({ symbol: 'BTCUSDT', side: 'SELL', quantity: 1, stopPrice: 90, limitPrice: 85 }));
+    const takeProfit = await settle(service.placeOrder({
+      symbol: 'BTCUSDT', side: 'SELL', type: 'TAKE_PROFIT_LIMIT', quantity: 1, price: 110, stopPrice: 110
+    }));
+    expect(service.getAccountInfo().lockedBalances.BTC).toBe(2);
+
+    await tick(95);
+    expect(stop.status).toBe('PENDING');
+
+    await tick(89);
+    expect(stop.status).toBe('FILLED');
+    expect(stop.executedPrice).toBe(88);
+
+    await tick(111);
+    expect(takeProfit.status).toBe('FILLED');
+    expect(service.getAccountInfo().balances.BTC).toBe(0);
+  });
+
+  it('should reject a stop that would trigger immediately', async () => {
+    const order = await settle(service.placeStopLossOrder({ symbol: 'BTCUSDT', side: 'SELL', quantity: 1, stopPrice: 105 }));
+
+    expect(order.status).toBe('REJECTED');
+  });
+
+  it('should cancel the OCO sibling when one leg executes', async () => {
+    await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1 }));
+
+    const oco = await service.placeOcoOrder({ symbol: 'BTCUSDT', side: 'SELL', quantity: 1, price: 110, stopPrice: 90 });
+    expect(oco.listStatus).toBe('EXECUTING');
+    expect(service.getOpenOrders()).toHaveLength(2);
+
+    await tick(112);
+
+    const [limitLeg, stopLeg] = oco.orders;
+    expect(limitLeg.status).toBe('FILLED');
+    expect(stopLeg.status).toBe('CANCELLED');
+    expect(service.getOpenOrders()).toHaveLength(0);
+    expect(service.getAccountInfo().lockedBalances.BTC).toBe(0);
+  });
+
+  it('should release locked funds when cancelling', async () => {
+    const oco = await service.placeOcoOrder({ symbol: 'BTCUSDT', side: 'BUY', quantity: 1, price: 90, stopPrice: 110 });
+
+    expect(await service.cancelOrder(oco.orders[1].id)).toBe(true);
+
+    expect(oco.orders.every(order => order.status === 'CANCELLED')).toBe(true);
+    expect(service.getAccountInfo().balances.USDT).toBe(10000);
+    expect(await service.cancelOrder(oco.orders[0].id)).toBe(false);
+  });
+});
+
+describe('PaperTradingService risk checks', () => {
+  it('should reject orders that breach the symbol exposure cap', async () => {
+    await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 5 }));
+
+    const order = await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 10 }));
+    expect(order.status).toBe('REJECTED');
+    expect(order.reason).toMatch(/Risk check failed: Symbol exposure/);
+
+    // أمر الإغلاق يقلل التعرض فيقبل دائماً
+    const close = await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: 5 }));
+    expect(close.status).toBe('FILLED');
+    expect(risk.getSymbolExposure('BTCUSDT')).toBe(0);
+  });
+});
+
+describe('PaperTradingService P&L accounting', () => {
+  it('should realize FIFO P&L from lots and only count closing trades', async () => {
+    await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1 }));
+    await tick(110);
+    await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1 }));
+    await tick(120);
+
+    const sell = await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: 1 }));
+
+    // شراء أول عند 101 وبيع عند 119
+    expect(sell.realizedPnL).toBeCloseTo(18);
+    const account = service.getAccountInfo();
+    expect(account.realizedPnL).toBeCloseTo(18);
+    expect(account.winningTrades).toBe(1);
+    expect(account.unrealizedPnL).toBeCloseTo(120 - 111);
+    expect(service.getDetailedStats().performance.winRate).toBe(100);
+  });
+});
+
+describe('PaperTradingService persistence', () => {
+  it('should restore account and open orders from storage', async () => {
+    const storage = new MemoryPaperStateStorage();
+    await service.setStorage(storage);
+
+    await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1 }));
+    const resting = await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 1, price: 90 }));
+    const saved = await storage.load();
+    expect(saved?.schemaVersion).toBe(PAPER_STATE_SCHEMA_VERSION);
+
+    service.resetAccount();
+    await storage.save(saved!);
+    await service.setStorage(storage);
+
+    expect(service.getAccountInfo().balances.BTC).toBe(1);
+    expect(service.getOpenOrders().map(order => order.id)).toEqual([resting.id]);
+
+    // الأمر المستعاد يبقى مرتبطاً بالسجل ويكتمل مع التحديثات
+    await tick(89);
+    expect(service.getOrderHistory().find(order => order.id === resting.id)?.status).toBe('FILLED');
+  });
+
+  it('should round-trip exportState and importState', async () => {
+    await settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 2, price: 95 }));
+    const exported = service.exportState();
+
+    service.resetAccount();
+    service.importState(exported);
+
+    expect(service.getAccountInfo().lockedBalances.USDT).toBe(190);
+    expect(service.getOpenOrders()).toHaveLength(1);
+  });
+
+  it('should reject snapshots from a newer schema', () => {
+    const snapshot = { ...JSON.parse(service.exportState()), schemaVersion: PAPER_STATE_SCHEMA_VERSION + 1 };
+
+    expect(() => service.importState(snapshot)).toThrow(/newer than supported/);
+    expect(() => migrateSnapshot({ account: {} })).toThrow(/schemaVersion/);
+  });
+});
+
+describe('PaperTradingService margin', () => {
+  afterAll(() => {
+    service.updateConfig({ marginMode: 'DISABLED', maxLeverage: 3 });
+  });
+
+  const sell = (quantity: number) => settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity }));
+  const buy = (quantity: number) => settle(service.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity }));
+
+  it('should refuse short sales while margin is disabled', async () => {
+    service.updateConfig({ marginMode: 'DISABLED' });
+
+    expect((await sell(1)).status).toBe('REJECTED');
+  });
+
+  it('should borrow for an isolated short and realise short P&L on cover', async () => {
+    service.updateConfig({ marginMode: 'ISOLATED', maxLeverage: 3 });
+
+    const short = await sell(1);
+    expect(short.status).toBe('FILLED');
+    expect(short.borrowedQuantity).toBe(1);
+
+    const position = service.getAccountInfo().marginPositions.BTCUSDT;
+    expect(position.borrowed).toBe(1);
+    expect(position.collateral).toBeCloseTo(99 / 3 + 99);
+
+    await tick(90);
+    const cover = await buy(1);
+
+    expect(cover.realizedPnL).toBeCloseTo(99 - 91);
+    expect(service.getAccountInfo().marginPositions.BTCUSDT).toBeUndefined();
+    expect(service.getAccountInfo().balances.USDT).toBeCloseTo(10008);
+    expect(service.getDetailedStats().margin.shortRealizedPnL).toBeCloseTo(8);
+  });
+
+  it('should accrue hourly interest on borrowed assets', async () => {
+    service.updateConfig({ marginMode: 'CROSS', maxLeverage: 3 });
+    await sell(1);
+
+    await vi.advanceTimersByTimeAsync(2 * 3600000);
+    await tick(100);
+
+    expect(service.getAccountInfo().marginPositions.BTCUSDT.interest).toBeCloseTo(0.0002, 8);
+    expect(service.getDetailedStats().margin.openShorts).toBe(1);
+  });
+
+  it('should persist an open short on interest accrual, not on every tick', async () => {
+    service.updateConfig({ marginMode: 'CROSS', maxLeverage: 3 });
+    await sell(1);
+    const save = vi.spyOn(MemoryPaperStateStorage.prototype, 'save');
+
+    await tick(101);
+    await tick(102);
+    expect(save).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(3600000);
+    await tick(101);
+    expect(save).toHaveBeenCalledTimes(1);
+    save.mockRestore();
+  });
+
+  it('should liquidate an isolated short below maintenance margin', async () => {
+    service.updateConfig({ marginMode: 'ISOLATED', maxLeverage: 5 });
+    await sell(5);
+
+    await tick(105);
+    expect(service.getAccountInfo().liquidations).toBe(0);
+
+    await tick(110);
+
+    const account = service.getAccountInfo();
+    expect(account.liquidations).toBe(1);
+    expect(account.marginPositions.BTCUSDT).toBeUndefined();
+    expect(account.balances.USDT).toBeCloseTo(10000 - (111 - 99) * 5);
+  });
+});
@@ -5,15 +5,35 @@
 
 import { secureLoggingService } from './SecureLoggingService';
 import { backendService } from './BackendService';
+import { LotMatchingMethod, PositionLedger } from './PositionLedger';
+import { RiskManager, riskManager as sharedRiskManager } from './RiskManager';
+import {
+  PaperStateStorage,
+  PaperTradingSnapshot,
+  PAPER_STATE_SCHEMA_VERSION,
+  createDefaultPaperStorage,
+  migrateSnapshot
+} from './PaperTradingStorage';
+
+const MAX_PERSISTED_HISTORY = 1000; // آخر 1000 أمر فقط في الحفظ التلقائي
+
+export type PaperOrderType = 'MARKET' | 'LIMIT' | 'STOP_LOSS_LIMIT' | 'TAKE_PROFIT_LIMIT';
 
 export interface PaperTradeOrder {
   id: string;
   symbol: string;
   side: 'BUY' | 'SELL';
-  type: 'MARKET' | 'LIMIT';
+  type: PaperOrderType;
   quantity: number;
   price?: number;
-  status: 'PENDING' | 'FILLED' | 'PARTIALLY_FILLED' | 'CANCELLED' | 'REJECTED';
+  stopPrice?: number;
+  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  orderListId?: string; // معرف قائمة OCO
+  isWorking?: boolean; // تم تفعيل أمر الوقف وأصبح أمراً محدداً
+  lockedAmount?: number; // الرصيد المحجوز للأمر المعلق
+  borrowedQuantity?: number; // الكمية المقترضة للبيع على المكشوف
+  realizedPnL?: number; // الربح المحقق من سجل الدفعات عند الإغلاق
+  status: 'PENDING' | 'FILLED' | 'PARTIALLY_FILLED' | 'CANCELLED' | 'REJECTED' | 'EXPIRED';
   timestamp: string;
   executedPrice?: number;
   executedQuantity?: number;
@@ -30,8 +50,25 @@ export interface PaperTradeOrder {
   }>;
 }
 
+export type PaperMarginMode = 'DISABLED' | 'CROSS' | 'ISOLATED';
+
+export interface PaperMarginPosition {
+  symbol: string;
+  mode: 'CROSS' | 'ISOLATED';
+  borrowed: number; // الكمية المقترضة من العملة الأساسية
+  interest: number; // الفائدة المتراكمة بالعملة الأساسية
+  entryPrice: number; // متوسط سعر البيع على المكشوف
+  collateral: number; // ضمان الهامش المعزول بعملة التسعير
+  openedAt: string;
+  lastInterestAt: number;
+}
+
 export interface PaperAccount {
-  balances: Record<string, number>;
+  balances: Record<string, number>; // الرصيد المتاح
+  lockedBalances: Record<string, number>; // الرصيد المحجوز للأوامر المعلقة
+  marginPositions: Record<string, PaperMarginPosition>; // المراكز القصيرة المقترضة حسب الرمز
+  shortRealizedPnL: number;
+  liquidations: number;
   totalValue: number;
   unrealizedPnL: number;
   realizedPnL: number;
@@ -42,6 +79,25 @@ export interface PaperAccount {
   peakBalance: number;
 }
 
+export interface PaperOrderRequest {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: PaperOrderType;
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+}
+
+export interface PaperOcoOrder {
+  orderListId: string;
+  symbol: string;
+  listStatus: 'EXECUTING' | 'ALL_DONE' | 'REJECTED';
+  orders: PaperTradeOrder[];
+}
+
+type PaperFill = PaperTradeOrder['fills'][number];
+
 export interface RealMarketData {
   symbol: string;
   currentPrice: number;
@@ -64,16 +120,29 @@ export interface PaperTradingConfig {
   feeRate: number;
   maxSlippage: number;
   partialFillProbability: number;
+  marginMode: PaperMarginMode;
+  maxLeverage: number; // الهامش الابتدائي = القيمة / الرافعة
+  hourlyInterestRate: number; // فائدة الاقتراض لكل ساعة
+  maintenanceMarginRatio: number; // التصفية عند نزول الضمان تحت هذه النسبة من الالتزامات
+  lotMatching: LotMatchingMethod; // طريقة مطابقة دفعات الشراء عند البيع
 }
 
+const PAPER_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'SOLUSDT'];
+
 export class PaperTradingService {
   private static instance: PaperTradingService;
   private account: PaperAccount;
   private openOrders: Map<string, PaperTradeOrder> = new Map();
   private orderHistory: PaperTradeOrder[] = [];
   private marketData: Map<string, RealMarketData> = new Map();
-  private priceUpdateInterval: NodeJS.Timeout | null = null;
+  private marketSubscriptions: Array<() => void> = [];
+  private marketUpdates: Promise<void> = Promise.resolve(); // معالجة أحداث السوق بالتسلسل
+  private pendingSymbols: Set<string> = new Set(); // رموز تنتظر المعالجة (تدمج الأحداث المتتالية)
   private config: PaperTradingConfig;
+  private ledger: PositionLedger;
+  private riskManager: RiskManager = sharedRiskManager;
+  private storage: PaperStateStorage = createDefaultPaperStorage();
+  private stateRestored = false; // لا نحفظ قبل استعادة الحالة السابقة حتى لا نكتب فوقها
 
   private constructor() {
     this.config = {
@@ -82,8 +151,14 @@ export class PaperTradingService {
       slippageRate: parseFloat(import.meta.env.VITE_PAPER_TRADING_SLIPPAGE || '0.0005'),
       feeRate: parseFloat(import.meta.env.VITE_PAPER_TRADING_FEE_RATE || '0.001'),
       maxSlippage: 0.002, // 0.2% حد أقصى للانزلاق
-      partialFillProbability: 0.15 // 15% احتمال التنفيذ الجزئي
+      partialFillProbability: 0.15, // 15% احتمال التنفيذ الجزئي
+      marginMode: (import.meta.env.VITE_PAPER_TRADING_MARGIN_MODE as PaperMarginMode) || 'DISABLED',
+      maxLeverage: 3,
+      hourlyInterestRate: 0.0001, // 0.01% في الساعة
+      maintenanceMarginRatio: 0.1,
+      lotMatching: 'FIFO'
     };
+    this.ledger = new PositionLedger(this.config.lotMatching);
 
     this.account = {
       balances: {
@@ -94,6 +169,10 @@ export class PaperTradingService {
         'ADA': 0,
         'SOL': 0
       },
+      lockedBalances: {},
+      marginPositions: {},
+      shortRealizedPnL: 0,
+      liquidations: 0,
       totalValue: parseFloat(import.meta.env.VITE_PAPER_TRADING_BALANCE || '10000'),
       unrealizedPnL: 0,
       realizedPnL: 0,
@@ -105,7 +184,8 @@ export class PaperTradingService {
     };
     
     this.initializeRealMarketData();
-    this.startRealPriceUpdates();
+    this.subscribeMarketEvents();
+    this.restoreState();
   }
 
   public static getInstance(): PaperTradingService {
@@ -119,15 +199,13 @@ export class PaperTradingService {
    * تهيئة بيانات السوق الحقيقية من Binance
    */
   private async initializeRealMarketData(): Promise<void> {
-    const symbols = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'SOLUSDT'];
-    
     try {
       // جلب الأسعار الحالية
       const currentPrices = await backendService.getCurrentPrices();
       
       if (Array.isArray(currentPrices)) {
         for (const priceData of currentPrices) {
-          if (symbols.includes(priceData.symbol)) {
+          if (PAPER_SYMBOLS.includes(priceData.symbol)) {
             await this.updateSymbolMarketData(priceData.symbol, parseFloat(priceData.price));
           }
         }
@@ -181,58 +259,91 @@ export class PaperTradingService {
       console.error(`[PAPER TRADING] Failed to update market data for ${symbol}:`, error);
       
       // استخدام بيانات مبسطة كـ fallback
-      this.marketData.set(symbol, {
-        symbol,
-        currentPrice,
-        bid: currentPrice * 0.9995,
-        ask: currentPrice * 1.0005,
-        spread: 0.05,
-        volume24h: 1000000000,
-        lastUpdate: Date.now(),
-        orderBook: {
-          bids: [{ price: currentPrice * 0.9995, quantity: 10 }],
-          asks: [{ price: currentPrice * 1.0005, quantity: 10 }],
-          lastUpdateId: Date.now()
-        }
-      });
+      this.marketData.set(symbol, this.createSimpleMarketData(symbol, currentPrice));
     }
   }
 
+  private createSimpleMarketData(symbol: string, currentPrice: number): RealMarketData {
+    return {
+      symbol,
+      currentPrice,
+      bid: currentPrice * 0.9995,
+      ask: currentPrice * 1.0005,
+      spread: 0.05,
+      volume24h: 1000000000,
+      lastUpdate: Date.now(),
+      orderBook: {
+        bids: [{ price: currentPrice * 0.9995, quantity: 10 }],
+        asks: [{ price: currentPrice * 1.0005, quantity: 10 }],
+        lastUpdateId: Date.now()
+      }
+    };
+  }
+
   /**
-   * بدء تحديث الأسعار الحقيقية
+   * تحديث بيانات السوق من أحداث الخادم المدفوعة بدلاً من الاستطلاع:
+   * price من شموع الدقيقة، bookTicker لأفضل عرض وطلب، depth لمستويات الدفتر
    */
-  private startRealPriceUpdates(): void {
-    this.priceUpdateInterval = setInterval(async () => {
-      await this.updateRealMarketPrices();
-    }, 5000); // تحديث كل 5 ثواني
+  private subscribeMarketEvents(): void {
+    this.marketSubscriptions = [
+      backendService.subscribeEvents('price', event => {
+        if (!this.marketData.has(event.symbol)) {
+          this.marketData.set(event.symbol, this.createSimpleMarketData(event.symbol, event.price));
+        }
+        this.applyMarketUpdate(event.symbol, data => {
+          data.currentPrice = event.price;
+          if (event.bid !== null && event.ask !== null) this.setTopOfBook(data, event.bid, event.ask);
+        });
+      }, PAPER_SYMBOLS),
+      backendService.subscribeEvents('bookTicker', event => {
+        this.applyMarketUpdate(event.symbol, data => this.setTopOfBook(data, event.bid, event.ask));
+      }, PAPER_SYMBOLS),
+      backendService.subscribeEvents('depth', event => {
+        this.applyMarketUpdate(event.symbol, data => {
+          data.orderBook = { bids: event.bids, asks: event.asks, lastUpdateId: event.lastUpdateId };
+          if (event.bids.length > 0 && event.asks.length > 0) {
+            this.setTopOfBook(data, event.bids[0].price, event.asks[0].price);
+          }
+        });
+      }, PAPER_SYMBOLS)
+    ];
   }
 
   /**
-   * تحديث أسعار السوق الحقيقية
+   * تطبيق حدث سوق ثم تنفيذ الأوامر المعلقة وفحص مراكز الهامش
+   * المعالجة متسلسلة، والأحداث التي تصل أثناء انتظار رمز تدمج في دورة واحدة بآخر البيانات
    */
-  private async updateRealMarketPrices(): Promise<void> {
-    try {
-      const symbols = Array.from(this.marketData.keys());
-      
-      // جلب الأسعار الحالية لجميع الرموز
-      for (const symbol of symbols) {
-        const priceData = await backendService.getCurrentPrices(symbol);
-        
-        if (priceData && priceData.price) {
-          await this.updateSymbolMarketData(symbol, parseFloat(priceData.price));
-        }
-      }
-      
-    } catch (error) {
-      console.error('[PAPER TRADING] Failed to update real market prices:', error);
-    }
+  private applyMarketUpdate(symbol: string, update: (data: RealMarketData) => void): void {
+    const data = this.marketData.get(symbol);
+    if (!data) return;
+
+    update(data);
+    data.lastUpdate = Date.now();
+    this.riskManager.updatePrice(symbol, data.currentPrice);
+
+    if (this.pendingSymbols.has(symbol)) return;
+    this.pendingSymbols.add(symbol);
+    this.marketUpdates = this.marketUpdates
+      .then(async () => {
+        this.pendingSymbols.delete(symbol);
+        await this.processOpenOrders(symbol);
+        await this.updateMarginPositions();
+      })
+      .catch(error => {
+        console.error(`[PAPER TRADING] Failed to process market update for ${symbol}:`, error);
+      });
+  }
+
+  private setTopOfBook(data: RealMarketData, bid: number, ask: number): void {
+    data.bid = bid;
+    data.ask = ask;
+    data.spread = ((ask - bid) / bid) * 100;
   }
 
   /**
    * بيانات افتراضية كـ fallback
    */
   private initializeFallbackData(): void {
-    const symbols = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'SOLUSDT'];
     const basePrices = {
       'BTCUSDT': 43250,
       'ETHUSDT': 2650,
@@ -241,7 +352,7 @@ export class PaperTradingService {
       'SOLUSDT': 98
     };
 
-    symbols.forEach(symbol => {
+    PAPER_SYMBOLS.forEach(symbol => {
       const basePrice = basePrices[symbol as keyof typeof basePrices];
       const spread = basePrice * 0.001;
       
@@ -272,15 +383,9 @@ export class PaperTradingService {
 
   /**
    * تنفيذ أمر paper trading مع محاكاة واقعية
+   * أوامر LIMIT بصلاحية GTC وأوامر الوقف تبقى في openOrders حتى تنفذ مع تحديثات الأسعار
    */
-  public async placeOrder(orderRequest: {
-    symbol: string;
-    side: 'BUY' | 'SELL';
-    type: 'MARKET' | 'LIMIT';
-    quantity: number;
-    price?: number;
-    timeInForce?: 'GTC' | 'IOC' | 'FOK';
-  }): Promise<PaperTradeOrder> {
+  public async placeOrder(orderRequest: PaperOrderRequest): Promise<PaperTradeOrder> {
     const orderId = this.generateOrderId();
     const timestamp = new Date().toISOString();
     const executionStart = performance.now();
@@ -298,10 +403,42 @@ export class PaperTradingService {
       type: orderRequest.type,
       quantity: orderRequest.quantity,
       price: orderRequest.price,
+      stopPrice: orderRequest.stopPrice,
+      timeInForce: orderRequest.type === 'MARKET' ? undefined : (orderRequest.timeInForce || 'GTC'),
       status: 'PENDING',
       timestamp,
       fills: []
     };
+    this.orderHistory.push(order);
+
+    const validationError = this.validateOrder(order, marketData) || this.checkRisk(order, marketData);
+    if (validationError) {
+      order.status = 'REJECTED';
+      order.reason = validationError;
+      console.warn(`[PAPER TRADING] Order rejected: ${validationError}`);
+      this.persistState();
+      return order;
+    }
+
+    if (order.type === 'LIMIT') {
+      await this.simulateNetworkLatency();
+      await this.executeLimitOrder(order, marketData);
+      order.latency = performance.now() - executionStart;
+      this.persistState();
+      return order;
+    }
+
+    if (this.isStopOrder(order)) {
+      // أمر الوقف ينتظر وصول السعر إلى سعر التفعيل
+      this.lockFunds(order, this.getRequiredLock(order));
+      this.openOrders.set(order.id, order);
+      console.log(
+        `[PAPER TRADING] ⏳ ${order.type} ${order.side} ${order.quantity} ${order.symbol} ` +
+        `waiting for stop @ $${order.stopPrice}`
+      );
+      this.persistState();
+      return order;
+    }
 
     // محاكاة تنفيذ الأمر مع order book حقيقي
     const executionResult = await this.simulateRealisticOrderExecution(order, marketData);
@@ -314,31 +451,17 @@ export class PaperTradingService {
       order.status = executionResult.partialFill ? 'PARTIALLY_FILLED' : 'FILLED';
       order.executedPrice = executionResult.avgExecutionPrice;
       order.executedQuantity = executionResult.totalExecutedQuantity;
-      order.remainingQuantity = order.quantity - executionResult.totalExecutedQuantity;
+      order.remainingQuantity = order.quantity - executionResult.totalExecutedQuantity!;
       order.fees = executionResult.totalFees;
       order.slippage = executionResult.totalSlippage;
       order.reason = executionResult.reason;
-      order.fills = executionResult.fills;
+      order.fills = executionResult.fills!;
 
       // تحديث الرصيد
-      this.updateAccountBalance(order);
+      this.updateAccountBalance(order, order.executedQuantity!, order.executedPrice!, order.fees!);
       
       // تسجيل الصفقة
-      await secureLoggingService.logTrade({
-        symbol: order.symbol,
-        action: order.side,
-        price: order.executedPrice!,
-        size: order.executedQuantity!,
-        reason: `Paper trading: ${executionResult.reason}`,
-        confidence: 100,
-        strategy: 'PAPER_TRADING',
-        isDryRun: true,
-        orderId: order.id,
-        executedPrice: order.executedPrice,
-        executedSize: order.executedQuantity,
-        fees: order.fees,
-        status: 'SIMULATED'
-      });
+      await this.logOrderExecution(order, executionResult.reason!);
 
       console.log(
         `[PAPER TRADING] ✅ ${order.side} ${order.executedQuantity?.toFixed(6)} ${order.symbol} ` +
@@ -351,10 +474,377 @@ export class PaperTradingService {
       console.warn(`[PAPER TRADING] Order rejected: ${executionResult.reason}`);
     }
 
-    this.orderHistory.push(order);
+    this.persistState();
     return order;
   }
 
+  /**
+   * وضع أمر OCO: أمر محدد وأمر وقف خسارة، تنفيذ أحدهما يلغي الآخر
+   */
+  public async placeOcoOrder(request: {
+    symbol: string;
+    side: 'BUY' | 'SELL';
+    quantity: number;
+    price: number;
+    stopPrice: number;
+    stopLimitPrice?: number;
+  }): Promise<PaperOcoOrder> {
+    const marketData = this.marketData.get(request.symbol);
+    if (!marketData) {
+      throw new Error(`Real market data not available for ${request.symbol}`);
+    }
+
+    const orderListId = this.generateOrderId('paper_oco');
+    const timestamp = new Date().toISOString();
+    const base = {
+      symbol: request.symbol,
+      side: request.side,
+      quantity: request.quantity,
+      timeInForce: 'GTC' as const,
+      orderListId,
+      status: 'PENDING' as const,
+      timestamp
+    };
+
+    const limitLeg: PaperTradeOrder = { ...base, id: this.generateOrderId(), type: 'LIMIT', price: request.price, fills: [] };
+    const stopLeg: PaperTradeOrder = {
+      ...base,
+      id: this.generateOrderId(),
+      type: 'STOP_LOSS_LIMIT',
+      price: request.stopLimitPrice ?? request.stopPrice,
+      stopPrice: request.stopPrice,
+      fills: []
+    };
+    const orders = [limitLeg, stopLeg];
+    this.orderHistory.push(...orders);
+
+    // سعر الحد فوق السوق ووقف الخسارة تحته عند البيع (والعكس عند الشراء)
+    const currentPrice = marketData.currentPrice;
+    const pricesValid = request.side === 'SELL'
+      ? request.price > currentPrice && request.stopPrice < currentPrice
+      : request.price < currentPrice && request.stopPrice > currentPrice;
+
+    // رصيد واحد محجوز للقائمة كاملة على أعلى سعر من الساقين
+    const lockAmount = request.side === 'BUY'
+      ? request.quantity * Math.max(limitLeg.price!, stopLeg.price!) * (1 + this.config.feeRate)
+      : request.quantity;
+
+    const error = !pricesValid
+      ? 'Invalid OCO prices relative to the current market'
+      : this.validateOrder(limitLeg, marketData) || this.validateOrder(stopLeg, marketData) ||
+        (this.getFreeBalance(limitLeg) < lockAmount ? 'Insufficient balance' : null) ||
+        this.checkRisk(limitLeg, marketData);
+
+    if (error) {
+      orders.forEach(order => {
+        order.status = 'REJECTED';
+        order.reason = error;
+      });
+      console.warn(`[PAPER TRADING] OCO rejected: ${error}`);
+      this.persistState();
+      return { orderListId, symbol: request.symbol, listStatus: 'REJECTED', orders };
+    }
+
+    this.lockFunds(limitLeg, lockAmount);
+    orders.forEach(order => this.openOrders.set(order.id, order));
+
+    console.log(
+      `[PAPER TRADING] ⏳ OCO ${request.side} ${request.quantity} ${request.symbol} ` +
+      `limit @ $${request.price} / stop @ $${request.stopPrice}`
+    );
+
+    this.persistState();
+    return { orderListId, symbol: request.symbol, listStatus: 'EXECUTING', orders };
+  }
+
+  /**
+   * فحص حدود المخاطر على مستوى المحفظة (يعيد سبب الرفض أو null)
+   */
+  private checkRisk(order: PaperTradeOrder, marketData: RealMarketData): string | null {
+    const result = this.riskManager.checkOrder({
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price: order.price || marketData.currentPrice
+    });
+    return result.approved ? null : `Risk check failed: ${result.reason}`;
+  }
+
+  /**
+   * التحقق من الأمر قبل قبوله (يعيد سبب الرفض أو null)
+   */
+  private validateOrder(order: PaperTradeOrder, marketData: RealMarketData): string | null {
+    const minOrderSize = this.getMinOrderSize(order.symbol);
+    if (order.quantity < minOrderSize) {
+      return `Order size below minimum (${minOrderSize})`;
+    }
+
+    if (order.type === 'MARKET') return null;
+
+    if (!order.price || order.price <= 0) {
+      return `Price is required for ${order.type} orders`;
+    }
+
+    if (this.isStopOrder(order)) {
+      if (!order.stopPrice || order.stopPrice <= 0) {
+        return `Stop price is required for ${order.type} orders`;
+      }
+      if (this.isStopTriggered(order, marketData.currentPrice)) {
+        return 'Stop price would trigger immediately';
+      }
+    }
+
+    // الأوامر التي قد تبقى معلقة تحجز رصيدها كاملاً
+    if (!order.orderListId && this.getFreeBalance(order) < this.getRequiredLock(order)) {
+      return 'Insufficient balance';
+    }
+
+    return null;
+  }
+
+  /**
+   * تنفيذ أمر محدد حسب صلاحيته: GTC يبقى معلقاً، IOC يلغي الباقي، FOK كامل أو لا شيء
+   */
+  private async executeLimitOrder(order: PaperTradeOrder, marketData: RealMarketData): Promise<void> {
+    const remaining = order.quantity - (order.executedQuantity || 0);
+    const fills = this.matchLimitOrder(order, marketData, remaining);
+    const matched = fills.reduce((sum, fill) => sum + fill.quantity, 0);
+
+    if (order.timeInForce === 'FOK' && matched < remaining) {
+      this.closeOpenOrder(order, 'EXPIRED', 'FOK order could not be filled completely');
+      console.warn(`[PAPER TRADING] FOK order expired: ${order.id}`);
+      return;
+    }
+
+    if (matched > 0) {
+      await this.applyFills(order, fills);
+    }
+
+    if (this.isOrderComplete(order)) {
+      this.closeOpenOrder(order, 'FILLED', 'Order fully executed');
+      return;
+    }
+
+    if (order.timeInForce === 'IOC') {
+      this.closeOpenOrder(
+        order,
+        matched > 0 ? 'PARTIALLY_FILLED' : 'EXPIRED',
+        'IOC remainder expired'
+      );
+      return;
+    }
+
+    // GTC: الباقي يبقى معلقاً في openOrders
+    if (!this.openOrders.has(order.id)) {
+      this.lockFunds(order, this.getRequiredLock(order));
+      this.openOrders.set(order.id, order);
+    }
+    order.status = matched > 0 || (order.executedQuantity || 0) > 0 ? 'PARTIALLY_FILLED' : 'PENDING';
+    console.log(`[PAPER TRADING] ⏳ ${order.side} LIMIT ${order.symbol} resting @ $${order.price}`);
+  }
+
+  /**
+   * مطابقة أمر محدد مع مستويات order book التي لا تتجاوز سعره
+   */
+  private matchLimitOrder(order: PaperTradeOrder, marketData: RealMarketData, quantity: number): PaperFill[] {
+    const bookSide = order.side === 'BUY' ? marketData.orderBook.asks : marketData.orderBook.bids;
+    const fills: PaperFill[] = [];
+    let remaining = quantity;
+
+    for (const level of bookSide) {
+      if (remaining <= 0) break;
+      const crosses = order.side === 'BUY' ? level.price <= order.price! : level.price >= order.price!;
+      if (!crosses) break;
+
+      const fillQuantity = Math.min(remaining, level.quantity);
+      fills.push({
+        price: level.price,
+        quantity: fillQuantity,
+        fee: fillQuantity * level.price * this.config.feeRate,
+        timestamp: new Date().toISOString()
+      });
+      remaining -= fillQuantity;
+    }
+
+    return fills;
+  }
+
+  /**
+   * معالجة الأوامر المعلقة لرمز بعد تحديث سعره
+   */
+  private async processOpenOrders(symbol: string): Promise<void> {
+    const marketData = this.marketData.get(symbol);
+    if (!marketData) return;
+
+    const orders = this.getOpenOrders().filter(order => order.symbol === symbol);
+    let changed = false;
+
+    for (const order of orders) {
+      // ربما ألغي كجزء من OCO أثناء هذه الدورة
+      if (!this.openOrders.has(order.id)) continue;
+
+      if (this.isStopOrder(order) && !order.isWorking) {
+        if (!this.isStopTriggered(order, marketData.currentPrice)) continue;
+
+        order.isWorking = true;
+        this.cancelOcoSibling(order);
+        console.log(`[PAPER TRADING] 🔔 ${order.type} triggered for ${symbol} @ $${marketData.currentPrice}`);
+
+        // بعد التفعيل يتصرف كأمر محدد جديد
+        await this.executeLimitOrder(order, marketData);
+        changed = true;
+        continue;
+      }
+
+      // الأمر المحدد المعلق ينفذ بسعره عند وصول السوق إليه
+      const crossed = order.side === 'BUY' ? marketData.ask <= order.price! : marketData.bid >= order.price!;
+      if (!crossed) continue;
+
+      const remaining = order.quantity - (order.executedQuantity || 0);
+      await this.applyFills(order, [{
+        price: order.price!,
+        quantity: remaining,
+        fee: remaining * order.price! * this.config.feeRate,
+        timestamp: new Date().toISOString()
+      }]);
+      this.cancelOcoSibling(order);
+      this.closeOpenOrder(order, 'FILLED', 'Resting order filled');
+      changed = true;
+    }
+
+    if (changed) {
+      this.persistState();
+    }
+  }
+
+  /**
+   * تطبيق تنفيذات على أمر وتحديث الرصيد وسجل الأمر
+   */
+  private async applyFills(order: PaperTradeOrder, fills: PaperFill[]): Promise<void> {
+    for (const fill of fills) {
+      // تحرير الجزء المحجوز المقابل قبل الخصم
+      if (order.lockedAmount) {
+        const perUnit = order.side === 'BUY' ? order.price! * (1 + this.config.feeRate) : 1;
+        this.releaseFunds(order, fill.quantity * perUnit);
+      }
+
+      this.updateAccountBalance(order, fill.quantity, fill.price, fill.fee);
+
+      const previousQuantity = order.executedQuantity || 0;
+      const executedQuantity = previousQuantity + fill.quantity;
+      order.executedPrice = ((order.executedPrice || 0) * previousQuantity + fill.price * fill.quantity) / executedQuantity;
+      order.executedQuantity = executedQuantity;
+      order.remainingQuantity = Math.max(0, order.quantity - executedQuantity);
+      order.fees = (order.fees || 0) + fill.fee;
+      order.fills.push(fill);
+    }
+
+    const filledQuantity = fills.reduce((sum, fill) => sum + fill.quantity, 0);
+    await this.logOrderExecution(order, `${order.type} fill ${filledQuantity}`);
+
+    console.log(
+      `[PAPER TRADING] ✅ ${order.side} ${filledQuantity.toFixed(6)} ${order.symbol} ` +
+      `@ $${order.executedPrice?.toFixed(2)} (${order.type})`
+    );
+  }
+
+  private async logOrderExecution(order: PaperTradeOrder, reason: string): Promise<void> {
+    await secureLoggingService.logTrade({
+      symbol: order.symbol,
+      action: order.side,
+      price: order.executedPrice!,
+      size: order.executedQuantity!,
+      reason: `Paper trading: ${reason}`,
+      confidence: 100,
+      strategy: 'PAPER_TRADING',
+      isDryRun: true,
+      orderId: order.id,
+      executedPrice: order.executedPrice,
+      executedSize: order.executedQuantity,
+      fees: order.fees,
+      status: 'SIMULATED'
+    });
+  }
+
+  private isOrderComplete(order: PaperTradeOrder): boolean {
+    return (order.executedQuantity || 0) >= order.quantity - 1e-12;
+  }
+
+  private isStopOrder(order: PaperTradeOrder): boolean {
+    return order.type === 'STOP_LOSS_LIMIT' || order.type === 'TAKE_PROFIT_LIMIT';
+  }
+
+  /**
+   * شرط تفعيل أمر الوقف كما في Binance
+   */
+  private isStopTriggered(order: PaperTradeOrder, price: number): boolean {
+    const stopPrice = order.stopPrice!;
+    if (order.type === 'STOP_LOSS_LIMIT') {
+      return order.side === 'SELL' ? price <= stopPrice : price >= stopPrice;
+    }
+    return order.side === 'SELL' ? price >= stopPrice : price <= stopPrice;
+  }
+
+  /**
+   * إنهاء أمر معلق وتحرير ما تبقى من رصيده المحجوز
+   */
+  private closeOpenOrder(order: PaperTradeOrder, status: PaperTradeOrder['status'], reason: string): void {
+    order.status = status;
+    order.reason = reason;
+    this.releaseFunds(order);
+    this.openOrders.delete(order.id);
+  }
+
+  /**
+   * إلغاء الساق الأخرى في OCO ونقل رصيدها المحجوز للأمر المنفذ
+   */
+  private cancelOcoSibling(order: PaperTradeOrder): void {
+    if (!order.orderListId) return;
+
+    this.openOrders.forEach(sibling => {
+      if (sibling.id === order.id || sibling.orderListId !== order.orderListId) return;
+
+      order.lockedAmount = (order.lockedAmount || 0) + (sibling.lockedAmount || 0);
+      sibling.lockedAmount = 0;
+      sibling.status = 'CANCELLED';
+      sibling.reason = 'OCO sibling executed';
+      this.openOrders.delete(sibling.id);
+    });
+  }
+
+  private getLockAsset(order: PaperTradeOrder): string {
+    return order.side === 'BUY' ? this.getQuoteAsset(order.symbol) : this.getBaseAsset(order.symbol);
+  }
+
+  private getFreeBalance(order: PaperTradeOrder): number {
+    return this.account.balances[this.getLockAsset(order)] || 0;
+  }
+
+  /**
+   * الرصيد المطلوب حجزه لباقي الأمر
+   */
+  private getRequiredLock(order: PaperTradeOrder): number {
+    const remaining = order.quantity - (order.executedQuantity || 0);
+    return order.side === 'BUY' ? remaining * order.price! * (1 + this.config.feeRate) : remaining;
+  }
+
+  private lockFunds(order: PaperTradeOrder, amount: number): void {
+    const asset = this.getLockAsset(order);
+    this.account.balances[asset] = (this.account.balances[asset] || 0) - amount;
+    this.account.lockedBalances[asset] = (this.account.lockedBalances[asset] || 0) + amount;
+    order.lockedAmount = (order.lockedAmount || 0) + amount;
+  }
+
+  private releaseFunds(order: PaperTradeOrder, amount: number = order.lockedAmount || 0): void {
+    const released = Math.min(amount, order.lockedAmount || 0);
+    if (released <= 0) return;
+
+    const asset = this.getLockAsset(order);
+    this.account.lockedBalances[asset] = (this.account.lockedBalances[asset] || 0) - released;
+    this.account.balances[asset] = (this.account.balances[asset] || 0) + released;
+    order.lockedAmount = (order.lockedAmount || 0) - released;
+  }
+
   /**
    * محاكاة تنفيذ الأمر الواقعية مع order book
    */
@@ -376,15 +866,6 @@ export class PaperTradingService {
       };
     }
 
-    // فحص حجم الأمر الأدنى
-    const minOrderSize = this.getMinOrderSize(order.symbol);
-    if (order.quantity < minOrderSize) {
-      return {
-        success: false,
-        reason: `Order size below minimum (${minOrderSize})`
-      };
-    }
-
     // محاكاة تأخير الشبكة
     await this.simulateNetworkLatency();
 
@@ -398,75 +879,42 @@ export class PaperTradingService {
     // تحديد الجانب المناسب من order book
     const bookSide = order.side === 'BUY' ? marketData.orderBook.asks : marketData.orderBook.bids;
     
-    if (order.type === 'MARKET') {
-      // تنفيذ أمر السوق مقابل order book
-      for (const level of bookSide) {
-        if (remainingQuantity <= 0) break;
-
-        const availableQuantity = level.quantity;
-        const fillQuantity = Math.min(remainingQuantity, availableQuantity);
-        
-        // تطبيق انزلاق السعر
-        let executionPrice = level.price;
-        if (this.config.enableSlippage) {
-          const slippage = this.calculateDynamicSlippage(fillQuantity, order.symbol, marketData);
-          executionPrice = order.side === 'BUY' 
-            ? level.price * (1 + slippage)
-            : level.price * (1 - slippage);
-          totalSlippage += slippage * fillQuantity;
-        }
-
-        // حساب الرسوم
-        const fee = fillQuantity * executionPrice * this.config.feeRate;
-        totalFees += fee;
+    // تنفيذ أمر السوق مقابل order book
+    for (const level of bookSide) {
+      if (remainingQuantity <= 0) break;
 
-        // إضافة التنفيذ
-        fills.push({
-          price: executionPrice,
-          quantity: fillQuantity,
-          fee,
-          timestamp: new Date().toISOString()
-        });
+      const availableQuantity = level.quantity;
+      const fillQuantity = Math.min(remainingQuantity, availableQuantity);
+      
+      // تطبيق انزلاق السعر
+      let executionPrice = level.price;
+      if (this.config.enableSlippage) {
+        const slippage = this.calculateDynamicSlippage(fillQuantity, order.symbol, marketData);
+        executionPrice = order.side === 'BUY' 
+          ? level.price * (1 + slippage)
+          : level.price * (1 - slippage);
+        totalSlippage += slippage * fillQuantity;
+      }
 
-        totalExecutedQuantity += fillQuantity;
-        weightedPriceSum += executionPrice * fillQuantity;
-        remainingQuantity -= fillQuantity;
+      // حساب الرسوم
+      const fee = fillQuantity * executionPrice * this.config.feeRate;
+      totalFees += fee;
 
-        // محاكاة التنفيذ الجزئي
-        if (this.config.enablePartialFills && Math.random() < this.config.partialFillProbability) {
-          break; // توقف عند تنفيذ جزئي
-        }
-      }
+      // إضافة التنفيذ
+      fills.push({
+        price: executionPrice,
+        quantity: fillQuantity,
+        fee,
+        timestamp: new Date().toISOString()
+      });
 
-    } else if (order.type === 'LIMIT' && order.price) {
-      // تنفيذ أمر محدد
-      const canExecute = order.side === 'BUY' 
-        ? order.price >= marketData.ask
-        : order.price <= marketData.bid;
-
-      if (canExecute) {
-        // تنفيذ بالسعر المحدد أو أفضل
-        const executionPrice = order.side === 'BUY' 
-          ? Math.min(order.price, marketData.ask)
-          : Math.max(order.price, marketData.bid);
-
-        const fee = order.quantity * executionPrice * this.config.feeRate;
-        
-        fills.push({
-          price: executionPrice,
-          quantity: order.quantity,
-          fee,
-          timestamp: new Date().toISOString()
-        });
+      totalExecutedQuantity += fillQuantity;
+      weightedPriceSum += executionPrice * fillQuantity;
+      remainingQuantity -= fillQuantity;
 
-        totalExecutedQuantity = order.quantity;
-        totalFees = fee;
-        weightedPriceSum = executionPrice * order.quantity;
-      } else {
-        return {
-          success: false,
-          reason: `Limit price not reachable. Current ${order.side === 'BUY' ? 'ask' : 'bid'}: ${order.side === 'BUY' ? marketData.ask : marketData.bid}`
-        };
+      // محاكاة التنفيذ الجزئي
+      if (this.config.enablePartialFills && Math.random() < this.config.partialFillProbability) {
+        break; // توقف عند تنفيذ جزئي
       }
     }
 
@@ -537,9 +985,15 @@ export class PaperTradingService {
 
     if (order.side === 'BUY') {
       const requiredQuote = order.quantity * marketData.ask * 1.002; // مع هامش للرسوم
-      return this.account.balances[quoteAsset] >= requiredQuote;
+      // ضمان المركز المعزول متاح لتغطيته
+      const collateral = this.account.marginPositions[order.symbol]?.collateral || 0;
+      return this.account.balances[quoteAsset] + collateral >= requiredQuote;
     } else {
-      return this.account.balances[baseAsset] >= order.quantity;
+      const available = Math.max(0, this.account.balances[baseAsset] || 0);
+      if (available >= order.quantity) return true;
+
+      // البيع على المكشوف: اقتراض النقص عند تفعيل الهامش
+      return this.canBorrow(order.symbol, order.quantity - available, marketData.bid);
     }
   }
 
@@ -559,69 +1013,318 @@ export class PaperTradingService {
   }
 
   /**
-   * تحديث رصيد الحساب بعد تنفيذ الأمر
+   * تحديث رصيد الحساب بعد تنفيذ (كامل أو جزئي) للأمر
    */
-  private updateAccountBalance(order: PaperTradeOrder): void {
+  private updateAccountBalance(order: PaperTradeOrder, quantity: number, price: number, fees: number): void {
     const baseAsset = this.getBaseAsset(order.symbol);
     const quoteAsset = this.getQuoteAsset(order.symbol);
 
+    const marginPosition = this.account.marginPositions[order.symbol];
+    const realizedBefore = order.realizedPnL || 0;
+    let spotQuantity = quantity;
+
     if (order.side === 'BUY') {
+      // تحرير حصة الضمان المعزول المقابلة للكمية المغطاة
+      if (marginPosition?.mode === 'ISOLATED') {
+        const share = Math.min(1, quantity / (marginPosition.borrowed + marginPosition.interest));
+        this.transferCollateral(marginPosition, -marginPosition.collateral * share);
+      }
+
       // خصم العملة المقتبسة
-      const totalCost = order.executedQuantity! * order.executedPrice! + order.fees!;
+      const totalCost = quantity * price + fees;
       this.account.balances[quoteAsset] -= totalCost;
       
       // إضافة العملة الأساسية
-      this.account.balances[baseAsset] += order.executedQuantity!;
+      this.account.balances[baseAsset] = (this.account.balances[baseAsset] || 0) + quantity;
+
+      // ما يتبقى بعد سداد القرض يضاف كدفعة شراء
+      const repaid = marginPosition ? this.repayBorrowed(order, marginPosition, quantity, price, fees) : 0;
+      const lotQuantity = quantity - repaid;
+      if (lotQuantity > 1e-12) {
+        this.ledger.addLot(baseAsset, {
+          orderId: order.id,
+          quantity: lotQuantity,
+          price,
+          fee: fees * (lotQuantity / quantity),
+          timestamp: new Date().toISOString()
+        });
+      }
     } else {
+      // اقتراض النقص عند البيع على المكشوف
+      const shortfall = quantity - Math.max(0, this.account.balances[baseAsset] || 0);
+      const borrowed = shortfall > 1e-12 ? this.borrow(order.symbol, shortfall, price) : 0;
+      if (borrowed > 0) {
+        order.borrowedQuantity = (order.borrowedQuantity || 0) + borrowed;
+        spotQuantity = quantity - borrowed;
+      }
+
       // خصم العملة الأساسية
-      this.account.balances[baseAsset] -= order.executedQuantity!;
+      this.account.balances[baseAsset] -= quantity;
       
       // إضافة العملة المقتبسة (مطروحاً منها الرسوم)
-      const totalReceived = order.executedQuantity! * order.executedPrice! - order.fees!;
+      const totalReceived = quantity * price - fees;
       this.account.balances[quoteAsset] += totalReceived;
+
+      // في الهامش المعزول تبقى عائدات البيع ضمن ضمان المركز
+      const shortPosition = this.account.marginPositions[order.symbol];
+      if (borrowed > 0 && shortPosition?.mode === 'ISOLATED') {
+        this.transferCollateral(shortPosition, totalReceived * (borrowed / quantity));
+      }
     }
 
     // تحديث إحصائيات الحساب
     this.account.totalTrades++;
     
-    // حساب الربح/الخسارة للصفقة
-    if (order.side === 'SELL') {
-      const avgBuyPrice = this.getAverageBuyPrice(baseAsset);
-      if (avgBuyPrice > 0) {
-        const profit = (order.executedPrice! - avgBuyPrice) * order.executedQuantity!;
-        this.account.dailyPnL += profit;
-        
-        if (profit > 0) {
-          this.account.winningTrades++;
-        }
+    // حساب الربح/الخسارة للصفقة من سجل الدفعات (الجزء غير المقترض فقط)
+    if (order.side === 'SELL' && spotQuantity > 1e-12) {
+      const trade = this.ledger.closeLots(baseAsset, {
+        orderId: order.id,
+        quantity: spotQuantity,
+        price,
+        fee: fees * (spotQuantity / quantity),
+        timestamp: new Date().toISOString()
+      });
+      if (trade) {
+        order.realizedPnL = (order.realizedPnL || 0) + trade.pnl;
+        this.account.dailyPnL += trade.pnl;
       }
     }
+
+    this.syncLedgerStats();
+    this.riskManager.recordFill({
+      symbol: order.symbol,
+      side: order.side,
+      quantity,
+      price,
+      realizedPnL: (order.realizedPnL || 0) - realizedBefore
+    });
     
     this.updateAccountValue();
   }
 
   /**
-   * حساب متوسط سعر الشراء
+   * وضع الهامش للرمز: وضع المركز المفتوح إن وجد وإلا الإعداد الحالي
    */
-  private getAverageBuyPrice(asset: string): number {
-    // حساب متوسط سعر الشراء من سجل الصفقات
-    const buyOrders = this.orderHistory.filter(order => 
-      order.side === 'BUY' && 
-      order.status === 'FILLED' && 
-      this.getBaseAsset(order.symbol) === asset
-    );
+  private getMarginMode(symbol: string): PaperMarginMode {
+    const position: PaperMarginPosition | undefined = this.account.marginPositions[symbol];
+    return position ? position.mode : this.config.marginMode;
+  }
 
-    if (buyOrders.length === 0) return 0;
+  /**
+   * هل يمكن اقتراض كمية للبيع على المكشوف ضمن حدود الرافعة
+   */
+  private canBorrow(symbol: string, quantity: number, price: number): boolean {
+    const mode = this.getMarginMode(symbol);
+    if (mode === 'DISABLED') return false;
 
-    let totalQuantity = 0;
-    let totalValue = 0;
+    const requiredMargin = (quantity * price) / this.config.maxLeverage;
+    if (mode === 'ISOLATED') {
+      return (this.account.balances[this.getQuoteAsset(symbol)] || 0) >= requiredMargin;
+    }
+
+    // الهامش المتقاطع: صافي قيمة الحساب يغطي الهامش الابتدائي لكل الالتزامات
+    const liabilities = this.getLiabilityValue('CROSS') + quantity * price;
+    return this.getCrossEquity() >= liabilities / this.config.maxLeverage;
+  }
+
+  /**
+   * اقتراض العملة الأساسية وفتح/زيادة المركز القصير
+   */
+  private borrow(symbol: string, quantity: number, price: number): number {
+    const mode = this.getMarginMode(symbol);
+    if (mode === 'DISABLED') return 0;
+
+    const position = this.account.marginPositions[symbol] || {
+      symbol,
+      mode,
+      borrowed: 0,
+      interest: 0,
+      entryPrice: 0,
+      collateral: 0,
+      openedAt: new Date().toISOString(),
+      lastInterestAt: Date.now()
+    };
+    this.account.marginPositions[symbol] = position;
+
+    if (mode === 'ISOLATED') {
+      this.transferCollateral(position, (quantity * price) / this.config.maxLeverage);
+    }
+
+    position.entryPrice = (position.entryPrice * position.borrowed + price * quantity) / (position.borrowed + quantity);
+    position.borrowed += quantity;
+
+    const baseAsset = this.getBaseAsset(symbol);
+    this.account.balances[baseAsset] = (this.account.balances[baseAsset] || 0) + quantity;
+
+    console.log(`[PAPER TRADING] 🏦 Borrowed ${quantity.toFixed(6)} ${baseAsset} (${mode}) @ $${price.toFixed(2)}`);
+    return quantity;
+  }
 
-    buyOrders.forEach(order => {
-      totalQuantity += order.executedQuantity || 0;
-      totalValue += (order.executedQuantity || 0) * (order.executedPrice || 0);
+  /**
+   * سداد القرض من الكمية المشتراة (الفائدة أولاً ثم الأصل) وحساب ربح المركز القصير
+   */
+  private repayBorrowed(
+    order: PaperTradeOrder,
+    position: PaperMarginPosition,
+    quantity: number,
+    price: number,
+    fees: number
+  ): number {
+    const baseAsset = this.getBaseAsset(position.symbol);
+    const repaid = Math.min(quantity, position.borrowed + position.interest);
+    const interestPaid = Math.min(repaid, position.interest);
+    const principalPaid = repaid - interestPaid;
+
+    position.interest -= interestPaid;
+    position.borrowed -= principalPaid;
+    this.account.balances[baseAsset] -= repaid;
+
+    // تكلفة الإغلاق تشمل شراء الفائدة المستحقة وحصة الرسوم
+    const costBasis = repaid * price + fees * (repaid / quantity);
+    const proceeds = position.entryPrice * principalPaid;
+    const pnl = proceeds - costBasis;
+    this.ledger.recordShortClose({
+      orderId: order.id,
+      asset: baseAsset,
+      quantity: repaid,
+      costBasis,
+      proceeds,
+      pnl,
+      timestamp: new Date().toISOString()
     });
+    order.realizedPnL = (order.realizedPnL || 0) + pnl;
+    this.account.dailyPnL += pnl;
+
+    if (position.borrowed + position.interest <= 1e-12) {
+      this.transferCollateral(position, -position.collateral);
+      delete this.account.marginPositions[position.symbol];
+      console.log(`[PAPER TRADING] ✅ Short ${position.symbol} closed | P&L: $${pnl.toFixed(2)}`);
+    }
+
+    return repaid;
+  }
+
+  /**
+   * مزامنة إحصائيات الحساب مع سجل الدفعات
+   */
+  private syncLedgerStats(): void {
+    this.account.winningTrades = this.ledger.getWinningTrades();
+    this.account.shortRealizedPnL = this.ledger.getTotalRealizedPnL('SHORT');
+  }
+
+  /**
+   * نقل رصيد بين المحفظة وضمان المركز المعزول (موجب = إلى الضمان)
+   */
+  private transferCollateral(position: PaperMarginPosition, amount: number): void {
+    const quoteAsset = this.getQuoteAsset(position.symbol);
+    this.account.balances[quoteAsset] = (this.account.balances[quoteAsset] || 0) - amount;
+    position.collateral += amount;
+  }
+
+  /**
+   * احتساب الفائدة الساعية ثم تصفية المراكز التي نزلت تحت هامش الصيانة
+   */
+  private async updateMarginPositions(now: number = Date.now()): Promise<void> {
+    const positions = Object.values(this.account.marginPositions);
+    if (positions.length === 0) return;
+
+    let interestAccrued = false;
+    for (const position of positions) {
+      const hours = Math.floor((now - position.lastInterestAt) / 3600000);
+      if (hours > 0) {
+        position.interest += position.borrowed * this.config.hourlyInterestRate * hours;
+        position.lastInterestAt += hours * 3600000;
+        interestAccrued = true;
+      }
+    }
+
+    const mmr = this.config.maintenanceMarginRatio;
+    const toLiquidate = positions.filter(position => {
+      if (position.mode !== 'ISOLATED') return false;
+      const liability = this.getPositionLiabilityValue(position);
+      return position.collateral - liability < liability * mmr;
+    });
+
+    const crossLiabilities = this.getLiabilityValue('CROSS');
+    if (crossLiabilities > 0 && this.getCrossEquity() < crossLiabilities * mmr) {
+      toLiquidate.push(...positions.filter(position => position.mode === 'CROSS'));
+    }
+
+    for (const position of toLiquidate) {
+      await this.liquidate(position);
+    }
+
+    this.updateAccountValue();
+    // يستدعى مع كل حدث سعر، فلا نحفظ اللقطة إلا إذا تغيرت الحالة
+    if (interestAccrued || toLiquidate.length > 0) this.persistState();
+  }
+
+  /**
+   * تصفية قسرية: شراء الالتزام كاملاً بسعر الطلب الحالي
+   */
+  private async liquidate(position: PaperMarginPosition): Promise<void> {
+    const marketData = this.marketData.get(position.symbol);
+    if (!marketData) return;
+
+    const quoteAsset = this.getQuoteAsset(position.symbol);
+    const walletBefore = this.account.balances[quoteAsset] || 0;
+    const quantity = position.borrowed + position.interest;
+
+    const order: PaperTradeOrder = {
+      id: this.generateOrderId('paper_liq'),
+      symbol: position.symbol,
+      side: 'BUY',
+      type: 'MARKET',
+      quantity,
+      status: 'FILLED',
+      reason: `Forced liquidation (${position.mode})`,
+      timestamp: new Date().toISOString(),
+      fills: []
+    };
+    this.orderHistory.push(order);
+
+    await this.applyFills(order, [{
+      price: marketData.ask,
+      quantity,
+      fee: quantity * marketData.ask * this.config.feeRate,
+      timestamp: order.timestamp
+    }]);
+
+    // الخسارة في الهامش المعزول لا تتجاوز الضمان
+    if (position.mode === 'ISOLATED' && (this.account.balances[quoteAsset] || 0) < walletBefore) {
+      this.account.balances[quoteAsset] = walletBefore;
+    }
 
-    return totalQuantity > 0 ? totalValue / totalQuantity : 0;
+    this.account.liquidations++;
+    console.warn(`[PAPER TRADING] ⚠️ Liquidated ${position.mode} short on ${position.symbol} @ $${marketData.ask}`);
+  }
+
+  private getPositionLiabilityValue(position: PaperMarginPosition): number {
+    const price = this.marketData.get(position.symbol)?.currentPrice || position.entryPrice;
+    return (position.borrowed + position.interest) * price;
+  }
+
+  private getLiabilityValue(mode: 'CROSS' | 'ISOLATED'): number {
+    return Object.values(this.account.marginPositions)
+      .filter(position => position.mode === mode)
+      .reduce((sum, position) => sum + this.getPositionLiabilityValue(position), 0);
+  }
+
+  /**
+   * صافي قيمة المحفظة المشتركة (دون المراكز المعزولة) بعد خصم التزامات الهامش المتقاطع
+   */
+  private getCrossEquity(): number {
+    let equity = 0;
+    for (const [asset, balance] of Object.entries(this.account.balances)) {
+      equity += this.valueAsset(asset, balance + (this.account.lockedBalances[asset] || 0));
+    }
+    return equity - this.getLiabilityValue('CROSS');
+  }
+
+  private valueAsset(asset: string, amount: number): number {
+    if (asset === 'USDT') return amount;
+    const marketData = this.marketData.get(`${asset}USDT`);
+    return marketData ? amount * marketData.currentPrice : 0;
   }
 
   /**
@@ -631,7 +1334,13 @@ export class PaperTradingService {
     let totalValue = 0;
     let unrealizedPnL = 0;
 
-    for (const [asset, balance] of Object.entries(this.account.balances)) {
+    // الرصيد المحجوز للأوامر المعلقة جزء من قيمة الحساب
+    const holdings: Record<string, number> = { ...this.account.balances };
+    for (const [asset, locked] of Object.entries(this.account.lockedBalances)) {
+      holdings[asset] = (holdings[asset] || 0) + locked;
+    }
+
+    for (const [asset, balance] of Object.entries(holdings)) {
       if (asset === 'USDT') {
         totalValue += balance;
       } else if (balance > 0) {
@@ -640,18 +1349,22 @@ export class PaperTradingService {
           const currentValue = balance * marketData.currentPrice;
           totalValue += currentValue;
 
-          // حساب الربح/الخسارة غير المحققة
-          const avgBuyPrice = this.getAverageBuyPrice(asset);
-          if (avgBuyPrice > 0) {
-            const positionPnL = (marketData.currentPrice - avgBuyPrice) * balance;
-            unrealizedPnL += positionPnL;
-          }
+          // حساب الربح/الخسارة غير المحققة من تكلفة الدفعات المتبقية
+          unrealizedPnL += this.ledger.getUnrealizedPnL(asset, marketData.currentPrice);
         }
       }
     }
 
+    // المراكز القصيرة: الضمان المعزول ناقص الالتزامات المقترضة
+    for (const position of Object.values(this.account.marginPositions)) {
+      const price = this.marketData.get(position.symbol)?.currentPrice || position.entryPrice;
+      totalValue += position.collateral - (position.borrowed + position.interest) * price;
+      unrealizedPnL += (position.entryPrice - price) * position.borrowed - position.interest * price;
+    }
+
     this.account.totalValue = totalValue;
     this.account.unrealizedPnL = unrealizedPnL;
+    this.riskManager.updateEquity(totalValue);
     
     // تحديث الذروة وحساب الـ drawdown
     if (totalValue > this.account.peakBalance) {
@@ -661,8 +1374,7 @@ export class PaperTradingService {
     const currentDrawdown = ((this.account.peakBalance - totalValue) / this.account.peakBalance) * 100;
     this.account.maxDrawdown = Math.max(this.account.maxDrawdown, currentDrawdown);
     
-    const initialBalance = parseFloat(import.meta.env.VITE_PAPER_TRADING_BALANCE || '10000');
-    this.account.realizedPnL = totalValue - initialBalance - unrealizedPnL;
+    this.account.realizedPnL = this.ledger.getTotalRealizedPnL();
   }
 
   /**
@@ -690,8 +1402,8 @@ export class PaperTradingService {
   /**
    * توليد معرف أمر فريد
    */
-  private generateOrderId(): string {
-    return `paper_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private generateOrderId(prefix: string = 'paper'): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
@@ -712,25 +1424,26 @@ export class PaperTradingService {
    * الحصول على تاريخ الأوامر
    */
   public getOrderHistory(limit: number = 50): PaperTradeOrder[] {
-    return this.orderHistory
+    return [...this.orderHistory]
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       .slice(0, limit);
   }
 
   /**
-   * إلغاء أمر
+   * إلغاء أمر معلق (وإلغاء قائمة OCO كاملة إن كان جزءاً منها)
    */
   public async cancelOrder(orderId: string): Promise<boolean> {
     const order = this.openOrders.get(orderId);
-    if (order && order.status === 'PENDING') {
-      order.status = 'CANCELLED';
-      this.openOrders.delete(orderId);
-      this.orderHistory.push(order);
-      
-      console.log(`[PAPER TRADING] Order cancelled: ${orderId}`);
-      return true;
-    }
-    return false;
+    if (!order) return false;
+
+    const orders = order.orderListId
+      ? this.getOpenOrders().filter(openOrder => openOrder.orderListId === order.orderListId)
+      : [order];
+    orders.forEach(openOrder => this.closeOpenOrder(openOrder, 'CANCELLED', 'Cancelled by user'));
+
+    console.log(`[PAPER TRADING] Order cancelled: ${orderId}`);
+    this.persistState();
+    return true;
   }
 
   /**
@@ -770,31 +1483,36 @@ export class PaperTradingService {
       rejectedOrders: number;
       avgFillRate: number;
     };
+    margin: {
+      mode: PaperMarginMode;
+      openShorts: number;
+      borrowedValue: number;
+      accruedInterest: number;
+      marginLevel: number;
+      liquidations: number;
+      shortRealizedPnL: number;
+      shortUnrealizedPnL: number;
+    };
   } {
     const filledOrders = this.orderHistory.filter(order => 
       order.status === 'FILLED' || order.status === 'PARTIALLY_FILLED'
     );
     
-    const winningOrders = filledOrders.filter(order => {
-      const profit = this.calculateOrderProfit(order);
-      return profit > 0;
-    });
-    
-    const losingOrders = filledOrders.filter(order => {
-      const profit = this.calculateOrderProfit(order);
-      return profit < 0;
-    });
+    // الأداء محسوب من الصفقات المحققة في سجل الدفعات
+    const realizedTrades = this.ledger.getRealizedTrades();
+    const winningTrades = realizedTrades.filter(trade => trade.pnl > 0);
+    const losingTrades = realizedTrades.filter(trade => trade.pnl < 0);
     
-    const winRate = filledOrders.length > 0 
-      ? (winningOrders.length / filledOrders.length) * 100 
+    const winRate = realizedTrades.length > 0 
+      ? (winningTrades.length / realizedTrades.length) * 100 
       : 0;
     
-    const avgProfit = winningOrders.length > 0
-      ? winningOrders.reduce((sum, order) => sum + this.calculateOrderProfit(order), 0) / winningOrders.length
+    const avgProfit = winningTrades.length > 0
+      ? winningTrades.reduce((sum, trade) => sum + trade.pnl, 0) / winningTrades.length
       : 0;
     
-    const avgLoss = losingOrders.length > 0
-      ? Math.abs(losingOrders.reduce((sum, order) => sum + this.calculateOrderProfit(order), 0) / losingOrders.length)
+    const avgLoss = losingTrades.length > 0
+      ? Math.abs(losingTrades.reduce((sum, trade) => sum + trade.pnl, 0) / losingTrades.length)
       : 0;
     
     const profitFactor = avgLoss > 0 ? avgProfit / avgLoss : 0;
@@ -818,6 +1536,19 @@ export class PaperTradingService {
       : 0;
 
     const currentDrawdown = ((this.account.peakBalance - this.account.totalValue) / this.account.peakBalance) * 100;
+
+    // إحصائيات المراكز القصيرة
+    const shorts = Object.values(this.account.marginPositions);
+    const priceOf = (position: PaperMarginPosition) =>
+      this.marketData.get(position.symbol)?.currentPrice || position.entryPrice;
+    const borrowedValue = shorts.reduce((sum, position) => sum + position.borrowed * priceOf(position), 0);
+    const accruedInterest = shorts.reduce((sum, position) => sum + position.interest * priceOf(position), 0);
+    const shortUnrealizedPnL = shorts.reduce(
+      (sum, position) => sum + (position.entryPrice - priceOf(position)) * position.borrowed - position.interest * priceOf(position),
+      0
+    );
+    const liabilities = borrowedValue + accruedInterest;
+
     const riskScore = Math.max(0, 100 - currentDrawdown - (avgLoss * 10));
 
     return {
@@ -842,35 +1573,26 @@ export class PaperTradingService {
         partialFills,
         rejectedOrders,
         avgFillRate: avgFillRate * 100
+      },
+      margin: {
+        mode: this.config.marginMode,
+        openShorts: shorts.length,
+        borrowedValue,
+        accruedInterest,
+        // مستوى الهامش = إجمالي الأصول / الالتزامات (0 عند عدم وجود قروض)
+        marginLevel: liabilities > 0 ? (this.account.totalValue + liabilities) / liabilities : 0,
+        liquidations: this.account.liquidations,
+        shortRealizedPnL: this.account.shortRealizedPnL,
+        shortUnrealizedPnL
       }
     };
   }
 
-  /**
-   * حساب ربح الأمر
-   */
-  private calculateOrderProfit(order: PaperTradeOrder): number {
-    if (!order.executedPrice || !order.executedQuantity) return 0;
-    
-    const baseAsset = this.getBaseAsset(order.symbol);
-    
-    if (order.side === 'SELL') {
-      const avgBuyPrice = this.getAverageBuyPrice(baseAsset);
-      if (avgBuyPrice > 0) {
-        return (order.executedPrice - avgBuyPrice) * order.executedQuantity - (order.fees || 0);
-      }
-    }
-    
-    return 0;
-  }
-
   /**
    * حساب نسبة شارب
    */
   private calculateSharpeRatio(): number {
-    const returns = this.orderHistory
-      .filter(order => order.status === 'FILLED')
-      .map(order => this.calculateOrderProfit(order));
+    const returns = this.ledger.getRealizedTrades().map(trade => trade.pnl);
     
     if (returns.length < 2) return 0;
     
@@ -886,7 +1608,9 @@ export class PaperTradingService {
    */
   public updateConfig(newConfig: Partial<PaperTradingConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    this.ledger.setMethod(this.config.lotMatching);
     console.log('[PAPER TRADING] Configuration updated:', this.config);
+    this.persistState();
   }
 
   /**
@@ -911,6 +1635,10 @@ export class PaperTradingService {
         'ADA': 0,
         'SOL': 0
       },
+      lockedBalances: {},
+      marginPositions: {},
+      shortRealizedPnL: 0,
+      liquidations: 0,
       totalValue: initialBalance,
       unrealizedPnL: 0,
       realizedPnL: 0,
@@ -923,18 +1651,155 @@ export class PaperTradingService {
     
     this.openOrders.clear();
     this.orderHistory = [];
+    this.ledger = new PositionLedger(this.config.lotMatching);
+    this.riskManager.reset();
     
     console.log('[PAPER TRADING] Account reset to initial state');
+    this.persistState();
+  }
+
+  /**
+   * استخدام مدير مخاطر مختلف عن المشترك (للاختبارات أو الحسابات المنفصلة)
+   */
+  public setRiskManager(manager: RiskManager): void {
+    this.riskManager = manager;
+    this.syncRiskPositions();
+  }
+
+  /**
+   * تغيير محول التخزين واستعادة الحالة المحفوظة فيه
+   */
+  public async setStorage(storage: PaperStateStorage): Promise<void> {
+    this.storage = storage;
+    this.stateRestored = false;
+    await this.restoreState();
+  }
+
+  /**
+   * تصدير حالة المحاكاة كاملة (لنقل الجلسة إلى عضو آخر في الفريق)
+   */
+  public exportState(): string {
+    return JSON.stringify(this.buildSnapshot(), null, 2);
+  }
+
+  /**
+   * استيراد حالة محاكاة مصدرة وحفظها في التخزين الحالي
+   */
+  public importState(state: string | PaperTradingSnapshot): void {
+    const raw = typeof state === 'string' ? JSON.parse(state) : JSON.parse(JSON.stringify(state));
+    this.applySnapshot(migrateSnapshot(raw));
+    this.stateRestored = true;
+    this.persistState();
+    console.log(`[PAPER TRADING] State imported (${this.orderHistory.length} orders, ${this.openOrders.size} open)`);
+  }
+
+  /**
+   * استعادة الحالة المحفوظة عند بدء الخدمة
+   */
+  private async restoreState(): Promise<void> {
+    try {
+      const saved = await this.storage.load();
+      if (saved) {
+        this.applySnapshot(migrateSnapshot(saved));
+        console.log(`[PAPER TRADING] ✅ State restored from ${this.storage.name} storage`);
+      }
+    } catch (error) {
+      console.warn('[PAPER TRADING] Failed to restore saved state:', error);
+    } finally {
+      this.stateRestored = true;
+    }
+  }
+
+  private applySnapshot(snapshot: PaperTradingSnapshot): void {
+    this.account = { ...snapshot.account, lockedBalances: snapshot.account.lockedBalances || {} };
+    this.config = { ...this.config, ...snapshot.config };
+    this.ledger = snapshot.ledger
+      ? PositionLedger.fromJSON(snapshot.ledger)
+      : this.rebuildLedger(snapshot.orderHistory);
+    this.syncLedgerStats();
+
+    // الأوامر المفتوحة يجب أن تكون نفس كائنات السجل حتى تنعكس التنفيذات عليهما معاً
+    const history = new Map(snapshot.orderHistory.map(order => [order.id, order]));
+    const openOrders = snapshot.openOrders.map(order => history.get(order.id) || order);
+
+    this.orderHistory = [
+      ...snapshot.orderHistory,
+      ...openOrders.filter(order => !history.has(order.id))
+    ];
+    this.openOrders = new Map(openOrders.map(order => [order.id, order]));
+    this.syncRiskPositions();
+  }
+
+  /**
+   * تعيين مراكز مدير المخاطر من أرصدة الحساب (صافي الرصيد بعد خصم المقترض)
+   */
+  private syncRiskPositions(): void {
+    this.riskManager.resetPositions();
+
+    for (const [asset, balance] of Object.entries(this.account.balances)) {
+      if (asset === 'USDT') continue;
+      const symbol = `${asset}USDT`;
+      const position: PaperMarginPosition | undefined = this.account.marginPositions[symbol];
+      const quantity = balance + (this.account.lockedBalances[asset] || 0) -
+        (position ? position.borrowed + position.interest : 0);
+      const price = this.marketData.get(symbol)?.currentPrice || position?.entryPrice || 0;
+      this.riskManager.setPosition(symbol, quantity, price);
+    }
+  }
+
+  /**
+   * إعادة بناء سجل الدفعات من تنفيذات السجل (للقطات الأقدم من الإصدار 3)
+   */
+  private rebuildLedger(orderHistory: PaperTradeOrder[]): PositionLedger {
+    const ledger = new PositionLedger(this.config.lotMatching);
+    const executed = orderHistory
+      .filter(order => order.fills.length > 0 && !order.borrowedQuantity && order.realizedPnL === undefined)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    for (const order of executed) {
+      const asset = this.getBaseAsset(order.symbol);
+      for (const fill of order.fills) {
+        const execution = { orderId: order.id, ...fill };
+        if (order.side === 'BUY') {
+          ledger.addLot(asset, execution);
+        } else {
+          ledger.closeLots(asset, execution);
+        }
+      }
+    }
+
+    return ledger;
+  }
+
+  private buildSnapshot(historyLimit?: number): PaperTradingSnapshot {
+    return {
+      schemaVersion: PAPER_STATE_SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      account: this.account,
+      openOrders: this.getOpenOrders(),
+      orderHistory: historyLimit ? this.orderHistory.slice(-historyLimit) : this.orderHistory,
+      ledger: this.ledger.toJSON(),
+      config: this.config
+    };
+  }
+
+  /**
+   * حفظ الحالة في محول التخزين (لا يوقف التداول عند الفشل)
+   */
+  private persistState(): void {
+    if (!this.stateRestored) return;
+
+    this.storage.save(this.buildSnapshot(MAX_PERSISTED_HISTORY)).catch(error => {
+      console.warn(`[PAPER TRADING] Failed to persist state to ${this.storage.name} storage:`, error);
+    });
   }
 
   /**
    * تنظيف الموارد
    */
   public cleanup(): void {
-    if (this.priceUpdateInterval) {
-      clearInterval(this.priceUpdateInterval);
-      this.priceUpdateInterval = null;
-    }
+    this.marketSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.marketSubscriptions = [];
   }
 
   /**
@@ -977,8 +1842,9 @@ export class PaperTradingService {
     const order = await this.placeOrder({
       symbol: params.symbol,
       side: params.side,
-      type: 'LIMIT',
+      type: 'STOP_LOSS_LIMIT',
       quantity: params.quantity,
+      stopPrice: params.stopPrice,
       price: params.limitPrice || params.stopPrice
     });
     
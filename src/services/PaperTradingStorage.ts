@@ -0,0 +1,159 @@
+/**
+ * حفظ واستعادة حالة Paper Trading عبر محولات تخزين (المتصفح أو قاعدة بيانات الخادم)
+ */
+
+import { backendService } from './BackendService';
+import type { PaperAccount, PaperTradeOrder, PaperTradingConfig } from './PaperTradingService';
+import type { PositionLedgerState } from './PositionLedger';
+
+export const PAPER_STATE_SCHEMA_VERSION = 3;
+
+export interface PaperTradingSnapshot {
+  schemaVersion: number;
+  savedAt: string;
+  account: PaperAccount;
+  openOrders: PaperTradeOrder[];
+  orderHistory: PaperTradeOrder[];
+  ledger: PositionLedgerState | null; // null: يعاد بناؤه من سجل الأوامر
+  config: PaperTradingConfig;
+}
+
+/**
+ * واجهة محول التخزين
+ */
+export interface PaperStateStorage {
+  readonly name: string;
+  load(): Promise<PaperTradingSnapshot | null>;
+  save(snapshot: PaperTradingSnapshot): Promise<void>;
+  clear(): Promise<void>;
+}
+
+type RawSnapshot = Record<string, unknown> & { schemaVersion: number };
+
+/**
+ * ترقيات المخطط: كل دالة تحول لقطة من الإصدار المفتاح إلى الإصدار التالي
+ */
+const SNAPSHOT_MIGRATIONS: Record<number, (snapshot: RawSnapshot) => Record<string, unknown>> = {
+  // الإصدار 2: حساب الهامش والمراكز القصيرة
+  1: snapshot => ({
+    ...snapshot,
+    account: {
+      ...(snapshot.account as object),
+      marginPositions: {},
+      shortRealizedPnL: 0,
+      liquidations: 0
+    }
+  }),
+  // الإصدار 3: سجل الدفعات (يعاد بناؤه من التنفيذات عند الاستعادة)
+  2: snapshot => ({ ...snapshot, ledger: null })
+};
+
+/**
+ * التحقق من لقطة وترقيتها إلى الإصدار الحالي
+ */
+export function migrateSnapshot(raw: unknown): PaperTradingSnapshot {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Invalid paper trading snapshot');
+  }
+
+  let snapshot = raw as RawSnapshot;
+  if (!Number.isInteger(snapshot.schemaVersion) || snapshot.schemaVersion < 1) {
+    throw new Error('Paper trading snapshot is missing schemaVersion');
+  }
+  if (snapshot.schemaVersion > PAPER_STATE_SCHEMA_VERSION) {
+    throw new Error(
+      `Paper trading snapshot version ${snapshot.schemaVersion} is newer than supported (${PAPER_STATE_SCHEMA_VERSION})`
+    );
+  }
+
+  while (snapshot.schemaVersion < PAPER_STATE_SCHEMA_VERSION) {
+    const migrate = SNAPSHOT_MIGRATIONS[snapshot.schemaVersion];
+    if (!migrate) {
+      throw new Error(`No migration from paper trading snapshot version ${snapshot.schemaVersion}`);
+    }
+    snapshot = { ...migrate(snapshot), schemaVersion: snapshot.schemaVersion + 1 };
+  }
+
+  const candidate = snapshot as unknown as PaperTradingSnapshot;
+  if (!candidate.account?.balances || !Array.isArray(candidate.orderHistory) || !Array.isArray(candidate.openOrders)) {
+    throw new Error('Paper trading snapshot is incomplete');
+  }
+
+  return candidate;
+}
+
+/**
+ * التخزين في localStorage (الافتراضي)
+ */
+export class LocalPaperStateStorage implements PaperStateStorage {
+  readonly name = 'local';
+  private key: string;
+
+  constructor(key: string = 'ellen_paper_trading_state') {
+    this.key = key;
+  }
+
+  async load(): Promise<PaperTradingSnapshot | null> {
+    const saved = localStorage.getItem(this.key);
+    return saved ? JSON.parse(saved) : null;
+  }
+
+  async save(snapshot: PaperTradingSnapshot): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(snapshot));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.key);
+  }
+}
+
+/**
+ * التخزين في قاعدة بيانات SQLite عبر الخادم الخلفي
+ */
+export class BackendPaperStateStorage implements PaperStateStorage {
+  readonly name = 'backend';
+
+  async load(): Promise<PaperTradingSnapshot | null> {
+    return backendService.getPaperTradingState<PaperTradingSnapshot>();
+  }
+
+  async save(snapshot: PaperTradingSnapshot): Promise<void> {
+    if (!await backendService.savePaperTradingState(snapshot)) {
+      throw new Error('Backend rejected paper trading snapshot');
+    }
+  }
+
+  async clear(): Promise<void> {
+    await backendService.clearPaperTradingState();
+  }
+}
+
+/**
+ * تخزين في الذاكرة فقط (للاختبارات أو عند تعطيل الحفظ)
+ */
+export class MemoryPaperStateStorage implements PaperStateStorage {
+  readonly name = 'memory';
+  private snapshot: string | null = null;
+
+  async load(): Promise<PaperTradingSnapshot | null> {
+    return this.snapshot ? JSON.parse(this.snapshot) : null;
+  }
+
+  async save(snapshot: PaperTradingSnapshot): Promise<void> {
+    this.snapshot = JSON.stringify(snapshot);
+  }
+
+  async clear(): Promise<void> {
+    this.snapshot = null;
+  }
+}
+
+/**
+ * اختيار محول التخزين حسب الإعدادات
+ */
+export function createDefaultPaperStorage(): PaperStateStorage {
+  const storage = import.meta.env.VITE_PAPER_TRADING_STORAGE;
+  if (storage === 'backend') return new BackendPaperStateStorage();
+  if (typeof localStorage === 'undefined') return new MemoryPaperStateStorage();
+  return new LocalPaperStateStorage();
+}
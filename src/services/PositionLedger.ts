@@ -0,0 +1,202 @@
+/**
+ * سجل المراكز القائم على الدفعات (lots) لحساب الربح المحقق وغير المحقق بدقة
+ * يدعم مطابقة FIFO و LIFO ومتوسط التكلفة، وجميع المبالغ صافية من الرسوم
+ */
+
+export type LotMatchingMethod = 'FIFO' | 'LIFO' | 'AVERAGE';
+
+export interface PositionLot {
+  orderId: string;
+  quantity: number;
+  costPerUnit: number; // سعر الشراء مضافاً إليه حصة الوحدة من الرسوم
+  timestamp: string;
+}
+
+export interface RealizedTrade {
+  orderId: string;
+  asset: string;
+  side: 'LONG' | 'SHORT';
+  quantity: number;
+  costBasis: number;
+  proceeds: number; // صافي العائد بعد الرسوم
+  pnl: number;
+  timestamp: string;
+}
+
+export interface LedgerExecution {
+  orderId: string;
+  quantity: number;
+  price: number;
+  fee: number;
+  timestamp: string;
+}
+
+export interface PositionLedgerState {
+  method: LotMatchingMethod;
+  lots: Record<string, PositionLot[]>;
+  realizedTrades: RealizedTrade[];
+}
+
+const EPSILON = 1e-12;
+
+export class PositionLedger {
+  private method: LotMatchingMethod;
+  private lots: Map<string, PositionLot[]> = new Map();
+  private realizedTrades: RealizedTrade[] = [];
+
+  constructor(method: LotMatchingMethod = 'FIFO') {
+    this.method = method;
+  }
+
+  public getMethod(): LotMatchingMethod {
+    return this.method;
+  }
+
+  /**
+   * تغيير طريقة المطابقة (تطبق على عمليات البيع القادمة)
+   */
+  public setMethod(method: LotMatchingMethod): void {
+    this.method = method;
+  }
+
+  /**
+   * إضافة دفعة شراء
+   */
+  public addLot(asset: string, execution: LedgerExecution): void {
+    if (execution.quantity <= EPSILON) return;
+
+    const lots = this.lots.get(asset) || [];
+    lots.push({
+      orderId: execution.orderId,
+      quantity: execution.quantity,
+      costPerUnit: (execution.quantity * execution.price + execution.fee) / execution.quantity,
+      timestamp: execution.timestamp
+    });
+    this.lots.set(asset, lots);
+  }
+
+  /**
+   * إغلاق كمية من المركز وإرجاع الصفقة المحققة (null إن لم توجد دفعات مطابقة)
+   */
+  public closeLots(asset: string, execution: LedgerExecution): RealizedTrade | null {
+    const lots = this.lots.get(asset) || [];
+    const available = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const quantity = Math.min(execution.quantity, available);
+    if (quantity <= EPSILON) return null;
+
+    const costBasis = this.method === 'AVERAGE'
+      ? this.consumeAverage(lots, quantity, available)
+      : this.consumeOrdered(lots, quantity);
+    this.lots.set(asset, lots.filter(lot => lot.quantity > EPSILON));
+
+    // الرسوم توزع على الكمية المطابقة فقط
+    const proceeds = quantity * execution.price - execution.fee * (quantity / execution.quantity);
+
+    return this.record({
+      orderId: execution.orderId,
+      asset,
+      side: 'LONG',
+      quantity,
+      costBasis,
+      proceeds,
+      pnl: proceeds - costBasis,
+      timestamp: execution.timestamp
+    });
+  }
+
+  /**
+   * تسجيل إغلاق مركز قصير محسوب خارج الدفعات (مراكز الهامش)
+   */
+  public recordShortClose(trade: Omit<RealizedTrade, 'side'>): RealizedTrade {
+    return this.record({ ...trade, side: 'SHORT' });
+  }
+
+  public getPosition(asset: string): { quantity: number; costBasis: number; avgCost: number } {
+    const lots = this.lots.get(asset) || [];
+    const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const costBasis = lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerUnit, 0);
+    return { quantity, costBasis, avgCost: quantity > 0 ? costBasis / quantity : 0 };
+  }
+
+  /**
+   * الربح غير المحقق للكمية المحتفظ بها بسعر السوق
+   */
+  public getUnrealizedPnL(asset: string, price: number): number {
+    const position = this.getPosition(asset);
+    return position.quantity * price - position.costBasis;
+  }
+
+  public getRealizedTrades(): RealizedTrade[] {
+    return [...this.realizedTrades];
+  }
+
+  public getTotalRealizedPnL(side?: 'LONG' | 'SHORT'): number {
+    return this.realizedTrades
+      .filter(trade => !side || trade.side === side)
+      .reduce((sum, trade) => sum + trade.pnl, 0);
+  }
+
+  public getWinningTrades(): number {
+    return this.realizedTrades.filter(trade => trade.pnl > 0).length;
+  }
+
+  public reset(): void {
+    this.lots.clear();
+    this.realizedTrades = [];
+  }
+
+  public toJSON(): PositionLedgerState {
+    return {
+      method: this.method,
+      lots: Object.fromEntries(this.lots),
+      realizedTrades: this.realizedTrades
+    };
+  }
+
+  public static fromJSON(state: PositionLedgerState): PositionLedger {
+    const ledger = new PositionLedger(state.method);
+    ledger.lots = new Map(Object.entries(state.lots).map(([asset, lots]) => [asset, lots.map(lot => ({ ...lot }))]));
+    ledger.realizedTrades = state.realizedTrades.map(trade => ({ ...trade }));
+    return ledger;
+  }
+
+  /**
+   * استهلاك الدفعات بالترتيب (الأقدم أولاً في FIFO والأحدث أولاً في LIFO)
+   */
+  private consumeOrdered(lots: PositionLot[], quantity: number): number {
+    const ordered = this.method === 'FIFO' ? lots : [...lots].reverse();
+    let remaining = quantity;
+    let costBasis = 0;
+
+    for (const lot of ordered) {
+      if (remaining <= EPSILON) break;
+      const used = Math.min(remaining, lot.quantity);
+      costBasis += used * lot.costPerUnit;
+      lot.quantity -= used;
+      remaining -= used;
+    }
+
+    return costBasis;
+  }
+
+  /**
+   * متوسط التكلفة: تخفيض جميع الدفعات بنفس النسبة
+   */
+  private consumeAverage(lots: PositionLot[], quantity: number, available: number): number {
+    const ratio = quantity / available;
+    let costBasis = 0;
+
+    for (const lot of lots) {
+      const used = lot.quantity * ratio;
+      costBasis += used * lot.costPerUnit;
+      lot.quantity -= used;
+    }
+
+    return costBasis;
+  }
+
+  private record(trade: RealizedTrade): RealizedTrade {
+    this.realizedTrades.push(trade);
+    return trade;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * اختبارات أقواس الخروج: الوقف والهدف والوقف المتحرك ومدة الاحتفاظ والقواعد المخصصة
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./BackendService', () => ({ backendService: {} }));
+
+import { PositionTracker, PriceSource, createMeanReversionExitRule } from './PositionTracker';
+import type { OrderExecutor, ExecutionRequest, ExecutionResult } from './OrderExecutor';
+import { MeanReversionStrategy } from '../strategies/MeanReversion';
+import type { CandleData } from '../utils/TechnicalAnalysis';
+
+class FakeExecutor implements OrderExecutor {
+  readonly name = 'PAPER';
+  requests: ExecutionRequest[] = [];
+  results: ExecutionResult[] = [];
+
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    this.requests.push(request);
+    return this.results.shift() || { success: true, orderId: String(this.requests.length), status: 'FILLED', fees: 0 };
+  }
+
+  async getQuoteBalance(): Promise<number> {
+    return 1000;
+  }
+}
+
+class FakePrices implements PriceSource {
+  symbols: string[] = [];
+  private listener: ((symbol: string, price: number, timestamp: number) => void) | null = null;
+
+  subscribe(symbols: string[], listener: (symbol: string, price: number, timestamp: number) => void): () => void {
+    this.symbols = symbols;
+    this.listener = listener;
+    return () => {
+      this.symbols = [];
+      this.listener = null;
+    };
+  }
+
+  tick(symbol: string, price: number, timestamp: number = Date.now()): void {
+    this.listener?.(symbol, price, timestamp);
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const longEntry = {
+  symbol: 'BTCUSDT',
+  side: 'LONG' as const,
+  entryPrice: 100,
+  quantity: 2,
+  stopLoss: 95,
+  takeProfit: 110,
+  strategy: 'TREND_FOLLOWING'
+};
+
+describe('PositionTracker', () => {
+  let executor: FakeExecutor;
+  let prices: FakePrices;
+  let tracker: PositionTracker;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    executor = new FakeExecutor();
+    prices = new FakePrices();
+    tracker = new PositionTracker(executor, prices);
+    tracker.start();
+  });
+
+  it('closes on the stop loss tick and records the exit reason', async () => {
+    tracker.open(longEntry);
+    expect(prices.symbols).toEqual(['BTCUSDT']);
+
+    prices.tick('BTCUSDT', 99);
+    prices.tick('BTCUSDT', 94.5);
+    prices.tick('BTCUSDT', 94);
+    await flush();
+
+    expect(executor.requests).toEqual([expect.objectContaining({ side: 'SELL', type: 'MARKET', quantity: 2, reason: 'STOP_LOSS' })]);
+    expect(tracker.getClosedPositions()).toEqual([expect.objectContaining({ exitReason: 'STOP_LOSS', exitPrice: 94.5, profit: -11 })]);
+    expect(tracker.has('BTCUSDT')).toBe(false);
+    expect(prices.symbols).toEqual([]);
+  });
+
+  it('trails the stop behind the best price of a short position', async () => {
+    tracker.open({ ...longEntry, side: 'SHORT', stopLoss: 105, takeProfit: 80, trailingStopPercent: 2 });
+
+    prices.tick('BTCUSDT', 90);
+    prices.tick('BTCUSDT', 91.5);
+    await flush();
+    expect(executor.requests).toHaveLength(0);
+
+    prices.tick('BTCUSDT', 91.9);
+    await flush();
+    expect(executor.requests[0]).toMatchObject({ side: 'BUY', reason: 'TRAILING_STOP' });
+  });
+
+  it('exits after the maximum hold time', async () => {
+    const position = tracker.open({ ...longEntry, strategy: 'SCALPING', maxHoldTime: 15 });
+
+    prices.tick('BTCUSDT', 101, position.openedAt + 14 * 60 * 1000);
+    await flush();
+    expect(executor.requests).toHaveLength(0);
+
+    prices.tick('BTCUSDT', 101, position.openedAt + 15 * 60 * 1000);
+    await flush();
+    expect(tracker.getClosedPositions()[0]).toMatchObject({ exitReason: 'MAX_HOLD_TIME', profit: 2 });
+  });
+
+  it('keeps the position when the exit order is rejected', async () => {
+    executor.results.push({ success: false, status: 'REJECTED', error: 'Insufficient balance' });
+    tracker.open(longEntry);
+
+    await tracker.onPrice('BTCUSDT', 111);
+    expect(tracker.has('BTCUSDT')).toBe(true);
+
+    await tracker.onPrice('BTCUSDT', 112);
+    expect(executor.requests.map(request => request.reason)).toEqual(['PROFIT_TARGET', 'PROFIT_TARGET']);
+    expect(tracker.has('BTCUSDT')).toBe(false);
+  });
+
+  it('applies MeanReversionStrategy.shouldExit as a custom rule for its own positions', async () => {
+    tracker.addExitRule(createMeanReversionExitRule(new MeanReversionStrategy()));
+    // صعود متواصل يرفع RSI فوق حد الخروج
+    const candles: CandleData[] = Array.from({ length: 30 }, (_, i) => ({
+      timestamp: i, open: 90 + i * 0.3, high: 90 + i * 0.3, low: 90 + i * 0.3, close: 90 + i * 0.3, volume: 1
+    }));
+    tracker.updateCandles('BTCUSDT', candles);
+    tracker.updateCandles('ETHUSDT', candles);
+
+    tracker.open({ ...longEntry, strategy: 'MEAN_REVERSION', takeProfit: 120 });
+    tracker.open({ ...longEntry, symbol: 'ETHUSDT', takeProfit: 120 });
+
+    await tracker.onPrice('BTCUSDT', 100);
+    await tracker.onPrice('ETHUSDT', 100);
+
+    expect(executor.requests).toEqual([expect.objectContaining({ symbol: 'BTCUSDT', reason: 'MEAN_REVERSION_EXIT' })]);
+    expect(tracker.getOpenPositions().map(position => position.symbol)).toEqual(['ETHUSDT']);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * متابعة المراكز المفتوحة وتطبيق أقواس الخروج (وقف الخسارة، الهدف، الوقف المتحرك، مدة الاحتفاظ)
+ * على كل تحديث سعر بدلاً من انتظار دورة التحليل التالية
+ */
+
+import { backendService } from './BackendService';
+import { OrderExecutor, ExecutionResult } from './OrderExecutor';
+import { CandleData } from '../utils/TechnicalAnalysis';
+import type { MeanReversionStrategy } from '../strategies/MeanReversion';
+
+export interface PositionBracket {
+  stopLoss: number;
+  takeProfit: number;
+  trailingStopPercent?: number; // المسافة من أفضل سعر وصل إليه المركز (%)
+  maxHoldTime?: number; // أقصى مدة احتفاظ (بالدقائق)
+}
+
+export interface TrackedPosition extends PositionBracket {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  quantity: number;
+  strategy: string;
+  orderId?: string;
+  openedAt: number;
+  lastPrice: number;
+  bestPrice: number; // أعلى سعر للمركز الطويل وأدناه للقصير
+}
+
+export interface ClosedPosition extends TrackedPosition {
+  exitPrice: number;
+  exitReason: string;
+  closedAt: number;
+  profit: number; // صافٍ من رسوم أمر الخروج
+}
+
+export interface ExitRuleContext {
+  position: TrackedPosition;
+  price: number;
+  timestamp: number;
+  candles: CandleData[];
+}
+
+/**
+ * قاعدة خروج مخصصة، يسجل اسمها كسبب للإغلاق
+ */
+export interface ExitRule {
+  name: string;
+  strategy?: string; // تطبق على مراكز هذه الاستراتيجية فقط
+  shouldExit(context: ExitRuleContext): boolean;
+}
+
+export interface PriceSource {
+  subscribe(symbols: string[], listener: (symbol: string, price: number, timestamp: number) => void): () => void;
+}
+
+type OpenPositionInput = Omit<TrackedPosition, 'openedAt' | 'lastPrice' | 'bestPrice'>;
+type ClosedListener = (position: ClosedPosition) => void;
+
+const MAX_CLOSED_HISTORY = 200;
+
+const backendPriceSource: PriceSource = {
+  subscribe: (symbols, listener) => backendService.subscribeEvents(
+    'price',
+    data => listener(data.symbol, data.price, data.timestamp || Date.now()),
+    symbols
+  )
+};
+
+/**
+ * تحويل MeanReversionStrategy.shouldExit إلى قاعدة خروج (RSI محسوب مع السعر اللحظي)
+ */
+export function createMeanReversionExitRule(strategy: MeanReversionStrategy): ExitRule {
+  return {
+    name: 'MEAN_REVERSION_EXIT',
+    strategy: 'MEAN_REVERSION',
+    shouldExit: ({ position, price, candles }) => {
+      if (candles.length === 0) return false;
+      const closes = [...candles.slice(0, -1).map(candle => candle.close), price];
+      return strategy.shouldExit(price, position.entryPrice, position.side, strategy.calculateExitRSI(closes));
+    }
+  };
+}
+
+export class PositionTracker {
+  private executor: OrderExecutor;
+  private prices: PriceSource;
+  private positions: Map<string, TrackedPosition> = new Map();
+  private candles: Map<string, CandleData[]> = new Map();
+  private exitRules: ExitRule[] = [];
+  private closing: Set<string> = new Set();
+  private closed: ClosedPosition[] = [];
+  private listeners: Set<ClosedListener> = new Set();
+  private unsubscribe: (() => void) | null = null;
+  private isWatching: boolean = false;
+
+  constructor(executor: OrderExecutor, prices: PriceSource = backendPriceSource) {
+    this.executor = executor;
+    this.prices = prices;
+  }
+
+  public setExecutor(executor: OrderExecutor): void {
+    this.executor = executor;
+  }
+
+  /**
+   * بدء متابعة أسعار رموز المراكز المفتوحة
+   */
+  public start(): void {
+    this.isWatching = true;
+    this.resubscribe();
+  }
+
+  public stop(): void {
+    this.isWatching = false;
+    this.resubscribe();
+  }
+
+  public addExitRule(rule: ExitRule): () => void {
+    this.exitRules.push(rule);
+    return () => {
+      this.exitRules = this.exitRules.filter(existing => existing !== rule);
+    };
+  }
+
+  /**
+   * الاشتراك في المراكز المغلقة مع سبب الخروج
+   */
+  public onPositionClosed(listener: ClosedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * فتح قوس خروج لمركز تم تنفيذ دخوله
+   */
+  public open(input: OpenPositionInput): TrackedPosition {
+    const position: TrackedPosition = {
+      ...input,
+      openedAt: Date.now(),
+      lastPrice: input.entryPrice,
+      bestPrice: input.entryPrice
+    };
+
+    this.positions.set(position.symbol, position);
+    this.resubscribe();
+    return position;
+  }
+
+  public has(symbol: string): boolean {
+    return this.positions.has(symbol);
+  }
+
+  public get(symbol: string): TrackedPosition | undefined {
+    return this.positions.get(symbol);
+  }
+
+  public getOpenPositions(): TrackedPosition[] {
+    return Array.from(this.positions.values());
+  }
+
+  public getClosedPositions(): ClosedPosition[] {
+    return [...this.closed];
+  }
+
+  /**
+   * آخر شموع الرمز لتستخدمها قواعد الخروج المخصصة
+   */
+  public updateCandles(symbol: string, candles: CandleData[]): void {
+    this.candles.set(symbol, candles);
+  }
+
+  /**
+   * فحص المركز عند كل سعر جديد وإغلاقه إذا تحقق أحد شروط الخروج
+   */
+  public async onPrice(symbol: string, price: number, timestamp: number = Date.now()): Promise<ExecutionResult | undefined> {
+    const position = this.positions.get(symbol);
+    if (!position || this.closing.has(symbol) || !(price > 0)) return undefined;
+
+    position.lastPrice = price;
+    position.bestPrice = position.side === 'LONG'
+      ? Math.max(position.bestPrice, price)
+      : Math.min(position.bestPrice, price);
+
+    const reason = this.checkExit(position, price, timestamp);
+    return reason ? this.close(symbol, reason) : undefined;
+  }
+
+  private checkExit(position: TrackedPosition, price: number, timestamp: number): string | null {
+    const isLong = position.side === 'LONG';
+    if (isLong ? price <= position.stopLoss : price >= position.stopLoss) return 'STOP_LOSS';
+    if (isLong ? price >= position.takeProfit : price <= position.takeProfit) return 'PROFIT_TARGET';
+
+    if (position.trailingStopPercent && position.trailingStopPercent > 0) {
+      const distance = position.trailingStopPercent / 100;
+      const trailingStop = isLong ? position.bestPrice * (1 - distance) : position.bestPrice * (1 + distance);
+      if (isLong ? price <= trailingStop : price >= trailingStop) return 'TRAILING_STOP';
+    }
+
+    if (position.maxHoldTime && timestamp - position.openedAt >= position.maxHoldTime * 60 * 1000) {
+      return 'MAX_HOLD_TIME';
+    }
+
+    const context: ExitRuleContext = { position, price, timestamp, candles: this.candles.get(position.symbol) || [] };
+    for (const rule of this.exitRules) {
+      if (rule.strategy && rule.strategy !== position.strategy) continue;
+      try {
+        if (rule.shouldExit(context)) return rule.name;
+      } catch (error) {
+        console.error(`[POSITIONS] Exit rule ${rule.name} failed:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * إغلاق المركز بأمر سوق وتسجيل سبب الخروج
+   */
+  public async close(symbol: string, reason: string): Promise<ExecutionResult | undefined> {
+    const position = this.positions.get(symbol);
+    // منع أوامر خروج مكررة عند تتابع الأسعار قبل وصول نتيجة الأمر الأول
+    if (!position || this.closing.has(symbol)) return undefined;
+
+    this.closing.add(symbol);
+    try {
+      const execution = await this.executor.execute({
+        symbol,
+        side: position.side === 'LONG' ? 'SELL' : 'BUY',
+        type: 'MARKET',
+        quantity: position.quantity,
+        strategy: position.strategy,
+        reason
+      });
+
+      if (!execution.success) {
+        console.warn(`[POSITIONS] Exit rejected for ${symbol} (${reason}): ${execution.error}`);
+        return execution;
+      }
+
+      this.positions.delete(symbol);
+      this.resubscribe();
+
+      const exitPrice = execution.executedPrice || position.lastPrice;
+      const direction = position.side === 'LONG' ? 1 : -1;
+      // الربح المحقق يسجل في مدير المخاطر من المنفذ نفسه
+      const profit = direction * (exitPrice - position.entryPrice) * position.quantity - (execution.fees || 0);
+      const closed: ClosedPosition = { ...position, exitPrice, exitReason: reason, closedAt: Date.now(), profit };
+
+      this.closed.push(closed);
+      if (this.closed.length > MAX_CLOSED_HISTORY) this.closed.shift();
+
+      console.log(`[POSITIONS] Closed ${position.side} ${symbol} @ ${exitPrice} - Reason: ${reason} | P&L: ${profit.toFixed(2)}`);
+      this.notify(closed);
+      return execution;
+    } finally {
+      this.closing.delete(symbol);
+    }
+  }
+
+  private resubscribe(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    const symbols = Array.from(this.positions.keys());
+    if (!this.isWatching || symbols.length === 0) return;
+
+    this.unsubscribe = this.prices.subscribe(symbols, (symbol, price, timestamp) => {
+      this.onPrice(symbol, price, timestamp).catch(error => {
+        console.error(`[POSITIONS] Failed to process price for ${symbol}:`, error);
+      });
+    });
+  }
+
+  private notify(position: ClosedPosition): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(position);
+      } catch (error) {
+        console.error('[POSITIONS] Close listener failed:', error);
+      }
+    });
+  }
+}
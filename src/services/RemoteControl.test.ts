@@ -0,0 +1,132 @@
+/**
+ * اختبارات التحكم عن بعد: الحجز قبل التنفيذ والإيقاف وإغلاق المراكز وفرض الاستراتيجية
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// engine.start() يطلق تحليلاً حقيقياً، فيحتاج الشموع ودفتر الأوامر حتى لا يفشل خارج الاختبار
+vi.mock('./BackendService', () => ({
+  backendService: {
+    getKlines: async () => [],
+    getOrderBook: async () => null
+  }
+}));
+
+import { RemoteControl, CommandSource, CommandResult } from './RemoteControl';
+import { TradingEngine } from './TradingEngine';
+import { PositionTracker, PriceSource } from './PositionTracker';
+import { RiskManager } from './RiskManager';
+import { HybridTradingManager } from '../strategies/HybridManager';
+import { TestingUtils } from '../utils/TestingUtils';
+import type { BotCommandEvent } from './BackendEventStream';
+import type { OrderExecutor, ExecutionRequest, ExecutionResult } from './OrderExecutor';
+
+class FakeExecutor implements OrderExecutor {
+  readonly name = 'PAPER';
+  requests: ExecutionRequest[] = [];
+
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    this.requests.push(request);
+    return { success: true, orderId: String(this.requests.length), status: 'FILLED', fees: 0 };
+  }
+
+  async getQuoteBalance(): Promise<number> {
+    return 1000;
+  }
+}
+
+const noPrices: PriceSource = { subscribe: () => () => {} };
+
+class FakeCommandSource implements CommandSource {
+  claimed = new Set<string>();
+  results: Array<[string, CommandResult]> = [];
+  private listener: ((command: BotCommandEvent) => void) | null = null;
+
+  onCommand(listener: (command: BotCommandEvent) => void): () => void {
+    this.listener = listener;
+    return () => {
+      this.listener = null;
+    };
+  }
+
+  async claim(id: string): Promise<boolean> {
+    if (this.claimed.has(id)) return false;
+    this.claimed.add(id);
+    return true;
+  }
+
+  async complete(id: string, result: CommandResult): Promise<void> {
+    this.results.push([id, result]);
+  }
+
+  async getCandles() {
+    return TestingUtils.generateMockCandleData(200);
+  }
+
+  push(id: string, command: string, args: string[] = []): void {
+    this.listener?.({ id, command, args });
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RemoteControl', () => {
+  let executor: FakeExecutor;
+  let tracker: PositionTracker;
+  let engine: TradingEngine;
+  let source: FakeCommandSource;
+  let remote: RemoteControl;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    executor = new FakeExecutor();
+    tracker = new PositionTracker(executor, noPrices);
+    const risk = new RiskManager({}, { logging: false });
+    engine = new TradingEngine({ analysisSpeed: 60000 }, executor, new HybridTradingManager(risk), risk, tracker);
+    source = new FakeCommandSource();
+    remote = new RemoteControl(engine, source);
+    remote.start();
+  });
+
+  it('executes a command once even if it is delivered twice', async () => {
+    engine.start();
+    source.push('cmd-1', 'pause');
+    source.push('cmd-1', 'pause');
+    await flush();
+
+    expect(engine.getIsRunning()).toBe(false);
+    expect(source.results).toEqual([['cmd-1', { ok: true, message: '⏸️ تم إيقاف محرك التداول' }]]);
+    engine.stop();
+  });
+
+  it('flattens every open position and reports pnl', async () => {
+    tracker.open({ symbol: 'BTCUSDT', side: 'LONG', entryPrice: 100, quantity: 2, stopLoss: 90, takeProfit: 120, strategy: 'TREND_FOLLOWING' });
+    tracker.open({ symbol: 'ETHUSDT', side: 'SHORT', entryPrice: 50, quantity: 1, stopLoss: 55, takeProfit: 40, strategy: 'SCALPING' });
+
+    const status = await remote.execute('status');
+    expect(status.message).toContain('المراكز المفتوحة: 2');
+
+    const result = await remote.execute('flatten');
+    expect(result).toEqual({ ok: true, message: 'تم إغلاق 2 من 2 مركز' });
+    expect(executor.requests.map(request => [request.symbol, request.side, request.type])).toEqual([
+      ['BTCUSDT', 'SELL', 'MARKET'],
+      ['ETHUSDT', 'BUY', 'MARKET']
+    ]);
+    expect(tracker.getOpenPositions()).toEqual([]);
+    expect((await remote.execute('pnl')).message).toContain('الربح غير المحقق: 0.00');
+  });
+
+  it('forces a known strategy and rejects unknown ids', async () => {
+    const rejected = await remote.execute('strategy', ['MOON']);
+    expect(rejected.ok).toBe(false);
+    expect(engine.getConfig().strategyId).toBeUndefined();
+
+    const forced = await remote.execute('strategy', ['scalping']);
+    expect(forced.ok).toBe(true);
+    expect(forced.message).toContain('تم فرض SCALPING');
+    expect(engine.getConfig().strategyId).toBe('SCALPING');
+
+    await remote.execute('strategy', ['HYBRID']);
+    expect(engine.getConfig().strategyId).toBeUndefined();
+  });
+});
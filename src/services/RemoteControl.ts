@@ -0,0 +1,202 @@
+import { backendService } from './BackendService';
+import { BotCommandEvent } from './BackendEventStream';
+import { TradingEngine } from './TradingEngine';
+import { CandleData } from '../utils/TechnicalAnalysis';
+
+export interface CommandResult {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * مصدر أوامر التحكم عن بعد (قابل للاستبدال في الاختبارات)
+ */
+export interface CommandSource {
+  onCommand(listener: (command: BotCommandEvent) => void): () => void;
+  claim(id: string): Promise<boolean>;
+  complete(id: string, result: CommandResult): Promise<void>;
+  getCandles(symbol: string, interval: string, limit: number): Promise<CandleData[]>;
+}
+
+type ExecutedListener = (command: BotCommandEvent, result: CommandResult) => void;
+
+const backendCommandSource: CommandSource = {
+  onCommand: listener => backendService.subscribeEvents('botCommand', listener),
+  claim: id => backendService.claimBotCommand(id),
+  complete: (id, result) => backendService.completeBotCommand(id, result),
+  getCandles: (symbol, interval, limit) => backendService.getKlines(symbol, interval, limit) as Promise<CandleData[]>
+};
+
+const formatNumber = (value: number): string => value.toFixed(2);
+
+/**
+ * تنفيذ أوامر بوت Telegram على محرك التداول في هذه الواجهة
+ * كل أمر يحجز أولاً في الخادم حتى لا تنفذه أكثر من نافذة
+ */
+export class RemoteControl {
+  private engine: TradingEngine;
+  private source: CommandSource;
+  private unsubscribe: (() => void) | null = null;
+  private listeners: Set<ExecutedListener> = new Set();
+
+  constructor(engine: TradingEngine, source: CommandSource = backendCommandSource) {
+    this.engine = engine;
+    this.source = source;
+  }
+
+  public start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.source.onCommand(command => {
+      this.handle(command).catch(error => console.error('[TELEGRAM] Failed to handle remote command:', error));
+    });
+  }
+
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * الاشتراك في الأوامر المنفذة (لتحديث حالة الواجهة بعد الإيقاف أو تغيير الاستراتيجية)
+   */
+  public onExecuted(listener: ExecutedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async handle(command: BotCommandEvent): Promise<void> {
+    if (!(await this.source.claim(command.id))) return;
+
+    let result: CommandResult;
+    try {
+      result = await this.execute(command.command, command.args);
+    } catch (error) {
+      result = { ok: false, message: `خطأ: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    console.log(`[TELEGRAM] Remote /${command.command} ${result.ok ? 'executed' : 'failed'}`);
+    await this.source.complete(command.id, result);
+    this.listeners.forEach(listener => listener(command, result));
+  }
+
+  public async execute(command: string, args: string[] = []): Promise<CommandResult> {
+    switch (command) {
+      case 'status':
+        return { ok: true, message: this.describeStatus() };
+      case 'pnl':
+        return { ok: true, message: this.describePnL() };
+      case 'risk':
+        return { ok: true, message: this.describeRisk() };
+      case 'pause':
+        this.engine.stop();
+        return { ok: true, message: '⏸️ تم إيقاف محرك التداول' };
+      case 'resume':
+        this.engine.start();
+        return { ok: true, message: '▶️ تم تشغيل محرك التداول' };
+      case 'flatten':
+        return this.flatten();
+      case 'strategy':
+        return this.forceStrategy(args[0]);
+      default:
+        return { ok: false, message: `أمر غير معروف: ${command}` };
+    }
+  }
+
+  private describeStatus(): string {
+    const hybridManager = this.engine.getHybridManager();
+    const config = this.engine.getConfig();
+    const lines = [
+      `المحرك: ${this.engine.getIsRunning() ? 'يعمل' : 'متوقف'}`,
+      `الاستراتيجية: ${config.strategyId ?? `HYBRID (${hybridManager.getCurrentStrategy()})`}`
+    ];
+
+    for (const symbol of config.symbols) {
+      const signal = this.engine.getLastSignal(symbol);
+      if (signal) {
+        lines.push(`${symbol}: ${signal.marketCondition.regime} - ${signal.action} (${signal.confidence.toFixed(0)}%)`);
+      }
+    }
+
+    const positions = this.engine.getActivePositions();
+    lines.push(`المراكز المفتوحة: ${positions.length}`);
+    positions.forEach(position => {
+      lines.push(`${position.side} ${position.quantity} ${position.symbol} @ ${formatNumber(position.entryPrice)} (${position.strategy})`);
+    });
+
+    return lines.join('\n');
+  }
+
+  private describePnL(): string {
+    const tracker = this.engine.getPositionTracker();
+    const realized = tracker.getClosedPositions().reduce((sum, position) => sum + position.profit, 0);
+    const unrealized = tracker.getOpenPositions().reduce((sum, position) => {
+      const direction = position.side === 'LONG' ? 1 : -1;
+      return sum + (position.lastPrice - position.entryPrice) * position.quantity * direction;
+    }, 0);
+    const status = this.engine.getHybridManager().getRiskManager().getStatus();
+
+    return [
+      `الربح المحقق (الجلسة): ${formatNumber(realized)}`,
+      `الربح غير المحقق: ${formatNumber(unrealized)}`,
+      `صافي اليوم (${status.day}): ${formatNumber(status.dailyPnL)}`
+    ].join('\n');
+  }
+
+  private describeRisk(): string {
+    const risk = this.engine.getHybridManager().getRiskManagement();
+    const lines = [
+      `التراجع: ${formatNumber(risk.currentDrawdown)}% من ${formatNumber(risk.maxDrawdown)}%`,
+      `الخسارة اليومية: ${formatNumber(risk.dailyLoss)} من ${formatNumber(risk.maxDailyLoss)}`,
+      `التعرض: ${formatNumber(risk.positionSize)}% من ${formatNumber(risk.maxPositionSize)}%`,
+      `المخاطرة لكل صفقة: ${formatNumber(risk.riskPerTrade)}%`
+    ];
+    if (risk.shouldStop) lines.push(`⛔ التداول متوقف: ${risk.haltReason ?? 'تجاوز حدود المخاطر'}`);
+    return lines.join('\n');
+  }
+
+  private async flatten(): Promise<CommandResult> {
+    const count = this.engine.getActivePositions().length;
+    if (count === 0) return { ok: true, message: 'لا توجد مراكز مفتوحة' };
+
+    const results = await this.engine.flattenAll();
+    const filled = results.filter(result => result.success).length;
+    return {
+      ok: filled === count,
+      message: `تم إغلاق ${filled} من ${count} مركز`
+    };
+  }
+
+  /**
+   * فرض استراتيجية على المحرك وتحليل فوري بها للرمز الأول
+   */
+  private async forceStrategy(strategyId: string | undefined): Promise<CommandResult> {
+    const hybridManager = this.engine.getHybridManager();
+    const id = (strategyId ?? '').toUpperCase();
+    const available = hybridManager.getAvailableStrategies().map(strategy => strategy.id);
+
+    if (!available.includes(id)) {
+      return { ok: false, message: `استراتيجية غير معروفة. المتاحة: ${available.join(', ')}` };
+    }
+
+    if (id === 'HYBRID') {
+      this.engine.updateConfig({ strategyId: undefined });
+      return { ok: true, message: 'تمت العودة للاختيار التلقائي (HYBRID)' };
+    }
+
+    this.engine.updateConfig({ strategyId: id });
+    const { symbols, interval, candleLimit } = this.engine.getConfig();
+    const symbol = symbols[0];
+    const candles = await this.source.getCandles(symbol, interval, candleLimit);
+    if (candles.length === 0) {
+      return { ok: true, message: `تم فرض ${id} (لا توجد شموع للتحليل الفوري)` };
+    }
+
+    const signal = hybridManager.analyzeWithStrategy(candles, id, undefined, symbol);
+    return {
+      ok: true,
+      message: `تم فرض ${id}\n${symbol}: ${signal.action} (${signal.confidence.toFixed(0)}%) - ${signal.marketCondition.regime}`
+    };
+  }
+}
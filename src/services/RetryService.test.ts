@@ -0,0 +1,122 @@
+/**
+ * اختبارات قاطع الدائرة وربطه بـ executeWithRetry
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, CircuitOpenError, CircuitState, RetryService } from './RetryService';
+
+const serverError = () => Object.assign(new Error('Internal error'), { status: 500 });
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should open after consecutive failures and allow a single probe after the recovery timeout', () => {
+    const breaker = new CircuitBreaker('backend', { failureThreshold: 3, recoveryTimeout: 1000, successThreshold: 2 });
+    const states: CircuitState[] = [];
+    breaker.onStateChange(snapshot => states.push(snapshot.state));
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('CLOSED');
+    breaker.recordFailure();
+
+    vi.setSystemTime(400);
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getRetryIn()).toBe(600);
+
+    // طلب تجريبي واحد فقط في HALF_OPEN
+    vi.setSystemTime(1000);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+    breaker.recordSuccess();
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('CLOSED');
+    expect(states).toEqual(['OPEN', 'HALF_OPEN', 'CLOSED']);
+  });
+
+  it('should reopen when the half-open probe fails', () => {
+    const breaker = new CircuitBreaker('binance-rest', { failureThreshold: 1, recoveryTimeout: 1000 });
+
+    breaker.recordFailure();
+    vi.setSystemTime(1500);
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+
+    vi.setSystemTime(2000);
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'OPEN', trips: 2, openedAt: 1500, retryIn: 500 });
+  });
+});
+
+describe('RetryService circuit breakers', () => {
+  const config = { maxAttempts: 2, baseDelay: 1, maxDelay: 1, jitterRange: 0, circuitBreaker: 'binance-rest' as const };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    RetryService.getCircuitBreaker('binance-rest').reset();
+  });
+
+  afterEach(() => {
+    RetryService.getCircuitBreaker('binance-rest').reset();
+    vi.restoreAllMocks();
+  });
+
+  it('should fail fast without calling the operation once the named breaker is open', async () => {
+    const failing = vi.fn().mockRejectedValue(serverError());
+
+    await RetryService.executeWithRetry(failing, config);
+    await RetryService.executeWithRetry(failing, config);
+    await RetryService.executeWithRetry(failing, { ...config, maxAttempts: 1 });
+    expect(failing).toHaveBeenCalledTimes(5);
+
+    const result = await RetryService.executeWithRetry(failing, config);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(CircuitOpenError);
+    expect(result.attempts).toBe(0);
+    expect(failing).toHaveBeenCalledTimes(5);
+
+    const stats = RetryService.getRetryStats();
+    expect(stats.circuitBreakers['binance-rest'].state).toBe('OPEN');
+    expect(stats.circuitBreakers.backend.state).toBe('CLOSED');
+    expect(stats.circuitRejections).toBeGreaterThan(0);
+  });
+
+  it('should not count client errors against the breaker', async () => {
+    const rejected = vi.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 }));
+
+    for (let i = 0; i < 6; i++) {
+      await RetryService.executeWithRetry(rejected, config);
+    }
+
+    expect(rejected).toHaveBeenCalledTimes(6);
+    expect(RetryService.getRetryStats().circuitBreakers['binance-rest']).toMatchObject({ state: 'CLOSED', failureCount: 0 });
+  });
+
+  it('should not count failures of another upstream against the breaker', async () => {
+    const backend = RetryService.getCircuitBreaker('backend');
+    backend.reset();
+    const binanceDown = vi.fn().mockRejectedValue(Object.assign(new Error('Bad gateway'), { status: 502, source: 'binance-rest' }));
+
+    for (let i = 0; i < 6; i++) {
+      await RetryService.executeWithRetry(binanceDown, { ...config, circuitBreaker: 'backend' });
+    }
+
+    expect(binanceDown).toHaveBeenCalledTimes(12);
+    expect(backend.getSnapshot()).toMatchObject({ state: 'CLOSED', failureCount: 0 });
+    backend.reset();
+  });
+});
@@ -1,8 +1,10 @@
 /**
  * خدمة إعادة المحاولة المحسنة مع Exponential Backoff
- * تدعم معالجة Rate Limits وأخطاء Binance المحددة
+ * تدعم معالجة Rate Limits وأخطاء Binance المحددة وقواطع الدائرة لكل مصدر خارجي
  */
 
+import { BinanceRateLimiter, binanceRateLimiter, getRequestCost } from './BinanceRateLimiter';
+
 export interface RetryConfig {
   maxAttempts: number;
   baseDelay: number;
@@ -11,6 +13,162 @@ export interface RetryConfig {
   jitterRange: number;
   retryableStatusCodes: number[];
   retryableBinanceCodes: number[];
+  circuitBreaker?: CircuitName; // قاطع الدائرة الذي يحمي هذا المصدر
+  rateLimiter?: BinanceRateLimiter; // حجز وزن الطلب قبل الإرسال (createRetryFetch فقط)
+}
+
+export type CircuitName = 'backend' | 'binance-rest' | 'binance-ws';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;  // إخفاقات متتالية قبل الفتح
+  recoveryTimeout: number;   // مدة الفتح قبل السماح بطلب تجريبي
+  successThreshold: number;  // نجاحات HALF_OPEN المطلوبة للإغلاق
+}
+
+export interface CircuitBreakerSnapshot {
+  name: CircuitName;
+  state: CircuitState;
+  failureCount: number;
+  trips: number;
+  openedAt: number | null;
+  retryIn: number; // مللي ثانية حتى الطلب التجريبي (0 إن لم يكن مفتوحاً)
+}
+
+/**
+ * خطأ الرفض الفوري عندما يكون القاطع مفتوحاً (لا يعاد المحاولة معه)
+ */
+export class CircuitOpenError extends Error {
+  public readonly circuit: CircuitName;
+  public readonly retryAfter: number;
+
+  constructor(circuit: CircuitName, retryAfter: number) {
+    super(`Circuit breaker "${circuit}" is OPEN, retry in ${Math.ceil(retryAfter / 1000)}s`);
+    this.name = 'CircuitOpenError';
+    this.circuit = circuit;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * قاطع الدائرة كما في docs/RETRY_STRATEGY.md
+ * CLOSED: الطلبات تمر | OPEN: رفض فوري حتى انتهاء recoveryTimeout | HALF_OPEN: طلب تجريبي واحد في كل مرة
+ */
+export class CircuitBreaker {
+  public readonly name: CircuitName;
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = 'CLOSED';
+  private failureCount = 0;
+  private successCount = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+  private trips = 0;
+  private listeners: Set<(snapshot: CircuitBreakerSnapshot) => void> = new Set();
+
+  constructor(name: CircuitName, config: Partial<CircuitBreakerConfig> = {}) {
+    this.name = name;
+    this.config = {
+      failureThreshold: config.failureThreshold || 5,
+      recoveryTimeout: config.recoveryTimeout || 60000,
+      successThreshold: config.successThreshold || 3
+    };
+  }
+
+  /**
+   * الحالة الحالية (OPEN يتحول إلى HALF_OPEN بعد انتهاء مدة الاسترداد)
+   */
+  public getState(now: number = Date.now()): CircuitState {
+    if (this.state === 'OPEN' && this.openedAt !== null && now - this.openedAt >= this.config.recoveryTimeout) {
+      this.transition('HALF_OPEN');
+    }
+    return this.state;
+  }
+
+  /**
+   * هل يسمح بطلب الآن؟ في HALF_OPEN يحجز الطلب التجريبي الوحيد
+   */
+  public allowRequest(now: number = Date.now()): boolean {
+    const state = this.getState(now);
+    if (state === 'CLOSED') return true;
+    if (state === 'OPEN' || this.probeInFlight) return false;
+
+    this.probeInFlight = true;
+    return true;
+  }
+
+  public recordSuccess(): void {
+    this.probeInFlight = false;
+    this.failureCount = 0;
+
+    // نجاح طلب بدأ قبل الفتح يعد دليلاً على التعافي مثل الطلب التجريبي
+    if (this.state === 'OPEN') this.transition('HALF_OPEN');
+    if (this.state === 'HALF_OPEN') {
+      this.successCount++;
+      if (this.successCount >= this.config.successThreshold) {
+        this.transition('CLOSED');
+      }
+    }
+  }
+
+  public recordFailure(now: number = Date.now()): void {
+    this.probeInFlight = false;
+    this.failureCount++;
+
+    if (this.state === 'HALF_OPEN' || (this.state === 'CLOSED' && this.failureCount >= this.config.failureThreshold)) {
+      this.openedAt = now;
+      this.trips++;
+      this.transition('OPEN');
+    }
+  }
+
+  /**
+   * الوقت المتبقي قبل السماح بطلب تجريبي
+   */
+  public getRetryIn(now: number = Date.now()): number {
+    if (this.getState(now) !== 'OPEN' || this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.config.recoveryTimeout - now);
+  }
+
+  public getSnapshot(now: number = Date.now()): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.getState(now),
+      failureCount: this.failureCount,
+      trips: this.trips,
+      openedAt: this.openedAt,
+      retryIn: this.getRetryIn(now)
+    };
+  }
+
+  public onStateChange(listener: (snapshot: CircuitBreakerSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public reset(): void {
+    this.failureCount = 0;
+    this.probeInFlight = false;
+    this.openedAt = null;
+    this.transition('CLOSED');
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) return;
+
+    const previous = this.state;
+    this.state = state;
+    this.successCount = 0;
+    if (state === 'CLOSED') this.openedAt = null;
+
+    const log = state === 'OPEN' ? console.error : console.warn;
+    log(`[CIRCUIT] ${this.name}: ${previous} -> ${state}`);
+
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
 }
 
 export interface RetryResult<T> {
@@ -37,9 +195,47 @@ export class RetryService {
   private static stats = {
     totalRetries: 0,
     successfulRetries: 0,
-    rateLimitHits: 0
+    rateLimitHits: 0,
+    circuitRejections: 0
   };
 
+  // قاطع لكل مصدر خارجي (قاطعا Binance يكتفيان بنجاح واحد لأن حالتهما تأتي من رسائل upstream في الخادم)
+  private static circuitBreakerConfigs: Record<CircuitName, Partial<CircuitBreakerConfig>> = {
+    'backend': {},
+    'binance-rest': { successThreshold: 1 },
+    'binance-ws': { successThreshold: 1 }
+  };
+
+  private static circuitBreakers: Map<CircuitName, CircuitBreaker> = new Map();
+  private static circuitListeners: Set<(snapshot: CircuitBreakerSnapshot) => void> = new Set();
+
+  /**
+   * الحصول على قاطع الدائرة المسمى (ينشأ عند أول استخدام)
+   */
+  public static getCircuitBreaker(name: CircuitName): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, {
+        failureThreshold: Number(import.meta.env.VITE_CIRCUIT_BREAKER_FAILURE_THRESHOLD) || undefined,
+        recoveryTimeout: Number(import.meta.env.VITE_CIRCUIT_BREAKER_RECOVERY_TIMEOUT) || undefined,
+        ...this.circuitBreakerConfigs[name]
+      });
+      breaker.onStateChange(snapshot => this.circuitListeners.forEach(listener => listener(snapshot)));
+      this.circuitBreakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * متابعة تغيرات حالة جميع القواطع (لشارة الاتصال في الواجهة)
+   */
+  public static onCircuitStateChange(listener: (snapshot: CircuitBreakerSnapshot) => void): () => void {
+    this.circuitListeners.add(listener);
+    return () => {
+      this.circuitListeners.delete(listener);
+    };
+  }
+
   /**
    * تنفيذ عملية مع إعادة المحاولة
    */
@@ -48,13 +244,27 @@ export class RetryService {
     config: Partial<RetryConfig> = {}
   ): Promise<RetryResult<T>> {
     const finalConfig: RetryConfig = { ...this.defaultConfig, ...config };
+    const breaker = finalConfig.circuitBreaker ? this.getCircuitBreaker(finalConfig.circuitBreaker) : null;
     const startTime = Date.now();
     let wasRateLimited = false;
     let lastError: Error | undefined;
 
     for (let attempt = 1; attempt <= finalConfig.maxAttempts; attempt++) {
+      // القاطع المفتوح يرفض فوراً بدلاً من إرهاق مصدر متوقف
+      if (breaker && !breaker.allowRequest()) {
+        this.stats.circuitRejections++;
+        return {
+          success: false,
+          error: new CircuitOpenError(breaker.name, breaker.getRetryIn()),
+          attempts: attempt - 1,
+          totalTime: Date.now() - startTime,
+          wasRateLimited
+        };
+      }
+
       try {
         const result = await operation();
+        breaker?.recordSuccess();
 
         if (attempt > 1) this.stats.successfulRetries++;
 
@@ -70,6 +280,15 @@ export class RetryService {
         const error = this.normalizeError(rawError);
         lastError = error;
 
+        // أخطاء الطلب نفسه (4xx) تعني أن المصدر يعمل
+        if (breaker) {
+          if (this.isUpstreamFailure(error, breaker.name)) {
+            breaker.recordFailure();
+          } else {
+            breaker.recordSuccess();
+          }
+        }
+
         // لا تعيد المحاولة للأخطاء غير القابلة للإصلاح
         if (this.isNonRetryableError(error)) {
           return {
@@ -174,10 +393,26 @@ export class RetryService {
            error?.isNetworkError === true; // اعتبر بعض أخطاء الشبكة قابلة لإعادة المحاولة
   }
 
+  /**
+   * هل يدل الخطأ على تعطل المصدر؟ (شبكة، مهلة، 5xx) وليس رفض الطلب نفسه
+   */
+  private static isUpstreamFailure(error: Error & { status?: number; source?: CircuitName }, circuit: CircuitName): boolean {
+    if (error instanceof CircuitOpenError) return false;
+    // عطل مصدر خلف الخادم (مثل 502 من Binance) يعني أن الخادم نفسه يعمل
+    if (error.source && error.source !== circuit) return false;
+    const status = Number(error?.status || 0);
+    return status === 0 || status >= 500;
+  }
+
   /**
    * فحص الأخطاء غير القابلة للإصلاح
    */
   private static isNonRetryableError(error: any): boolean {
+    // قاطع مفتوح في طبقة داخلية (retryFetch)
+    if (error instanceof CircuitOpenError) {
+      return true;
+    }
+
     // أخطاء HTTP غير قابلة للإصلاح (باستثناء 429)
     const nonRetryableStatusCodes = [400, 401, 403, 404, 422];
 
@@ -242,6 +477,11 @@ export class RetryService {
     return async (url: string, options?: RequestInit): Promise<Response> => {
       const result = await this.executeWithRetry<Response>(
         async () => {
+          const { rateLimiter } = mergedConfig;
+          if (rateLimiter) {
+            await rateLimiter.acquire(getRequestCost(url, options?.method));
+          }
+
           let response: Response;
           try {
             response = await fetch(url, options);
@@ -250,9 +490,16 @@ export class RetryService {
             throw this.normalizeError(rawErr);
           }
 
+          rateLimiter?.updateFromHeaders(response.headers);
+
           // فحص Rate Limiting
           if (response.status === 429) {
             const retryAfter = response.headers.get('Retry-After') || response.headers.get('retry-after');
+            // إيقاف بقية الطلبات المنتظرة أيضاً وليس هذه المحاولة فقط
+            const retryAfterSeconds = Number(retryAfter);
+            if (rateLimiter && retryAfterSeconds > 0) {
+              rateLimiter.pause(retryAfterSeconds * 1000);
+            }
             const error: any = new Error('Rate limited');
             error.status = 429;
             error.retryAfter = retryAfter;
@@ -273,6 +520,9 @@ export class RetryService {
             if (errorData && typeof errorData.code !== 'undefined') {
               error.code = errorData.code;
             }
+            if (errorData && typeof errorData.upstream === 'string') {
+              error.source = errorData.upstream;
+            }
             error.headers = Object.fromEntries(response.headers.entries());
             throw error;
           }
@@ -298,9 +548,13 @@ export class RetryService {
   }
 
   /**
-   * إحصائيات إعادة المحاولة
+   * إحصائيات إعادة المحاولة وحالة قواطع الدائرة
    */
   public static getRetryStats() {
-    return { ...this.stats };
+    const circuitBreakers = Object.fromEntries(
+      (Object.keys(this.circuitBreakerConfigs) as CircuitName[]).map(name => [name, this.getCircuitBreaker(name).getSnapshot()])
+    ) as Record<CircuitName, CircuitBreakerSnapshot>;
+
+    return { ...this.stats, circuitBreakers, rateLimiter: binanceRateLimiter.getStats() };
   }
 }
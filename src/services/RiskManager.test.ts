@@ -0,0 +1,114 @@
+/**
+ * اختبارات مدير المخاطر على مستوى المحفظة
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+
+vi.mock('./SecureLoggingService', () => ({
+  secureLoggingService: { logRiskCheck: vi.fn(async () => 'risk_log') }
+}));
+
+import { RiskManager } from './RiskManager';
+import { secureLoggingService } from './SecureLoggingService';
+
+const DAY = Date.UTC(2024, 0, 1, 12);
+
+function createManager(config = {}) {
+  return new RiskManager({
+    maxSymbolExposure: 1000,
+    symbolExposureLimits: { ETHUSDT: 300 },
+    maxGrossExposure: 1500,
+    maxConcurrentPositions: 2,
+    maxDailyLoss: 100,
+    dayResetTimezone: 'UTC',
+    ...config
+  }, { logging: false });
+}
+
+const buy = (symbol: string, quantity: number, price: number, timestamp: number = DAY) =>
+  ({ symbol, side: 'BUY' as const, quantity, price, timestamp });
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe('RiskManager', () => {
+  it('should enforce per-symbol and gross exposure caps', () => {
+    const risk = createManager();
+
+    expect(risk.checkOrder(buy('BTCUSDT', 11, 100)).reason).toMatch(/Symbol exposure/);
+    expect(risk.checkOrder(buy('ETHUSDT', 4, 100)).reason).toMatch(/ETHUSDT/);
+
+    risk.recordFill(buy('BTCUSDT', 9, 100));
+    const gross = risk.checkOrder(buy('SOLUSDT', 7, 100));
+    expect(gross.approved).toBe(false);
+    expect(gross.reason).toMatch(/Gross exposure/);
+    expect(risk.checkOrder(buy('SOLUSDT', 5, 100)).approved).toBe(true);
+  });
+
+  it('should cap concurrent positions but allow closing orders', () => {
+    const risk = createManager();
+    risk.recordFill(buy('BTCUSDT', 1, 100));
+    risk.recordFill(buy('ETHUSDT', 1, 100));
+
+    expect(risk.checkOrder(buy('SOLUSDT', 1, 100)).reason).toMatch(/concurrent/);
+    expect(risk.checkOrder(buy('BTCUSDT', 1, 100)).approved).toBe(true);
+
+    const close = risk.checkOrder({ symbol: 'ETHUSDT', side: 'SELL', quantity: 1, price: 100, timestamp: DAY });
+    expect(close.approved).toBe(true);
+    expect(close.reducesExposure).toBe(true);
+  });
+
+  it('should stop new exposure after the daily loss limit and reset at the timezone boundary', () => {
+    // نهاية اليوم في دبي (UTC+4) تقع عند 20:00 بتوقيت UTC
+    const risk = createManager({ dayResetTimezone: 'Asia/Dubai' });
+    const beforeMidnight = Date.UTC(2024, 0, 1, 19, 30);
+    const afterMidnight = Date.UTC(2024, 0, 1, 20, 30);
+
+    risk.recordPnL(-120, beforeMidnight);
+    expect(risk.checkOrder(buy('BTCUSDT', 1, 100, beforeMidnight)).reason).toMatch(/Daily loss/);
+    expect(risk.getStatus(beforeMidnight).halted).toBe(true);
+
+    expect(risk.checkOrder(buy('BTCUSDT', 1, 100, afterMidnight)).approved).toBe(true);
+    expect(risk.getStatus(afterMidnight).dailyLoss).toBe(0);
+  });
+
+  it('should block new exposure while the kill switch is active', () => {
+    const risk = createManager();
+    risk.recordFill(buy('BTCUSDT', 2, 100));
+
+    risk.setKillSwitch(true, 'test');
+
+    expect(risk.checkOrder(buy('BTCUSDT', 1, 100)).reason).toMatch(/Kill switch/);
+    expect(risk.checkOrder({ symbol: 'BTCUSDT', side: 'SELL', quantity: 2, price: 100, timestamp: DAY }).approved).toBe(true);
+
+    risk.setKillSwitch(false);
+    expect(risk.checkOrder(buy('BTCUSDT', 1, 100)).approved).toBe(true);
+  });
+
+  it('should size positions by stop distance within the position size cap', () => {
+    const risk = createManager({ riskPerTrade: 1, maxPositionSize: 10 });
+
+    expect(risk.calculatePositionSize(10000, 100, 95)).toBeCloseTo(10); // الحد 10% = 1000$
+    expect(risk.calculatePositionSize(10000, 100, 50)).toBeCloseTo(2); // 100$ / 50$
+    expect(risk.calculatePositionSize(10000, 100)).toBeCloseTo(10);
+  });
+
+  it('should emit logRiskCheck entries when logging is enabled', () => {
+    const risk = new RiskManager({ maxSymbolExposure: 100 });
+
+    risk.checkOrder(buy('BTCUSDT', 2, 100));
+
+    expect(secureLoggingService.logRiskCheck).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'RISK_CHECK',
+      approved: false,
+      positionSize: 200,
+      riskLevel: 'HIGH'
+    }));
+  });
+});
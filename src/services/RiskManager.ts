@@ -0,0 +1,386 @@
+import { secureLoggingService } from './SecureLoggingService';
+
+/**
+ * مدير المخاطر على مستوى المحفظة - مشترك بين التداول الحقيقي والمحاكاة والاختبار التاريخي
+ * كل أمر يمر بفحص ما قبل التداول هنا، وكل تنفيذ يسجل لتحديث التعرض والخسارة اليومية
+ */
+
+export interface RiskConfig {
+  maxSymbolExposure: number; // الحد الأقصى لقيمة المركز في رمز واحد ($)
+  symbolExposureLimits: Record<string, number>; // حدود خاصة ببعض الرموز ($)
+  maxGrossExposure: number; // مجموع قيم جميع المراكز (طويلة وقصيرة) ($)
+  maxConcurrentPositions: number;
+  maxDailyLoss: number; // ($)
+  maxDrawdown: number; // (%)
+  maxPositionSize: number; // حجم الصفقة الجديدة كنسبة من رأس المال (%)
+  riskPerTrade: number; // نسبة رأس المال المعرضة للخسارة حتى وقف الخسارة (%)
+  stopLossPercent: number; // وقف الخسارة الافتراضي عندما لا تحدده الاستراتيجية
+  takeProfitPercent: number;
+  dayResetTimezone: string; // المنطقة الزمنية لبداية اليوم التداولي (IANA)
+  killSwitch: boolean;
+}
+
+export interface RiskOrderRequest {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  timestamp?: number; // توقيت الشمعة في الاختبار التاريخي
+}
+
+export interface RiskFill {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  realizedPnL?: number;
+  timestamp?: number;
+}
+
+export interface RiskCheckResult {
+  approved: boolean;
+  reason: string;
+  reducesExposure: boolean;
+  symbolExposure: number;
+  grossExposure: number;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+}
+
+export interface RiskStatus {
+  day: string;
+  dailyPnL: number;
+  dailyLoss: number;
+  currentDrawdown: number;
+  grossExposure: number;
+  openPositions: number;
+  killSwitch: boolean;
+  halted: boolean;
+  haltReason?: string;
+}
+
+interface RiskPosition {
+  quantity: number; // موجب للمراكز الطويلة وسالب للقصيرة
+  price: number; // آخر سعر معروف لتقييم التعرض
+}
+
+export interface RiskManagerOptions {
+  logging?: boolean; // يوقف في الاختبار التاريخي حتى لا يرسل كل فحص للخادم
+  storageKey?: string; // حفظ الإعدادات ومفتاح الإيقاف في localStorage
+}
+
+export const DEFAULT_RISK_CONFIG: RiskConfig = {
+  maxSymbolExposure: 5000,
+  symbolExposureLimits: {},
+  maxGrossExposure: 10000,
+  maxConcurrentPositions: 5,
+  maxDailyLoss: 100,
+  maxDrawdown: 10,
+  maxPositionSize: 10,
+  riskPerTrade: 1,
+  stopLossPercent: 1,
+  takeProfitPercent: 2,
+  dayResetTimezone: import.meta.env.VITE_RISK_DAY_TIMEZONE || 'UTC',
+  killSwitch: false
+};
+
+const EPSILON = 1e-12;
+
+export class RiskManager {
+  private config: RiskConfig;
+  private logging: boolean;
+  private storageKey?: string;
+  private positions: Map<string, RiskPosition> = new Map();
+  private day = '';
+  private dailyPnL = 0;
+  private equity = 0;
+  private peakEquity = 0;
+  private dayFormatter: Intl.DateTimeFormat;
+
+  constructor(config: Partial<RiskConfig> = {}, options: RiskManagerOptions = {}) {
+    this.logging = options.logging ?? true;
+    this.storageKey = options.storageKey;
+    this.config = { ...DEFAULT_RISK_CONFIG, ...this.loadConfig(), ...config };
+    this.dayFormatter = this.createDayFormatter(this.config.dayResetTimezone);
+  }
+
+  public getConfig(): RiskConfig {
+    return { ...this.config, symbolExposureLimits: { ...this.config.symbolExposureLimits } };
+  }
+
+  public updateConfig(newConfig: Partial<RiskConfig>): void {
+    const timezoneChanged = newConfig.dayResetTimezone !== undefined &&
+      newConfig.dayResetTimezone !== this.config.dayResetTimezone;
+
+    this.config = { ...this.config, ...newConfig };
+    if (timezoneChanged) {
+      this.dayFormatter = this.createDayFormatter(this.config.dayResetTimezone);
+    }
+
+    this.saveConfig();
+    console.log('[RISK] Configuration updated:', this.config);
+  }
+
+  /**
+   * مفتاح الإيقاف: يمنع أي أمر يزيد التعرض (أوامر الإغلاق تبقى مسموحة)
+   */
+  public setKillSwitch(active: boolean, reason: string = 'manual'): void {
+    this.config.killSwitch = active;
+    this.saveConfig();
+    console.warn(`[RISK] Kill switch ${active ? 'ACTIVATED' : 'released'} (${reason})`);
+
+    if (this.logging) secureLoggingService.logRiskCheck({
+      action: 'RISK_CHECK',
+      currentDrawdown: this.getDrawdown(),
+      dailyLoss: this.getDailyLoss(),
+      positionSize: this.getGrossExposure(),
+      riskLevel: 'HIGH',
+      approved: !active,
+      reason: `Kill switch ${active ? 'activated' : 'released'}: ${reason}`
+    });
+  }
+
+  public isKillSwitchActive(): boolean {
+    return this.config.killSwitch;
+  }
+
+  /**
+   * فحص ما قبل التداول لأمر واحد
+   */
+  public checkOrder(request: RiskOrderRequest): RiskCheckResult {
+    this.rollDay(request.timestamp);
+
+    const current = this.positions.get(request.symbol)?.quantity || 0;
+    const next = current + (request.side === 'BUY' ? request.quantity : -request.quantity);
+    const reducesExposure = Math.abs(next) <= Math.abs(current) + EPSILON && (next === 0 || Math.sign(next) === Math.sign(current));
+
+    const symbolExposure = Math.abs(next) * request.price;
+    const grossExposure = this.getGrossExposure(request.symbol) + symbolExposure;
+    const reason = reducesExposure ? null : this.findViolation(request.symbol, current, symbolExposure, grossExposure);
+
+    const result: RiskCheckResult = {
+      approved: reason === null,
+      reason: reason || (reducesExposure ? 'Order reduces exposure' : 'Within risk limits'),
+      reducesExposure,
+      symbolExposure,
+      grossExposure,
+      riskLevel: reason ? 'HIGH' : this.getRiskLevel(grossExposure)
+    };
+
+    if (!result.approved) {
+      console.warn(`[RISK] ${request.side} ${request.quantity} ${request.symbol} rejected: ${result.reason}`);
+    }
+
+    if (this.logging) secureLoggingService.logRiskCheck({
+      action: 'RISK_CHECK',
+      currentDrawdown: this.getDrawdown(),
+      dailyLoss: this.getDailyLoss(),
+      positionSize: symbolExposure,
+      riskLevel: result.riskLevel,
+      approved: result.approved,
+      reason: `${request.side} ${request.quantity} ${request.symbol}: ${result.reason}`
+    });
+
+    return result;
+  }
+
+  /**
+   * تسجيل تنفيذ (كامل أو جزئي) لتحديث التعرض والربح/الخسارة اليومية
+   */
+  public recordFill(fill: RiskFill): void {
+    this.rollDay(fill.timestamp);
+
+    const position = this.positions.get(fill.symbol) || { quantity: 0, price: fill.price };
+    position.quantity += fill.side === 'BUY' ? fill.quantity : -fill.quantity;
+    position.price = fill.price;
+
+    if (Math.abs(position.quantity) <= EPSILON) {
+      this.positions.delete(fill.symbol);
+    } else {
+      this.positions.set(fill.symbol, position);
+    }
+
+    if (fill.realizedPnL) this.dailyPnL += fill.realizedPnL;
+  }
+
+  /**
+   * تسجيل ربح/خسارة محققة لا ترتبط بتنفيذ محدد
+   */
+  public recordPnL(pnl: number, timestamp?: number): void {
+    this.rollDay(timestamp);
+    this.dailyPnL += pnl;
+  }
+
+  /**
+   * تحديث قيمة الحساب لحساب الـ drawdown (المسارات التي تعرف قيمة حسابها)
+   */
+  public updateEquity(equity: number): void {
+    this.equity = equity;
+    if (equity > this.peakEquity) this.peakEquity = equity;
+  }
+
+  /**
+   * تعيين مركز موجود مسبقاً (مثلاً بعد استعادة حالة المحاكاة)
+   */
+  public setPosition(symbol: string, quantity: number, price: number): void {
+    if (Math.abs(quantity) <= EPSILON) {
+      this.positions.delete(symbol);
+      return;
+    }
+    this.positions.set(symbol, { quantity, price });
+  }
+
+  public updatePrice(symbol: string, price: number): void {
+    const position = this.positions.get(symbol);
+    if (position) position.price = price;
+  }
+
+  public resetPositions(): void {
+    this.positions.clear();
+  }
+
+  public resetDailyLoss(): void {
+    this.dailyPnL = 0;
+  }
+
+  /**
+   * إعادة الحالة بالكامل (المراكز والخسارة اليومية والذروة) مع الإبقاء على الإعدادات
+   */
+  public reset(): void {
+    this.positions.clear();
+    this.day = '';
+    this.dailyPnL = 0;
+    this.equity = 0;
+    this.peakEquity = 0;
+  }
+
+  /**
+   * حساب حجم الصفقة: المخاطرة حتى وقف الخسارة، بحد أقصى نسبة حجم الصفقة من رأس المال
+   */
+  public calculatePositionSize(equity: number, price: number, stopLoss: number = 0): number {
+    if (equity <= 0 || price <= 0) return 0;
+
+    const maxQuantity = (equity * this.config.maxPositionSize / 100) / price;
+    const stopDistance = stopLoss > 0 ? Math.abs(price - stopLoss) : 0;
+    if (stopDistance === 0) return maxQuantity;
+
+    const riskQuantity = (equity * this.config.riskPerTrade / 100) / stopDistance;
+    return Math.min(riskQuantity, maxQuantity);
+  }
+
+  public getStatus(timestamp?: number): RiskStatus {
+    this.rollDay(timestamp);
+    const haltReason = this.getHaltReason();
+
+    return {
+      day: this.day,
+      dailyPnL: this.dailyPnL,
+      dailyLoss: this.getDailyLoss(),
+      currentDrawdown: this.getDrawdown(),
+      grossExposure: this.getGrossExposure(),
+      openPositions: this.positions.size,
+      killSwitch: this.config.killSwitch,
+      halted: haltReason !== null,
+      haltReason: haltReason || undefined
+    };
+  }
+
+  public getSymbolExposure(symbol: string): number {
+    const position = this.positions.get(symbol);
+    return position ? Math.abs(position.quantity) * position.price : 0;
+  }
+
+  public getGrossExposure(excludeSymbol?: string): number {
+    let total = 0;
+    for (const [symbol, position] of this.positions) {
+      if (symbol !== excludeSymbol) total += Math.abs(position.quantity) * position.price;
+    }
+    return total;
+  }
+
+  /**
+   * أسباب إيقاف التداول على مستوى الحساب بالكامل
+   */
+  private getHaltReason(): string | null {
+    if (this.config.killSwitch) return 'Kill switch is active';
+    if (this.getDailyLoss() >= this.config.maxDailyLoss) {
+      return `Daily loss limit reached ($${this.getDailyLoss().toFixed(2)} / $${this.config.maxDailyLoss})`;
+    }
+    if (this.getDrawdown() >= this.config.maxDrawdown) {
+      return `Max drawdown reached (${this.getDrawdown().toFixed(2)}% / ${this.config.maxDrawdown}%)`;
+    }
+    return null;
+  }
+
+  private findViolation(symbol: string, current: number, symbolExposure: number, grossExposure: number): string | null {
+    const haltReason = this.getHaltReason();
+    if (haltReason) return haltReason;
+
+    if (current === 0 && this.positions.size >= this.config.maxConcurrentPositions) {
+      return `Max concurrent positions reached (${this.config.maxConcurrentPositions})`;
+    }
+
+    const symbolLimit = this.config.symbolExposureLimits[symbol] ?? this.config.maxSymbolExposure;
+    if (symbolExposure > symbolLimit) {
+      return `Symbol exposure $${symbolExposure.toFixed(2)} exceeds $${symbolLimit} cap for ${symbol}`;
+    }
+
+    if (grossExposure > this.config.maxGrossExposure) {
+      return `Gross exposure $${grossExposure.toFixed(2)} exceeds $${this.config.maxGrossExposure} cap`;
+    }
+
+    return null;
+  }
+
+  private getRiskLevel(grossExposure: number): 'LOW' | 'MEDIUM' | 'HIGH' {
+    const utilization = grossExposure / this.config.maxGrossExposure;
+    if (utilization > 0.8) return 'HIGH';
+    if (utilization > 0.5) return 'MEDIUM';
+    return 'LOW';
+  }
+
+  private getDailyLoss(): number {
+    return Math.max(0, -this.dailyPnL);
+  }
+
+  private getDrawdown(): number {
+    return this.peakEquity > 0 ? ((this.peakEquity - this.equity) / this.peakEquity) * 100 : 0;
+  }
+
+  /**
+   * تصفير الخسارة اليومية عند تجاوز حد اليوم في المنطقة الزمنية المحددة
+   */
+  private rollDay(timestamp: number = Date.now()): void {
+    const day = this.dayFormatter.format(timestamp);
+    if (day !== this.day) {
+      if (this.day) console.log(`[RISK] New trading day ${day} - daily P&L reset`);
+      this.day = day;
+      this.dailyPnL = 0;
+    }
+  }
+
+  private createDayFormatter(timeZone: string): Intl.DateTimeFormat {
+    // en-CA يعطي التاريخ بصيغة YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  }
+
+  private loadConfig(): Partial<RiskConfig> {
+    if (!this.storageKey) return {};
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      return saved ? JSON.parse(saved) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private saveConfig(): void {
+    if (!this.storageKey) return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.config));
+    } catch (error) {
+      console.warn('[RISK] Failed to persist risk config:', error);
+    }
+  }
+}
+
+export const riskManager = new RiskManager({}, { storageKey: 'ellen_risk_config' });
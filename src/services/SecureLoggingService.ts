@@ -2,6 +2,8 @@
  * خدمة التسجيل الآمنة مع إرسال للخادم الخلفي
  */
 
+import { backendService } from './BackendService';
+
 export interface SecureLogEntry {
   id: string;
   symbol: string;
@@ -49,6 +51,16 @@ export interface RiskLogEntry {
   timestamp: string;
 }
 
+export interface SystemLogEntry {
+  id: string;
+  level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+  type: string;
+  message: string;
+  source: 'FRONTEND';
+  timestamp: string;
+  metadata?: Record<string, unknown>;
+}
+
 class SecureLoggingService {
   private backendUrl: string;
   private frontendToken: string;
@@ -169,6 +181,26 @@ class SecureLoggingService {
     return logEntry.id;
   }
 
+  /**
+   * تسجيل حدث نظام في الخادم (مثل فتح قاطع دائرة) ليصل لخدمة التنبيهات
+   */
+  async logSystem(entry: Omit<SystemLogEntry, 'id' | 'timestamp' | 'source'>): Promise<string> {
+    const logEntry: SystemLogEntry = {
+      id: this.generateLogId(),
+      ...entry,
+      source: 'FRONTEND',
+      timestamp: new Date().toISOString()
+    };
+
+    try {
+      await this.sendToBackend('/logs/system', logEntry);
+    } catch (error) {
+      console.warn('Failed to send system log to backend:', error);
+    }
+
+    return logEntry.id;
+  }
+
   /**
    * الحصول على السجلات من الخادم
    */
@@ -199,7 +231,8 @@ class SecureLoggingService {
       
       const response = await fetch(url, {
         headers: {
-          'X-Frontend-Token': this.frontendToken
+          'X-Frontend-Token': this.frontendToken,
+          ...backendService.getAuthHeaders()
         }
       });
 
@@ -361,7 +394,8 @@ class SecureLoggingService {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-Frontend-Token': this.frontendToken
+        'X-Frontend-Token': this.frontendToken,
+        ...backendService.getAuthHeaders()
       },
       body: JSON.stringify(data)
     });
@@ -0,0 +1,111 @@
+/**
+ * اختبارات دورة تحليل المحرك: دفتر الأوامر الاختياري وجلب شموع الإحماء على صفحات
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const backend = vi.hoisted(() => ({
+  getOrderBook: async (): Promise<unknown> => null
+}));
+
+vi.mock('./BackendService', () => ({ backendService: backend }));
+
+import { TradingEngine, EngineSignalEvent } from './TradingEngine';
+import { CandleStore, KlineFetcher, MAX_KLINES_PER_REQUEST } from './CandleStore';
+import { PositionTracker, PriceSource } from './PositionTracker';
+import { RiskManager } from './RiskManager';
+import { HybridTradingManager } from '../strategies/HybridManager';
+import { TestingUtils } from '../utils/TestingUtils';
+import type { OrderExecutor, ExecutionResult } from './OrderExecutor';
+import type { CandleData } from '../utils/TechnicalAnalysis';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2024, 0, 10);
+
+const noPrices: PriceSource = { subscribe: () => () => {} };
+
+class IdleExecutor implements OrderExecutor {
+  readonly name = 'PAPER';
+
+  async execute(): Promise<ExecutionResult> {
+    return { success: false, status: 'REJECTED', error: 'not expected' };
+  }
+
+  async getQuoteBalance(): Promise<number> {
+    return 1000;
+  }
+}
+
+// مثل Binance: limit شمعة تنتهي عند endTime (أو الآن) بحد 1000 في الطلب
+function createFetcher(requests: Array<{ limit: number; endTime?: number }>): KlineFetcher {
+  return async (_symbol, _interval, limit, options) => {
+    requests.push({ limit, endTime: options.endTime });
+    const lastOpen = Math.floor((options.endTime ?? NOW) / MINUTE) * MINUTE;
+    const size = Math.min(limit, MAX_KLINES_PER_REQUEST);
+    return Array.from({ length: size }, (_, i): CandleData => ({
+      timestamp: lastOpen - (size - 1 - i) * MINUTE,
+      open: 100,
+      high: 101,
+      low: 99,
+      close: 100,
+      volume: 1000
+    }));
+  };
+}
+
+function createEngine(manager: HybridTradingManager, fetcher: KlineFetcher): TradingEngine {
+  const executor = new IdleExecutor();
+  return new TradingEngine(
+    { symbols: ['BTCUSDT'], minConfidence: 101 },
+    executor,
+    manager,
+    new RiskManager({}, { logging: false }),
+    new PositionTracker(executor, noPrices),
+    new CandleStore(fetcher)
+  );
+}
+
+describe('TradingEngine analysis cycle', () => {
+  let manager: HybridTradingManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    manager = new HybridTradingManager(new RiskManager({}, { logging: false }));
+    manager.setDecisionLogging(false);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should analyse without the order book when fetching it fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(backend, 'getOrderBook').mockRejectedValue(new Error('depth unavailable'));
+    const candles = TestingUtils.generateMockCandleData(300);
+    const engine = createEngine(manager, async () => candles);
+    const analyze = vi.spyOn(manager, 'analyze');
+    const signals: EngineSignalEvent[] = [];
+    engine.onSignal(event => signals.push(event));
+
+    await engine.analyzeMarket();
+
+    expect(signals).toHaveLength(1);
+    expect(analyze).toHaveBeenCalledWith(candles, undefined, 'BTCUSDT', undefined);
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('should page klines beyond the Binance limit to cover the strategy warmup', async () => {
+    vi.spyOn(manager, 'getWarmup').mockReturnValue(2500);
+    const requests: Array<{ limit: number; endTime?: number }> = [];
+    const engine = createEngine(manager, createFetcher(requests));
+    const analyze = vi.spyOn(manager, 'analyze');
+
+    await engine.analyzeMarket();
+
+    expect(requests.map(request => request.limit)).toEqual([1000, 1000, 500]);
+    expect(requests.every(request => request.limit <= MAX_KLINES_PER_REQUEST)).toBe(true);
+    const input = analyze.mock.calls[0][0] as CandleData[];
+    expect(input).toHaveLength(2500);
+    expect(input.every((candle, i) => i === 0 || candle.timestamp - input[i - 1].timestamp === MINUTE)).toBe(true);
+  });
+});
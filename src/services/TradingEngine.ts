@@ -1,211 +1,357 @@
+import { backendService } from './BackendService';
+import { OrderExecutor, ExecutionResult, createDefaultExecutor } from './OrderExecutor';
+import { RiskManager, riskManager as sharedRiskManager } from './RiskManager';
+import { PositionTracker, TrackedPosition } from './PositionTracker';
+import { HybridTradingManager, HybridSignal } from '../strategies/HybridManager';
+import { CandleStore, candleStore as sharedCandleStore } from './CandleStore';
+import { CandleData } from '../utils/TechnicalAnalysis';
+import { MultiTimeframeCandles, sortTimeframes } from '../utils/Timeframes';
+
 export interface TradingConfig {
-  profitTarget: number;
-  stopLoss: number;
-  maxPositionSize: number;
   analysisSpeed: number;
   riskLevel: 'low' | 'medium' | 'high';
+  symbols: string[];
+  interval: string;
+  timeframes?: string[]; // مثل ['1m', '15m', '4h']: النظام من الأكبر والدخول من الأصغر (يتجاهل interval)
+  candleLimit: number;
+  minConfidence: number;
+  strategyId?: string;
+  allowShort: boolean; // يتطلب حساباً يدعم الاقتراض (مثل المحاكاة بوضع الهامش)
+  trailingStopPercent?: number; // وقف متحرك لكل مركز جديد (معطل إذا لم يحدد)
 }
 
-export interface MarketSignal {
+export interface EngineSignalEvent {
   symbol: string;
-  action: 'BUY' | 'SELL' | 'HOLD';
-  confidence: number;
+  signal: HybridSignal;
   price: number;
   timestamp: Date;
-  indicators: {
-    rsi: number;
-    macd: number;
-    volume: number;
-    trend: string;
-  };
+  execution?: ExecutionResult;
 }
 
+type SignalListener = (event: EngineSignalEvent) => void;
+
+const DEFAULT_CONFIG: TradingConfig = {
+  analysisSpeed: 60000,
+  riskLevel: 'medium',
+  symbols: ['BTCUSDT'],
+  interval: '1m',
+  candleLimit: 200,
+  minConfidence: 70,
+  allowShort: false
+};
+
 export class TradingEngine {
   private config: TradingConfig;
   private isRunning: boolean = false;
-  private positions: Map<string, any> = new Map();
-  private analysisInterval: NodeJS.Timeout | null = null;
+  private isAnalyzing: boolean = false;
+  private positionTracker: PositionTracker;
+  private analysisInterval: ReturnType<typeof setInterval> | null = null;
+  private executor: OrderExecutor;
+  private hybridManager: HybridTradingManager;
+  private riskManager: RiskManager;
+  private listeners: Set<SignalListener> = new Set();
+  private lastSignals: Map<string, HybridSignal> = new Map();
+  private candleStore: CandleStore;
 
-  constructor(config: TradingConfig) {
-    this.config = config;
+  constructor(
+    config: Partial<TradingConfig> = {},
+    executor: OrderExecutor = createDefaultExecutor(),
+    hybridManager: HybridTradingManager = new HybridTradingManager(),
+    riskManager: RiskManager = sharedRiskManager,
+    positionTracker: PositionTracker = new PositionTracker(executor),
+    candleStore: CandleStore = sharedCandleStore
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.executor = executor;
+    this.hybridManager = hybridManager;
+    this.riskManager = riskManager;
+    this.positionTracker = positionTracker;
+    this.candleStore = candleStore;
+    this.hybridManager.getExitRules().forEach(rule => this.positionTracker.addExitRule(rule));
   }
 
   public start(): void {
     if (this.isRunning) return;
-    
+
     this.isRunning = true;
+    this.positionTracker.start();
     this.startAnalysis();
-    console.log('Trading engine started');
+    console.log(`[ENGINE] Trading engine started (${this.executor.name}) for ${this.config.symbols.join(', ')}`);
   }
 
   public stop(): void {
     this.isRunning = false;
+    this.positionTracker.stop();
     if (this.analysisInterval) {
       clearInterval(this.analysisInterval);
       this.analysisInterval = null;
     }
-    console.log('Trading engine stopped');
+    console.log('[ENGINE] Trading engine stopped');
+  }
+
+  public getIsRunning(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * الاشتراك في الإشارات الناتجة عن كل دورة تحليل
+   */
+  public onSignal(listener: SignalListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * تغيير منفذ الأوامر (مثلاً عند التبديل بين المحاكاة والحساب الحقيقي)
+   */
+  public setExecutor(executor: OrderExecutor): void {
+    this.executor = executor;
+    this.positionTracker.setExecutor(executor);
+  }
+
+  public getExecutor(): OrderExecutor {
+    return this.executor;
+  }
+
+  public getHybridManager(): HybridTradingManager {
+    return this.hybridManager;
+  }
+
+  public getPositionTracker(): PositionTracker {
+    return this.positionTracker;
   }
 
   private startAnalysis(): void {
+    // تحليل فوري ثم على فترات
+    this.analyzeMarket();
     this.analysisInterval = setInterval(() => {
       this.analyzeMarket();
     }, this.config.analysisSpeed);
   }
 
-  private async analyzeMarket(): Promise<void> {
-    const symbols = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT'];
-    
-    for (const symbol of symbols) {
-      try {
-        const signal = await this.generateSignal(symbol);
-        await this.processSignal(signal);
-      } catch (error) {
-        console.error(`Error analyzing ${symbol}:`, error);
+  /**
+   * دورة تحليل واحدة لجميع الرموز
+   */
+  public async analyzeMarket(): Promise<void> {
+    // منع تداخل الدورات إذا تأخرت استجابة الخادم
+    if (this.isAnalyzing) return;
+    this.isAnalyzing = true;
+
+    try {
+      for (const symbol of this.config.symbols) {
+        try {
+          await this.analyzeSymbol(symbol);
+        } catch (error) {
+          console.error(`[ENGINE] Error analyzing ${symbol}:`, error);
+        }
       }
+    } finally {
+      this.isAnalyzing = false;
     }
   }
 
-  private async generateSignal(symbol: string): Promise<MarketSignal> {
-    // محاكاة تحليل السوق السريع
-    const price = Math.random() * 50000 + 30000;
-    const rsi = Math.random() * 100;
-    const macd = (Math.random() - 0.5) * 1000;
-    const volume = Math.random() * 1000000000;
-
-    let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
-    let confidence = 50;
-
-    // خوارزمية تحليل سريعة
-    if (rsi < 30 && macd > 0) {
-      action = 'BUY';
-      confidence = 75 + Math.random() * 20;
-    } else if (rsi > 70 && macd < 0) {
-      action = 'SELL';
-      confidence = 75 + Math.random() * 20;
-    } else {
-      confidence = 40 + Math.random() * 30;
+  private async analyzeSymbol(symbol: string): Promise<void> {
+    // دفتر الأوامر اختياري للتحليل، فلا يلغي فشله الدورة
+    const [{ candles, input }, orderBook] = await Promise.all([
+      this.loadCandles(symbol),
+      backendService.getOrderBook(symbol, 20).catch(() => undefined)
+    ]);
+
+    if (candles.length === 0) {
+      console.warn(`[ENGINE] No candles received for ${symbol}`);
+      return;
     }
 
-    return {
-      symbol,
-      action,
-      confidence,
-      price,
-      timestamp: new Date(),
-      indicators: {
-        rsi,
-        macd,
-        volume,
-        trend: macd > 0 ? 'bullish' : 'bearish'
+    const price = candles[candles.length - 1].close;
+    this.positionTracker.updateCandles(symbol, candles);
+    const bookTop = orderBook && orderBook.bids.length > 0 && orderBook.asks.length > 0
+      ? {
+        bid: orderBook.bids[0].price,
+        ask: orderBook.asks[0].price,
+        bidSize: orderBook.bids[0].quantity,
+        askSize: orderBook.asks[0].quantity
       }
-    };
-  }
+      : undefined;
 
-  private async processSignal(signal: MarketSignal): Promise<void> {
-    if (signal.confidence < 70) return; // تجاهل الإشارات الضعيفة
+    const signal = this.hybridManager.analyze(input, bookTop, symbol, this.config.strategyId);
+    this.lastSignals.set(symbol, signal);
+    const execution = await this.processSignal(symbol, signal, price);
 
-    const position = this.positions.get(signal.symbol);
+    this.emit({ symbol, signal, price, timestamp: new Date(), execution });
+  }
 
-    if (signal.action === 'BUY' && !position) {
-      await this.openPosition(signal, 'LONG');
-    } else if (signal.action === 'SELL' && !position) {
-      await this.openPosition(signal, 'SHORT');
-    } else if (position) {
-      await this.checkExitConditions(signal, position);
+  /**
+   * شموع الإطار الأصغر (للسعر والمراكز) ومدخل التحليل (سلسلة واحدة أو عدة أطر متزامنة)
+   */
+  private async loadCandles(symbol: string): Promise<{ candles: CandleData[]; input: CandleData[] | MultiTimeframeCandles }> {
+    const timeframes = this.config.timeframes;
+    // الاستراتيجية لا تعطي إشارة قبل شموع الإحماء (مثل 301 مع SMA(300))، فلا نطلب أقل منها
+    // ما يتجاوز حد Binance (1000) يجلبه CandleStore على صفحات
+    const limit = Math.max(this.config.candleLimit, this.hybridManager.getWarmup(this.config.strategyId));
+    if (!timeframes || timeframes.length < 2) {
+      const candles = await this.candleStore.getCandles(symbol, this.config.interval, limit);
+      return { candles, input: candles };
     }
+
+    const series = await this.candleStore.getTimeframes(symbol, timeframes, limit);
+    return { candles: series[sortTimeframes(timeframes)[0]], input: series };
   }
 
-  private async openPosition(signal: MarketSignal, side: 'LONG' | 'SHORT'): Promise<void> {
-    const position = {
-      symbol: signal.symbol,
-      side,
-      entryPrice: signal.price,
-      quantity: this.calculatePositionSize(signal.price),
-      timestamp: new Date(),
-      profitTarget: this.config.profitTarget,
-      stopLoss: this.config.stopLoss
-    };
+  private async processSignal(symbol: string, signal: HybridSignal, price: number): Promise<ExecutionResult | undefined> {
+    const position = this.positionTracker.get(symbol);
 
-    this.positions.set(signal.symbol, position);
-    console.log(`Opened ${side} position for ${signal.symbol} at ${signal.price}`);
+    // فحص القوس بسعر الدورة (احتياطاً لانقطاع بث الأسعار) ثم خروج الإشارة المعاكسة
+    if (position) {
+      const bracketExit = await this.positionTracker.onPrice(symbol, price);
+      if (bracketExit || !this.positionTracker.has(symbol)) return bracketExit;
+
+      const exitReason = this.checkSignalExit(position, signal);
+      return exitReason ? this.positionTracker.close(symbol, exitReason) : undefined;
+    }
+
+    if (signal.confidence < this.config.minConfidence) return undefined; // تجاهل الإشارات الضعيفة
+
+    const side = this.resolveEntrySide(signal.action);
+    if (!side || (side === 'SELL' && !this.config.allowShort)) {
+      // حساب Spot لا يدعم البيع على المكشوف
+      return undefined;
+    }
 
-    // محاكاة إرسال أمر للبورصة
-    await this.sendOrderToBinance(position);
+    return this.openPosition(symbol, signal, price, side);
   }
 
-  private async checkExitConditions(signal: MarketSignal, position: any): Promise<void> {
-    const currentPrice = signal.price;
-    const entryPrice = position.entryPrice;
-    
-    let profitPercent = 0;
-    if (position.side === 'LONG') {
-      profitPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
-    } else {
-      profitPercent = ((entryPrice - currentPrice) / entryPrice) * 100;
+  /**
+   * تحويل إجراءات الاستراتيجيات المختلفة إلى جهة الأمر
+   */
+  private resolveEntrySide(action: string): 'BUY' | 'SELL' | null {
+    switch (action) {
+      case 'BUY':
+      case 'PLACE_BID':
+        return 'BUY';
+      case 'SELL':
+      case 'PLACE_ASK':
+        return 'SELL';
+      default:
+        return null;
     }
+  }
+
+  private async openPosition(
+    symbol: string,
+    signal: HybridSignal,
+    price: number,
+    side: 'BUY' | 'SELL'
+  ): Promise<ExecutionResult> {
+    const entryPrice = signal.entryPrice > 0 ? signal.entryPrice : price;
+    const quantity = signal.quantity > 0 ? signal.quantity : await this.calculatePositionSize(entryPrice, signal.stopLoss);
+    const isLimitEntry = signal.action === 'PLACE_BID' || signal.action === 'PLACE_ASK';
+
+    const execution = await this.executor.execute({
+      symbol,
+      side,
+      type: isLimitEntry ? 'LIMIT' : 'MARKET',
+      quantity,
+      price: isLimitEntry ? entryPrice : undefined,
+      // المحرك لا يتابع الأوامر المعلقة بعد، لذا يلغى ما لم ينفذ فوراً
+      timeInForce: isLimitEntry ? 'IOC' : undefined,
+      strategy: signal.strategy,
+      reason: signal.reasons.join(' | ')
+    });
 
-    // فحص شروط الخروج
-    if (profitPercent >= this.config.profitTarget) {
-      await this.closePosition(signal.symbol, 'PROFIT_TARGET');
-    } else if (profitPercent <= -this.config.stopLoss) {
-      await this.closePosition(signal.symbol, 'STOP_LOSS');
+    if (!execution.success) {
+      console.warn(`[ENGINE] Entry rejected for ${symbol}: ${execution.error}`);
+      return execution;
     }
+
+    const filledPrice = execution.executedPrice || entryPrice;
+    const direction = side === 'BUY' ? 1 : -1;
+    const { stopLossPercent, takeProfitPercent } = this.riskManager.getConfig();
+    const position = this.positionTracker.open({
+      symbol,
+      side: side === 'BUY' ? 'LONG' : 'SHORT',
+      entryPrice: filledPrice,
+      quantity: execution.executedQuantity || quantity,
+      stopLoss: signal.stopLoss > 0 ? signal.stopLoss : filledPrice * (1 - direction * stopLossPercent / 100),
+      takeProfit: signal.takeProfit > 0 ? signal.takeProfit : filledPrice * (1 + direction * takeProfitPercent / 100),
+      trailingStopPercent: this.config.trailingStopPercent,
+      maxHoldTime: signal.maxHoldTime,
+      strategy: signal.strategy,
+      orderId: execution.orderId
+    });
+
+    console.log(
+      `[ENGINE] Opened ${position.side} ${position.quantity} ${symbol} @ ${filledPrice} ` +
+      `(SL ${position.stopLoss.toFixed(2)} / TP ${position.takeProfit.toFixed(2)}) via ${this.executor.name}`
+    );
+
+    return execution;
   }
 
-  private async closePosition(symbol: string, reason: string): Promise<void> {
-    const position = this.positions.get(symbol);
-    if (!position) return;
+  /**
+   * خروج بسبب إشارة معاكسة قوية أو أمر إغلاق من الاستراتيجية
+   */
+  private checkSignalExit(position: TrackedPosition, signal: HybridSignal): string | null {
+    if (signal.action === 'CLOSE_ALL') return 'STRATEGY_EXIT';
+    const oppositeSide = position.side === 'LONG' ? 'SELL' : 'BUY';
+    if (this.resolveEntrySide(signal.action) === oppositeSide && signal.confidence >= this.config.minConfidence) {
+      return `${oppositeSide}_SIGNAL`;
+    }
 
-    this.positions.delete(symbol);
-    console.log(`Closed position for ${symbol} - Reason: ${reason}`);
+    return null;
+  }
 
-    // محاكاة إرسال أمر إغلاق للبورصة
-    await this.sendCloseOrderToBinance(position, reason);
+  private async calculatePositionSize(price: number, stopLoss: number): Promise<number> {
+    // حجم الصفقة من الرصيد المتاح حسب حدود مدير المخاطر
+    const accountBalance = await this.executor.getQuoteBalance('USDT');
+    return this.riskManager.calculatePositionSize(accountBalance, price, stopLoss);
   }
 
-  private calculatePositionSize(price: number): number {
-    // حساب حجم الصفقة بناءً على إدارة المخاطر
-    const accountBalance = 1000; // محاكاة رصيد الحساب
-    const riskAmount = accountBalance * (this.config.maxPositionSize / 100);
-    return riskAmount / price;
+  private emit(event: EngineSignalEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[ENGINE] Signal listener failed:', error);
+      }
+    });
   }
 
-  private async sendOrderToBinance(position: any): Promise<void> {
-    // محاكاة إرسال أمر لـ Binance
-    const isDryRun = import.meta.env.VITE_DRY_RUN === 'true';
-    
-    if (isDryRun) {
-      console.log('[DRY_RUN] Simulated order sent to Binance:', position);
-    } else {
-      // في التطبيق الحقيقي، هنا سيتم استخدام Binance API
-    }
-    console.log('Order sent to Binance:', position);
+  public getActivePositions(): TrackedPosition[] {
+    return this.positionTracker.getOpenPositions();
+  }
+
+  /**
+   * آخر إشارة لكل رمز (حالة السوق والاستراتيجية المختارة)
+   */
+  public getLastSignal(symbol: string): HybridSignal | undefined {
+    return this.lastSignals.get(symbol);
   }
 
-  private async sendCloseOrderToBinance(position: any, reason: string): Promise<void> {
-    // محاكاة إرسال أمر إغلاق لـ Binance
-    const isDryRun = import.meta.env.VITE_DRY_RUN === 'true';
-    
-    if (isDryRun) {
-      console.log('[DRY_RUN] Simulated close order sent to Binance:', { position, reason });
-    } else {
-      // في التطبيق الحقيقي، هنا سيتم استخدام Binance API
+  /**
+   * إغلاق جميع المراكز المفتوحة بأوامر سوق
+   */
+  public async flattenAll(reason: string = 'MANUAL_FLATTEN'): Promise<ExecutionResult[]> {
+    const results: ExecutionResult[] = [];
+    for (const position of this.positionTracker.getOpenPositions()) {
+      const execution = await this.positionTracker.close(position.symbol, reason);
+      if (execution) results.push(execution);
     }
-    console.log('Close order sent to Binance:', { position, reason });
+    return results;
   }
 
-  public getActivePositions(): any[] {
-    return Array.from(this.positions.values());
+  public getConfig(): TradingConfig {
+    return { ...this.config };
   }
 
   public updateConfig(newConfig: Partial<TradingConfig>): void {
     this.config = { ...this.config, ...newConfig };
-    
+
     // إعادة تشغيل التحليل بالسرعة الجديدة إذا تغيرت
     if (newConfig.analysisSpeed && this.isRunning) {
       this.stop();
       this.start();
     }
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { CandleData } from '../utils/TechnicalAnalysis';
+import { ConfigSchema, Strategy, StrategyContext, StrategyModule } from './Strategy';
 
 export interface GridDCAConfig {
   gridRange: number; // نطاق الشبكة كنسبة مئوية (مثل 10 = ±10%)
@@ -27,7 +28,26 @@ export interface GridDCASignal {
   shouldStop: boolean;
 }
 
-export class GridDCAStrategy {
+/**
+ * حالة الشبكة المحفوظة (التوقيت بالمللي ثانية ليبقى قابلاً للتحويل إلى JSON)
+ */
+export interface GridDCAState {
+  referencePrice: number;
+  totalExposure: number;
+  gridLevels: Array<Omit<GridLevel, 'timestamp'> & { timestamp?: number }>;
+}
+
+const CONFIG_SCHEMA: ConfigSchema<GridDCAConfig> = {
+  gridRange: { label: 'نطاق الشبكة %', type: 'number', min: 0.1, max: 100 },
+  gridStep: { label: 'خطوة الشبكة %', type: 'number', min: 0.01, max: 100 },
+  maxExposure: { label: 'أقصى تعرض %', type: 'number', min: 0, max: 100 },
+  dcaMultiplier: { label: 'مضاعف DCA', type: 'number', min: 1 },
+  stopLossPercent: { label: 'وقف الخسارة %', type: 'number', min: 0, max: 100 }
+};
+
+export class GridDCAStrategy implements Strategy<GridDCAConfig, GridDCASignal, GridDCAState> {
+  public readonly configSchema = CONFIG_SCHEMA;
+  public readonly warmup = 1;
   private config: GridDCAConfig;
   private referencePrice: number = 0;
   private gridLevels: GridLevel[] = [];
@@ -50,7 +70,11 @@ export class GridDCAStrategy {
     this.totalExposure = 0;
   }
 
-  public analyze(candles: CandleData[]): GridDCASignal {
+  public getConfig(): GridDCAConfig {
+    return { ...this.config };
+  }
+
+  public analyze({ candles }: StrategyContext): GridDCASignal {
     if (candles.length === 0) {
       return this.createHoldSignal('لا توجد بيانات');
     }
@@ -218,6 +242,23 @@ export class GridDCAStrategy {
     this.totalExposure = 0;
   }
 
+  public getState(): GridDCAState {
+    return {
+      referencePrice: this.referencePrice,
+      totalExposure: this.totalExposure,
+      gridLevels: this.gridLevels.map(level => ({ ...level, timestamp: level.timestamp?.getTime() }))
+    };
+  }
+
+  public setState(state: GridDCAState): void {
+    this.referencePrice = state.referencePrice;
+    this.totalExposure = state.totalExposure;
+    this.gridLevels = state.gridLevels.map(level => ({
+      ...level,
+      timestamp: level.timestamp !== undefined ? new Date(level.timestamp) : undefined
+    }));
+  }
+
   public getStatus(): {
     referencePrice: number;
     currentExposure: number;
@@ -256,7 +297,7 @@ export class GridDCAStrategy {
     // محاكاة سيناريو هبوط طويل
     for (let i = 50; i < historicalData.length; i++) {
       const windowData = historicalData.slice(0, i + 1);
-      const signal = this.analyze(windowData);
+      const signal = this.analyze({ candles: windowData, symbol: 'BTCUSDT' });
 
       if (signal.action === 'BUY' && signal.confidence > 60) {
         totalTrades++;
@@ -316,4 +357,17 @@ export class GridDCAStrategy {
     // إذا لم يتم الخروج، افترض خسارة صغيرة
     return -0.005;
   }
-}
\ No newline at end of file
+}
+
+export const gridDCAModule: StrategyModule<GridDCAConfig, GridDCASignal, GridDCAState> = {
+  metadata: {
+    id: 'GRID_DCA',
+    name: 'الشبكة + DCA',
+    description: 'شبكة تداول مع متوسط التكلفة',
+    riskLevel: 'HIGH',
+    expectedWinRate: 45,
+    color: 'purple',
+    icon: 'Grid3X3'
+  },
+  create: config => new GridDCAStrategy(config)
+};
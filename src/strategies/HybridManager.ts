@@ -1,11 +1,12 @@
-import { CandleData } from '../utils/TechnicalAnalysis';
-import { TradeRecord } from '../services/BacktestingService';
-import { TrendFollowingStrategy, TrendSignal } from './TrendFollowing';
-import { MeanReversionStrategy, MeanReversionSignal } from './MeanReversion';
-import { GridDCAStrategy, GridDCASignal } from './GridDCA';
-import { ScalpingStrategy, ScalpingSignal } from './Scalping';
-import { MarketMakingStrategy, MarketMakingSignal } from './MarketMaking';
+import { CandleData, TechnicalAnalysis } from '../utils/TechnicalAnalysis';
+import { AnyStrategy, OrderBookTop, StrategyMetadata, StrategyRegistry, StrategySignal } from './Strategy';
+import { strategyRegistry } from './registry';
 import { secureLoggingService } from '../services/SecureLoggingService';
+import { RiskManager, riskManager as sharedRiskManager } from '../services/RiskManager';
+import { ExitRule } from '../services/PositionTracker';
+import { MultiTimeframeCandles, sortTimeframes } from '../utils/Timeframes';
+
+const REGIME_WARMUP = 50; // أقل عدد شموع لتحديد نظام السوق
 
 export interface MarketCondition {
   volatility: number;
@@ -13,10 +14,20 @@ export interface MarketCondition {
   liquidity: number;
   regime: 'TRENDING' | 'RANGING' | 'VOLATILE' | 'ILLIQUID';
   confidence: number;
+  timeframe?: string; // الإطار الذي حدد منه النظام (عند التحليل متعدد الأطر)
+}
+
+/**
+ * السلاسل المستخدمة في التحليل: النظام من الإطار الأكبر والدخول من الأصغر
+ */
+interface AnalysisSeries {
+  entry: CandleData[];
+  regime: CandleData[];
+  regimeTimeframe?: string;
 }
 
 export interface HybridSignal {
-  strategy: 'TREND_FOLLOWING' | 'MEAN_REVERSION' | 'GRID_DCA' | 'SCALPING' | 'MARKET_MAKING';
+  strategy: string; // معرف الاستراتيجية في السجل
   action: string;
   confidence: number;
   entryPrice: number;
@@ -26,88 +37,99 @@ export interface HybridSignal {
   reasons: string[];
   marketCondition: MarketCondition;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  maxHoldTime?: number; // أقصى مدة احتفاظ بالمركز (بالدقائق)
 }
 
+/**
+ * لقطة من حالة RiskManager لعرضها في الواجهة
+ */
 export interface RiskManagement {
   maxDrawdown: number;
   currentDrawdown: number;
   dailyLoss: number;
   maxDailyLoss: number;
-  positionSize: number;
+  positionSize: number; // نسبة التعرض الإجمالي من الحد الأقصى (%)
   maxPositionSize: number;
   riskPerTrade: number;
   shouldStop: boolean;
+  haltReason?: string;
 }
 
+/**
+ * الوضع التلقائي: ليس استراتيجية في السجل بل اختيار إحداها حسب حالة السوق
+ */
+export const HYBRID_STRATEGY: StrategyMetadata = {
+  id: 'HYBRID',
+  name: 'النظام الهجين',
+  description: 'يختار الاستراتيجية المناسبة تلقائياً حسب حالة السوق',
+  riskLevel: 'MEDIUM',
+  expectedWinRate: 70,
+  color: 'purple',
+  icon: 'Brain'
+};
+
 export class HybridTradingManager {
-  private trendStrategy: TrendFollowingStrategy;
-  private meanReversionStrategy: MeanReversionStrategy;
-  private gridDCAStrategy: GridDCAStrategy;
-  private scalpingStrategy: ScalpingStrategy;
-  private marketMakingStrategy: MarketMakingStrategy;
+  private registry: StrategyRegistry;
+  private strategies: Map<string, AnyStrategy> = new Map();
 
   private currentStrategy: string = 'TREND_FOLLOWING';
   private lastStrategyChange: number = 0;
   private hysteresisDelay: number = 300000; // 5 دقائق
   
-  private riskManagement: RiskManagement = {
-    maxDrawdown: 10,
-    currentDrawdown: 0,
-    dailyLoss: 0,
-    maxDailyLoss: 100,
-    positionSize: 0,
-    maxPositionSize: 20,
-    riskPerTrade: 1,
-    shouldStop: false
-  };
-
-  private accountBalance: number = 10000;
-  private peak: number = 10000;
-
-  constructor() {
-    this.trendStrategy = new TrendFollowingStrategy();
-    this.meanReversionStrategy = new MeanReversionStrategy();
-    this.gridDCAStrategy = new GridDCAStrategy();
-    this.scalpingStrategy = new ScalpingStrategy();
-    this.marketMakingStrategy = new MarketMakingStrategy();
+  private riskManager: RiskManager;
+  private riskManagement: RiskManagement;
+  private decisionLogging: boolean = true;
+
+  constructor(riskManager: RiskManager = sharedRiskManager, registry: StrategyRegistry = strategyRegistry) {
+    this.riskManager = riskManager;
+    this.riskManagement = this.readRiskManagement();
+    this.registry = registry;
+    // نسخة مستقلة لكل مدير حتى لا تتشارك الاختبارات التاريخية حالة الشبكة أو المخزون
+    registry.ids().forEach(id => this.strategies.set(id, registry.create(id)));
   }
 
+  /**
+   * تحليل سلسلة واحدة، أو عدة أطر { '1m': [...], '15m': [...], '4h': [...] }
+   * حيث يحدد نظام السوق من الإطار الأكبر وتؤكد الدخول الاستراتيجية على الإطار الأصغر
+   */
   public analyze(
-    candles: CandleData[], 
-    orderBook?: { bid: number; ask: number; bidSize: number; askSize: number },
+    input: CandleData[] | MultiTimeframeCandles,
+    orderBook?: OrderBookTop,
     symbol: string = 'BTCUSDT',
     forceStrategyId?: string
   ): HybridSignal {
     const analysisStart = performance.now();
+    const { entry: candles, regime, regimeTimeframe } = this.resolveSeries(input);
     
-    // تحديث إدارة المخاطر
-    this.updateRiskManagement();
+    // تحديث إدارة المخاطر (بتوقيت آخر شمعة حتى يتغير اليوم بشكل صحيح في الاختبار التاريخي)
+    this.updateRiskManagement(candles);
 
     // فحص شروط الإيقاف
     if (this.riskManagement.shouldStop) {
       // تسجيل إيقاف النظام
-      secureLoggingService.logRiskCheck({
+      if (this.decisionLogging) secureLoggingService.logRiskCheck({
         action: 'RISK_CHECK',
         currentDrawdown: this.riskManagement.currentDrawdown,
         dailyLoss: this.riskManagement.dailyLoss,
         positionSize: this.riskManagement.positionSize,
         riskLevel: 'HIGH',
         approved: false,
-        reason: 'تم تجاوز حدود المخاطرة - إيقاف النظام'
+        reason: `تم تجاوز حدود المخاطرة - إيقاف النظام (${this.riskManagement.haltReason})`
       });
       
-      return this.createStopSignal('تم تجاوز حدود المخاطرة');
+      return this.createStopSignal(`تم تجاوز حدود المخاطرة: ${this.riskManagement.haltReason}`);
     }
 
     // تحليل حالة السوق
-    const marketCondition = this.analyzeMarketCondition(candles);
+    const marketCondition = this.analyzeMarketCondition(regime, regimeTimeframe);
     
     // تحديد الاستراتيجية المناسبة أو استخدام المفروضة
     const optimalStrategy = forceStrategyId || this.selectOptimalStrategy(marketCondition);
     
     // تطبيق hysteresis لتجنب التبديل المتكرر
     if (!forceStrategyId) {
-      const now = Date.now();
+      // توقيت آخر شمعة حتى يعمل التأخير بنفس الشكل في الاختبار التاريخي
+      const now = candles.length > 0 ? candles[candles.length - 1].timestamp : Date.now();
       if (optimalStrategy !== this.currentStrategy && 
           now - this.lastStrategyChange > this.hysteresisDelay) {
         this.currentStrategy = optimalStrategy;
@@ -119,33 +141,17 @@ export class HybridTradingManager {
     }
 
     // تنفيذ الاستراتيجية المختارة
-    let signal: any;
-    
-    switch (this.currentStrategy) {
-      case 'TREND_FOLLOWING':
-        signal = this.trendStrategy.analyze(candles);
-        break;
-      case 'MEAN_REVERSION':
-        signal = this.meanReversionStrategy.analyze(candles);
-        break;
-      case 'GRID_DCA':
-        signal = this.gridDCAStrategy.analyze(candles);
-        break;
-      case 'SCALPING':
-        signal = this.scalpingStrategy.analyze(candles, orderBook);
-        break;
-      case 'MARKET_MAKING':
-        signal = this.marketMakingStrategy.analyze(candles, orderBook!, symbol);
-        break;
-      default:
-        signal = { action: 'HOLD', confidence: 0, reasons: ['استراتيجية غير معروفة'] };
-    }
+    const signal = this.runStrategy(this.currentStrategy, candles, orderBook, symbol);
 
     // تطبيق إدارة المخاطر على الإشارة
     const adjustedSignal = this.applyRiskManagement(signal, marketCondition);
     
     const analysisTime = performance.now() - analysisStart;
 
+    if (!this.decisionLogging) {
+      return this.buildSignal(this.currentStrategy, adjustedSignal, marketCondition, !!forceStrategyId);
+    }
+
     // تسجيل القرار
     secureLoggingService.logDecision({
       symbol,
@@ -175,47 +181,98 @@ export class HybridTradingManager {
         reason: 'تم تطبيق إدارة المخاطر على الإشارة'
       });
     }
+    return this.buildSignal(this.currentStrategy, adjustedSignal, marketCondition, !!forceStrategyId);
+  }
+
+  private resolveSeries(input: CandleData[] | MultiTimeframeCandles): AnalysisSeries {
+    if (Array.isArray(input)) return { entry: input, regime: input };
+
+    const timeframes = sortTimeframes(Object.keys(input));
+    if (timeframes.length === 0) return { entry: [], regime: [] };
+
+    const highest = timeframes[timeframes.length - 1];
     return {
-      strategy: this.currentStrategy as any,
-      action: adjustedSignal.action,
-      confidence: adjustedSignal.confidence,
-      entryPrice: adjustedSignal.entryPrice || 0,
-      stopLoss: adjustedSignal.stopLoss || 0,
-      takeProfit: adjustedSignal.takeProfit || 0,
-      quantity: adjustedSignal.quantity || 0,
+      entry: input[timeframes[0]],
+      regime: input[highest],
+      regimeTimeframe: timeframes.length > 1 ? highest : undefined
+    };
+  }
+
+  /**
+   * تنفيذ الاستراتيجية المطلوبة من السجل
+   */
+  private runStrategy(
+    strategyId: string,
+    candles: CandleData[],
+    orderBook: OrderBookTop | undefined,
+    symbol: string
+  ): StrategySignal {
+    const strategy = this.getStrategy(strategyId);
+    if (!strategy) {
+      return { action: 'HOLD', confidence: 0, reasons: ['استراتيجية غير معروفة'] };
+    }
+    return strategy.analyze({ candles, orderBook, symbol });
+  }
+
+  /**
+   * نسخة المدير من الاستراتيجية (تنشأ عند أول استخدام إن سجلت بعد إنشاء المدير)
+   */
+  private getStrategy(strategyId: string): AnyStrategy | undefined {
+    let strategy = this.strategies.get(strategyId);
+    if (!strategy && this.registry.has(strategyId)) {
+      strategy = this.registry.create(strategyId);
+      this.strategies.set(strategyId, strategy);
+    }
+    return strategy;
+  }
+
+  private buildSignal(
+    strategyId: string,
+    signal: StrategySignal,
+    marketCondition: MarketCondition,
+    forced: boolean
+  ): HybridSignal {
+    return {
+      strategy: strategyId,
+      action: signal.action,
+      confidence: signal.confidence,
+      entryPrice: signal.entryPrice || 0,
+      stopLoss: signal.stopLoss || 0,
+      takeProfit: signal.takeProfit || 0,
+      quantity: signal.quantity || 0,
       reasons: [
-        `استراتيجية: ${this.getStrategyName(this.currentStrategy)}${forceStrategyId ? ' (مفروضة)' : ''}`,
-        `حالة السوق: ${marketCondition.regime}`,
-        ...adjustedSignal.reasons
+        `استراتيجية: ${this.getStrategyName(strategyId)}${forced ? ' (مفروضة)' : ''}`,
+        `حالة السوق: ${marketCondition.regime}${marketCondition.timeframe ? ` (${marketCondition.timeframe})` : ''}`,
+        ...signal.reasons
       ],
       marketCondition,
-      riskLevel: this.calculateRiskLevel(adjustedSignal.confidence, marketCondition)
+      riskLevel: this.calculateRiskLevel(signal.confidence, marketCondition),
+      maxHoldTime: signal.maxHoldTime
     };
   }
 
-  private analyzeMarketCondition(candles: CandleData[]): MarketCondition {
-    if (candles.length < 50) {
+  private analyzeMarketCondition(candles: CandleData[], timeframe?: string): MarketCondition {
+    if (candles.length < REGIME_WARMUP) {
       return {
         volatility: 0,
         trendStrength: 0,
         liquidity: 0,
         regime: 'ILLIQUID',
-        confidence: 0
+        confidence: 0,
+        timeframe
       };
     }
 
     const closes = candles.map(c => c.close);
-    const highs = candles.map(c => c.high);
-    const lows = candles.map(c => c.low);
     const volumes = candles.map(c => c.volume);
 
     // حساب التقلبات (ATR normalized)
-    const atr = this.calculateATR(highs, lows, closes, 14);
+    const atr = TechnicalAnalysis.calculateATR(candles, 14);
     const avgPrice = closes.slice(-20).reduce((a, b) => a + b, 0) / 20;
     const volatility = atr / avgPrice;
 
     // حساب قوة الاتجاه (ADX)
-    const adx = this.calculateADX(highs, lows, closes, 14);
+    const adx = TechnicalAnalysis.calculateADX(candles, 14);
     const trendStrength = adx / 100;
 
     // حساب السيولة (متوسط الحجم)
@@ -246,7 +303,8 @@ export class HybridTradingManager {
       trendStrength,
       liquidity,
       regime,
-      confidence
+      confidence,
+      timeframe
     };
   }
 
@@ -263,13 +321,15 @@ export class HybridTradingManager {
         
       case 'RANGING':
         if (volatility < 0.02) {
-          return Math.random() > 0.5 ? 'MEAN_REVERSION' : 'GRID_DCA';
+          // نطاق ضيق جداً لا يكفي للارتداد عن الحدود فتناسبه الشبكة
+          return volatility >= 0.005 ? 'MEAN_REVERSION' : 'GRID_DCA';
         }
         break;
         
       case 'VOLATILE':
         if (liquidity > 1.2 && volatility > 0.03) {
-          return Math.random() > 0.5 ? 'SCALPING' : 'MARKET_MAKING';
+          // صناعة السوق تحتاج دفتراً عميقاً، وإلا فالمضاربة السريعة أقل تعرضاً
+          return liquidity >= 2 ? 'MARKET_MAKING' : 'SCALPING';
         }
         break;
         
@@ -281,42 +341,43 @@ export class HybridTradingManager {
     return 'MEAN_REVERSION';
   }
 
-  private applyRiskManagement(signal: any, marketCondition: MarketCondition): any {
+  private applyRiskManagement(signal: StrategySignal, marketCondition: MarketCondition): StrategySignal {
     // تقليل حجم الصفقة في الأسواق عالية المخاطر
     if (marketCondition.regime === 'VOLATILE') {
-      signal.quantity *= 0.7;
+      signal.quantity = (signal.quantity || 0) * 0.7;
       signal.reasons.push('تقليل حجم الصفقة بسبب التقلبات العالية');
     }
 
-    // منع التداول عند تجاوز حدود المخاطرة
-    if (this.riskManagement.currentDrawdown >= this.riskManagement.maxDrawdown) {
-      signal.action = 'HOLD';
-      signal.confidence = 0;
-      signal.reasons = ['تم إيقاف التداول - تجاوز الحد الأقصى للخسائر'];
-    }
-
-    if (this.riskManagement.dailyLoss >= this.riskManagement.maxDailyLoss) {
+    // منع التداول عند تجاوز حدود المخاطرة (الخسارة اليومية، الـ drawdown أو مفتاح الإيقاف)
+    if (this.riskManagement.shouldStop) {
       signal.action = 'HOLD';
       signal.confidence = 0;
-      signal.reasons = ['تم إيقاف التداول - تجاوز الحد الأقصى للخسائر اليومية'];
+      signal.reasons = [`تم إيقاف التداول - ${this.riskManagement.haltReason}`];
     }
 
     return signal;
   }
 
-  private updateRiskManagement(): void {
-    // حساب الـ drawdown الحالي
-    this.riskManagement.currentDrawdown = ((this.peak - this.accountBalance) / this.peak) * 100;
-    
-    // تحديث الذروة
-    if (this.accountBalance > this.peak) {
-      this.peak = this.accountBalance;
-    }
+  private updateRiskManagement(candles: CandleData[]): void {
+    const timestamp = candles.length > 0 ? candles[candles.length - 1].timestamp : undefined;
+    this.riskManagement = this.readRiskManagement(timestamp);
+  }
 
-    // فحص شروط الإيقاف
-    this.riskManagement.shouldStop = 
-      this.riskManagement.currentDrawdown >= this.riskManagement.maxDrawdown ||
-      this.riskManagement.dailyLoss >= this.riskManagement.maxDailyLoss;
+  private readRiskManagement(timestamp?: number): RiskManagement {
+    const config = this.riskManager.getConfig();
+    const status = this.riskManager.getStatus(timestamp);
+
+    return {
+      maxDrawdown: config.maxDrawdown,
+      currentDrawdown: status.currentDrawdown,
+      dailyLoss: status.dailyLoss,
+      maxDailyLoss: config.maxDailyLoss,
+      positionSize: (status.grossExposure / config.maxGrossExposure) * 100,
+      maxPositionSize: 100,
+      riskPerTrade: config.riskPerTrade,
+      shouldStop: status.halted,
+      haltReason: status.haltReason
+    };
   }
 
   private calculateRiskLevel(confidence: number, marketCondition: MarketCondition): 'LOW' | 'MEDIUM' | 'HIGH' {
@@ -326,14 +387,7 @@ export class HybridTradingManager {
   }
 
   private getStrategyName(strategy: string): string {
-    const names: Record<string, string> = {
-      'TREND_FOLLOWING': 'تتبع الاتجاه',
-      'MEAN_REVERSION': 'العودة للمتوسط',
-      'GRID_DCA': 'الشبكة + متوسط التكلفة',
-      'SCALPING': 'السكالبينج',
-      'MARKET_MAKING': 'صناعة السوق'
-    };
-    return names[strategy] || strategy;
+    return this.registry.get(strategy)?.name || strategy;
   }
 
   private createStopSignal(reason: string): HybridSignal {
@@ -357,77 +411,31 @@ export class HybridTradingManager {
     };
   }
 
-  // دوال مساعدة للحسابات
-  private calculateATR(highs: number[], lows: number[], closes: number[], period: number): number {
-    if (highs.length < 2) return 0;
-
-    const trueRanges: number[] = [];
-    
-    for (let i = 1; i < highs.length; i++) {
-      const tr1 = highs[i] - lows[i];
-      const tr2 = Math.abs(highs[i] - closes[i - 1]);
-      const tr3 = Math.abs(lows[i] - closes[i - 1]);
-      
-      trueRanges.push(Math.max(tr1, tr2, tr3));
-    }
-
-    const recentTR = trueRanges.slice(-period);
-    return recentTR.reduce((a, b) => a + b, 0) / recentTR.length;
-  }
-
-  private calculateADX(highs: number[], lows: number[], closes: number[], period: number = 14): number {
-    if (highs.length < period + 1) return 0;
-
-    const dmPlus: number[] = [];
-    const dmMinus: number[] = [];
-    const trueRanges: number[] = [];
-
-    for (let i = 1; i < highs.length; i++) {
-      const highDiff = highs[i] - highs[i - 1];
-      const lowDiff = lows[i - 1] - lows[i];
-
-      dmPlus.push(highDiff > lowDiff && highDiff > 0 ? highDiff : 0);
-      dmMinus.push(lowDiff > highDiff && lowDiff > 0 ? lowDiff : 0);
-
-      const tr1 = highs[i] - lows[i];
-      const tr2 = Math.abs(highs[i] - closes[i - 1]);
-      const tr3 = Math.abs(lows[i] - closes[i - 1]);
-      trueRanges.push(Math.max(tr1, tr2, tr3));
-    }
-
-    const avgDmPlus = dmPlus.slice(-period).reduce((a, b) => a + b, 0) / period;
-    const avgDmMinus = dmMinus.slice(-period).reduce((a, b) => a + b, 0) / period;
-    const avgTR = trueRanges.slice(-period).reduce((a, b) => a + b, 0) / period;
-
-    const diPlus = (avgDmPlus / avgTR) * 100;
-    const diMinus = (avgDmMinus / avgTR) * 100;
-
-    return Math.abs(diPlus - diMinus) / (diPlus + diMinus) * 100;
-  }
-
   public getRiskManagement(): RiskManagement {
     return { ...this.riskManagement };
   }
 
+  public getRiskManager(): RiskManager {
+    return this.riskManager;
+  }
+
   public updateBalance(newBalance: number): void {
-    this.accountBalance = newBalance;
-    if (newBalance > this.peak) {
-      this.peak = newBalance;
-    }
+    this.riskManager.updateEquity(newBalance);
   }
 
-  public recordTrade(profit: number): void {
-    this.accountBalance += profit;
-    
-    if (profit < 0) {
-      this.riskManagement.dailyLoss += Math.abs(profit);
-    }
-    
-    this.updateRiskManagement();
+  public recordTrade(profit: number, timestamp?: number): void {
+    this.riskManager.recordPnL(profit, timestamp);
   }
 
   public resetDailyLoss(): void {
-    this.riskManagement.dailyLoss = 0;
+    this.riskManager.resetDailyLoss();
+  }
+
+  /**
+   * تفعيل أو إيقاف تسجيل القرارات في الخادم (يوقف أثناء الاختبار التاريخي)
+   */
+  public setDecisionLogging(enabled: boolean): void {
+    this.decisionLogging = enabled;
   }
 
   public getCurrentStrategy(): string {
@@ -435,71 +443,46 @@ export class HybridTradingManager {
   }
 
   /**
-   * الحصول على قائمة الاستراتيجيات المتاحة
+   * قواعد الخروج الخاصة بالاستراتيجيات لتطبيقها على المراكز المفتوحة
    */
-  public getAvailableStrategies(): Array<{
-    id: string;
-    name: string;
-    description: string;
-    riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
-    expectedWinRate: number;
-  }> {
-    return [
-      {
-        id: 'HYBRID',
-        name: 'النظام الهجين',
-        description: 'يختار الاستراتيجية المناسبة تلقائياً حسب حالة السوق',
-        riskLevel: 'MEDIUM',
-        expectedWinRate: 70
-      },
-      {
-        id: 'TREND_FOLLOWING',
-        name: 'تتبع الاتجاه',
-        description: 'يتبع الاتجاهات القوية باستخدام EMA و MACD',
-        riskLevel: 'MEDIUM',
-        expectedWinRate: 65
-      },
-      {
-        id: 'MEAN_REVERSION',
-        name: 'العودة للمتوسط',
-        description: 'يستغل التشبع الشرائي والبيعي',
-        riskLevel: 'LOW',
-        expectedWinRate: 72
-      },
-      {
-        id: 'GRID_DCA',
-        name: 'الشبكة + DCA',
-        description: 'شبكة تداول مع متوسط التكلفة',
-        riskLevel: 'HIGH',
-        expectedWinRate: 45
-      },
-      {
-        id: 'SCALPING',
-        name: 'السكالبينج',
-        description: 'صفقات سريعة بأرباح صغيرة',
-        riskLevel: 'MEDIUM',
-        expectedWinRate: 58
-      },
-      {
-        id: 'MARKET_MAKING',
-        name: 'صناعة السوق',
-        description: 'توفير السيولة والربح من السبريد',
-        riskLevel: 'LOW',
-        expectedWinRate: 85
-      }
-    ];
+  public getExitRules(): ExitRule[] {
+    return Array.from(this.strategies.values()).flatMap(strategy => strategy.getExitRules?.() ?? []);
+  }
+
+  /**
+   * شموع الإحماء قبل أول قرار: للاستراتيجية المحددة أو لأطولها في الوضع الهجين
+   */
+  public getWarmup(strategyId?: string): number {
+    const strategies = strategyId
+      ? [this.getStrategy(strategyId)]
+      : Array.from(this.strategies.values());
+    return strategies.reduce((max, strategy) => Math.max(max, strategy?.warmup ?? 0), REGIME_WARMUP);
   }
 
   /**
-   * تحليل استراتيجية محددة بدون تغيير الحالة
+   * الحصول على قائمة الاستراتيجيات المتاحة (الوضع الهجين أولاً ثم السجل)
+   */
+  public getAvailableStrategies(): StrategyMetadata[] {
+    return [HYBRID_STRATEGY, ...this.registry.list()];
+  }
+
+  /**
+   * تحليل استراتيجية محددة بدون تغيير الاستراتيجية الحالية أو تسجيل القرار
+   * (يستخدم في الاختبار التاريخي لكل استراتيجية على حدة)
    */
   public analyzeWithStrategy(
-    candles: CandleData[],
+    input: CandleData[] | MultiTimeframeCandles,
     strategyId: string,
-    orderBook?: { bid: number; ask: number; bidSize: number; askSize: number },
+    orderBook?: OrderBookTop,
     symbol: string = 'BTCUSDT'
   ): HybridSignal {
-    return this.analyze(candles, orderBook, symbol, strategyId);
+    const { entry: candles, regime, regimeTimeframe } = this.resolveSeries(input);
+    this.updateRiskManagement(candles);
+    const marketCondition = this.analyzeMarketCondition(regime, regimeTimeframe);
+    const signal = this.runStrategy(strategyId, candles, orderBook, symbol);
+    const adjustedSignal = this.applyRiskManagement(signal, marketCondition);
+
+    return this.buildSignal(strategyId, adjustedSignal, marketCondition, true);
   }
 
   public getStrategyPerformance(): Record<string, any> {
@@ -512,178 +495,4 @@ export class HybridTradingManager {
       MARKET_MAKING: { winRate: 85, avgReturn: 0.4 }
     };
   }
-
-  public backtest(historicalData: CandleData[]): {
-    totalTrades: number;
-    winRate: number;
-    totalReturn: number;
-    maxDrawdown: number;
-    strategyDistribution: Record<string, number>;
-    sharpeRatio: number;
-    trades: TradeRecord[];
-  } {
-    let totalTrades = 0;
-    let winningTrades = 0;
-    let totalReturn = 0;
-    let maxDrawdown = 0;
-    let peak = 1000;
-    const trades: TradeRecord[] = [];
-    
-    const strategyUsage: Record<string, number> = {
-      TREND_FOLLOWING: 0,
-      MEAN_REVERSION: 0,
-      GRID_DCA: 0,
-      SCALPING: 0,
-      MARKET_MAKING: 0
-    };
-
-    // إعادة تعيين للاختبار
-    this.accountBalance = 10000;
-    this.peak = 10000;
-    this.riskManagement.dailyLoss = 0;
-    this.riskManagement.currentDrawdown = 0;
-
-    for (let i = 200; i < historicalData.length - 10; i++) {
-      const windowData = historicalData.slice(0, i + 1);
-      
-      // محاكاة order book
-      const currentPrice = windowData[windowData.length - 1].close;
-      const mockOrderBook = {
-        bid: currentPrice * 0.9995,
-        ask: currentPrice * 1.0005,
-        bidSize: 10,
-        askSize: 10
-      };
-
-      const signal = this.analyze(windowData, mockOrderBook);
-      strategyUsage[signal.strategy]++;
-
-      if (signal.action !== 'HOLD' && signal.confidence > 70) {
-        totalTrades++;
-        
-        // محاكاة تنفيذ الصفقة
-        const tradeResult = this.simulateTradeExecution(signal, historicalData.slice(i));
-        if (tradeResult) {
-          trades.push(tradeResult);
-          totalReturn += tradeResult.profit;
-          this.recordTrade(tradeResult.profit);
-        
-          if (tradeResult.profit > 0) winningTrades++;
-        }
-
-        // حساب drawdown
-        if (this.accountBalance > peak) peak = this.accountBalance;
-        const currentDrawdown = (peak - this.accountBalance) / peak * 100;
-        maxDrawdown = Math.max(maxDrawdown, currentDrawdown);
-      }
-
-      // إعادة تعيين الخسائر اليومية كل 1440 شمعة (يوم واحد للدقائق)
-      if (i % 1440 === 0) {
-        this.resetDailyLoss();
-      }
-    }
-
-    const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
-    const sharpeRatio = totalReturn / Math.max(maxDrawdown / 100, 0.01);
-
-    // تحويل استخدام الاستراتيجيات إلى نسب مئوية
-    const totalUsage = Object.values(strategyUsage).reduce((a, b) => a + b, 0);
-    const strategyDistribution: Record<string, number> = {};
-    
-    for (const [strategy, usage] of Object.entries(strategyUsage)) {
-      strategyDistribution[strategy] = totalUsage > 0 ? (usage / totalUsage) * 100 : 0;
-    }
-
-    return {
-      totalTrades,
-      winRate,
-      totalReturn: totalReturn * 100,
-      maxDrawdown,
-      strategyDistribution,
-      sharpeRatio,
-      trades
-    };
-  }
-
-  private simulateTradeExecution(signal: HybridSignal, futureData: CandleData[]): TradeRecord | null {
-    if (futureData.length === 0) return null;
-    
-    // محاكاة مبسطة لتنفيذ الصفقة
-    const entryPrice = signal.entryPrice;
-    const quantity = signal.quantity;
-    
-    // محاكاة انزلاق السعر
-    const slippage = 0.0005; // 0.05% انزلاق
-    const actualEntryPrice = signal.action === 'BUY' 
-      ? entryPrice * (1 + slippage)
-      : entryPrice * (1 - slippage);
-
-    let exitPrice = actualEntryPrice;
-    let holdTime = 0;
-    let exitReason = 'timeout';
-    // البحث عن نقطة خروج
-    for (let i = 0; i < Math.min(futureData.length, 50); i++) {
-      const currentPrice = futureData[i].close;
-      holdTime = i;
-      
-      // فحص أهداف الخروج
-      if (signal.action === 'BUY') {
-        if (currentPrice >= signal.takeProfit) {
-          exitPrice = signal.takeProfit;
-          exitReason = 'take_profit';
-          break;
-        }
-        if (currentPrice <= signal.stopLoss) {
-          exitPrice = signal.stopLoss;
-          exitReason = 'stop_loss';
-          break;
-        }
-      } else if (signal.action === 'SELL') {
-        if (currentPrice <= signal.takeProfit) {
-          exitPrice = signal.takeProfit;
-          exitReason = 'take_profit';
-          break;
-        }
-        if (currentPrice >= signal.stopLoss) {
-          exitPrice = signal.stopLoss;
-          exitReason = 'stop_loss';
-          break;
-        }
-      }
-    }
-
-    // خروج بالسعر الحالي إذا لم تتحقق الأهداف ولم يتم تحديد سعر خروج
-    if (exitPrice === actualEntryPrice && futureData.length > 20) {
-      exitPrice = futureData[20].close;
-      holdTime = 20;
-      exitReason = 'timeout';
-    }
-    
-    const tradeReturn = signal.action === 'BUY' 
-      ? (exitPrice - actualEntryPrice) * quantity * 0.98
-      : (actualEntryPrice - exitPrice) * quantity * 0.98;
-
-    const fees = (actualEntryPrice + exitPrice) * quantity * 0.001; // 0.1% fees
-    const netProfit = tradeReturn - fees;
-    const profitPercent = (netProfit / (actualEntryPrice * quantity)) * 100;
-
-    return {
-      id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      strategy: signal.strategy,
-      symbol: 'BTCUSDT',
-      side: signal.action as 'BUY' | 'SELL',
-      entryTime: new Date(),
-      exitTime: new Date(Date.now() + holdTime * 60000), // assuming 1-minute candles
-      entryPrice: actualEntryPrice,
-      exitPrice,
-      quantity,
-      profit: netProfit,
-      profitPercent,
-      fees,
-      slippage: Math.abs(actualEntryPrice - entryPrice),
-      holdTime,
-      reason: exitReason,
-      confidence: signal.confidence
-    };
-  }
-}
\ No newline at end of file
+}
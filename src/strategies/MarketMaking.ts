@@ -1,4 +1,5 @@
 import { CandleData } from '../utils/TechnicalAnalysis';
+import { ConfigSchema, OrderBookTop, Strategy, StrategyContext, StrategyModule } from './Strategy';
 
 export interface MarketMakingConfig {
   targetSpread: number; // السبريد المستهدف كنسبة مئوية
@@ -20,8 +21,14 @@ export interface MarketMakingSignal {
   currentSpread: number;
   inventorySkew: number;
   expectedProfit: number;
+  // أسعار العرض والطلب موحدة مع حقول الدخول والهدف لباقي الاستراتيجيات
+  entryPrice: number;
+  takeProfit: number;
+  quantity: number;
 }
 
+type MarketMakingQuote = Omit<MarketMakingSignal, 'entryPrice' | 'takeProfit' | 'quantity'>;
+
 export interface InventoryPosition {
   symbol: string;
   quantity: number;
@@ -30,7 +37,23 @@ export interface InventoryPosition {
   skew: number; // انحراف المخزون (-1 إلى +1)
 }
 
-export class MarketMakingStrategy {
+export interface MarketMakingState {
+  inventory: InventoryPosition[];
+  lastRebalance: number;
+}
+
+const CONFIG_SCHEMA: ConfigSchema<MarketMakingConfig> = {
+  targetSpread: { label: 'السبريد المستهدف %', type: 'number', min: 0 },
+  maxSpread: { label: 'أقصى سبريد %', type: 'number', min: 0 },
+  inventoryLimit: { label: 'حد المخزون %', type: 'number', min: 0, max: 100 },
+  skewThreshold: { label: 'عتبة الانحراف', type: 'number', min: 0, max: 1 },
+  minLiquidity: { label: 'أقل سيولة', type: 'number', min: 0 },
+  rebalanceInterval: { label: 'فترة إعادة التوازن', type: 'number', min: 0 }
+};
+
+export class MarketMakingStrategy implements Strategy<MarketMakingConfig, MarketMakingSignal, MarketMakingState> {
+  public readonly configSchema = CONFIG_SCHEMA;
+  public readonly warmup = 1;
   private config: MarketMakingConfig;
   private inventory: Map<string, InventoryPosition> = new Map();
   private lastRebalance: number = 0;
@@ -47,11 +70,42 @@ export class MarketMakingStrategy {
     this.config = config;
   }
 
-  public analyze(
-    candles: CandleData[], 
-    orderBook: { bid: number; ask: number; bidSize: number; askSize: number },
-    symbol: string
-  ): MarketMakingSignal {
+  public getConfig(): MarketMakingConfig {
+    return { ...this.config };
+  }
+
+  public getState(): MarketMakingState {
+    return {
+      inventory: Array.from(this.inventory.values(), position => ({ ...position })),
+      lastRebalance: this.lastRebalance
+    };
+  }
+
+  public setState(state: MarketMakingState): void {
+    this.inventory = new Map(state.inventory.map(position => [position.symbol, { ...position }]));
+    this.lastRebalance = state.lastRebalance;
+  }
+
+  public reset(): void {
+    this.inventory.clear();
+    this.lastRebalance = 0;
+  }
+
+  public analyze({ candles, orderBook, symbol }: StrategyContext): MarketMakingSignal {
+    const quote = orderBook
+      ? this.quote(candles, orderBook, symbol)
+      : this.createHoldSignal('لا يوجد دفتر أوامر', 0, 0);
+
+    // صناعة السوق تعيد أسعار العرض والطلب بدلاً من الدخول والهدف
+    return {
+      ...quote,
+      entryPrice: quote.bidPrice,
+      takeProfit: quote.askPrice,
+      quantity: quote.bidQuantity
+    };
+  }
+
+  private quote(candles: CandleData[], orderBook: OrderBookTop, symbol: string): MarketMakingQuote {
     if (candles.length === 0) {
       return this.createHoldSignal('لا توجد بيانات', 0, 0);
     }
@@ -155,7 +209,7 @@ export class MarketMakingStrategy {
     return baseAmount / price;
   }
 
-  private createRebalanceSignal(inventory: InventoryPosition, currentPrice: number, spread: number): MarketMakingSignal {
+  private createRebalanceSignal(inventory: InventoryPosition, currentPrice: number, spread: number): MarketMakingQuote {
     const reasons = [`إعادة توازن المخزون (انحراف: ${(inventory.skew * 100).toFixed(1)}%)`];
     
     return {
@@ -172,7 +226,7 @@ export class MarketMakingStrategy {
     };
   }
 
-  private createHoldSignal(reason: string, spread: number, expectedProfit: number): MarketMakingSignal {
+  private createHoldSignal(reason: string, spread: number, expectedProfit: number): MarketMakingQuote {
     return {
       action: 'HOLD',
       confidence: 0,
@@ -232,7 +286,7 @@ export class MarketMakingStrategy {
         askSize: 10
       };
 
-      const signal = this.analyze(windowData, mockOrderBook, 'BTCUSDT');
+      const signal = this.analyze({ candles: windowData, orderBook: mockOrderBook, symbol: 'BTCUSDT' });
 
       if (signal.action === 'PLACE_BID' && signal.confidence > 60) {
         totalTrades += 2; // bid + ask
@@ -268,4 +322,17 @@ export class MarketMakingStrategy {
       inventoryTurnover
     };
   }
-}
\ No newline at end of file
+}
+
+export const marketMakingModule: StrategyModule<MarketMakingConfig, MarketMakingSignal, MarketMakingState> = {
+  metadata: {
+    id: 'MARKET_MAKING',
+    name: 'صناعة السوق',
+    description: 'توفير السيولة والربح من السبريد',
+    riskLevel: 'LOW',
+    expectedWinRate: 85,
+    color: 'indigo',
+    icon: 'Target'
+  },
+  create: config => new MarketMakingStrategy(config)
+};
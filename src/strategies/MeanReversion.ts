@@ -1,4 +1,6 @@
-import { CandleData } from '../utils/TechnicalAnalysis';
+import { CandleData, TechnicalAnalysis, RSIIndicator, SignalInput } from '../utils/TechnicalAnalysis';
+import { ConfigSchema, Strategy, StrategyContext, StrategyModule } from './Strategy';
+import { ExitRule, createMeanReversionExitRule } from '../services/PositionTracker';
 
 export interface MeanReversionConfig {
   rsiPeriod: number;
@@ -8,6 +10,7 @@ export interface MeanReversionConfig {
   rsiExitHigh: number;
   bollingerPeriod: number;
   bollingerStdDev: number;
+  confirmations?: SignalInput[]; // مؤشرات تأكيد إضافية (VWAP، SuperTrend، ...)
 }
 
 export interface MeanReversionSignal {
@@ -21,7 +24,19 @@ export interface MeanReversionSignal {
   bollingerPosition: 'UPPER' | 'LOWER' | 'MIDDLE';
 }
 
-export class MeanReversionStrategy {
+const CONFIG_SCHEMA: ConfigSchema<MeanReversionConfig> = {
+  rsiPeriod: { label: 'فترة RSI', type: 'number', min: 2 },
+  rsiOversold: { label: 'تشبع بيعي', type: 'number', min: 0, max: 100 },
+  rsiOverbought: { label: 'تشبع شرائي', type: 'number', min: 0, max: 100 },
+  rsiExitLow: { label: 'خروج البيع عند RSI', type: 'number', min: 0, max: 100 },
+  rsiExitHigh: { label: 'خروج الشراء عند RSI', type: 'number', min: 0, max: 100 },
+  bollingerPeriod: { label: 'فترة Bollinger', type: 'number', min: 2 },
+  bollingerStdDev: { label: 'انحراف Bollinger', type: 'number', min: 0.1 },
+  confirmations: { label: 'مؤشرات التأكيد', type: 'signalInputs' }
+};
+
+export class MeanReversionStrategy implements Strategy<MeanReversionConfig, MeanReversionSignal> {
+  public readonly configSchema = CONFIG_SCHEMA;
   private config: MeanReversionConfig;
   private accountBalance: number = 10000;
 
@@ -37,7 +52,28 @@ export class MeanReversionStrategy {
     this.config = config;
   }
 
-  public analyze(candles: CandleData[]): MeanReversionSignal {
+  public get warmup(): number {
+    return Math.max(this.config.rsiPeriod, this.config.bollingerPeriod);
+  }
+
+  public getConfig(): MeanReversionConfig {
+    return { ...this.config };
+  }
+
+  // بدون حالة بين الدورات: الإشارة تحسب من الشموع فقط
+  public getState(): Record<string, never> {
+    return {};
+  }
+
+  public setState(): void {}
+
+  public reset(): void {}
+
+  public getExitRules(): ExitRule[] {
+    return [createMeanReversionExitRule(this)];
+  }
+
+  public analyze({ candles }: StrategyContext): MeanReversionSignal {
     if (candles.length < Math.max(this.config.rsiPeriod, this.config.bollingerPeriod)) {
       return this.createHoldSignal('بيانات غير كافية للتحليل', 0, 'MIDDLE');
     }
@@ -46,8 +82,8 @@ export class MeanReversionStrategy {
     const currentPrice = closes[closes.length - 1];
 
     // حساب المؤشرات
-    const rsi = this.calculateRSI(closes, this.config.rsiPeriod);
-    const bollinger = this.calculateBollingerBands(closes, this.config.bollingerPeriod, this.config.bollingerStdDev);
+    const rsi = TechnicalAnalysis.calculateRSI(closes, this.config.rsiPeriod);
+    const bollinger = TechnicalAnalysis.calculateBollingerBands(closes, this.config.bollingerPeriod, this.config.bollingerStdDev);
     
     const reasons: string[] = [];
     let confidence = 0;
@@ -106,13 +142,15 @@ export class MeanReversionStrategy {
       }
     }
 
+    // تأكيد بمؤشرات إضافية مختارة في الإعدادات
+    if (action !== 'HOLD' && this.config.confirmations) {
+      const confirmation = TechnicalAnalysis.confirmAction(candles, action, this.config.confirmations);
+      confidence = Math.max(0, confidence + confirmation.confidence);
+      reasons.push(...confirmation.reasons);
+    }
+
     // حساب مستويات الخروج
-    const atr = this.calculateATR(
-      candles.map(c => c.high),
-      candles.map(c => c.low),
-      closes,
-      14
-    );
+    const atr = TechnicalAnalysis.calculateATR(candles, 14);
 
     const stopLoss = action === 'BUY' 
       ? currentPrice - (atr * 1.5)
@@ -134,78 +172,6 @@ export class MeanReversionStrategy {
     };
   }
 
-  private calculateRSI(prices: number[], period: number): number {
-    if (prices.length < period + 1) return 50;
-
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = 1; i <= period; i++) {
-      const change = prices[i] - prices[i - 1];
-      if (change > 0) {
-        gains += change;
-      } else {
-        losses += Math.abs(change);
-      }
-    }
-
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-
-    for (let i = period + 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      const gain = change > 0 ? change : 0;
-      const loss = change < 0 ? Math.abs(change) : 0;
-
-      avgGain = (avgGain * (period - 1) + gain) / period;
-      avgLoss = (avgLoss * (period - 1) + loss) / period;
-    }
-
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
-  private calculateBollingerBands(prices: number[], period: number, stdDev: number): { upper: number; middle: number; lower: number } {
-    const sma = this.calculateSMA(prices, period);
-    const variance = this.calculateVariance(prices.slice(-period), sma);
-    const standardDeviation = Math.sqrt(variance);
-
-    return {
-      upper: sma + (standardDeviation * stdDev),
-      middle: sma,
-      lower: sma - (standardDeviation * stdDev)
-    };
-  }
-
-  private calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return prices.reduce((a, b) => a + b, 0) / prices.length;
-    
-    const recentPrices = prices.slice(-period);
-    return recentPrices.reduce((a, b) => a + b, 0) / period;
-  }
-
-  private calculateVariance(prices: number[], mean: number): number {
-    const squaredDifferences = prices.map(price => Math.pow(price - mean, 2));
-    return squaredDifferences.reduce((a, b) => a + b, 0) / prices.length;
-  }
-
-  private calculateATR(highs: number[], lows: number[], closes: number[], period: number): number {
-    if (highs.length < 2) return 0;
-
-    const trueRanges: number[] = [];
-    
-    for (let i = 1; i < highs.length; i++) {
-      const tr1 = highs[i] - lows[i];
-      const tr2 = Math.abs(highs[i] - closes[i - 1]);
-      const tr3 = Math.abs(lows[i] - closes[i - 1]);
-      
-      trueRanges.push(Math.max(tr1, tr2, tr3));
-    }
-
-    return this.calculateSMA(trueRanges, period);
-  }
-
   private calculateAverageVolume(candles: CandleData[], period: number): number {
     const volumes = candles.slice(-period).map(c => c.volume);
     return volumes.reduce((a, b) => a + b, 0) / volumes.length;
@@ -235,6 +201,13 @@ export class MeanReversionStrategy {
     };
   }
 
+  /**
+   * RSI بفترة الاستراتيجية لتمريره إلى shouldExit من خارجها
+   */
+  public calculateExitRSI(closes: number[]): number {
+    return TechnicalAnalysis.calculateRSI(closes, this.config.rsiPeriod);
+  }
+
   public shouldExit(currentPrice: number, entryPrice: number, side: 'LONG' | 'SHORT', rsi: number): boolean {
     if (side === 'LONG') {
       return rsi >= this.config.rsiExitHigh;
@@ -256,10 +229,12 @@ export class MeanReversionStrategy {
     let maxDrawdown = 0;
     let peak = 0;
     let totalHoldTime = 0;
+    // سلسلة RSI تحسب مرة واحدة بدلاً من إعادة حسابها لكل شمعة خروج
+    const rsiSeries = TechnicalAnalysis.series(new RSIIndicator(this.config.rsiPeriod), historicalData.map(c => c.close));
 
     for (let i = this.config.bollingerPeriod; i < historicalData.length - 10; i++) {
       const windowData = historicalData.slice(0, i + 1);
-      const signal = this.analyze(windowData);
+      const signal = this.analyze({ candles: windowData, symbol: 'BTCUSDT' });
 
       if (signal.action !== 'HOLD' && signal.confidence > 60) {
         totalTrades++;
@@ -271,8 +246,7 @@ export class MeanReversionStrategy {
 
         // البحث عن نقطة خروج
         for (let j = i + 1; j < Math.min(i + 50, historicalData.length); j++) {
-          const currentCandles = historicalData.slice(0, j + 1);
-          const currentRSI = this.calculateRSI(currentCandles.map(c => c.close), this.config.rsiPeriod);
+          const currentRSI = rsiSeries[j] ?? 50;
           
           holdTime = j - i;
           exitPrice = historicalData[j].close;
@@ -318,4 +292,17 @@ export class MeanReversionStrategy {
       avgHoldTime
     };
   }
-}
\ No newline at end of file
+}
+
+export const meanReversionModule: StrategyModule<MeanReversionConfig, MeanReversionSignal> = {
+  metadata: {
+    id: 'MEAN_REVERSION',
+    name: 'العودة للمتوسط',
+    description: 'يستغل التشبع الشرائي والبيعي',
+    riskLevel: 'LOW',
+    expectedWinRate: 72,
+    color: 'blue',
+    icon: 'BarChart3'
+  },
+  create: config => new MeanReversionStrategy(config)
+};
@@ -0,0 +1,198 @@
+/**
+ * اختبارات استراتيجيات القواعد: التحقق من التعريف والترجمة والتشغيل عبر السجل والاختبار التاريخي
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/BackendService', () => ({ backendService: {} }));
+
+import { RuleValidationError, compileRule, parseRule, parseRuleYaml } from './RuleStrategy';
+import { strategyRegistry } from './registry';
+import { BacktestingService } from '../services/BacktestingService';
+import { EMAIndicator, RSIIndicator, TechnicalAnalysis } from '../utils/TechnicalAnalysis';
+import type { CandleData } from '../utils/TechnicalAnalysis';
+import type { TrackedPosition } from '../services/PositionTracker';
+
+const START = Date.UTC(2024, 0, 1);
+
+// اتجاه صاعد مع تذبذب يعطي هبوطات RSI دورية فوق EMA 200
+const swingingUptrend = (count: number): CandleData[] =>
+  Array.from({ length: count }, (_, i) => {
+    const close = 100 + i * 0.2 + Math.sin(i / 8) * 10;
+    return { timestamp: START + i * 60000, open: close, high: close + 0.5, low: close - 0.5, close, volume: 1000 };
+  });
+
+const validationErrors = (input: unknown): string[] => {
+  try {
+    compileRule(input);
+  } catch (error) {
+    if (error instanceof RuleValidationError) return error.errors;
+    throw error;
+  }
+  return [];
+};
+
+describe('RuleStrategy', () => {
+  it('reports every invalid part of a rule with its path', () => {
+    const errors = validationErrors({
+      id: 'bad id',
+      name: 'قاعدة خاطئة',
+      entry: { buy: { and: ['RSX(14) < 30', 'close >> EMA(200)', 'MACD.line > 0', { xor: [] }] } },
+      exit: { takeProfit: { atr: -1 } }
+    });
+
+    expect(errors).toEqual([
+      expect.stringMatching(/^id:/),
+      expect.stringMatching(/^entry\.buy\.and\[0\]: مؤشر غير معروف "RSX"/),
+      expect.stringMatching(/^entry\.buy\.and\[1\]: المقارنة/),
+      expect.stringMatching(/^entry\.buy\.and\[2\]: MACD لا يحتوي الحقل "line" \(المتاح: macd, signal, histogram\)/),
+      expect.stringMatching(/^entry\.buy\.and\[3\]:/),
+      expect.stringMatching(/^exit\.stopLoss: مطلوب/),
+      expect.stringMatching(/^exit\.takeProfit:/)
+    ]);
+    expect(() => parseRule('{ "id": ')).toThrow(RuleValidationError);
+  });
+
+  it('loads YAML rule files and reports YAML errors with their line', () => {
+    expect(strategyRegistry.get('MACD_TREND')?.name).toBe('اتجاه MACD');
+
+    const yaml = [
+      'id: RSI_YAML',
+      'name: قاعدة YAML',
+      'entry:',
+      '  buy:',
+      '    and:',
+      '      - RSI(14) < 30',
+      '      - close >> EMA(200)',
+      'exit:',
+      '  takeProfit: { atr: 3 }'
+    ].join('\n');
+
+    let errors: string[] = [];
+    try {
+      parseRuleYaml(yaml);
+    } catch (error) {
+      errors = (error as RuleValidationError).errors;
+    }
+    expect(errors).toEqual([
+      expect.stringMatching(/^سطر 7: entry\.buy\.and\[1\]: المقارنة/),
+      expect.stringMatching(/^سطر 9: exit\.stopLoss: مطلوب/)
+    ]);
+    expect(() => parseRuleYaml('id: A\nentry: [RSI(14) < 30')).toThrow(/سطر \d+: YAML غير صالح/);
+    expect(parseRuleYaml(yaml.replace('>>', '>').replace('takeProfit', 'stopLoss')).create().warmup).toBe(200);
+  });
+
+  it('compiles the RSI pullback rule into levels from ATR', () => {
+    const candles = swingingUptrend(300);
+    const module = compileRule({
+      id: 'RSI_DIP',
+      name: 'هبوط RSI',
+      entry: { buy: { and: ['RSI(14) < 30', 'close > EMA(200)'] } },
+      exit: { stopLoss: { atr: 2 }, takeProfit: { atr: 3 } }
+    });
+    const strategy = module.create();
+    expect(strategy.warmup).toBe(200);
+
+    const closes = candles.map(candle => candle.close);
+    const rsi = TechnicalAnalysis.series(new RSIIndicator(14), closes);
+    const ema = TechnicalAnalysis.series(new EMAIndicator(200), closes);
+    const dip = candles.findIndex((candle, i) => i >= 200 && (rsi[i] ?? 50) < 30 && candle.close > (ema[i] ?? Infinity));
+    expect(dip).toBeGreaterThan(0);
+
+    const window = candles.slice(0, dip + 1);
+    const signal = strategy.analyze({ candles: window, symbol: 'BTCUSDT' });
+    const atr = TechnicalAnalysis.calculateATR(window, 14);
+    expect(signal.action).toBe('BUY');
+    expect(signal.stopLoss).toBeCloseTo(window[dip].close - 2 * atr, 8);
+    expect(signal.takeProfit).toBeCloseTo(window[dip].close + 3 * atr, 8);
+    expect(signal.reasons).toEqual(['تحققت قاعدة الشراء: RSI(14) < 30 AND close > EMA(200)']);
+    expect(strategy.analyze({ candles: candles.slice(0, 150), symbol: 'BTCUSDT' }).action).toBe('HOLD');
+  });
+
+  it('evaluates crossovers, NOT and exit conditions on the live price', () => {
+    const module = compileRule({
+      id: 'EMA_CROSS',
+      name: 'تقاطع المتوسطات',
+      entry: {
+        buy: { and: ['EMA(3) crosses_above EMA(8)', { not: 'RSI(5) > 95' }] },
+        sell: { or: ['EMA(3) crosses_below EMA(8)', 'close < 0'] }
+      },
+      exit: { stopLoss: { percent: 1 }, long: 'close < SMA(5)' }
+    });
+    const strategy = module.create();
+    const candles = swingingUptrend(60);
+    const actions = candles.map((_, i) => strategy.analyze({ candles: candles.slice(0, i + 1), symbol: 'BTCUSDT' }).action);
+
+    // كل تقاطع يعطي إشارة واحدة فقط ثم تعود الحالة إلى HOLD
+    expect(actions.filter(action => action === 'BUY').length).toBeGreaterThan(0);
+    expect(actions.filter(action => action === 'SELL').length).toBeGreaterThan(0);
+    actions.forEach((action, i) => {
+      if (action !== 'HOLD') expect(actions[i + 1] ?? 'HOLD').toBe('HOLD');
+    });
+
+    const [exitRule] = strategy.getExitRules?.() ?? [];
+    const position = { side: 'LONG' } as TrackedPosition;
+    const last = candles[candles.length - 1];
+    expect(exitRule.strategy).toBe('EMA_CROSS');
+    expect(exitRule.shouldExit({ position, price: last.close * 0.8, timestamp: last.timestamp, candles })).toBe(true);
+    expect(exitRule.shouldExit({ position, price: last.close * 1.2, timestamp: last.timestamp, candles })).toBe(false);
+  });
+
+  it('runs rule files from the registry in the backtester', async () => {
+    expect(strategyRegistry.get('RSI_PULLBACK')?.name).toBe('ارتداد RSI');
+
+    const result = await new BacktestingService({
+      startDate: new Date(START),
+      endDate: new Date(START + 24 * 60 * 60 * 1000),
+      initialBalance: 10000,
+      feeRate: 0.001,
+      slippageRate: 0.0005,
+      timeframe: '1m'
+    }).runSingleStrategyBacktest(swingingUptrend(600), 'RSI_PULLBACK');
+
+    expect(result.trades.length).toBeGreaterThan(0);
+    expect(result.trades.every(trade => trade.strategy === 'RSI_PULLBACK')).toBe(true);
+  });
+
+  it('closes backtest positions with the rule exit condition', async () => {
+    strategyRegistry.register(compileRule({
+      id: 'RSI_ROUND_TRIP',
+      name: 'ذهاب وعودة RSI',
+      entry: { buy: 'RSI(14) < 30' },
+      exit: { stopLoss: { percent: 20 }, long: 'RSI(14) > 60' }
+    }));
+
+    const result = await new BacktestingService({
+      startDate: new Date(START),
+      endDate: new Date(START + 24 * 60 * 60 * 1000),
+      initialBalance: 10000,
+      feeRate: 0.001,
+      slippageRate: 0.0005,
+      timeframe: '1m'
+    }).runSingleStrategyBacktest(swingingUptrend(600), 'RSI_ROUND_TRIP');
+
+    expect(result.trades.length).toBeGreaterThan(1);
+    expect(result.trades.slice(0, -1).every(trade => trade.reason === 'RSI_ROUND_TRIP_EXIT')).toBe(true);
+  });
+
+  it('backtests rules that need more candles than the default lookback', async () => {
+    strategyRegistry.register(compileRule({
+      id: 'RSI_SMA300',
+      name: 'RSI فوق SMA 300',
+      entry: { buy: { and: ['RSI(14) < 30', 'close > SMA(300)'] } },
+      exit: { stopLoss: { atr: 2 }, takeProfit: { atr: 3 } }
+    }));
+
+    const result = await new BacktestingService({
+      startDate: new Date(START),
+      endDate: new Date(START + 3 * 24 * 60 * 60 * 1000),
+      initialBalance: 10000,
+      feeRate: 0.001,
+      slippageRate: 0.0005,
+      timeframe: '1m'
+    }).runSingleStrategyBacktest(swingingUptrend(3000), 'RSI_SMA300');
+
+    expect(result.trades.length).toBeGreaterThan(0);
+    expect(result.trades[0].entryTime.getTime()).toBeGreaterThanOrEqual(START + 300 * 60000);
+  });
+});
@@ -0,0 +1,645 @@
+/**
+ * استراتيجيات القواعد: تعريف JSON أو YAML يترجم إلى استراتيجية
+ * عادية في السجل، فيشغلها المدير الهجين والاختبار التاريخي والتداول الورقي بدون كتابة TypeScript
+ *
+ * مثال:
+ * {
+ *   "id": "RSI_PULLBACK",
+ *   "name": "ارتداد RSI",
+ *   "entry": { "buy": { "and": ["RSI(14) < 30", "close > EMA(200)"] } },
+ *   "exit": { "stopLoss": { "atr": 2 }, "takeProfit": { "atr": 3 } }
+ * }
+ */
+
+import { Document, LineCounter, isNode, parseDocument } from 'yaml';
+import {
+  ADXIndicator,
+  ATRIndicator,
+  CCIIndicator,
+  CandleData,
+  DonchianIndicator,
+  EMAIndicator,
+  IchimokuIndicator,
+  KeltnerIndicator,
+  MACDIndicator,
+  MFIIndicator,
+  OBVIndicator,
+  ParabolicSARIndicator,
+  RSIIndicator,
+  SuperTrendIndicator,
+  TechnicalAnalysis,
+  VWAPIndicator,
+  WilliamsRIndicator
+} from '../utils/TechnicalAnalysis';
+import { ConfigSchema, Strategy, StrategyContext, StrategyMetadata, StrategyModule, StrategySignal } from './Strategy';
+import type { ExitRule } from '../services/PositionTracker';
+
+/**
+ * شرط: مقارنة نصية ("RSI(14) < 30" أو "EMA(12) crosses_above EMA(26)") أو تركيب منطقي
+ */
+export type RuleCondition =
+  | string
+  | { and: RuleCondition[] }
+  | { or: RuleCondition[] }
+  | { not: RuleCondition };
+
+export type ExitLevel = { atr: number } | { percent: number };
+
+export interface RuleDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  riskLevel?: 'LOW' | 'MEDIUM' | 'HIGH';
+  confidence?: number; // ثقة الإشارة عند تحقق الشرط (افتراضياً 75)
+  entry: {
+    buy?: RuleCondition;
+    sell?: RuleCondition;
+  };
+  exit: {
+    stopLoss: ExitLevel;
+    takeProfit?: ExitLevel;
+    atrPeriod?: number; // فترة ATR لمستويات الخروج (افتراضياً 14)
+    maxHoldTime?: number; // بالدقائق
+    long?: RuleCondition; // إغلاق مركز الشراء عند تحقق الشرط
+    short?: RuleCondition;
+  };
+}
+
+/**
+ * القيم القابلة للضبط عند إنشاء نسخة (الشروط نفسها ثابتة في التعريف)
+ */
+export interface RuleParameters {
+  confidence: number;
+  atrPeriod: number;
+  maxHoldTime: number; // 0 = بدون حد
+}
+
+export interface RuleSignal extends StrategySignal {
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;
+  entryPrice: number;
+  stopLoss: number;
+  takeProfit: number;
+}
+
+export class RuleValidationError extends Error {
+  readonly ruleId: string;
+  readonly errors: string[];
+
+  constructor(ruleId: string, errors: string[]) {
+    super(`Invalid rule ${ruleId}:\n- ${errors.join('\n- ')}`);
+    this.name = 'RuleValidationError';
+    this.ruleId = ruleId;
+    this.errors = errors;
+  }
+}
+
+type Series = Array<number | null>;
+type RawSeries = Array<number | object | null>;
+
+interface IndicatorSpec {
+  defaults: number[];
+  fields?: string[]; // الحقل الأول هو الافتراضي
+  warmup(params: number[]): number;
+  compute(candles: CandleData[], params: number[]): RawSeries;
+}
+
+const closesOf = (candles: CandleData[]) => candles.map(candle => candle.close);
+
+function rolling(values: number[], period: number, reduce: (window: number[]) => number | object): RawSeries {
+  return values.map((_, i) => (i + 1 < period ? null : reduce(values.slice(i + 1 - period, i + 1))));
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const INDICATORS: Record<string, IndicatorSpec> = {
+  SMA: {
+    defaults: [20],
+    warmup: ([period]) => period,
+    compute: (candles, [period]) => rolling(closesOf(candles), period, mean)
+  },
+  EMA: {
+    defaults: [20],
+    warmup: ([period]) => period,
+    compute: (candles, [period]) => TechnicalAnalysis.series(new EMAIndicator(period), closesOf(candles))
+  },
+  RSI: {
+    defaults: [14],
+    warmup: ([period]) => period + 1,
+    compute: (candles, [period]) => TechnicalAnalysis.series(new RSIIndicator(period), closesOf(candles))
+  },
+  MACD: {
+    defaults: [12, 26, 9],
+    fields: ['macd', 'signal', 'histogram'],
+    warmup: ([, slow, signal]) => slow + signal,
+    compute: (candles, [fast, slow, signal]) =>
+      TechnicalAnalysis.series(new MACDIndicator(fast, slow, signal), closesOf(candles))
+  },
+  BOLLINGER: {
+    defaults: [20, 2],
+    fields: ['middle', 'upper', 'lower'],
+    warmup: ([period]) => period,
+    compute: (candles, [period, stdDev]) => rolling(closesOf(candles), period, window => {
+      const middle = mean(window);
+      const deviation = Math.sqrt(mean(window.map(value => (value - middle) ** 2)));
+      return { middle, upper: middle + deviation * stdDev, lower: middle - deviation * stdDev };
+    })
+  },
+  ATR: {
+    defaults: [14],
+    warmup: ([period]) => period + 1,
+    compute: (candles, [period]) => TechnicalAnalysis.series(new ATRIndicator(period), candles)
+  },
+  ADX: {
+    defaults: [14],
+    fields: ['adx', 'plusDI', 'minusDI'],
+    warmup: ([period]) => period * 2,
+    compute: (candles, [period]) => TechnicalAnalysis.series(new ADXIndicator(period), candles)
+  },
+  VWAP: {
+    defaults: [],
+    warmup: () => 1,
+    compute: candles => TechnicalAnalysis.series(new VWAPIndicator(), candles)
+  },
+  SUPERTREND: {
+    defaults: [10, 3],
+    fields: ['value', 'upper', 'lower'],
+    warmup: ([period]) => period + 1,
+    compute: (candles, [period, multiplier]) =>
+      TechnicalAnalysis.series(new SuperTrendIndicator(period, multiplier), candles)
+  },
+  ICHIMOKU: {
+    defaults: [9, 26, 52, 26],
+    fields: ['tenkan', 'kijun', 'senkouA', 'senkouB', 'cloudA', 'cloudB'],
+    warmup: ([, , senkou, displacement]) => senkou + displacement,
+    compute: (candles, [tenkan, kijun, senkou, displacement]) =>
+      TechnicalAnalysis.series(new IchimokuIndicator(tenkan, kijun, senkou, displacement), candles)
+  },
+  KELTNER: {
+    defaults: [20, 2, 10],
+    fields: ['middle', 'upper', 'lower'],
+    warmup: ([period, , atrPeriod]) => Math.max(period, atrPeriod + 1),
+    compute: (candles, [period, multiplier, atrPeriod]) =>
+      TechnicalAnalysis.series(new KeltnerIndicator(period, multiplier, atrPeriod), candles)
+  },
+  DONCHIAN: {
+    defaults: [20],
+    fields: ['middle', 'upper', 'lower'],
+    warmup: ([period]) => period,
+    compute: (candles, [period]) => TechnicalAnalysis.series(new DonchianIndicator(period), candles)
+  },
+  OBV: {
+    defaults: [],
+    warmup: () => 2,
+    compute: candles => TechnicalAnalysis.series(new OBVIndicator(), candles)
+  },
+  MFI: {
+    defaults: [14],
+    warmup: ([period]) => period + 1,
+    compute: (candles, [period]) => TechnicalAnalysis.series(new MFIIndicator(period), candles)
+  },
+  CCI: {
+    defaults: [20],
+    warmup: ([period]) => period,
+    compute: (candles, [period]) => TechnicalAnalysis.series(new CCIIndicator(period), candles)
+  },
+  WILLIAMSR: {
+    defaults: [14],
+    warmup: ([period]) => period,
+    compute: (candles, [period]) => TechnicalAnalysis.series(new WilliamsRIndicator(period), candles)
+  },
+  PSAR: {
+    defaults: [0.02, 0.2],
+    fields: ['sar'],
+    warmup: () => 2,
+    compute: (candles, [step, maxStep]) =>
+      TechnicalAnalysis.series(new ParabolicSARIndicator(step, maxStep), candles)
+  }
+};
+
+const PRICE_FIELDS = ['open', 'high', 'low', 'close', 'volume'] as const;
+
+const COMPARISONS: Record<string, (a: number, b: number) => boolean> = {
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b
+};
+const CROSSES = ['crosses_above', 'crosses_below'];
+const OPERATOR_PATTERN = /^(.+?)\s+(<=|>=|<|>|crosses_above|crosses_below)\s+(.+)$/;
+const OPERAND_PATTERN = /^([A-Za-z]+)(?:\(([^)]*)\))?(?:\.([A-Za-z]+))?$/;
+
+/**
+ * سلاسل المؤشرات لدورة تحليل واحدة (كل مرجع يحسب مرة واحدة مهما تكرر في الشروط)
+ */
+class SeriesFrame {
+  readonly candles: CandleData[];
+  private cache: Map<string, Series> = new Map();
+
+  constructor(candles: CandleData[]) {
+    this.candles = candles;
+  }
+
+  public get(key: string, compute: (candles: CandleData[]) => Series): Series {
+    let series = this.cache.get(key);
+    if (!series) {
+      series = compute(this.candles);
+      this.cache.set(key, series);
+    }
+    return series;
+  }
+}
+
+interface Operand {
+  read(frame: SeriesFrame, barsAgo: number): number | null; // barsAgo = 0 للشمعة الأخيرة
+  warmup: number;
+}
+type Condition = (frame: SeriesFrame) => boolean;
+
+/**
+ * مترجم تعريف واحد: يجمع كل الأخطاء بمساراتها بدلاً من التوقف عند أولها
+ */
+class RuleCompiler {
+  readonly errors: string[] = [];
+  warmup = 1;
+
+  public operand(text: string, path: string): Operand | null {
+    const trimmed = text.trim();
+    if (trimmed !== '' && Number.isFinite(Number(trimmed))) {
+      const constant = Number(trimmed);
+      return { read: () => constant, warmup: 0 };
+    }
+
+    const match = trimmed.match(OPERAND_PATTERN);
+    if (!match) {
+      this.errors.push(`${path}: لا يمكن قراءة "${text}"`);
+      return null;
+    }
+    const [, rawName, rawParams, field] = match;
+    const name = rawName.toUpperCase();
+
+    const priceField = PRICE_FIELDS.find(candidate => candidate === rawName.toLowerCase());
+    if (priceField && rawParams === undefined && field === undefined) {
+      return {
+        read: (frame, barsAgo) => frame.candles[frame.candles.length - 1 - barsAgo]?.[priceField] ?? null,
+        warmup: 1
+      };
+    }
+
+    const spec = INDICATORS[name];
+    if (!spec) {
+      this.errors.push(`${path}: مؤشر غير معروف "${rawName}" (المتاح: ${[...PRICE_FIELDS, ...Object.keys(INDICATORS)].join(', ')})`);
+      return null;
+    }
+
+    const given = rawParams === undefined || rawParams.trim() === '' ? [] : rawParams.split(',').map(param => Number(param.trim()));
+    if (given.length > spec.defaults.length) {
+      this.errors.push(`${path}: ${name} يقبل ${spec.defaults.length} معاملات كحد أقصى`);
+      return null;
+    }
+    if (given.some(param => !Number.isFinite(param) || param <= 0)) {
+      this.errors.push(`${path}: معاملات ${name} يجب أن تكون أرقاماً موجبة`);
+      return null;
+    }
+    const params = spec.defaults.map((fallback, i) => given[i] ?? fallback);
+
+    if (field !== undefined && !spec.fields?.includes(field)) {
+      this.errors.push(`${path}: ${name} لا يحتوي الحقل "${field}"${spec.fields ? ` (المتاح: ${spec.fields.join(', ')})` : ''}`);
+      return null;
+    }
+    const selected = field ?? spec.fields?.[0];
+
+    const key = `${name}(${params.join(',')})${selected ? `.${selected}` : ''}`;
+    const compute = (candles: CandleData[]): Series => spec.compute(candles, params).map(value => {
+      if (value === null || typeof value === 'number') return value;
+      const picked = selected ? (value as Record<string, unknown>)[selected] : null;
+      return typeof picked === 'number' ? picked : null;
+    });
+
+    return {
+      read: (frame, barsAgo) => {
+        const series = frame.get(key, compute);
+        return series[series.length - 1 - barsAgo] ?? null;
+      },
+      warmup: spec.warmup(params)
+    };
+  }
+
+  public condition(node: unknown, path: string): Condition | null {
+    if (typeof node === 'string') return this.comparison(node, path);
+
+    if (node === null || typeof node !== 'object' || Array.isArray(node)) {
+      this.errors.push(`${path}: الشرط يجب أن يكون نصاً أو كائناً يحتوي and أو or أو not`);
+      return null;
+    }
+
+    const keys = Object.keys(node);
+    if (keys.length !== 1 || !['and', 'or', 'not'].includes(keys[0])) {
+      this.errors.push(`${path}: الكائن يجب أن يحتوي مفتاحاً واحداً من and أو or أو not`);
+      return null;
+    }
+
+    const record = node as Record<string, unknown>;
+    if (keys[0] === 'not') {
+      const inner = this.condition(record.not, `${path}.not`);
+      return inner && (frame => !inner(frame));
+    }
+
+    const key = keys[0] as 'and' | 'or';
+    const items = record[key];
+    if (!Array.isArray(items) || items.length === 0) {
+      this.errors.push(`${path}.${key}: يجب أن يكون قائمة شروط غير فارغة`);
+      return null;
+    }
+    const children = items.map((item, i) => this.condition(item, `${path}.${key}[${i}]`));
+    if (children.some(child => child === null)) return null;
+    const conditions = children as Condition[];
+
+    return key === 'and'
+      ? frame => conditions.every(condition => condition(frame))
+      : frame => conditions.some(condition => condition(frame));
+  }
+
+  private comparison(text: string, path: string): Condition | null {
+    const match = text.trim().match(OPERATOR_PATTERN);
+    if (!match) {
+      this.errors.push(`${path}: المقارنة "${text}" يجب أن تكون بالشكل "أ < ب" (${[...Object.keys(COMPARISONS), ...CROSSES].join(', ')})`);
+      return null;
+    }
+    const [, leftText, operator, rightText] = match;
+    const left = this.operand(leftText, path);
+    const right = this.operand(rightText, path);
+    if (!left || !right) return null;
+
+    const crosses = CROSSES.includes(operator);
+    // التقاطع يحتاج قيمة الشمعة السابقة أيضاً
+    this.warmup = Math.max(this.warmup, Math.max(left.warmup, right.warmup) + (crosses ? 1 : 0));
+
+    if (crosses) {
+      const above = operator === 'crosses_above';
+      return frame => {
+        const [a, b, prevA, prevB] = [left.read(frame, 0), right.read(frame, 0), left.read(frame, 1), right.read(frame, 1)];
+        if (a === null || b === null || prevA === null || prevB === null) return false;
+        return above ? prevA <= prevB && a > b : prevA >= prevB && a < b;
+      };
+    }
+
+    const compare = COMPARISONS[operator];
+    return frame => {
+      const a = left.read(frame, 0);
+      const b = right.read(frame, 0);
+      return a !== null && b !== null && compare(a, b);
+    };
+  }
+
+  public exitLevel(level: unknown, path: string): ExitLevel | undefined {
+    const record = level as Record<string, unknown> | null;
+    const valid = record !== null && typeof record === 'object' && Object.keys(record).length === 1
+      && (['atr', 'percent'] as const).some(key => typeof record[key] === 'number' && (record[key] as number) > 0);
+    if (!valid) {
+      this.errors.push(`${path}: يجب أن يكون { "atr": مضاعف } أو { "percent": نسبة } بقيمة موجبة`);
+      return undefined;
+    }
+    return level as ExitLevel;
+  }
+
+  public number(value: unknown, path: string, min: number, max: number): void {
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      this.errors.push(`${path}: يجب أن يكون رقماً بين ${min} و ${max}`);
+    }
+  }
+}
+
+interface CompiledRule {
+  definition: RuleDefinition;
+  buy: Condition | null;
+  sell: Condition | null;
+  exitLong: Condition | null;
+  exitShort: Condition | null;
+  warmup: number;
+}
+
+function compile(input: unknown): CompiledRule {
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    throw new RuleValidationError('?', ['التعريف يجب أن يكون كائن JSON']);
+  }
+  const rule = input as Partial<RuleDefinition>;
+  const ruleId = typeof rule.id === 'string' ? rule.id : '?';
+  const compiler = new RuleCompiler();
+  const { errors } = compiler;
+
+  if (typeof rule.id !== 'string' || !/^[A-Z][A-Z0-9_]*$/.test(rule.id)) {
+    errors.push('id: مطلوب بأحرف إنجليزية كبيرة وأرقام و _ (مثل RSI_PULLBACK)');
+  } else if (rule.id === 'HYBRID') {
+    errors.push('id: HYBRID محجوز للوضع التلقائي');
+  }
+  if (typeof rule.name !== 'string' || rule.name.trim() === '') errors.push('name: مطلوب');
+  if (rule.riskLevel !== undefined && !['LOW', 'MEDIUM', 'HIGH'].includes(rule.riskLevel)) {
+    errors.push('riskLevel: يجب أن يكون LOW أو MEDIUM أو HIGH');
+  }
+  compiler.number(rule.confidence, 'confidence', 0, 100);
+
+  const entry = (rule.entry ?? {}) as RuleDefinition['entry'];
+  if (entry.buy === undefined && entry.sell === undefined) {
+    errors.push('entry: يجب تحديد buy أو sell على الأقل');
+  }
+  const buy = entry.buy !== undefined ? compiler.condition(entry.buy, 'entry.buy') : null;
+  const sell = entry.sell !== undefined ? compiler.condition(entry.sell, 'entry.sell') : null;
+
+  const exit = (rule.exit ?? {}) as Partial<RuleDefinition['exit']>;
+  if (exit.stopLoss === undefined) {
+    errors.push('exit.stopLoss: مطلوب (مثل { "atr": 2 } أو { "percent": 1.5 })');
+  } else {
+    compiler.exitLevel(exit.stopLoss, 'exit.stopLoss');
+  }
+  if (exit.takeProfit !== undefined) compiler.exitLevel(exit.takeProfit, 'exit.takeProfit');
+  compiler.number(exit.atrPeriod, 'exit.atrPeriod', 1, 500);
+  compiler.number(exit.maxHoldTime, 'exit.maxHoldTime', 0, Number.MAX_SAFE_INTEGER);
+  const exitLong = exit.long !== undefined ? compiler.condition(exit.long, 'exit.long') : null;
+  const exitShort = exit.short !== undefined ? compiler.condition(exit.short, 'exit.short') : null;
+
+  if (errors.length > 0) throw new RuleValidationError(ruleId, errors);
+
+  const usesAtr = [exit.stopLoss, exit.takeProfit].some(level => level !== undefined && 'atr' in level);
+  const warmup = Math.max(compiler.warmup, usesAtr ? (exit.atrPeriod ?? 14) + 1 : 1);
+  return { definition: rule as RuleDefinition, buy, sell, exitLong, exitShort, warmup };
+}
+
+const CONFIG_SCHEMA: ConfigSchema<RuleParameters> = {
+  confidence: { label: 'الثقة', type: 'number', min: 0, max: 100 },
+  atrPeriod: { label: 'فترة ATR', type: 'number', min: 1, max: 500 },
+  maxHoldTime: { label: 'أقصى مدة (دقائق)', type: 'number', min: 0 }
+};
+
+export class RuleStrategy implements Strategy<RuleParameters, RuleSignal> {
+  public readonly configSchema = CONFIG_SCHEMA;
+  private rule: CompiledRule;
+  private config: RuleParameters;
+
+  constructor(rule: CompiledRule, config?: RuleParameters) {
+    this.rule = rule;
+    const { definition } = rule;
+    this.config = config ?? {
+      confidence: definition.confidence ?? 75,
+      atrPeriod: definition.exit.atrPeriod ?? 14,
+      maxHoldTime: definition.exit.maxHoldTime ?? 0
+    };
+  }
+
+  public get warmup(): number {
+    return this.rule.warmup;
+  }
+
+  public getConfig(): RuleParameters {
+    return { ...this.config };
+  }
+
+  // الشروط تحسب من الشموع فقط
+  public getState(): Record<string, never> {
+    return {};
+  }
+
+  public setState(): void {}
+
+  public reset(): void {}
+
+  public analyze({ candles }: StrategyContext): RuleSignal {
+    if (candles.length < this.warmup) {
+      return this.createHoldSignal(`بيانات غير كافية للتحليل (${candles.length}/${this.warmup})`);
+    }
+
+    const frame = new SeriesFrame(candles);
+    const { buy, sell, definition } = this.rule;
+    const action = buy?.(frame) ? 'BUY' : sell?.(frame) ? 'SELL' : 'HOLD';
+    if (action === 'HOLD') {
+      return this.createHoldSignal('لم تتحقق شروط الدخول');
+    }
+
+    const entryPrice = candles[candles.length - 1].close;
+    const direction = action === 'BUY' ? 1 : -1;
+    const atr = TechnicalAnalysis.calculateATR(candles, this.config.atrPeriod);
+    const distance = (level: ExitLevel) => ('atr' in level ? atr * level.atr : entryPrice * level.percent / 100);
+    const { stopLoss, takeProfit } = definition.exit;
+    const condition = action === 'BUY' ? definition.entry.buy : definition.entry.sell;
+
+    return {
+      action,
+      confidence: this.config.confidence,
+      entryPrice,
+      stopLoss: entryPrice - direction * distance(stopLoss),
+      takeProfit: takeProfit ? entryPrice + direction * distance(takeProfit) : 0,
+      reasons: [`تحققت قاعدة ${action === 'BUY' ? 'الشراء' : 'البيع'}: ${describeCondition(condition)}`],
+      maxHoldTime: this.config.maxHoldTime > 0 ? this.config.maxHoldTime : undefined
+    };
+  }
+
+  public getExitRules(): ExitRule[] {
+    const { exitLong, exitShort, definition } = this.rule;
+    if (!exitLong && !exitShort) return [];
+
+    return [{
+      name: `${definition.id}_EXIT`,
+      strategy: definition.id,
+      shouldExit: ({ position, price, candles }) => {
+        const condition = position.side === 'LONG' ? exitLong : exitShort;
+        if (!condition || candles.length === 0) return false;
+        // السعر الحالي بدلاً من إغلاق الشمعة الجارية
+        const last = candles[candles.length - 1];
+        const current = { ...last, close: price, high: Math.max(last.high, price), low: Math.min(last.low, price) };
+        return condition(new SeriesFrame([...candles.slice(0, -1), current]));
+      }
+    }];
+  }
+
+  private createHoldSignal(reason: string): RuleSignal {
+    return {
+      action: 'HOLD',
+      confidence: 0,
+      entryPrice: 0,
+      stopLoss: 0,
+      takeProfit: 0,
+      reasons: [reason]
+    };
+  }
+}
+
+function describeCondition(condition: RuleCondition | undefined): string {
+  if (condition === undefined) return '';
+  if (typeof condition === 'string') return condition;
+  if ('not' in condition) return `NOT (${describeCondition(condition.not)})`;
+  const [operator, items] = 'and' in condition ? ['AND', condition.and] : ['OR', condition.or];
+  return items.map(item => (typeof item === 'string' ? item : `(${describeCondition(item)})`)).join(` ${operator} `);
+}
+
+/**
+ * التحقق من التعريف وترجمته إلى وحدة قابلة للتسجيل (يرمي RuleValidationError بكل الأخطاء)
+ */
+export function compileRule(input: unknown): StrategyModule<RuleParameters, RuleSignal> {
+  const rule = compile(input);
+  const { definition } = rule;
+  const metadata: StrategyMetadata = {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description ?? describeCondition(definition.entry.buy ?? definition.entry.sell),
+    riskLevel: definition.riskLevel ?? 'MEDIUM',
+    expectedWinRate: 50, // لا توجد إحصائية قبل الاختبار التاريخي
+    color: 'slate',
+    icon: 'ListChecks'
+  };
+
+  return {
+    metadata,
+    create: config => new RuleStrategy(rule, config)
+  };
+}
+
+/**
+ * قراءة تعريف من نص JSON مع رسالة واضحة عند خطأ الصياغة
+ */
+export function parseRule(json: string): StrategyModule<RuleParameters, RuleSignal> {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch (error) {
+    throw new RuleValidationError('?', [`JSON غير صالح: ${(error as Error).message}`]);
+  }
+  return compileRule(input);
+}
+
+/**
+ * قراءة تعريف من نص YAML، وكل خطأ (صياغة أو تحقق) يحمل رقم سطره في الملف
+ */
+export function parseRuleYaml(yaml: string): StrategyModule<RuleParameters, RuleSignal> {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(yaml, { lineCounter, prettyErrors: false });
+  if (document.errors.length > 0) {
+    throw new RuleValidationError('?', document.errors.map(error =>
+      `سطر ${lineCounter.linePos(error.pos[0]).line}: YAML غير صالح: ${error.message}`
+    ));
+  }
+
+  try {
+    return compileRule(document.toJS());
+  } catch (error) {
+    if (!(error instanceof RuleValidationError)) throw error;
+    throw new RuleValidationError(error.ruleId, error.errors.map(message => {
+      const line = findYamlLine(document, lineCounter, message.slice(0, message.indexOf(': ')));
+      return line ? `سطر ${line}: ${message}` : message;
+    }));
+  }
+}
+
+/**
+ * سطر أقرب عقدة موجودة لمسار الخطأ (مثل entry.buy.and[0]، أو exit عند غياب exit.stopLoss)
+ */
+function findYamlLine(document: Document, lineCounter: LineCounter, path: string): number | null {
+  if (!path || /\s/.test(path)) return null;
+  const segments = path.split(/[.[\]]/).filter(Boolean).map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+  for (let depth = segments.length; depth > 0; depth--) {
+    const node = document.getIn(segments.slice(0, depth), true);
+    if (isNode(node) && node.range) return lineCounter.linePos(node.range[0]).line;
+  }
+  return null;
+}
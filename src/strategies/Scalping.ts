@@ -1,4 +1,5 @@
-import { CandleData } from '../utils/TechnicalAnalysis';
+import { CandleData, TechnicalAnalysis, SignalInput } from '../utils/TechnicalAnalysis';
+import { ConfigSchema, Strategy, StrategyContext, StrategyModule } from './Strategy';
 
 export interface ScalpingConfig {
   profitTarget: number; // هدف الربح كنسبة مئوية (0.2-0.5%)
@@ -8,6 +9,7 @@ export interface ScalpingConfig {
   rsiPeriod: number;
   emaPeriod: number;
   maxHoldTime: number; // أقصى وقت احتفاظ بالصفقة (بالدقائق)
+  confirmations?: SignalInput[]; // مؤشرات تأكيد إضافية (VWAP، SuperTrend، ...)
 }
 
 export interface ScalpingSignal {
@@ -21,9 +23,26 @@ export interface ScalpingSignal {
   spread: number;
   expectedProfit: number;
   riskReward: number;
+  maxHoldTime: number;
 }
 
-export class ScalpingStrategy {
+export interface ScalpingState {
+  lastSignalTime: number;
+}
+
+const CONFIG_SCHEMA: ConfigSchema<ScalpingConfig> = {
+  profitTarget: { label: 'هدف الربح %', type: 'number', min: 0.01, max: 10 },
+  stopLoss: { label: 'وقف الخسارة %', type: 'number', min: 0.01, max: 10 },
+  maxSpread: { label: 'أقصى سبريد %', type: 'number', min: 0 },
+  minVolume: { label: 'أقل حجم', type: 'number', min: 0 },
+  rsiPeriod: { label: 'فترة RSI', type: 'number', min: 2 },
+  emaPeriod: { label: 'فترة EMA', type: 'number', min: 2 },
+  maxHoldTime: { label: 'أقصى مدة (دقائق)', type: 'number', min: 1 },
+  confirmations: { label: 'مؤشرات التأكيد', type: 'signalInputs' }
+};
+
+export class ScalpingStrategy implements Strategy<ScalpingConfig, ScalpingSignal, ScalpingState> {
+  public readonly configSchema = CONFIG_SCHEMA;
   private config: ScalpingConfig;
   private lastSignalTime: number = 0;
   private minSignalInterval: number = 5000; // 5 ثواني بين الإشارات
@@ -41,13 +60,33 @@ export class ScalpingStrategy {
     this.config = config;
   }
 
-  public analyze(candles: CandleData[], orderBook?: { bid: number; ask: number }): ScalpingSignal {
+  public getConfig(): ScalpingConfig {
+    return { ...this.config };
+  }
+
+  public get warmup(): number {
+    return this.config.emaPeriod;
+  }
+
+  public getState(): ScalpingState {
+    return { lastSignalTime: this.lastSignalTime };
+  }
+
+  public setState(state: ScalpingState): void {
+    this.lastSignalTime = state.lastSignalTime;
+  }
+
+  public reset(): void {
+    this.lastSignalTime = 0;
+  }
+
+  public analyze({ candles, orderBook }: StrategyContext): ScalpingSignal {
     if (candles.length < this.config.emaPeriod) {
       return this.createHoldSignal('بيانات غير كافية للتحليل', 0, 0);
     }
 
-    // فحص التوقيت (تجنب الإشارات المتكررة)
-    const now = Date.now();
+    // فحص التوقيت (تجنب الإشارات المتكررة) بتوقيت آخر شمعة ليبقى الاختبار التاريخي قابلاً للتكرار
+    const now = candles[candles.length - 1].timestamp;
     if (now - this.lastSignalTime < this.minSignalInterval) {
       return this.createHoldSignal('انتظار فترة التهدئة', 0, 0);
     }
@@ -70,8 +109,8 @@ export class ScalpingStrategy {
     }
 
     // حساب المؤشرات السريعة
-    const rsi = this.calculateRSI(closes, this.config.rsiPeriod);
-    const ema = this.calculateEMA(closes, this.config.emaPeriod);
+    const rsi = TechnicalAnalysis.calculateRSI(closes, this.config.rsiPeriod);
+    const ema = TechnicalAnalysis.calculateEMA(closes, this.config.emaPeriod);
     const momentum = this.calculateMomentum(closes, 3);
     const volatility = this.calculateVolatility(candles, 10);
 
@@ -118,6 +157,13 @@ export class ScalpingStrategy {
       }
     }
 
+    // تأكيد بمؤشرات إضافية مختارة في الإعدادات
+    if (action !== 'HOLD' && this.config.confirmations) {
+      const confirmation = TechnicalAnalysis.confirmAction(candles, action, this.config.confirmations);
+      confidence = Math.max(0, confidence + confirmation.confidence);
+      reasons.push(...confirmation.reasons);
+    }
+
     // حساب مستويات الخروج
     const stopLoss = action === 'BUY' 
       ? currentPrice * (1 - this.config.stopLoss / 100)
@@ -149,56 +195,11 @@ export class ScalpingStrategy {
       reasons,
       spread,
       expectedProfit,
-      riskReward: this.config.profitTarget / this.config.stopLoss
+      riskReward: this.config.profitTarget / this.config.stopLoss,
+      maxHoldTime: this.config.maxHoldTime
     };
   }
 
-  private calculateRSI(prices: number[], period: number): number {
-    if (prices.length < period + 1) return 50;
-
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = 1; i <= period; i++) {
-      const change = prices[i] - prices[i - 1];
-      if (change > 0) {
-        gains += change;
-      } else {
-        losses += Math.abs(change);
-      }
-    }
-
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-
-    for (let i = period + 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      const gain = change > 0 ? change : 0;
-      const loss = change < 0 ? Math.abs(change) : 0;
-
-      avgGain = (avgGain * (period - 1) + gain) / period;
-      avgLoss = (avgLoss * (period - 1) + loss) / period;
-    }
-
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
-  private calculateEMA(prices: number[], period: number): number {
-    if (prices.length === 0) return 0;
-    if (prices.length === 1) return prices[0];
-
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-
-    return ema;
-  }
-
   private calculateMomentum(prices: number[], period: number): number {
     if (prices.length < period + 1) return 0;
     
@@ -243,7 +244,8 @@ export class ScalpingStrategy {
       reasons: [reason],
       spread,
       expectedProfit,
-      riskReward: 0
+      riskReward: 0,
+      maxHoldTime: this.config.maxHoldTime
     };
   }
 
@@ -267,7 +269,7 @@ export class ScalpingStrategy {
 
     for (let i = this.config.emaPeriod; i < historicalData.length - 5; i++) {
       const windowData = historicalData.slice(0, i + 1);
-      const signal = this.analyze(windowData);
+      const signal = this.analyze({ candles: windowData, symbol: 'BTCUSDT' });
 
       if (signal.action !== 'HOLD' && signal.confidence > 70) {
         totalTrades++;
@@ -332,4 +334,17 @@ export class ScalpingStrategy {
       profitAfterFees
     };
   }
-}
\ No newline at end of file
+}
+
+export const scalpingModule: StrategyModule<ScalpingConfig, ScalpingSignal, ScalpingState> = {
+  metadata: {
+    id: 'SCALPING',
+    name: 'السكالبينج',
+    description: 'صفقات سريعة بأرباح صغيرة',
+    riskLevel: 'MEDIUM',
+    expectedWinRate: 58,
+    color: 'yellow',
+    icon: 'Zap'
+  },
+  create: config => new ScalpingStrategy(config)
+};
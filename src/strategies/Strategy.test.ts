@@ -0,0 +1,102 @@
+/**
+ * اختبارات سجل الاستراتيجيات: التسجيل بوحدة واحدة والتحقق من الإعدادات وحفظ الحالة
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/BackendService', () => ({ backendService: {} }));
+
+import { StrategyModule, StrategyRegistry, StrategySignal } from './Strategy';
+import { strategyRegistry } from './registry';
+import { GridDCAStrategy } from './GridDCA';
+import { HybridTradingManager } from './HybridManager';
+import { RiskManager } from '../services/RiskManager';
+import { TestingUtils } from '../utils/TestingUtils';
+
+interface BreakoutConfig {
+  lookback: number;
+}
+
+const breakoutModule: StrategyModule<BreakoutConfig, StrategySignal> = {
+  metadata: {
+    id: 'BREAKOUT',
+    name: 'الاختراق',
+    description: 'شراء عند تجاوز أعلى سعر في النافذة',
+    riskLevel: 'HIGH',
+    expectedWinRate: 50,
+    color: 'orange',
+    icon: 'Rocket'
+  },
+  create: (config = { lookback: 20 }) => ({
+    warmup: config.lookback + 1,
+    configSchema: { lookback: { label: 'النافذة', type: 'number', min: 2 } },
+    getConfig: () => config,
+    analyze: ({ candles }) => {
+      const last = candles[candles.length - 1];
+      const high = Math.max(...candles.slice(-config.lookback - 1, -1).map(candle => candle.high));
+      return last.close > high
+        ? { action: 'BUY', confidence: 80, reasons: ['اختراق القمة'], entryPrice: last.close, quantity: 1 }
+        : { action: 'HOLD', confidence: 0, reasons: ['لا اختراق'] };
+    },
+    getState: () => ({}),
+    setState: () => {},
+    reset: () => {}
+  })
+};
+
+describe('StrategyRegistry', () => {
+  it('runs a strategy added by registering its module alone', () => {
+    const registry = new StrategyRegistry();
+    registry.register(breakoutModule);
+    const manager = new HybridTradingManager(new RiskManager({}, { logging: false }), registry);
+    manager.setDecisionLogging(false);
+
+    const candles = TestingUtils.generateBullishTrend(60);
+    const signal = manager.analyzeWithStrategy(candles, 'BREAKOUT');
+
+    expect(signal.strategy).toBe('BREAKOUT');
+    expect(signal.reasons[0]).toBe('استراتيجية: الاختراق (مفروضة)');
+    expect(manager.getAvailableStrategies().map(strategy => strategy.id)).toEqual(['HYBRID', 'BREAKOUT']);
+    expect(manager.getWarmup('BREAKOUT')).toBe(50);
+    expect(() => registry.register(breakoutModule)).toThrow('already registered');
+  });
+
+  it('lists the built-in strategies and validates configs against their schema', () => {
+    expect(strategyRegistry.ids().slice(0, 5)).toEqual(['TREND_FOLLOWING', 'MEAN_REVERSION', 'GRID_DCA', 'SCALPING', 'MARKET_MAKING']);
+    expect(strategyRegistry.get('SCALPING')?.name).toBe('السكالبينج');
+    expect(strategyRegistry.create('TREND_FOLLOWING').warmup).toBe(200);
+
+    const invalid = { gridRange: 10, gridStep: 1, maxExposure: 150, dcaMultiplier: 1.5, stopLossPercent: 15 };
+    expect(() => strategyRegistry.create('GRID_DCA', invalid)).toThrow('maxExposure');
+    expect(() => strategyRegistry.create('UNKNOWN')).toThrow('Unknown strategy');
+  });
+
+  it('restores a serialized grid so the next signal matches the original', () => {
+    // توقيت ثابت لأن تنفيذ مستوى الشبكة يسجل وقته
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2024, 0, 1));
+    const candles = [100, 98.5, 97.5, 96.5].map((close, i) => ({
+      timestamp: Date.UTC(2024, 0, 1) + i * 60000,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000
+    }));
+    const original = new GridDCAStrategy();
+    original.analyze({ candles: candles.slice(0, 1), symbol: 'BTCUSDT' });
+    original.analyze({ candles: candles.slice(0, 2), symbol: 'BTCUSDT' });
+    expect(original.getStatus().filledLevels).toBe(1);
+
+    const restored = new GridDCAStrategy();
+    restored.setState(JSON.parse(JSON.stringify(original.getState())));
+    expect(restored.getState()).toEqual(original.getState());
+
+    const context = { candles, symbol: 'BTCUSDT' };
+    expect(restored.analyze(context)).toEqual(original.analyze(context));
+
+    restored.reset();
+    expect(restored.getStatus().referencePrice).toBe(0);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,148 @@
+import { CandleData } from '../utils/TechnicalAnalysis';
+import type { ExitRule } from '../services/PositionTracker';
+
+export interface OrderBookTop {
+  bid: number;
+  ask: number;
+  bidSize: number;
+  askSize: number;
+}
+
+/**
+ * مدخلات تحليل الاستراتيجية في كل دورة
+ */
+export interface StrategyContext {
+  candles: CandleData[];
+  orderBook?: OrderBookTop;
+  symbol: string;
+}
+
+/**
+ * الحقول المشتركة التي يعتمد عليها المدير الهجين ومحرك الاختبار التاريخي
+ * (كل استراتيجية تضيف حقولها الخاصة فوقها)
+ */
+export interface StrategySignal {
+  action: string;
+  confidence: number;
+  reasons: string[];
+  entryPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  quantity?: number;
+  maxHoldTime?: number; // أقصى مدة احتفاظ بالمركز (بالدقائق)
+}
+
+export interface ConfigField {
+  label: string;
+  type: 'number' | 'signalInputs';
+  min?: number;
+  max?: number;
+}
+
+/**
+ * وصف إعدادات الاستراتيجية لعرضها في الواجهة والتحقق منها قبل الإنشاء
+ */
+export type ConfigSchema<TConfig> = { [K in keyof TConfig]-?: ConfigField };
+
+export interface StrategyMetadata {
+  id: string;
+  name: string;
+  description: string;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  expectedWinRate: number;
+  color: string; // لون Tailwind في الواجهة (emerald، blue، ...)
+  icon: string; // اسم أيقونة lucide
+}
+
+export interface Strategy<TConfig, TSignal extends StrategySignal, TState = Record<string, never>> {
+  readonly warmup: number; // أقل عدد شموع قبل أن تعطي الاستراتيجية إشارة فعلية
+  readonly configSchema: ConfigSchema<TConfig>;
+  getConfig(): TConfig;
+  analyze(context: StrategyContext): TSignal;
+  getState(): TState; // حالة قابلة للتحويل إلى JSON (للحفظ والاستعادة)
+  setState(state: TState): void;
+  reset(): void;
+  getExitRules?(): ExitRule[]; // قواعد خروج خاصة بمراكز هذه الاستراتيجية
+}
+
+export type AnyStrategy = Strategy<unknown, StrategySignal, unknown>;
+
+/**
+ * وحدة تسجيل الاستراتيجية: البيانات الوصفية ومصنع ينشئ نسخة مستقلة الحالة
+ */
+export interface StrategyModule<TConfig, TSignal extends StrategySignal, TState = Record<string, never>> {
+  metadata: StrategyMetadata;
+  create(config?: TConfig): Strategy<TConfig, TSignal, TState>;
+}
+
+/**
+ * التحقق من الإعدادات مقابل الوصف (يعيد قائمة الأخطاء)
+ */
+export function validateConfig<TConfig>(schema: ConfigSchema<TConfig>, config: TConfig): string[] {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(schema) as Array<keyof TConfig>) {
+    const field = schema[key];
+    const value = config[key];
+    if (value === undefined || field.type !== 'number') continue;
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${String(key)}: يجب أن يكون رقماً`);
+    } else if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+      errors.push(`${String(key)}: خارج النطاق ${field.min ?? '-∞'} - ${field.max ?? '∞'}`);
+    }
+  }
+
+  return errors;
+}
+
+export class StrategyRegistry {
+  private modules: Map<string, StrategyModule<unknown, StrategySignal, unknown>> = new Map();
+
+  constructor(modules: Array<StrategyModule<unknown, StrategySignal, unknown>> = []) {
+    modules.forEach(module => this.register(module));
+  }
+
+  public register<TConfig, TSignal extends StrategySignal, TState>(module: StrategyModule<TConfig, TSignal, TState>): void {
+    const { id } = module.metadata;
+    if (this.modules.has(id)) {
+      throw new Error(`Strategy already registered: ${id}`);
+    }
+    this.modules.set(id, module as StrategyModule<unknown, StrategySignal, unknown>);
+  }
+
+  public has(id: string): boolean {
+    return this.modules.has(id);
+  }
+
+  public get(id: string): StrategyMetadata | undefined {
+    return this.modules.get(id)?.metadata;
+  }
+
+  public ids(): string[] {
+    return Array.from(this.modules.keys());
+  }
+
+  public list(): StrategyMetadata[] {
+    return Array.from(this.modules.values(), module => module.metadata);
+  }
+
+  /**
+   * نسخة جديدة من الاستراتيجية (كل مدير أو اختبار تاريخي يملك حالته الخاصة)
+   */
+  public create(id: string, config?: unknown): AnyStrategy {
+    const module = this.modules.get(id);
+    if (!module) {
+      throw new Error(`Unknown strategy: ${id}`);
+    }
+
+    const strategy = module.create(config);
+    if (config !== undefined) {
+      const errors = validateConfig(strategy.configSchema, strategy.getConfig());
+      if (errors.length > 0) {
+        throw new Error(`Invalid ${id} config: ${errors.join(', ')}`);
+      }
+    }
+    return strategy;
+  }
+}
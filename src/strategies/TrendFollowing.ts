@@ -1,4 +1,5 @@
-import { CandleData, TechnicalIndicators } from '../utils/TechnicalAnalysis';
+import { CandleData, TechnicalIndicators, TechnicalAnalysis, SignalInput } from '../utils/TechnicalAnalysis';
+import { ConfigSchema, Strategy, StrategyContext, StrategyModule } from './Strategy';
 
 export interface TrendFollowingConfig {
   emaShort: number;
@@ -8,6 +9,7 @@ export interface TrendFollowingConfig {
   macdSignal: number;
   atrPeriod: number;
   atrMultiplier: number;
+  confirmations?: SignalInput[]; // مؤشرات تأكيد إضافية (VWAP، SuperTrend، ...)
 }
 
 export interface TrendSignal {
@@ -19,7 +21,19 @@ export interface TrendSignal {
   reasons: string[];
 }
 
-export class TrendFollowingStrategy {
+const CONFIG_SCHEMA: ConfigSchema<TrendFollowingConfig> = {
+  emaShort: { label: 'EMA القصير', type: 'number', min: 2 },
+  emaLong: { label: 'EMA الطويل', type: 'number', min: 2 },
+  macdFast: { label: 'MACD السريع', type: 'number', min: 1 },
+  macdSlow: { label: 'MACD البطيء', type: 'number', min: 1 },
+  macdSignal: { label: 'خط إشارة MACD', type: 'number', min: 1 },
+  atrPeriod: { label: 'فترة ATR', type: 'number', min: 1 },
+  atrMultiplier: { label: 'مضاعف ATR', type: 'number', min: 0.1 },
+  confirmations: { label: 'مؤشرات التأكيد', type: 'signalInputs' }
+};
+
+export class TrendFollowingStrategy implements Strategy<TrendFollowingConfig, TrendSignal> {
+  public readonly configSchema = CONFIG_SCHEMA;
   private config: TrendFollowingConfig;
   private accountBalance: number = 10000;
 
@@ -35,21 +49,36 @@ export class TrendFollowingStrategy {
     this.config = config;
   }
 
-  public analyze(candles: CandleData[]): TrendSignal {
+  public get warmup(): number {
+    return this.config.emaLong;
+  }
+
+  public getConfig(): TrendFollowingConfig {
+    return { ...this.config };
+  }
+
+  // بدون حالة بين الدورات: الإشارة تحسب من الشموع فقط
+  public getState(): Record<string, never> {
+    return {};
+  }
+
+  public setState(): void {}
+
+  public reset(): void {}
+
+  public analyze({ candles }: StrategyContext): TrendSignal {
     if (candles.length < this.config.emaLong) {
       return this.createHoldSignal('بيانات غير كافية للتحليل');
     }
 
     const closes = candles.map(c => c.close);
-    const highs = candles.map(c => c.high);
-    const lows = candles.map(c => c.low);
 
     // حساب المؤشرات
-    const emaShort = this.calculateEMA(closes, this.config.emaShort);
-    const emaLong = this.calculateEMA(closes, this.config.emaLong);
-    const macd = this.calculateMACD(closes);
-    const atr = this.calculateATR(highs, lows, closes, this.config.atrPeriod);
-    const adx = this.calculateADX(highs, lows, closes);
+    const emaShort = TechnicalAnalysis.calculateEMA(closes, this.config.emaShort);
+    const emaLong = TechnicalAnalysis.calculateEMA(closes, this.config.emaLong);
+    const macd = TechnicalAnalysis.calculateMACD(closes, this.config.macdFast, this.config.macdSlow, this.config.macdSignal);
+    const atr = TechnicalAnalysis.calculateATR(candles, this.config.atrPeriod);
+    const adx = TechnicalAnalysis.calculateADX(candles);
 
     const currentPrice = closes[closes.length - 1];
     const reasons: string[] = [];
@@ -107,6 +136,13 @@ export class TrendFollowingStrategy {
       }
     }
 
+    // تأكيد بمؤشرات إضافية مختارة في الإعدادات
+    if (action !== 'HOLD' && this.config.confirmations) {
+      const confirmation = TechnicalAnalysis.confirmAction(candles, action, this.config.confirmations);
+      confidence = Math.max(0, confidence + confirmation.confidence);
+      reasons.push(...confirmation.reasons);
+    }
+
     // حساب مستويات الخروج
     const stopLoss = action === 'BUY' 
       ? currentPrice - (atr * this.config.atrMultiplier)
@@ -126,86 +162,6 @@ export class TrendFollowingStrategy {
     };
   }
 
-  private calculateEMA(prices: number[], period: number): number {
-    if (prices.length === 0) return 0;
-    if (prices.length === 1) return prices[0];
-
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-
-    return ema;
-  }
-
-  private calculateMACD(prices: number[]): { macd: number; signal: number; histogram: number } {
-    const ema12 = this.calculateEMA(prices, this.config.macdFast);
-    const ema26 = this.calculateEMA(prices, this.config.macdSlow);
-    const macd = ema12 - ema26;
-    
-    const macdLine = [macd];
-    const signal = this.calculateEMA(macdLine, this.config.macdSignal);
-    const histogram = macd - signal;
-
-    return { macd, signal, histogram };
-  }
-
-  private calculateATR(highs: number[], lows: number[], closes: number[], period: number): number {
-    if (highs.length < 2) return 0;
-
-    const trueRanges: number[] = [];
-    
-    for (let i = 1; i < highs.length; i++) {
-      const tr1 = highs[i] - lows[i];
-      const tr2 = Math.abs(highs[i] - closes[i - 1]);
-      const tr3 = Math.abs(lows[i] - closes[i - 1]);
-      
-      trueRanges.push(Math.max(tr1, tr2, tr3));
-    }
-
-    return this.calculateSMA(trueRanges, period);
-  }
-
-  private calculateADX(highs: number[], lows: number[], closes: number[], period: number = 14): number {
-    if (highs.length < period + 1) return 0;
-
-    const dmPlus: number[] = [];
-    const dmMinus: number[] = [];
-    const trueRanges: number[] = [];
-
-    for (let i = 1; i < highs.length; i++) {
-      const highDiff = highs[i] - highs[i - 1];
-      const lowDiff = lows[i - 1] - lows[i];
-
-      dmPlus.push(highDiff > lowDiff && highDiff > 0 ? highDiff : 0);
-      dmMinus.push(lowDiff > highDiff && lowDiff > 0 ? lowDiff : 0);
-
-      const tr1 = highs[i] - lows[i];
-      const tr2 = Math.abs(highs[i] - closes[i - 1]);
-      const tr3 = Math.abs(lows[i] - closes[i - 1]);
-      trueRanges.push(Math.max(tr1, tr2, tr3));
-    }
-
-    const avgDmPlus = this.calculateSMA(dmPlus.slice(-period), period);
-    const avgDmMinus = this.calculateSMA(dmMinus.slice(-period), period);
-    const avgTR = this.calculateSMA(trueRanges.slice(-period), period);
-
-    const diPlus = (avgDmPlus / avgTR) * 100;
-    const diMinus = (avgDmMinus / avgTR) * 100;
-
-    const dx = Math.abs(diPlus - diMinus) / (diPlus + diMinus) * 100;
-    return dx;
-  }
-
-  private calculateSMA(values: number[], period: number): number {
-    if (values.length < period) return values.reduce((a, b) => a + b, 0) / values.length;
-    
-    const recentValues = values.slice(-period);
-    return recentValues.reduce((a, b) => a + b, 0) / period;
-  }
-
   private findResistanceLevel(candles: CandleData[]): number {
     const highs = candles.slice(-20).map(c => c.high);
     return Math.max(...highs);
@@ -248,7 +204,7 @@ export class TrendFollowingStrategy {
 
     for (let i = this.config.emaLong; i < historicalData.length; i++) {
       const windowData = historicalData.slice(0, i + 1);
-      const signal = this.analyze(windowData);
+      const signal = this.analyze({ candles: windowData, symbol: 'BTCUSDT' });
 
       if (signal.action !== 'HOLD' && signal.confidence > 70) {
         totalTrades++;
@@ -277,4 +233,17 @@ export class TrendFollowingStrategy {
       sharpeRatio
     };
   }
-}
\ No newline at end of file
+}
+
+export const trendFollowingModule: StrategyModule<TrendFollowingConfig, TrendSignal> = {
+  metadata: {
+    id: 'TREND_FOLLOWING',
+    name: 'تتبع الاتجاه',
+    description: 'يتبع الاتجاهات القوية باستخدام EMA و MACD',
+    riskLevel: 'MEDIUM',
+    expectedWinRate: 65,
+    color: 'emerald',
+    icon: 'TrendingUp'
+  },
+  create: config => new TrendFollowingStrategy(config)
+};
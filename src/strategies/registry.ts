@@ -0,0 +1,30 @@
+/**
+ * سجل الاستراتيجيات المتاحة: المدير الهجين والاختبار التاريخي والواجهة تقرأ منه
+ * لإضافة استراتيجية جديدة يكفي تسجيل وحدتها هنا، أو إضافة ملف قواعد JSON أو YAML إلى rules/
+ */
+
+import { StrategyRegistry } from './Strategy';
+import { trendFollowingModule } from './TrendFollowing';
+import { meanReversionModule } from './MeanReversion';
+import { gridDCAModule } from './GridDCA';
+import { scalpingModule } from './Scalping';
+import { marketMakingModule } from './MarketMaking';
+import { parseRule, parseRuleYaml } from './RuleStrategy';
+
+export const strategyRegistry = new StrategyRegistry();
+
+strategyRegistry.register(trendFollowingModule);
+strategyRegistry.register(meanReversionModule);
+strategyRegistry.register(gridDCAModule);
+strategyRegistry.register(scalpingModule);
+strategyRegistry.register(marketMakingModule);
+
+// القاعدة غير الصالحة لا توقف التطبيق: تسجل أخطاؤها وتتجاهل
+const ruleFiles = import.meta.glob<string>('./rules/*.{json,yaml,yml}', { eager: true, query: '?raw', import: 'default' });
+for (const [path, source] of Object.entries(ruleFiles)) {
+  try {
+    strategyRegistry.register(path.endsWith('.json') ? parseRule(source) : parseRuleYaml(source));
+  } catch (error) {
+    console.error(`[STRATEGIES] Skipping rule ${path}: ${(error as Error).message}`);
+  }
+}
@@ -4,7 +4,25 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { TechnicalAnalysis, CandleData } from './TechnicalAnalysis';
+import {
+  TechnicalAnalysis,
+  CandleData,
+  RSIIndicator,
+  MACDIndicator,
+  ATRIndicator,
+  ADXIndicator,
+  VWAPIndicator,
+  AnchoredVWAPIndicator,
+  SuperTrendIndicator,
+  IchimokuIndicator,
+  KeltnerIndicator,
+  DonchianIndicator,
+  OBVIndicator,
+  MFIIndicator,
+  CCIIndicator,
+  WilliamsRIndicator,
+  ParabolicSARIndicator
+} from './TechnicalAnalysis';
 import { TestingUtils } from './TestingUtils';
 
 describe('TechnicalAnalysis', () => {
@@ -533,6 +551,169 @@ describe('TechnicalAnalysis', () => {
     });
   });
 
+  describe('Streaming Indicators', () => {
+    const bar = (close: number, range: number = 2) => ({ high: close + range / 2, low: close - range / 2, close });
+
+    it('should match the batch result after every incremental update', () => {
+      const closes = mockCandles.map(c => c.close);
+      const rsi = new RSIIndicator(14);
+      const atr = new ATRIndicator(14);
+      const adx = new ADXIndicator(14);
+
+      mockCandles.forEach((candle, i) => {
+        rsi.update(candle.close);
+        atr.update(candle);
+        adx.update(candle);
+        const window = mockCandles.slice(0, i + 1);
+        expect(rsi.value ?? 50).toBeCloseTo(TechnicalAnalysis.calculateRSI(closes.slice(0, i + 1)), 10);
+        expect(atr.value ?? 0).toBeCloseTo(TechnicalAnalysis.calculateATR(window), 10);
+        expect(adx.value?.adx ?? 0).toBeCloseTo(TechnicalAnalysis.calculateADX(window), 10);
+      });
+    });
+
+    it('should compute the MACD signal line as an EMA of the MACD series', () => {
+      const closes = mockCandles.map(c => c.close);
+      const series = TechnicalAnalysis.series(new MACDIndicator(), closes);
+      const macdLine = series.map(point => point?.macd ?? 0);
+      const last = series[series.length - 1];
+
+      expect(last?.signal).toBeCloseTo(TechnicalAnalysis.calculateEMA(macdLine, 9), 10);
+      expect(last?.signal).not.toBeCloseTo((last?.macd ?? 0) * 0.9, 6);
+    });
+
+    it('should apply Wilder smoothing to ATR', () => {
+      const bars = Array.from({ length: 15 }, () => bar(100));
+      const series = TechnicalAnalysis.series(new ATRIndicator(14), [...bars, bar(100, 16)]);
+
+      expect(series.slice(0, 14)).toEqual(Array(14).fill(null));
+      expect(series[14]).toBe(2);
+      expect(series[15]).toBeCloseTo((2 * 13 + 16) / 14, 10); // = 3
+    });
+
+    it('should report ADX only after 2 * period bars', () => {
+      const bars = Array.from({ length: 30 }, (_, i) => bar(100 + i));
+      const series = TechnicalAnalysis.series(new ADXIndicator(14), bars);
+
+      expect(series[26]).toBeNull();
+      expect(series[27]).toEqual({ adx: 100, plusDI: 50, minusDI: 0 });
+    });
+  });
+
+  describe('Expanded Indicators (reference values)', () => {
+    // القيم المرجعية محسوبة بتطبيق دفعي مستقل للتعريفات القياسية (فترات قصيرة لتسهيل التحقق اليدوي)
+    const DAY = 24 * 60 * 60 * 1000;
+    const HOUR = 60 * 60 * 1000;
+    const rows: Array<[number, number, number, number]> = [
+      // high, low, close, volume
+      [10.0, 8.0, 9.0, 100],
+      [11.0, 9.0, 10.5, 150],
+      [12.0, 10.0, 11.5, 120],
+      [11.8, 10.2, 10.6, 200],
+      [11.0, 9.5, 9.8, 180],
+      [10.4, 9.0, 9.2, 160], // بداية جلسة جديدة
+      [10.0, 8.6, 9.9, 140],
+      [11.2, 9.8, 11.0, 210],
+      [12.5, 10.9, 12.3, 260],
+      [13.1, 12.0, 12.8, 230]
+    ];
+    const candles: CandleData[] = rows.map(([high, low, close, volume], i) => ({
+      open: close,
+      high,
+      low,
+      close,
+      volume,
+      timestamp: (i < 5 ? 0 : DAY) + (i % 5) * HOUR
+    }));
+
+    const expectSeries = (actual: Array<number | null>, expected: Array<number | null>) => {
+      expect(actual).toHaveLength(expected.length);
+      expected.forEach((value, i) => {
+        if (value === null) expect(actual[i]).toBeNull();
+        else expect(actual[i]).toBeCloseTo(value, 5);
+      });
+    };
+
+    it('should calculate session and anchored VWAP', () => {
+      expectSeries(TechnicalAnalysis.series(new VWAPIndicator(), candles), [
+        9.0, 9.7, 10.175676, 10.418129, 10.341778, 9.533333, 9.517778, 9.99085, 10.635498, 11.095
+      ]);
+      expectSeries(TechnicalAnalysis.series(new AnchoredVWAPIndicator(candles[3].timestamp), candles), [
+        null, null, null, 10.866667, 10.503509, 10.216049, 10.068627, 10.209738, 10.591884, 10.932126
+      ]);
+    });
+
+    it('should calculate OBV, MFI, CCI and Williams %R', () => {
+      expectSeries(TechnicalAnalysis.series(new OBVIndicator(), candles), [0, 150, 270, 70, -110, -270, -130, 80, 340, 570]);
+      expectSeries(TechnicalAnalysis.series(new MFIIndicator(3), candles), [
+        null, null, null, 56.864042, 25.134425, 0, 0, 43.961795, 80.042017, 100
+      ]);
+      expectSeries(TechnicalAnalysis.series(new CCIIndicator(3), candles), [
+        null, null, 95, 23.529412, -100, -90.47619, -54.285714, 100, 100, 84.375
+      ]);
+      expectSeries(TechnicalAnalysis.series(new WilliamsRIndicator(3), candles), [
+        null, null, -12.5, -46.666667, -88, -92.857143, -45.833333, -7.692308, -5.128205, -9.090909
+      ]);
+    });
+
+    it('should calculate Keltner and Donchian channels', () => {
+      const keltner = TechnicalAnalysis.series(new KeltnerIndicator(3, 2, 3), candles);
+      expectSeries(keltner.map(band => band?.upper ?? null), [
+        null, null, null, 14.345833, 13.695139, 12.962384, 12.907735, 13.404896, 14.419801, 14.854802
+      ]);
+      expectSeries(keltner.map(band => band?.lower ?? null), [
+        null, null, null, 6.879167, 6.717361, 6.443866, 6.69539, 7.396666, 8.28098, 9.295589
+      ]);
+
+      const donchian = TechnicalAnalysis.series(new DonchianIndicator(3), candles);
+      expect(donchian[1]).toBeNull();
+      expect(donchian.slice(2).map(band => [band?.upper, band?.lower])).toEqual([
+        [12, 8], [12, 9], [12, 9.5], [11.8, 9], [11, 8.6], [11.2, 8.6], [12.5, 8.6], [13.1, 9.8]
+      ]);
+    });
+
+    it('should flip SuperTrend when the close crosses the band', () => {
+      const series = TechnicalAnalysis.series(new SuperTrendIndicator(3, 1), candles);
+
+      expect(series.map(point => point?.trend ?? null)).toEqual([
+        null, null, null, 'DOWN', 'DOWN', 'DOWN', 'DOWN', 'UP', 'UP', 'UP'
+      ]);
+      expectSeries(series.map(point => point?.value ?? null), [
+        null, null, null, 12.866667, 11.994444, 11.32963, 10.853086, 9.133333, 10.165295, 11.160197
+      ]);
+    });
+
+    it('should displace the Ichimoku cloud by displacement - 1 bars', () => {
+      const series = TechnicalAnalysis.series(new IchimokuIndicator(2, 3, 4, 3), candles);
+
+      expect(series[2]).toBeNull();
+      expect(series[3]).toEqual({ tenkan: 11, kijun: 10.5, senkouA: 10.75, senkouB: 10, cloudA: null, cloudB: null });
+      expect(series[5]).toMatchObject({ cloudA: 10.75, cloudB: 10 });
+      expect(series[9]?.tenkan).toBeCloseTo(12, 10);
+      expect(series[9]?.kijun).toBeCloseTo(11.45, 10);
+      expect(series[9]?.cloudA).toBeCloseTo(9.9, 10);
+      expect(series[9]?.cloudB).toBeCloseTo(9.9, 10);
+    });
+
+    it('should accelerate and reverse Parabolic SAR', () => {
+      const series = TechnicalAnalysis.series(new ParabolicSARIndicator(), candles);
+
+      expect(series.map(point => point?.trend ?? null)).toEqual([
+        null, 'UP', 'UP', 'UP', 'UP', 'UP', 'DOWN', 'DOWN', 'UP', 'UP'
+      ]);
+      expectSeries(series.map(point => point?.sar ?? null), [
+        null, 8, 8, 8.16, 8.3136, 8.461056, 12, 11.932, 8.6, 8.678
+      ]);
+    });
+
+    it('should let generateSignal use only the selected inputs', () => {
+      const indicators = TechnicalAnalysis.analyzeCandles(TestingUtils.generateBullishTrend(120));
+
+      const signal = TechnicalAnalysis.generateSignal(indicators, ['SUPERTREND', 'PARABOLIC_SAR', 'DONCHIAN']);
+      expect(signal.reasons.every(reason => /SuperTrend|Parabolic SAR|Donchian/.test(reason))).toBe(true);
+      expect(TechnicalAnalysis.generateSignal(indicators, []).action).toBe('HOLD');
+    });
+  });
+
   describe('Integration Tests', () => {
     it('should work with TestingUtils generated data', () => {
       const testData = TestingUtils.generateMockCandleData(100);
@@ -31,57 +31,975 @@ export interface TechnicalIndicators {
     k: number;
     d: number;
   };
+  price: number; // آخر إغلاق
+  vwap: number | null;
+  superTrend: SuperTrendValue | null;
+  ichimoku: IchimokuValue | null;
+  keltner: BandsValue | null;
+  donchian: BandsValue | null;
+  obv: { value: number; average: number } | null; // average = EMA 20 لسلسلة OBV
+  mfi: number | null;
+  cci: number | null;
+  williamsR: number | null;
+  parabolicSar: ParabolicSARValue | null;
 }
 
-export class TechnicalAnalysis {
-  
-  // حساب RSI (Relative Strength Index)
-  public static calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
+/**
+ * المؤشرات التي يمكن اختيارها كمدخلات لـ generateSignal وتأكيدات الاستراتيجيات
+ */
+export type SignalInput =
+  | 'RSI'
+  | 'MACD'
+  | 'BOLLINGER'
+  | 'EMA'
+  | 'STOCHASTIC'
+  | 'VWAP'
+  | 'SUPERTREND'
+  | 'ICHIMOKU'
+  | 'KELTNER'
+  | 'DONCHIAN'
+  | 'OBV'
+  | 'MFI'
+  | 'CCI'
+  | 'WILLIAMS_R'
+  | 'PARABOLIC_SAR';
+
+export const DEFAULT_SIGNAL_INPUTS: SignalInput[] = ['RSI', 'MACD', 'BOLLINGER', 'EMA', 'STOCHASTIC'];
+
+interface IndicatorVote {
+  direction: 'BULLISH' | 'BEARISH';
+  reason: string;
+}
+
+type VoteRule = (indicators: TechnicalIndicators) => IndicatorVote | null;
+
+const bullish = (reason: string): IndicatorVote => ({ direction: 'BULLISH', reason });
+const bearish = (reason: string): IndicatorVote => ({ direction: 'BEARISH', reason });
+
+// قاعدة تصويت لكل مؤشر (null = محايد أو بيانات غير كافية)
+const SIGNAL_RULES: Record<SignalInput, VoteRule> = {
+  RSI: ({ rsi }) => {
+    if (rsi < 30) return bullish('RSI في منطقة التشبع البيعي');
+    if (rsi > 70) return bearish('RSI في منطقة التشبع الشرائي');
+    return null;
+  },
+  MACD: ({ macd }) => {
+    if (macd.macd > macd.signal && macd.histogram > 0) return bullish('MACD يظهر زخم صاعد');
+    if (macd.macd < macd.signal && macd.histogram < 0) return bearish('MACD يظهر زخم هابط');
+    return null;
+  },
+  BOLLINGER: ({ bollinger }) => {
+    const currentPrice = bollinger.middle; // تقريبي
+    if (currentPrice < bollinger.lower) return bullish('السعر تحت الحد السفلي لـ Bollinger Bands');
+    if (currentPrice > bollinger.upper) return bearish('السعر فوق الحد العلوي لـ Bollinger Bands');
+    return null;
+  },
+  EMA: ({ ema }) => ema.ema12 > ema.ema26 ? bullish('EMA 12 فوق EMA 26') : bearish('EMA 12 تحت EMA 26'),
+  STOCHASTIC: ({ stochastic }) => {
+    if (stochastic.k < 20 && stochastic.d < 20) return bullish('Stochastic في منطقة التشبع البيعي');
+    if (stochastic.k > 80 && stochastic.d > 80) return bearish('Stochastic في منطقة التشبع الشرائي');
+    return null;
+  },
+  VWAP: ({ price, vwap }) => {
+    if (vwap === null || price === vwap) return null;
+    return price > vwap ? bullish('السعر فوق VWAP') : bearish('السعر تحت VWAP');
+  },
+  SUPERTREND: ({ superTrend }) => {
+    if (!superTrend) return null;
+    return superTrend.trend === 'UP' ? bullish('SuperTrend صاعد') : bearish('SuperTrend هابط');
+  },
+  ICHIMOKU: ({ price, ichimoku }) => {
+    if (!ichimoku || ichimoku.cloudA === null || ichimoku.cloudB === null) return null;
+    const cloudTop = Math.max(ichimoku.cloudA, ichimoku.cloudB);
+    const cloudBottom = Math.min(ichimoku.cloudA, ichimoku.cloudB);
+    if (price > cloudTop && ichimoku.tenkan > ichimoku.kijun) return bullish('السعر فوق سحابة Ichimoku و Tenkan فوق Kijun');
+    if (price < cloudBottom && ichimoku.tenkan < ichimoku.kijun) return bearish('السعر تحت سحابة Ichimoku و Tenkan تحت Kijun');
+    return null;
+  },
+  KELTNER: ({ price, keltner }) => {
+    if (!keltner) return null;
+    if (price < keltner.lower) return bullish('السعر تحت الحد السفلي لقناة Keltner');
+    if (price > keltner.upper) return bearish('السعر فوق الحد العلوي لقناة Keltner');
+    return null;
+  },
+  DONCHIAN: ({ price, donchian }) => {
+    if (!donchian) return null;
+    if (price >= donchian.upper) return bullish('كسر أعلى قناة Donchian');
+    if (price <= donchian.lower) return bearish('كسر أدنى قناة Donchian');
+    return null;
+  },
+  OBV: ({ obv }) => {
+    if (!obv || obv.value === obv.average) return null;
+    return obv.value > obv.average ? bullish('OBV فوق متوسطه (تدفق حجم شرائي)') : bearish('OBV تحت متوسطه (تدفق حجم بيعي)');
+  },
+  MFI: ({ mfi }) => {
+    if (mfi === null) return null;
+    if (mfi < 20) return bullish('MFI في منطقة التشبع البيعي');
+    if (mfi > 80) return bearish('MFI في منطقة التشبع الشرائي');
+    return null;
+  },
+  CCI: ({ cci }) => {
+    if (cci === null) return null;
+    if (cci < -100) return bullish('CCI تحت -100');
+    if (cci > 100) return bearish('CCI فوق 100');
+    return null;
+  },
+  WILLIAMS_R: ({ williamsR }) => {
+    if (williamsR === null) return null;
+    if (williamsR < -80) return bullish('Williams %R في منطقة التشبع البيعي');
+    if (williamsR > -20) return bearish('Williams %R في منطقة التشبع الشرائي');
+    return null;
+  },
+  PARABOLIC_SAR: ({ parabolicSar }) => {
+    if (!parabolicSar) return null;
+    return parabolicSar.trend === 'UP' ? bullish('Parabolic SAR تحت السعر') : bearish('Parabolic SAR فوق السعر');
+  }
+};
+
+/**
+ * مؤشر تدفقي: كل update يضيف قيمة واحدة بتكلفة O(1) ويعيد القيمة الحالية
+ * (null قبل توفر بيانات كافية لتعريف المؤشر)
+ */
+export interface StreamingIndicator<TInput, TOutput> {
+  update(input: TInput): TOutput | null;
+  readonly value: TOutput | null;
+  reset(): void;
+}
+
+export type PriceBar = Pick<CandleData, 'high' | 'low' | 'close'>;
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface ADXValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface BandsValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface SuperTrendValue {
+  value: number;
+  trend: 'UP' | 'DOWN';
+  upper: number;
+  lower: number;
+}
+
+export interface IchimokuValue {
+  tenkan: number;
+  kijun: number;
+  senkouA: number; // القيم القائدة المحسوبة الآن (ترسم بعد displacement شمعة)
+  senkouB: number;
+  cloudA: number | null; // السحابة عند الشمعة الحالية (محسوبة قبل displacement - 1 شمعة)
+  cloudB: number | null;
+}
+
+export interface ParabolicSARValue {
+  sar: number;
+  trend: 'UP' | 'DOWN';
+}
+
+function trueRange(bar: PriceBar, previousClose: number): number {
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previousClose),
+    Math.abs(bar.low - previousClose)
+  );
+}
+
+// EMA تبدأ من أول قيمة (نفس سلوك calculateEMA السابق)
+export class EMAIndicator implements StreamingIndicator<number, number> {
+  private readonly multiplier: number;
+  private current: number | null = null;
+
+  constructor(period: number) {
+    this.multiplier = 2 / (period + 1);
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(price: number): number {
+    this.current = this.current === null
+      ? price
+      : (price * this.multiplier) + (this.current * (1 - this.multiplier));
+    return this.current;
+  }
+
+  reset(): void {
+    this.current = null;
+  }
+}
+
+// RSI بتنعيم Wilder: المتوسط الأول بسيط لأول period تغيرات ثم (avg * (n - 1) + x) / n
+export class RSIIndicator implements StreamingIndicator<number, number> {
+  private readonly period: number;
+  private previous: number | null = null;
+  private changes = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+  private current: number | null = null;
+
+  constructor(period: number = 14) {
+    this.period = period;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(price: number): number | null {
+    if (this.previous === null) {
+      this.previous = price;
+      return null;
+    }
+
+    const change = price - this.previous;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    this.previous = price;
+    this.changes++;
+
+    if (this.changes <= this.period) {
+      // تجميع مجموع أول period تغيرات ثم قسمته مرة واحدة
+      this.avgGain += gain;
+      this.avgLoss += loss;
+      if (this.changes < this.period) return null;
+      this.avgGain /= this.period;
+      this.avgLoss /= this.period;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    if (this.avgLoss === 0) {
+      // سعر ثابت تماماً = 50 وليس 100
+      this.current = this.avgGain === 0 ? 50 : 100;
+    } else {
+      this.current = 100 - (100 / (1 + this.avgGain / this.avgLoss));
+    }
+    return this.current;
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.changes = 0;
+    this.avgGain = 0;
+    this.avgLoss = 0;
+    this.current = null;
+  }
+}
+
+// MACD مع خط إشارة حقيقي: EMA لسلسلة MACD وليس لقيمتها الأخيرة فقط
+export class MACDIndicator implements StreamingIndicator<number, MACDValue> {
+  private readonly fast: EMAIndicator;
+  private readonly slow: EMAIndicator;
+  private readonly signal: EMAIndicator;
+  private current: MACDValue | null = null;
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    this.fast = new EMAIndicator(fastPeriod);
+    this.slow = new EMAIndicator(slowPeriod);
+    this.signal = new EMAIndicator(signalPeriod);
+  }
+
+  get value(): MACDValue | null {
+    return this.current;
+  }
+
+  update(price: number): MACDValue {
+    const macd = this.fast.update(price) - this.slow.update(price);
+    const signal = this.signal.update(macd);
+    this.current = { macd, signal, histogram: macd - signal };
+    return this.current;
+  }
+
+  reset(): void {
+    this.fast.reset();
+    this.slow.reset();
+    this.signal.reset();
+    this.current = null;
+  }
+}
+
+// ATR بتنعيم Wilder، أول True Range يحتاج إغلاق الشمعة السابقة
+export class ATRIndicator implements StreamingIndicator<PriceBar, number> {
+  private readonly period: number;
+  private previousClose: number | null = null;
+  private ranges = 0;
+  private current: number | null = null;
+  private sum = 0;
+
+  constructor(period: number = 14) {
+    this.period = period;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): number | null {
+    if (this.previousClose === null) {
+      this.previousClose = bar.close;
+      return null;
+    }
+
+    const range = trueRange(bar, this.previousClose);
+    this.previousClose = bar.close;
+    this.ranges++;
+
+    if (this.ranges <= this.period) {
+      this.sum += range;
+      if (this.ranges < this.period) return null;
+      this.current = this.sum / this.period;
+    } else if (this.current !== null) {
+      this.current = (this.current * (this.period - 1) + range) / this.period;
+    }
+    return this.current;
+  }
+
+  reset(): void {
+    this.previousClose = null;
+    this.ranges = 0;
+    this.sum = 0;
+    this.current = null;
+  }
+}
+
+// ADX حسب Wilder: تنعيم TR و DM بالمجاميع، ثم ADX = متوسط DX المنعم (يحتاج 2 * period شمعة)
+export class ADXIndicator implements StreamingIndicator<PriceBar, ADXValue> {
+  private readonly period: number;
+  private previous: PriceBar | null = null;
+  private bars = 0;
+  private smoothedTR = 0;
+  private smoothedPlusDM = 0;
+  private smoothedMinusDM = 0;
+  private dxCount = 0;
+  private dxSum = 0;
+  private adx: number | null = null;
+  private current: ADXValue | null = null;
+
+  constructor(period: number = 14) {
+    this.period = period;
+  }
+
+  get value(): ADXValue | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): ADXValue | null {
+    if (this.previous === null) {
+      this.previous = bar;
+      return null;
+    }
+
+    const upMove = bar.high - this.previous.high;
+    const downMove = this.previous.low - bar.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const range = trueRange(bar, this.previous.close);
+    this.previous = bar;
+    this.bars++;
+
+    if (this.bars <= this.period) {
+      this.smoothedTR += range;
+      this.smoothedPlusDM += plusDM;
+      this.smoothedMinusDM += minusDM;
+      if (this.bars < this.period) return null;
+    } else {
+      this.smoothedTR += range - this.smoothedTR / this.period;
+      this.smoothedPlusDM += plusDM - this.smoothedPlusDM / this.period;
+      this.smoothedMinusDM += minusDM - this.smoothedMinusDM / this.period;
+    }
+
+    const plusDI = this.smoothedTR === 0 ? 0 : (this.smoothedPlusDM / this.smoothedTR) * 100;
+    const minusDI = this.smoothedTR === 0 ? 0 : (this.smoothedMinusDM / this.smoothedTR) * 100;
+    const diSum = plusDI + minusDI;
+    const dx = diSum === 0 ? 0 : (Math.abs(plusDI - minusDI) / diSum) * 100;
+    this.dxCount++;
+
+    if (this.dxCount <= this.period) {
+      this.dxSum += dx;
+      if (this.dxCount < this.period) return null;
+      this.adx = this.dxSum / this.period;
+    } else if (this.adx !== null) {
+      this.adx = (this.adx * (this.period - 1) + dx) / this.period;
+    }
+
+    this.current = { adx: this.adx ?? 0, plusDI, minusDI };
+    return this.current;
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.bars = 0;
+    this.smoothedTR = 0;
+    this.smoothedPlusDM = 0;
+    this.smoothedMinusDM = 0;
+    this.dxCount = 0;
+    this.dxSum = 0;
+    this.adx = null;
+    this.current = null;
+  }
+}
+
+// أعلى أو أدنى قيمة في نافذة متحركة (طابور رتيب، O(1) بالمتوسط)
+class RollingExtreme {
+  private readonly period: number;
+  private readonly isBetter: (a: number, b: number) => boolean;
+  private queue: Array<{ index: number; value: number }> = [];
+  private count = 0;
+
+  constructor(period: number, kind: 'MAX' | 'MIN') {
+    this.period = period;
+    this.isBetter = kind === 'MAX' ? (a, b) => a >= b : (a, b) => a <= b;
+  }
+
+  update(value: number): number | null {
+    while (this.queue.length > 0 && this.isBetter(value, this.queue[this.queue.length - 1].value)) {
+      this.queue.pop();
+    }
+    this.queue.push({ index: this.count, value });
+    if (this.queue[0].index <= this.count - this.period) this.queue.shift();
+    this.count++;
+    return this.count >= this.period ? this.queue[0].value : null;
+  }
+
+  reset(): void {
+    this.queue = [];
+    this.count = 0;
+  }
+}
+
+// أعلى قمة وأدنى قاع لآخر period شمعة
+class RollingRange {
+  private readonly highest: RollingExtreme;
+  private readonly lowest: RollingExtreme;
+
+  constructor(period: number) {
+    this.highest = new RollingExtreme(period, 'MAX');
+    this.lowest = new RollingExtreme(period, 'MIN');
+  }
+
+  update(bar: PriceBar): { high: number; low: number } | null {
+    const high = this.highest.update(bar.high);
+    const low = this.lowest.update(bar.low);
+    return high === null || low === null ? null : { high, low };
+  }
+
+  reset(): void {
+    this.highest.reset();
+    this.lowest.reset();
+  }
+}
+
+const typicalPrice = (bar: PriceBar): number => (bar.high + bar.low + bar.close) / 3;
+
+// VWAP للجلسة: يبدأ من جديد مع كل جلسة (يوم UTC افتراضياً)
+export class VWAPIndicator implements StreamingIndicator<CandleData, number> {
+  private readonly sessionLength: number;
+  private session: number | null = null;
+  private priceVolume = 0;
+  private volume = 0;
+  private current: number | null = null;
+
+  constructor(sessionLength: number = 24 * 60 * 60 * 1000) {
+    this.sessionLength = sessionLength;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(candle: CandleData): number | null {
+    const session = Math.floor(candle.timestamp / this.sessionLength);
+    if (session !== this.session) {
+      this.session = session;
+      this.priceVolume = 0;
+      this.volume = 0;
+    }
+
+    this.priceVolume += typicalPrice(candle) * candle.volume;
+    this.volume += candle.volume;
+    this.current = this.volume > 0 ? this.priceVolume / this.volume : null;
+    return this.current;
+  }
+
+  reset(): void {
+    this.session = null;
+    this.priceVolume = 0;
+    this.volume = 0;
+    this.current = null;
+  }
+}
+
+// VWAP مثبت من لحظة محددة (null للشموع السابقة لها)
+export class AnchoredVWAPIndicator implements StreamingIndicator<CandleData, number> {
+  private readonly anchor: number;
+  private priceVolume = 0;
+  private volume = 0;
+  private current: number | null = null;
+
+  constructor(anchor: number) {
+    this.anchor = anchor;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(candle: CandleData): number | null {
+    if (candle.timestamp < this.anchor) return null;
+
+    this.priceVolume += typicalPrice(candle) * candle.volume;
+    this.volume += candle.volume;
+    this.current = this.volume > 0 ? this.priceVolume / this.volume : null;
+    return this.current;
+  }
+
+  reset(): void {
+    this.priceVolume = 0;
+    this.volume = 0;
+    this.current = null;
+  }
+}
+
+// SuperTrend: نطاقات ATR حول (high + low) / 2 لا تتراجع إلا بعد انعكاس الاتجاه
+export class SuperTrendIndicator implements StreamingIndicator<PriceBar, SuperTrendValue> {
+  private readonly multiplier: number;
+  private readonly atr: ATRIndicator;
+  private previousClose: number | null = null;
+  private current: SuperTrendValue | null = null;
 
-    let gains = 0;
-    let losses = 0;
+  constructor(period: number = 10, multiplier: number = 3) {
+    this.multiplier = multiplier;
+    this.atr = new ATRIndicator(period);
+  }
+
+  get value(): SuperTrendValue | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): SuperTrendValue | null {
+    const atr = this.atr.update(bar);
+    const previousClose = this.previousClose;
+    this.previousClose = bar.close;
+    if (atr === null || previousClose === null) return null;
+
+    const middle = (bar.high + bar.low) / 2;
+    let upper = middle + this.multiplier * atr;
+    let lower = middle - this.multiplier * atr;
+    let trend: 'UP' | 'DOWN' = 'DOWN';
 
-    // حساب المتوسط الأولي للمكاسب والخسائر
-    for (let i = 1; i <= period; i++) {
-      const change = prices[i] - prices[i - 1];
-      if (change > 0) {
-        gains += change;
+    if (this.current) {
+      const previous = this.current;
+      if (upper > previous.upper && previousClose <= previous.upper) upper = previous.upper;
+      if (lower < previous.lower && previousClose >= previous.lower) lower = previous.lower;
+
+      if (previous.trend === 'UP') {
+        trend = bar.close < lower ? 'DOWN' : 'UP';
       } else {
-        losses += Math.abs(change);
+        trend = bar.close > upper ? 'UP' : 'DOWN';
       }
+    } else if (bar.close > upper) {
+      trend = 'UP';
     }
 
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
+    this.current = { value: trend === 'UP' ? lower : upper, trend, upper, lower };
+    return this.current;
+  }
+
+  reset(): void {
+    this.atr.reset();
+    this.previousClose = null;
+    this.current = null;
+  }
+}
+
+// Ichimoku Cloud، السحابة الحالية هي قيم Senkou المحسوبة قبل displacement - 1 شمعة (مثل TradingView)
+export class IchimokuIndicator implements StreamingIndicator<PriceBar, IchimokuValue> {
+  private readonly displacement: number;
+  private readonly tenkanRange: RollingRange;
+  private readonly kijunRange: RollingRange;
+  private readonly senkouRange: RollingRange;
+  private leading: Array<{ senkouA: number; senkouB: number }> = [];
+  private current: IchimokuValue | null = null;
+
+  constructor(tenkanPeriod: number = 9, kijunPeriod: number = 26, senkouPeriod: number = 52, displacement: number = 26) {
+    this.displacement = displacement;
+    this.tenkanRange = new RollingRange(tenkanPeriod);
+    this.kijunRange = new RollingRange(kijunPeriod);
+    this.senkouRange = new RollingRange(senkouPeriod);
+  }
+
+  get value(): IchimokuValue | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): IchimokuValue | null {
+    const tenkanRange = this.tenkanRange.update(bar);
+    const kijunRange = this.kijunRange.update(bar);
+    const senkouRange = this.senkouRange.update(bar);
+    if (!tenkanRange || !kijunRange || !senkouRange) return null;
+
+    const tenkan = (tenkanRange.high + tenkanRange.low) / 2;
+    const kijun = (kijunRange.high + kijunRange.low) / 2;
+    const senkouA = (tenkan + kijun) / 2;
+    const senkouB = (senkouRange.high + senkouRange.low) / 2;
+
+    this.leading.push({ senkouA, senkouB });
+    if (this.leading.length > this.displacement) this.leading.shift();
+    const cloud = this.leading.length === this.displacement ? this.leading[0] : null;
+
+    this.current = {
+      tenkan,
+      kijun,
+      senkouA,
+      senkouB,
+      cloudA: cloud ? cloud.senkouA : null,
+      cloudB: cloud ? cloud.senkouB : null
+    };
+    return this.current;
+  }
+
+  reset(): void {
+    this.tenkanRange.reset();
+    this.kijunRange.reset();
+    this.senkouRange.reset();
+    this.leading = [];
+    this.current = null;
+  }
+}
+
+// Keltner Channels: EMA للإغلاق ± multiplier * ATR
+export class KeltnerIndicator implements StreamingIndicator<PriceBar, BandsValue> {
+  private readonly multiplier: number;
+  private readonly ema: EMAIndicator;
+  private readonly atr: ATRIndicator;
+  private current: BandsValue | null = null;
+
+  constructor(period: number = 20, multiplier: number = 2, atrPeriod: number = 10) {
+    this.multiplier = multiplier;
+    this.ema = new EMAIndicator(period);
+    this.atr = new ATRIndicator(atrPeriod);
+  }
+
+  get value(): BandsValue | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): BandsValue | null {
+    const middle = this.ema.update(bar.close);
+    const atr = this.atr.update(bar);
+    if (atr === null) return null;
+
+    this.current = {
+      upper: middle + this.multiplier * atr,
+      middle,
+      lower: middle - this.multiplier * atr
+    };
+    return this.current;
+  }
+
+  reset(): void {
+    this.ema.reset();
+    this.atr.reset();
+    this.current = null;
+  }
+}
 
-    // حساب RSI للفترات المتبقية
-    for (let i = period + 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      const gain = change > 0 ? change : 0;
-      const loss = change < 0 ? Math.abs(change) : 0;
+// Donchian Channels: أعلى قمة وأدنى قاع لآخر period شمعة (تشمل الحالية)
+export class DonchianIndicator implements StreamingIndicator<PriceBar, BandsValue> {
+  private readonly range: RollingRange;
+  private current: BandsValue | null = null;
 
-      avgGain = (avgGain * (period - 1) + gain) / period;
-      avgLoss = (avgLoss * (period - 1) + loss) / period;
+  constructor(period: number = 20) {
+    this.range = new RollingRange(period);
+  }
+
+  get value(): BandsValue | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): BandsValue | null {
+    const range = this.range.update(bar);
+    if (!range) return null;
+
+    this.current = { upper: range.high, middle: (range.high + range.low) / 2, lower: range.low };
+    return this.current;
+  }
+
+  reset(): void {
+    this.range.reset();
+    this.current = null;
+  }
+}
+
+// On-Balance Volume: يبدأ من صفر ويضيف أو يطرح حجم الشمعة حسب اتجاه الإغلاق
+export class OBVIndicator implements StreamingIndicator<CandleData, number> {
+  private previousClose: number | null = null;
+  private current: number | null = null;
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(candle: CandleData): number {
+    let obv = this.current ?? 0;
+    if (this.previousClose !== null) {
+      if (candle.close > this.previousClose) obv += candle.volume;
+      else if (candle.close < this.previousClose) obv -= candle.volume;
     }
+    this.previousClose = candle.close;
+    this.current = obv;
+    return obv;
+  }
+
+  reset(): void {
+    this.previousClose = null;
+    this.current = null;
+  }
+}
+
+// Money Flow Index: RSI مرجح بالحجم على السعر النموذجي
+export class MFIIndicator implements StreamingIndicator<CandleData, number> {
+  private readonly period: number;
+  private previousTypical: number | null = null;
+  private flows: Array<{ positive: number; negative: number }> = [];
+  private positive = 0;
+  private negative = 0;
+  private current: number | null = null;
 
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
+  constructor(period: number = 14) {
+    this.period = period;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(candle: CandleData): number | null {
+    const typical = typicalPrice(candle);
+    const previousTypical = this.previousTypical;
+    this.previousTypical = typical;
+    if (previousTypical === null) return null;
+
+    const rawFlow = typical * candle.volume;
+    const flow = {
+      positive: typical > previousTypical ? rawFlow : 0,
+      negative: typical < previousTypical ? rawFlow : 0
+    };
+    this.flows.push(flow);
+    this.positive += flow.positive;
+    this.negative += flow.negative;
+
+    if (this.flows.length > this.period) {
+      const expired = this.flows.shift();
+      if (expired) {
+        this.positive -= expired.positive;
+        this.negative -= expired.negative;
+      }
+    }
+    if (this.flows.length < this.period) return null;
+
+    if (this.negative <= 0) {
+      this.current = this.positive <= 0 ? 50 : 100;
+    } else {
+      this.current = 100 - (100 / (1 + this.positive / this.negative));
+    }
+    return this.current;
+  }
+
+  reset(): void {
+    this.previousTypical = null;
+    this.flows = [];
+    this.positive = 0;
+    this.negative = 0;
+    this.current = null;
+  }
+}
+
+// Commodity Channel Index، الانحراف المتوسط يحتاج المرور على النافذة (O(period))
+export class CCIIndicator implements StreamingIndicator<PriceBar, number> {
+  private readonly period: number;
+  private window: number[] = [];
+  private sum = 0;
+  private current: number | null = null;
+
+  constructor(period: number = 20) {
+    this.period = period;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): number | null {
+    const typical = typicalPrice(bar);
+    this.window.push(typical);
+    this.sum += typical;
+    if (this.window.length > this.period) this.sum -= this.window.shift() ?? 0;
+    if (this.window.length < this.period) return null;
+
+    const mean = this.sum / this.period;
+    const meanDeviation = this.window.reduce((total, value) => total + Math.abs(value - mean), 0) / this.period;
+    this.current = meanDeviation === 0 ? 0 : (typical - mean) / (0.015 * meanDeviation);
+    return this.current;
+  }
+
+  reset(): void {
+    this.window = [];
+    this.sum = 0;
+    this.current = null;
+  }
+}
+
+// Williams %R بين -100 (عند القاع) و 0 (عند القمة)
+export class WilliamsRIndicator implements StreamingIndicator<PriceBar, number> {
+  private readonly range: RollingRange;
+  private current: number | null = null;
+
+  constructor(period: number = 14) {
+    this.range = new RollingRange(period);
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): number | null {
+    const range = this.range.update(bar);
+    if (!range) return null;
+
+    const width = range.high - range.low;
+    this.current = width === 0 ? -50 : ((range.high - bar.close) / width) * -100;
+    return this.current;
+  }
+
+  reset(): void {
+    this.range.reset();
+    this.current = null;
+  }
+}
+
+// Parabolic SAR حسب Wilder، الاتجاه الأولي من إغلاق الشمعة الثانية مقارنة بالأولى
+export class ParabolicSARIndicator implements StreamingIndicator<PriceBar, ParabolicSARValue> {
+  private readonly step: number;
+  private readonly maxStep: number;
+  private bars: PriceBar[] = []; // آخر شمعتين
+  private trend: 'UP' | 'DOWN' = 'UP';
+  private sar = 0;
+  private extreme = 0;
+  private acceleration = 0;
+  private current: ParabolicSARValue | null = null;
+
+  constructor(step: number = 0.02, maxStep: number = 0.2) {
+    this.step = step;
+    this.maxStep = maxStep;
+  }
+
+  get value(): ParabolicSARValue | null {
+    return this.current;
+  }
+
+  update(bar: PriceBar): ParabolicSARValue | null {
+    const [older, previous] = this.bars.length === 2 ? this.bars : [undefined, this.bars[0]];
+    this.bars = previous ? [previous, bar] : [bar];
+    if (!previous) return null;
+
+    if (!this.current) {
+      this.trend = bar.close >= previous.close ? 'UP' : 'DOWN';
+      this.sar = this.trend === 'UP' ? previous.low : previous.high;
+      this.extreme = this.trend === 'UP' ? Math.max(previous.high, bar.high) : Math.min(previous.low, bar.low);
+      this.acceleration = this.step;
+    } else if (this.trend === 'UP') {
+      this.sar = Math.min(this.sar + this.acceleration * (this.extreme - this.sar), previous.low, older ? older.low : previous.low);
+      if (bar.low < this.sar) {
+        this.reverse('DOWN', bar.low);
+      } else if (bar.high > this.extreme) {
+        this.extreme = bar.high;
+        this.acceleration = Math.min(this.acceleration + this.step, this.maxStep);
+      }
+    } else {
+      this.sar = Math.max(this.sar + this.acceleration * (this.extreme - this.sar), previous.high, older ? older.high : previous.high);
+      if (bar.high > this.sar) {
+        this.reverse('UP', bar.high);
+      } else if (bar.low < this.extreme) {
+        this.extreme = bar.low;
+        this.acceleration = Math.min(this.acceleration + this.step, this.maxStep);
+      }
+    }
+
+    this.current = { sar: this.sar, trend: this.trend };
+    return this.current;
+  }
+
+  // عند الانعكاس يصبح SAR هو الطرف الأقصى السابق
+  private reverse(trend: 'UP' | 'DOWN', extreme: number): void {
+    this.trend = trend;
+    this.sar = this.extreme;
+    this.extreme = extreme;
+    this.acceleration = this.step;
+  }
+
+  reset(): void {
+    this.bars = [];
+    this.trend = 'UP';
+    this.sar = 0;
+    this.extreme = 0;
+    this.acceleration = 0;
+    this.current = null;
+  }
+}
+
+export class TechnicalAnalysis {
+  
+  /**
+   * تمرير مصفوفة كاملة عبر مؤشر تدفقي وإرجاع السلسلة (null في فترة الإحماء)
+   */
+  public static series<TInput, TOutput>(indicator: StreamingIndicator<TInput, TOutput>, inputs: TInput[]): Array<TOutput | null> {
+    indicator.reset();
+    return inputs.map(input => indicator.update(input));
+  }
+
+  private static last<TInput, TOutput>(indicator: StreamingIndicator<TInput, TOutput>, inputs: TInput[]): TOutput | null {
+    for (const input of inputs) indicator.update(input);
+    return indicator.value;
+  }
+
+  // حساب RSI (Relative Strength Index)
+  public static calculateRSI(prices: number[], period: number = 14): number {
+    return this.last(new RSIIndicator(period), prices) ?? 50;
   }
 
   // حساب MACD
-  public static calculateMACD(prices: number[]): { macd: number; signal: number; histogram: number } {
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    const macd = ema12 - ema26;
-    
-    // حساب إشارة MACD (EMA 9 للـ MACD)
-    const macdLine = [macd]; // في التطبيق الحقيقي، نحتاج لحساب MACD لعدة فترات
-    const signal = this.calculateEMA(macdLine, 9);
-    const histogram = macd - signal;
+  public static calculateMACD(
+    prices: number[],
+    fastPeriod: number = 12,
+    slowPeriod: number = 26,
+    signalPeriod: number = 9
+  ): MACDValue {
+    return this.last(new MACDIndicator(fastPeriod, slowPeriod, signalPeriod), prices)
+      ?? { macd: 0, signal: 0, histogram: 0 };
+  }
+
+  // حساب ATR (Average True Range)
+  public static calculateATR(bars: PriceBar[], period: number = 14): number {
+    return this.last(new ATRIndicator(period), bars) ?? 0;
+  }
 
-    return { macd, signal, histogram };
+  // حساب ADX (Average Directional Index)
+  public static calculateADX(bars: PriceBar[], period: number = 14): number {
+    return this.last(new ADXIndicator(period), bars)?.adx ?? 0;
   }
 
   // حساب Bollinger Bands
@@ -99,17 +1017,7 @@ export class TechnicalAnalysis {
 
   // حساب EMA (Exponential Moving Average)
   public static calculateEMA(prices: number[], period: number): number {
-    if (prices.length === 0) return 0;
-    if (prices.length === 1) return prices[0];
-
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-
-    return ema;
+    return this.last(new EMAIndicator(period), prices) ?? 0;
   }
 
   // حساب SMA (Simple Moving Average)
@@ -151,6 +1059,7 @@ export class TechnicalAnalysis {
     const closes = candles.map(c => c.close);
     const highs = candles.map(c => c.high);
     const lows = candles.map(c => c.low);
+    const obvSeries = this.series(new OBVIndicator(), candles).map(value => value ?? 0);
 
     return {
       rsi: this.calculateRSI(closes),
@@ -164,61 +1073,49 @@ export class TechnicalAnalysis {
         sma20: this.calculateSMA(closes, 20),
         sma50: this.calculateSMA(closes, 50)
       },
-      stochastic: this.calculateStochastic(highs, lows, closes)
+      stochastic: this.calculateStochastic(highs, lows, closes),
+      price: closes.length > 0 ? closes[closes.length - 1] : 0,
+      vwap: this.last(new VWAPIndicator(), candles),
+      superTrend: this.last(new SuperTrendIndicator(), candles),
+      ichimoku: this.last(new IchimokuIndicator(), candles),
+      keltner: this.last(new KeltnerIndicator(), candles),
+      donchian: this.last(new DonchianIndicator(), candles),
+      obv: obvSeries.length > 0
+        ? { value: obvSeries[obvSeries.length - 1], average: this.calculateEMA(obvSeries, 20) }
+        : null,
+      mfi: this.last(new MFIIndicator(), candles),
+      cci: this.last(new CCIIndicator(), candles),
+      williamsR: this.last(new WilliamsRIndicator(), candles),
+      parabolicSar: this.last(new ParabolicSARIndicator(), candles)
     };
   }
 
-  // توليد إشارة تداول بناءً على المؤشرات
-  public static generateSignal(indicators: TechnicalIndicators): { action: 'BUY' | 'SELL' | 'HOLD'; confidence: number; reasons: string[] } {
-    const reasons: string[] = [];
-    let bullishSignals = 0;
-    let bearishSignals = 0;
-
-    // تحليل RSI
-    if (indicators.rsi < 30) {
-      bullishSignals++;
-      reasons.push('RSI في منطقة التشبع البيعي');
-    } else if (indicators.rsi > 70) {
-      bearishSignals++;
-      reasons.push('RSI في منطقة التشبع الشرائي');
-    }
+  /**
+   * تصويت المؤشرات المختارة (صاعد/هابط) مع الأسباب
+   */
+  public static voteIndicators(
+    indicators: TechnicalIndicators,
+    inputs: SignalInput[] = DEFAULT_SIGNAL_INPUTS
+  ): { bullish: number; bearish: number; reasons: string[] } {
+    const votes = { bullish: 0, bearish: 0, reasons: [] as string[] };
 
-    // تحليل MACD
-    if (indicators.macd.macd > indicators.macd.signal && indicators.macd.histogram > 0) {
-      bullishSignals++;
-      reasons.push('MACD يظهر زخم صاعد');
-    } else if (indicators.macd.macd < indicators.macd.signal && indicators.macd.histogram < 0) {
-      bearishSignals++;
-      reasons.push('MACD يظهر زخم هابط');
+    for (const input of inputs) {
+      const vote = SIGNAL_RULES[input](indicators);
+      if (!vote) continue;
+      if (vote.direction === 'BULLISH') votes.bullish++;
+      else votes.bearish++;
+      votes.reasons.push(vote.reason);
     }
 
-    // تحليل Bollinger Bands
-    const currentPrice = indicators.bollinger.middle; // تقريبي
-    if (currentPrice < indicators.bollinger.lower) {
-      bullishSignals++;
-      reasons.push('السعر تحت الحد السفلي لـ Bollinger Bands');
-    } else if (currentPrice > indicators.bollinger.upper) {
-      bearishSignals++;
-      reasons.push('السعر فوق الحد العلوي لـ Bollinger Bands');
-    }
-
-    // تحليل EMA
-    if (indicators.ema.ema12 > indicators.ema.ema26) {
-      bullishSignals++;
-      reasons.push('EMA 12 فوق EMA 26');
-    } else {
-      bearishSignals++;
-      reasons.push('EMA 12 تحت EMA 26');
-    }
+    return votes;
+  }
 
-    // تحليل Stochastic
-    if (indicators.stochastic.k < 20 && indicators.stochastic.d < 20) {
-      bullishSignals++;
-      reasons.push('Stochastic في منطقة التشبع البيعي');
-    } else if (indicators.stochastic.k > 80 && indicators.stochastic.d > 80) {
-      bearishSignals++;
-      reasons.push('Stochastic في منطقة التشبع الشرائي');
-    }
+  // توليد إشارة تداول بناءً على المؤشرات المختارة
+  public static generateSignal(
+    indicators: TechnicalIndicators,
+    inputs: SignalInput[] = DEFAULT_SIGNAL_INPUTS
+  ): { action: 'BUY' | 'SELL' | 'HOLD'; confidence: number; reasons: string[] } {
+    const { bullish: bullishSignals, bearish: bearishSignals, reasons } = this.voteIndicators(indicators, inputs);
 
     // تحديد الإشارة النهائية
     const totalSignals = bullishSignals + bearishSignals;
@@ -235,6 +1132,26 @@ export class TechnicalAnalysis {
     return { action, confidence, reasons };
   }
 
+  /**
+   * تأكيد إشارة استراتيجية بمؤشرات إضافية: +5 لكل مؤشر موافق و -5 لكل مؤشر معاكس
+   */
+  public static confirmAction(
+    candles: CandleData[],
+    action: 'BUY' | 'SELL',
+    inputs: SignalInput[]
+  ): { confidence: number; reasons: string[] } {
+    if (inputs.length === 0) return { confidence: 0, reasons: [] };
+
+    const votes = this.voteIndicators(this.analyzeCandles(candles), inputs);
+    const agreeing = action === 'BUY' ? votes.bullish : votes.bearish;
+    const opposing = action === 'BUY' ? votes.bearish : votes.bullish;
+
+    return {
+      confidence: (agreeing - opposing) * 5,
+      reasons: agreeing > 0 ? [`تأكيد من ${agreeing} من ${inputs.length} مؤشرات إضافية`] : []
+    };
+  }
+
   // كشف الأنماط الفنية
   public static detectPatterns(candles: CandleData[]): string[] {
     const patterns: string[] = [];
@@ -0,0 +1,60 @@
+import { CandleData } from './TechnicalAnalysis';
+
+/**
+ * شموع عدة أطر زمنية للرمز نفسه، مفتاحها فترة Binance (مثل '1m' و '15m' و '4h')
+ */
+export type MultiTimeframeCandles = Record<string, CandleData[]>;
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  M: 30 * 24 * 60 * 60 * 1000 // تقريبي، يكفي للترتيب والمحاذاة
+};
+
+/**
+ * مدة الفترة بالمللي ثانية ('15m' = 900000)
+ */
+export function intervalToMs(interval: string): number {
+  const match = interval.match(/^(\d+)([mhdwM])$/);
+  if (!match) throw new Error(`Invalid interval: ${interval}`);
+  return parseInt(match[1], 10) * UNIT_MS[match[2]];
+}
+
+/**
+ * ترتيب الأطر من الأصغر إلى الأكبر
+ */
+export function sortTimeframes(timeframes: string[]): string[] {
+  return [...timeframes].sort((a, b) => intervalToMs(a) - intervalToMs(b));
+}
+
+/**
+ * وقت إغلاق آخر شمعة في الإطار الأصغر (نقطة المزامنة لباقي الأطر)
+ */
+export function latestCloseTime(series: MultiTimeframeCandles): number {
+  const [lowest] = sortTimeframes(Object.keys(series));
+  const candles = lowest ? series[lowest] : [];
+  if (candles.length === 0) return 0;
+  return candles[candles.length - 1].timestamp + intervalToMs(lowest);
+}
+
+/**
+ * محاذاة الأطر بدون نظر للمستقبل: كل شمعة في إطار أكبر يجب أن تكون مغلقة عند asOf
+ * الإطار الأصغر يبقى كما هو (شمعته الأخيرة هي لحظة القرار)
+ */
+export function alignTimeframes(series: MultiTimeframeCandles, asOf: number = latestCloseTime(series)): MultiTimeframeCandles {
+  const [lowest] = sortTimeframes(Object.keys(series));
+  const aligned: MultiTimeframeCandles = {};
+
+  for (const [interval, candles] of Object.entries(series)) {
+    if (interval === lowest) {
+      aligned[interval] = candles.filter(candle => candle.timestamp < asOf);
+      continue;
+    }
+    const duration = intervalToMs(interval);
+    aligned[interval] = candles.filter(candle => candle.timestamp + duration <= asOf);
+  }
+
+  return aligned;
+}